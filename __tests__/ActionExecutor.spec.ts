@@ -0,0 +1,162 @@
+import type { Bot } from 'mineflayer';
+import { ActionExecutor } from '../src/minecraft/ActionExecutor.js';
+import type { ActionConcurrency, ActionContext, ActionResult, GameAction } from '../src/minecraft/ActionInterface.js';
+
+const bot = {} as unknown as Bot;
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * 测试用动作：执行时记录开始顺序，等到 release() 或被取消后结束
+ */
+class TestAction implements GameAction {
+  description = 'test';
+  started = 0;
+  private releases: Array<() => void> = [];
+
+  constructor(
+    public name: string,
+    private log: string[],
+    public concurrency: ActionConcurrency = 'exclusive',
+    public priority = 0,
+    /** 收到取消信号后延迟多久才结束 */
+    private abortDelayMs = 0
+  ) {}
+
+  execute(_bot: Bot, _params: any, context?: ActionContext): Promise<ActionResult> {
+    this.started++;
+    this.log.push(`start:${this.name}`);
+    return new Promise<ActionResult>(resolve => {
+      const finish = () => {
+        this.log.push(`end:${this.name}`);
+        resolve({ success: true, message: this.name });
+      };
+      this.releases.push(finish);
+      context?.signal?.addEventListener('abort', () => setTimeout(finish, this.abortDelayMs), { once: true });
+    });
+  }
+
+  release(): void {
+    this.releases.shift()?.();
+  }
+
+  validateParams(): boolean {
+    return true;
+  }
+
+  getParamsSchema(): Record<string, string> {
+    return {};
+  }
+}
+
+describe('ActionExecutor', () => {
+  let executor: ActionExecutor;
+  let log: string[];
+
+  beforeEach(() => {
+    executor = new ActionExecutor();
+    log = [];
+  });
+
+  it('runs exclusive actions one at a time in priority order', async () => {
+    const first = new TestAction('first', log, 'exclusive', 5);
+    const low = new TestAction('low', log);
+    const high = new TestAction('high', log);
+    [first, low, high].forEach(action => executor.register(action));
+
+    const firstResult = executor.queueAction('first', bot, {});
+    await sleep(10);
+    const lowResult = executor.queueAction('low', bot, {}, 1);
+    const highResult = executor.queueAction('high', bot, {}, 3);
+    await sleep(10);
+    expect(executor.getQueueStatus().queued.map(item => item.name)).toEqual(['high', 'low']);
+    expect(low.started + high.started).toBe(0);
+
+    first.release();
+    await firstResult;
+    await sleep(10);
+    high.release();
+    await highResult;
+    await sleep(10);
+    low.release();
+    await lowResult;
+
+    expect(log).toEqual(['start:first', 'end:first', 'start:high', 'end:high', 'start:low', 'end:low']);
+  });
+
+  it('preempts a running action when a higher priority action is queued', async () => {
+    const background = new TestAction('background', log);
+    const urgent = new TestAction('urgent', log);
+    executor.register(background);
+    executor.register(urgent);
+
+    const backgroundResult = executor.queueAction('background', bot, {}, 0);
+    await sleep(10);
+    const urgentResult = executor.queueAction('urgent', bot, {}, 10);
+
+    expect(await backgroundResult).toMatchObject({ success: false, error: 'PREEMPTED' });
+    await sleep(10);
+    urgent.release();
+    expect(await urgentResult).toMatchObject({ success: true });
+    expect(log).toEqual(['start:background', 'end:background', 'start:urgent', 'end:urgent']);
+  });
+
+  it('runs parallel actions alongside the exclusive action', async () => {
+    const exclusive = new TestAction('move', log);
+    const query = new TestAction('query_state', log, 'parallel');
+    executor.register(exclusive);
+    executor.register(query);
+
+    const exclusiveResult = executor.queueAction('move', bot, {});
+    await sleep(10);
+    const queryResult = executor.queueAction('query_state', bot, {});
+    await sleep(10);
+    query.release();
+    expect(await queryResult).toMatchObject({ success: true });
+    expect(executor.getQueueStatus().isProcessing).toBe(true);
+
+    exclusive.release();
+    await exclusiveResult;
+    expect(log).toEqual(['start:move', 'start:query_state', 'end:query_state', 'end:move']);
+  });
+
+  it('holds the exclusive slot until a cancelled action has settled', async () => {
+    const slow = new TestAction('slow', log, 'exclusive', 0, 100);
+    const next = new TestAction('next', log);
+    executor.register(slow);
+    executor.register(next);
+
+    const slowResult = executor.queueAction('slow', bot, {});
+    await sleep(10);
+    const nextResult = executor.queueAction('next', bot, {});
+    const [running] = executor.getQueueStatus().running;
+    expect(executor.cancel(running.id)).toBe(true);
+
+    expect(await slowResult).toMatchObject({ success: false, error: 'CANCELLED' });
+    await sleep(10);
+    expect(next.started).toBe(1);
+    expect(log.indexOf('end:slow')).toBeLessThan(log.indexOf('start:next'));
+
+    next.release();
+    await nextResult;
+  });
+
+  it('removes an action from the queue when the caller cancels it', async () => {
+    const first = new TestAction('first', log);
+    const queued = new TestAction('queued', log);
+    executor.register(first);
+    executor.register(queued);
+
+    const firstResult = executor.queueAction('first', bot, {});
+    await sleep(10);
+    const controller = new AbortController();
+    const queuedResult = executor.queueAction('queued', bot, {}, 0, undefined, { reportProgress: () => {}, signal: controller.signal });
+    controller.abort();
+
+    expect(await queuedResult).toMatchObject({ success: false, error: 'CANCELLED' });
+    expect(executor.getQueueStatus().queued).toHaveLength(0);
+    first.release();
+    await firstResult;
+    expect(queued.started).toBe(0);
+  });
+});
@@ -0,0 +1,40 @@
+import { BrewingUtils } from '../src/utils/BrewingUtils.js';
+
+describe('BrewingUtils.plan', () => {
+  it('builds the chain from a water bottle', () => {
+    expect(BrewingUtils.plan('potion_of_healing')).toEqual({
+      potion: 'healing',
+      item: 'potion',
+      steps: [
+        { ingredient: 'nether_wart', potion: 'awkward', item: 'potion' },
+        { ingredient: 'glistering_melon_slice', potion: 'healing', item: 'potion' },
+      ],
+    });
+  });
+
+  it('adds modifiers and converts to splash and lingering potions', () => {
+    const plan = BrewingUtils.plan('lingering_strong_swiftness');
+
+    expect(plan?.potion).toBe('strong_swiftness');
+    expect(plan?.item).toBe('lingering_potion');
+    expect(plan?.steps.map(step => step.ingredient)).toEqual(['nether_wart', 'sugar', 'glowstone_dust', 'gunpowder', 'dragon_breath']);
+    expect(plan?.steps.map(step => step.item)).toEqual(['potion', 'potion', 'potion', 'splash_potion', 'lingering_potion']);
+  });
+
+  it('follows corrupted potions back to their base', () => {
+    const plan = BrewingUtils.plan('long_invisibility');
+
+    expect(plan?.steps.map(step => step.potion)).toEqual(['awkward', 'night_vision', 'invisibility', 'long_invisibility']);
+  });
+
+  it('accepts several spellings', () => {
+    expect(BrewingUtils.plan('minecraft:splash_potion_of_fire_resistance')?.potion).toBe('fire_resistance');
+    expect(BrewingUtils.plan('Night Vision Potion')?.potion).toBe('night_vision');
+  });
+
+  it('rejects unknown potions and modifiers the potion does not support', () => {
+    expect(BrewingUtils.plan('flying')).toBeNull();
+    expect(BrewingUtils.plan('long_healing')).toBeNull();
+    expect(BrewingUtils.plan('strong_fire_resistance')).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+import type { Bot } from 'mineflayer';
+import { CraftingPlanner } from '../src/utils/CraftingPlanner.js';
+
+const ITEMS = ['oak_log', 'oak_planks', 'stick', 'crafting_table', 'wooden_pickaxe'];
+const id = (name: string) => ITEMS.indexOf(name) + 1;
+
+/** 配方：产物、每次产出数量、材料和是否需要工作台 */
+const RECIPES: Record<string, { count: number; ingredients: Record<string, number>; requiresTable: boolean }> = {
+  oak_planks: { count: 4, ingredients: { oak_log: 1 }, requiresTable: false },
+  stick: { count: 4, ingredients: { oak_planks: 2 }, requiresTable: false },
+  crafting_table: { count: 1, ingredients: { oak_planks: 4 }, requiresTable: false },
+  wooden_pickaxe: { count: 1, ingredients: { oak_planks: 3, stick: 2 }, requiresTable: true },
+};
+
+function createBot(inventory: Record<string, number>): Bot {
+  return {
+    registry: {
+      itemsByName: Object.fromEntries(ITEMS.map(name => [name, { id: id(name), name }])),
+      items: Object.fromEntries(ITEMS.map(name => [id(name), { id: id(name), name }])),
+    },
+    inventory: {
+      items: () => Object.entries(inventory).map(([name, count]) => ({ name, count })),
+    },
+    recipesAll: (itemId: number) => {
+      const name = ITEMS[itemId - 1];
+      const recipe = RECIPES[name];
+      if (!recipe) return [];
+      return [{
+        result: { id: itemId, count: recipe.count },
+        delta: [
+          ...Object.entries(recipe.ingredients).map(([ingredient, count]) => ({ id: id(ingredient), count: -count })),
+          { id: itemId, count: recipe.count },
+        ],
+        requiresTable: recipe.requiresTable,
+      }];
+    },
+  } as unknown as Bot;
+}
+
+describe('CraftingPlanner.plan', () => {
+  it('expands intermediate steps and crafts a table first when none is available', () => {
+    const plan = CraftingPlanner.plan(createBot({ oak_log: 3 }), 'wooden_pickaxe', 1);
+
+    expect(plan.complete).toBe(true);
+    expect(plan.missing).toEqual([]);
+    expect(plan.fromInventory).toEqual([{ name: 'oak_log', count: 3 }]);
+    const items = plan.steps.map(step => step.item);
+    expect(items.indexOf('crafting_table')).toBeLessThan(items.indexOf('wooden_pickaxe'));
+    expect(items.indexOf('stick')).toBeLessThan(items.indexOf('wooden_pickaxe'));
+    expect(items[items.length - 1]).toBe('wooden_pickaxe');
+  });
+
+  it('uses surplus from earlier crafts before crafting again', () => {
+    const plan = CraftingPlanner.plan(createBot({ oak_log: 1 }), 'stick', 8, { hasCraftingTable: true });
+
+    expect(plan.complete).toBe(true);
+    expect(plan.steps).toEqual([
+      { item: 'oak_planks', crafts: 1, produced: 4, ingredients: [{ name: 'oak_log', count: 1 }], requiresTable: false },
+      { item: 'stick', crafts: 2, produced: 8, ingredients: [{ name: 'oak_planks', count: 4 }], requiresTable: false },
+    ]);
+  });
+
+  it('reports missing raw materials', () => {
+    const plan = CraftingPlanner.plan(createBot({}), 'stick', 4, { hasCraftingTable: true });
+
+    expect(plan.complete).toBe(false);
+    expect(plan.missing).toEqual([{ name: 'oak_log', count: 1 }]);
+  });
+
+  it('takes materials from known containers after the inventory', () => {
+    const position = { x: 10, y: 64, z: -3 };
+    const plan = CraftingPlanner.plan(createBot({ oak_log: 1 }), 'oak_planks', 12, {
+      containers: [{ position, blockName: 'chest', items: [{ name: 'oak_log', count: 5 }], updatedAt: 0 }],
+    });
+
+    expect(plan.complete).toBe(true);
+    expect(plan.fromInventory).toEqual([{ name: 'oak_log', count: 1 }]);
+    expect(plan.fromContainers).toEqual([{ name: 'oak_log', count: 2, position }]);
+  });
+});
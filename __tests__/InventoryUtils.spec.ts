@@ -0,0 +1,75 @@
+import type { Bot } from 'mineflayer';
+import type { Item } from 'prismarine-item';
+import { InventoryUtils } from '../src/utils/InventoryUtils.js';
+
+const TYPES: Record<string, { type: number; stackSize: number }> = {
+  cobblestone: { type: 1, stackSize: 64 },
+  ender_pearl: { type: 2, stackSize: 16 },
+  diamond_sword: { type: 3, stackSize: 1 },
+};
+
+function item(name: string, count: number, nbt?: unknown): Item {
+  return { name, count, metadata: 0, nbt: nbt ?? null, ...TYPES[name] } as unknown as Item;
+}
+
+/**
+ * 模拟 moveSlotItem：把源槽位尽量合并到目标槽位，放不下的留在原处
+ */
+function createWindow(slots: Array<Item | null>) {
+  const window = { slots };
+  const moves: Array<[number, number]> = [];
+  const bot = {
+    moveSlotItem: async (from: number, to: number) => {
+      moves.push([from, to]);
+      const source = window.slots[from]!;
+      const target = window.slots[to]!;
+      const moved = Math.min(source.count, target.stackSize - target.count);
+      target.count += moved;
+      source.count -= moved;
+      if (source.count === 0) window.slots[from] = null;
+    },
+  } as unknown as Bot;
+  return { window, bot, moves };
+}
+
+const counts = (slots: Array<Item | null>) => slots.map(slot => slot ? `${slot.name}:${slot.count}` : null);
+
+describe('InventoryUtils.mergeStacks', () => {
+  it('merges partial stacks of the same item into the earliest slot', async () => {
+    const { window, bot } = createWindow([
+      item('cobblestone', 20), item('ender_pearl', 10), item('cobblestone', 30), null, item('ender_pearl', 10),
+    ]);
+
+    const merges = await InventoryUtils.mergeStacks(bot, window, 0, window.slots.length);
+
+    expect(merges).toBe(2);
+    expect(counts(window.slots)).toEqual(['cobblestone:50', 'ender_pearl:16', null, null, 'ender_pearl:4']);
+  });
+
+  it('only touches slots inside the range', async () => {
+    const { window, bot, moves } = createWindow([item('cobblestone', 1), item('cobblestone', 1), item('cobblestone', 1)]);
+
+    await InventoryUtils.mergeStacks(bot, window, 1, 3);
+
+    expect(moves).toEqual([[2, 1]]);
+    expect(counts(window.slots)).toEqual(['cobblestone:1', 'cobblestone:2', null]);
+  });
+
+  it('skips unstackable items and items with different NBT', async () => {
+    const { window, bot, moves } = createWindow([
+      item('diamond_sword', 1), item('diamond_sword', 1), item('cobblestone', 5, { name: 'a' }), item('cobblestone', 5, { name: 'b' }),
+    ]);
+
+    expect(await InventoryUtils.mergeStacks(bot, window, 0, window.slots.length)).toBe(0);
+    expect(moves).toEqual([]);
+  });
+
+  it('stops when the signal is aborted', async () => {
+    const { window, bot } = createWindow([item('cobblestone', 1), item('cobblestone', 1)]);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(InventoryUtils.mergeStacks(bot, window, 0, 2, controller.signal)).rejects.toThrow();
+    expect(counts(window.slots)).toEqual(['cobblestone:1', 'cobblestone:1']);
+  });
+});
@@ -0,0 +1,134 @@
+import type { Bot } from 'mineflayer';
+import type { ActionExecutor } from '../src/minecraft/ActionExecutor.js';
+import type { ActionResult, BaseActionParams } from '../src/minecraft/ActionInterface.js';
+import { ScriptRunner } from '../src/minecraft/ScriptRunner.js';
+
+const bot = {} as unknown as Bot;
+
+/**
+ * 按动作名返回预设结果的执行器，记录每次调用
+ */
+function createExecutor(handlers: Record<string, (params: BaseActionParams, call: number) => ActionResult>) {
+  const calls: Array<{ name: string; params: BaseActionParams }> = [];
+  const executor = {
+    queueAction: async (name: string, _bot: Bot, params: BaseActionParams) => {
+      calls.push({ name, params });
+      const count = calls.filter(call => call.name === name).length;
+      return handlers[name]?.(params, count) ?? { success: false, message: `未找到动作: ${name}`, error: 'ACTION_NOT_FOUND' };
+    },
+  } as unknown as ActionExecutor;
+  return { executor, calls };
+}
+
+describe('ScriptRunner', () => {
+  it('parses YAML step lists and rejects malformed scripts', () => {
+    expect(ScriptRunner.parse('- action: move\n  params: { x: 1 }\n- wait: 100')).toEqual({
+      steps: [{ action: 'move', params: { x: 1 } }, { wait: 100 }],
+    });
+    expect(() => ScriptRunner.parse({ steps: [{ action: 'move', unknown: true }] })).toThrow('脚本格式错误');
+    expect(() => ScriptRunner.parse({ steps: [] })).toThrow('脚本格式错误');
+  });
+
+  it('interpolates variables, saves results and follows conditions', async () => {
+    const { executor, calls } = createExecutor({
+      mine_block: () => ({ success: true, message: 'ok', data: { minedCount: 3 } }),
+      chat: () => ({ success: true, message: 'sent' }),
+    });
+    const runner = new ScriptRunner(executor);
+
+    const result = await runner.run(bot, {
+      vars: { ore: 'iron_ore' },
+      steps: [
+        { action: 'mine_block', params: { name: '${ore}', count: 3 }, save_as: 'mine' },
+        {
+          if: { path: 'mine.data.minedCount', op: 'gte', value: 3 },
+          then: [{ action: 'chat', params: { message: 'mined ${mine.data.minedCount} ${ore}' } }],
+          else: [{ action: 'chat', params: { message: 'failed' } }],
+        },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    expect(calls).toEqual([
+      { name: 'mine_block', params: { name: 'iron_ore', count: 3 } },
+      { name: 'chat', params: { message: 'mined 3 iron_ore' } },
+    ]);
+    expect(result.trace.map(entry => entry.step)).toEqual(['1', '2', '2.then.1']);
+  });
+
+  it('retries failed actions and then stops with the action error', async () => {
+    const { executor, calls } = createExecutor({
+      craft_item: () => ({ success: false, message: '材料不足', error: 'MISSING_MATERIALS' }),
+      chat: () => ({ success: true, message: 'sent' }),
+    });
+    const runner = new ScriptRunner(executor);
+
+    const result = await runner.run(bot, {
+      steps: [
+        { action: 'craft_item', params: { item: 'stick' }, retry: 2, retry_delay_ms: 0 },
+        { action: 'chat', params: { message: 'done' } },
+      ],
+    });
+
+    expect(result).toMatchObject({ success: false, error: 'MISSING_MATERIALS' });
+    expect(calls.map(call => call.name)).toEqual(['craft_item', 'craft_item', 'craft_item']);
+    expect(result.trace[0].attempts).toBe(3);
+  });
+
+  it('runs on_failure steps and continues', async () => {
+    const { executor, calls } = createExecutor({
+      move: () => ({ success: false, message: '无法到达', error: 'MOVE_FAILED' }),
+      swim_to_land: () => ({ success: true, message: 'ok' }),
+      chat: () => ({ success: true, message: 'sent' }),
+    });
+    const runner = new ScriptRunner(executor);
+
+    const result = await runner.run(bot, {
+      steps: [
+        { action: 'move', on_failure: [{ action: 'swim_to_land' }] },
+        { action: 'chat', params: { message: '${last.message}' } },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    expect(calls).toEqual([
+      { name: 'move', params: {} },
+      { name: 'swim_to_land', params: {} },
+      { name: 'chat', params: { message: 'ok' } },
+    ]);
+  });
+
+  it('stops loops that exceed their iteration limit', async () => {
+    const { executor } = createExecutor({ wait_for: () => ({ success: true, message: 'ok' }) });
+    const runner = new ScriptRunner(executor);
+
+    const result = await runner.run(bot, {
+      vars: { running: true },
+      steps: [{ while: { path: 'running' }, steps: [{ action: 'wait_for' }], max_iterations: 3 }],
+    });
+
+    expect(result).toMatchObject({ success: false, error: 'MAX_ITERATIONS_EXCEEDED' });
+  });
+
+  it('refuses reserved variable names', async () => {
+    expect(() => ScriptRunner.parse('{"vars": {"__proto__": {"x": 1}}, "steps": [{"wait": 0}]}')).toThrow('脚本格式错误');
+    expect(() => ScriptRunner.parse({ steps: [{ action: 'move', save_as: 'constructor' }] })).toThrow('脚本格式错误');
+
+    const { executor } = createExecutor({});
+    const runner = new ScriptRunner(executor);
+    const result = await runner.run(bot, { steps: [{ set: JSON.parse('{"__proto__": {"polluted": true}}') }] });
+
+    expect(result).toMatchObject({ success: false, error: 'SCRIPT_ERROR' });
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it('rejects actions the resolver does not allow', async () => {
+    const { executor, calls } = createExecutor({});
+    const runner = new ScriptRunner(executor, { resolveAction: name => (name === 'move' ? 'move' : undefined) });
+
+    const result = await runner.run(bot, { steps: [{ action: 'run_script' }] });
+
+    expect(result).toMatchObject({ success: false, error: 'ACTION_NOT_FOUND' });
+    expect(calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,124 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { WorldMemory } from '../src/minecraft/WorldMemory.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('WorldMemory locations', () => {
+  it('records only known block categories and one entry per ore vein', () => {
+    const memory = new WorldMemory();
+
+    expect(memory.recordBlock('stone', { x: 0, y: 60, z: 0 }, 'overworld')).toBe(false);
+    expect(memory.recordBlock('iron_ore', { x: 0, y: 12, z: 0 }, 'overworld')).toBe(true);
+    expect(memory.recordBlock('iron_ore', { x: 1, y: 13, z: 0 }, 'overworld')).toBe(false);
+    expect(memory.recordBlock('iron_ore', { x: 20, y: 12, z: 0 }, 'overworld')).toBe(true);
+    expect(memory.recordBlock('iron_ore', { x: 0, y: 12, z: 0 }, 'the_nether')).toBe(true);
+
+    expect(memory.query({ category: 'ore', dimension: 'overworld' })).toHaveLength(2);
+    expect(memory.size).toBe(3);
+  });
+
+  it('merges container contents and finds containers holding an item', () => {
+    const memory = new WorldMemory();
+    const position = { x: 5, y: 64, z: 5 };
+    memory.recordContainer(position, 'chest', [
+      { name: 'oak_log', count: 10 }, { name: 'oak_log', count: 6 }, { name: 'stick', count: 2 },
+    ], 'overworld');
+    memory.recordBlock('barrel', { x: 9, y: 64, z: 5 }, 'overworld');
+
+    expect(memory.query({ item: 'oak_log' }).map(location => location.position)).toEqual([position]);
+    expect(memory.getContainers('overworld')).toEqual([{
+      position,
+      blockName: 'chest',
+      dimension: 'overworld',
+      items: [{ name: 'oak_log', count: 16 }, { name: 'stick', count: 2 }],
+      updatedAt: expect.any(Number),
+    }]);
+  });
+
+  it('sorts by distance, applies maxDistance and forgets matching entries', () => {
+    const memory = new WorldMemory();
+    memory.recordBlock('furnace', { x: 30, y: 64, z: 0 }, 'overworld');
+    memory.recordBlock('crafting_table', { x: 3, y: 64, z: 4 }, 'overworld');
+    memory.recordBlock('red_bed', { x: 100, y: 64, z: 0 }, 'overworld');
+
+    const nearby = memory.query({ near: { x: 0, y: 64, z: 0 }, maxDistance: 50 });
+    expect(nearby.map(location => location.blockName)).toEqual(['crafting_table', 'furnace']);
+    expect(nearby[0].distance).toBe(5);
+
+    expect(memory.forgetWhere({ category: 'crafting_station' })).toBe(2);
+    expect(memory.query().map(location => location.blockName)).toEqual(['red_bed']);
+  });
+
+  it('saves to the configured file and loads it on the next start', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'world-memory-'));
+    const filePath = path.join(dir, 'memory.json');
+    try {
+      const memory = new WorldMemory({ filePath });
+      memory.recordBlock('chest', { x: 1, y: 70, z: -1 }, 'overworld');
+      memory.flush();
+
+      const restored = new WorldMemory({ filePath });
+      expect(restored.query().map(location => [location.blockName, location.position])).toEqual([
+        ['chest', { x: 1, y: 70, z: -1 }],
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('WorldMemory visited chunks', () => {
+  it('keeps visited chunks separate per exploration target and dimension', () => {
+    const memory = new WorldMemory();
+
+    expect(memory.markChunkVisited(3, -2, 'overworld', 'structure:village')).toBe(true);
+    expect(memory.markChunkVisited(3, -2, 'overworld', 'structure:village')).toBe(false);
+
+    expect(memory.isChunkVisited(3, -2, 'overworld', 'structure:village')).toBe(true);
+    expect(memory.isChunkVisited(3, -2, 'overworld', 'biome:desert')).toBe(false);
+    expect(memory.isChunkVisited(3, -2, 'the_nether', 'structure:village')).toBe(false);
+    expect(memory.visitedChunkCount('overworld')).toBe(1);
+    expect(memory.visitedChunkCount('the_nether')).toBe(0);
+  });
+
+  it('treats visits older than a day as unexplored', () => {
+    const memory = new WorldMemory();
+    memory.markChunkVisited(0, 0, 'overworld', 'structure:village');
+
+    expect(memory.isChunkVisited(0, 0, 'overworld', 'structure:village', Date.now() + DAY_MS - 1000)).toBe(true);
+    expect(memory.isChunkVisited(0, 0, 'overworld', 'structure:village', Date.now() + DAY_MS + 1000)).toBe(false);
+  });
+});
+
+describe('WorldMemory portal links', () => {
+  const overworld = { position: { x: 80.7, y: 64, z: -16.2 }, dimension: 'overworld' };
+  const nether = { position: { x: 10, y: 70, z: -2 }, dimension: 'the_nether' };
+
+  it('finds a link from either end, returning the given end as from', () => {
+    const memory = new WorldMemory();
+    memory.recordPortalLink(overworld, nether);
+
+    const forward = memory.findPortalLink({ x: 81, y: 65, z: -16 }, 'overworld');
+    expect(forward?.from).toEqual({ position: { x: 80, y: 64, z: -17 }, dimension: 'overworld' });
+    expect(forward?.to).toEqual(nether);
+
+    const back = memory.findPortalLink(nether.position, 'the_nether');
+    expect(back?.from).toEqual(nether);
+    expect(back?.to.dimension).toBe('overworld');
+
+    expect(memory.findPortalLink(nether.position, 'overworld')).toBeNull();
+  });
+
+  it('replaces links that share an end with the new link', () => {
+    const memory = new WorldMemory();
+    memory.recordPortalLink(overworld, nether);
+    const rebuilt = { position: { x: 40, y: 80, z: 40 }, dimension: 'the_nether' };
+    memory.recordPortalLink(overworld, rebuilt);
+
+    expect(memory.getPortalLinks()).toHaveLength(1);
+    expect(memory.findPortalLink(overworld.position, 'overworld')?.to).toEqual(rebuilt);
+    expect(memory.findPortalLink(nether.position, 'the_nether')).toBeNull();
+  });
+});
@@ -1,8 +1,9 @@
 import { Bot } from 'mineflayer';
 import { Vec3 } from 'vec3';
-import { BaseAction, BaseActionParams, ActionResult } from '../minecraft/ActionInterface.js';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
 import { z } from 'zod';
 import { MovementUtils } from '../utils/MovementUtils.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
 
 /**
  * 基础控制参数接口
@@ -84,7 +85,7 @@ export class BasicControlAction extends BaseAction<BasicControlParams> {
     maxDistance: z.number().positive().optional().describe('搜索距离 (用于 entity 和 block 注视类型，默认 64)')
   });
 
-  async execute(bot: Bot, params: BasicControlParams): Promise<ActionResult> {
+  async execute(bot: Bot, params: BasicControlParams, context?: ActionContext): Promise<ActionResult> {
     try {
       switch (params.type) {
         case 'toss':
@@ -98,7 +99,7 @@ export class BasicControlAction extends BaseAction<BasicControlParams> {
         case 'look_at':
           return await this.handleLookAt(bot, params);
         case 'sleep':
-          return await this.handleSleep(bot, params);
+          return await this.handleSleep(bot, params, context?.signal);
         case 'wake':
           return await this.handleWake(bot, params);
         case 'stop_move':
@@ -109,6 +110,9 @@ export class BasicControlAction extends BaseAction<BasicControlParams> {
           return this.createErrorResult(`不支持的控制类型: ${params.type}`, 'UNSUPPORTED_TYPE');
       }
     } catch (error) {
+      if (AbortUtils.isAbortError(error)) {
+        return this.createErrorResult('基础控制已被取消', 'CANCELLED');
+      }
       this.logger.error(`基础控制失败: ${error instanceof Error ? error.message : String(error)}`);
       return this.createExceptionResult(error, '基础控制失败', 'CONTROL_FAILED');
     }
@@ -452,7 +456,7 @@ export class BasicControlAction extends BaseAction<BasicControlParams> {
   /**
    * 处理睡觉
    */
-  private async handleSleep(bot: Bot, params: BasicControlParams): Promise<ActionResult> {
+  private async handleSleep(bot: Bot, params: BasicControlParams, signal?: AbortSignal): Promise<ActionResult> {
     try {
       // 检查是否已经在睡觉
       if (bot.isSleeping) {
@@ -475,7 +479,7 @@ export class BasicControlAction extends BaseAction<BasicControlParams> {
 
       // 移动到床边
       const bedPos = bedBlock.position;
-      const moveResult = await this.moveToBed(bot, bedPos);
+      const moveResult = await this.moveToBed(bot, bedPos, signal);
 
       if (!moveResult.success) {
         return this.createErrorResult(`无法移动到床边: ${moveResult.error}`, 'CANNOT_REACH_BED');
@@ -493,6 +497,7 @@ export class BasicControlAction extends BaseAction<BasicControlParams> {
         status: 'sleeping'
       });
     } catch (error) {
+      if (AbortUtils.isAbortError(error)) throw error;
       return this.createExceptionResult(error, '睡觉失败', 'SLEEP_FAILED');
     }
   }
@@ -560,12 +565,13 @@ export class BasicControlAction extends BaseAction<BasicControlParams> {
   /**
    * 移动到床边
    */
-  private async moveToBed(bot: Bot, bedPos: Vec3): Promise<{success: boolean, error?: string}> {
+  private async moveToBed(bot: Bot, bedPos: Vec3, signal?: AbortSignal): Promise<{success: boolean, error?: string}> {
     try {
-      await MovementUtils.moveToCoordinate(bot, bedPos.x, bedPos.y, bedPos.z, 2, 100);
+      await MovementUtils.moveToCoordinate(bot, bedPos.x, bedPos.y, bedPos.z, 2, 100, false, signal);
 
       return { success: true };
     } catch (error) {
+      if (AbortUtils.isAbortError(error)) throw error;
       return { success: false, error: String(error) };
     }
   }
@@ -0,0 +1,434 @@
+import { Bot } from 'mineflayer';
+import { Entity } from 'prismarine-entity';
+import { Vec3 } from 'vec3';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { MovementUtils, GoalType } from '../utils/MovementUtils.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
+import { VehicleUtils } from '../utils/VehicleUtils.js';
+import { AnimalUtils, BREEDING_FOOD, TAMING_FOOD, RIDE_TAMED_ANIMALS } from '../utils/AnimalUtils.js';
+
+type AnimalMode = 'breed' | 'tame' | 'leash' | 'unleash' | 'query';
+
+interface BreedAnimalsParams extends BaseActionParams {
+  /** 操作类型，默认 breed */
+  mode?: AnimalMode;
+  /** 动物种类，breed / tame 时必填 */
+  species?: string;
+  /** breed 时繁殖的对数，默认 1 */
+  pairs?: number;
+  /** 围栏中心（leash 时为拴绳要系上的栅栏），默认 bot 当前位置 */
+  x?: number;
+  y?: number;
+  z?: number;
+  /** 查找动物的半径，默认 16 */
+  radius?: number;
+  /** tame 时最多尝试次数，默认 10 */
+  attempts?: number;
+}
+
+/** 实体状态：进入繁殖状态（爱心粒子） */
+const STATUS_IN_LOVE = 18;
+/** 实体状态：驯服失败（黑烟）/ 驯服成功（爱心） */
+const STATUS_TAMING = 6;
+const STATUS_TAMED = 7;
+/** 与动物交互的距离 */
+const INTERACT_REACH = 3;
+/** 可以拴绳的动物 */
+const LEASHABLE = [...new Set([
+  ...Object.keys(BREEDING_FOOD), ...Object.keys(TAMING_FOOD), ...RIDE_TAMED_ANIMALS,
+  'skeleton_horse', 'zombie_horse', 'iron_golem', 'snow_golem', 'dolphin', 'allay',
+])];
+
+/**
+ * BreedAnimalsAction - 动物饲养
+ * breed：找到两只成年且不在繁殖冷却中的同种动物，喂食对应的繁殖物品；
+ * tame：喂食驯服狼、猫、鹦鹉，或反复骑乘驯服马、驴、骡、羊驼；
+ * leash / unleash：给动物拴上或解开拴绳，可把拴绳系到栅栏上；
+ * query：列出围栏附近的动物及其幼年、驯服和繁殖冷却状态
+ */
+export class BreedAnimalsAction extends BaseAction<BreedAnimalsParams> {
+  name = 'breedAnimals';
+  description = '动物饲养：1.breed喂食两只成年同种动物使其繁殖（自动选择繁殖物品，跳过繁殖冷却中的动物）；2.tame驯服狼、猫、鹦鹉（喂食）或马、驴、骡、羊驼（反复骑乘）；3.leash给动物拴上拴绳，可系到栅栏上；4.unleash解开拴绳；5.query查看围栏附近动物的成年/幼年、驯服和可繁殖状态';
+  schema = z.object({
+    mode: z.enum(['breed', 'tame', 'leash', 'unleash', 'query']).optional().describe('操作类型 (breed | tame | leash | unleash | query，可选，默认 breed)'),
+    species: z.string().optional().describe('动物种类 (字符串，breed / tame 时必填)，如 cow、sheep、wolf、horse'),
+    pairs: z.number().int().min(1).max(8).optional().describe('breed 时繁殖的对数 (整数，可选，默认 1)'),
+    x: z.number().int().optional().describe('围栏中心X坐标 (整数，可选，默认 bot 当前位置)，leash 时为要系上拴绳的栅栏'),
+    y: z.number().int().optional().describe('围栏中心Y坐标 (整数，可选)'),
+    z: z.number().int().optional().describe('围栏中心Z坐标 (整数，可选)'),
+    radius: z.number().int().min(1).max(64).optional().describe('查找动物的半径 (整数，可选，默认 16)'),
+    attempts: z.number().int().min(1).max(50).optional().describe('tame 时最多尝试次数 (整数，可选，默认 10)'),
+  });
+
+  async execute(bot: Bot, params: BreedAnimalsParams, context?: ActionContext): Promise<ActionResult> {
+    const signal = context?.signal;
+    const point = params.x !== undefined && params.y !== undefined && params.z !== undefined
+      ? new Vec3(params.x, params.y, params.z)
+      : undefined;
+    const radius = params.radius ?? 16;
+    try {
+      switch (params.mode ?? 'breed') {
+        case 'breed':
+          return await this.breed(bot, params.species, params.pairs ?? 1, point ?? bot.entity.position, radius, signal);
+        case 'tame':
+          return await this.tame(bot, params.species, params.attempts ?? 10, point ?? bot.entity.position, radius, signal);
+        case 'leash':
+          return await this.leash(bot, params.species, point, radius, signal);
+        case 'unleash':
+          return await this.unleash(bot, params.species, point ?? bot.entity.position, radius, signal);
+        case 'query':
+          return this.query(bot, params.species, point ?? bot.entity.position, radius);
+        default:
+          return this.createErrorResult(`不支持的操作类型: ${params.mode}`, 'INVALID_PARAMS');
+      }
+    } catch (err) {
+      if (AbortUtils.isAbortError(err)) {
+        return this.createErrorResult('动物饲养已被取消', 'CANCELLED');
+      }
+      return this.createExceptionResult(err, '动物饲养失败', 'ANIMAL_FAILED');
+    }
+  }
+
+  private async breed(bot: Bot, species: string | undefined, pairs: number, center: Vec3, radius: number, signal?: AbortSignal): Promise<ActionResult> {
+    if (!species || !BREEDING_FOOD[species]) {
+      return this.createErrorResult(`请指定可以繁殖的动物: ${Object.keys(BREEDING_FOOD).join(', ')}`, 'INVALID_PARAMS');
+    }
+    const food = AnimalUtils.findBreedingFood(bot, species);
+    if (!food) {
+      return this.createErrorResult(`繁殖 ${species} 需要 ${BREEDING_FOOD[species].join(' / ')}，背包中没有`, 'MISSING_ITEM');
+    }
+
+    const animals = this.findAnimals(bot, [species], center, radius);
+    const adults = animals.filter(entity => !AnimalUtils.isBaby(bot, entity));
+    const untamed = AnimalUtils.requiresTamingToBreed(species) ? adults.filter(entity => !AnimalUtils.isTamed(bot, entity)) : [];
+    const coolingDown = adults.filter(entity => AnimalUtils.getBreedingCooldown(entity) > 0);
+    const candidates = adults.filter(entity => !untamed.includes(entity) && !coolingDown.includes(entity));
+    const counts = {
+      adults: adults.length,
+      babies: animals.length - adults.length,
+      coolingDown: coolingDown.length,
+      untamed: untamed.length,
+    };
+    if (candidates.length < 2) {
+      const reasons = [
+        coolingDown.length > 0 ? `${coolingDown.length} 只在繁殖冷却中` : '',
+        untamed.length > 0 ? `${untamed.length} 只未驯服` : '',
+      ].filter(Boolean).join('，');
+      return this.createErrorResult(
+        `附近 ${radius} 格内可繁殖的成年 ${species} 不足两只（成年 ${adults.length} 只${reasons ? `，${reasons}` : ''}）`,
+        'NOT_ENOUGH_ANIMALS',
+        counts
+      );
+    }
+
+    // 统计繁殖期间出生的幼崽
+    let born = 0;
+    const onSpawn = (entity: Entity) => {
+      if (entity.name === species && entity.position.distanceTo(center) <= radius + 8) born++;
+    };
+    bot.on('entitySpawn', onSpawn);
+    const results: Array<{ animals: number[]; fed: number }> = [];
+    try {
+      for (let i = 0; i + 1 < candidates.length && results.length < pairs; i += 2) {
+        const pair = [candidates[i], candidates[i + 1]];
+        let fed = 0;
+        for (const animal of pair) {
+          const item = AnimalUtils.findBreedingFood(bot, species);
+          if (!item) break;
+          if (await this.feed(bot, animal, item, [STATUS_IN_LOVE], signal) === STATUS_IN_LOVE) {
+            AnimalUtils.markBred(animal);
+            fed++;
+          }
+        }
+        results.push({ animals: pair.map(animal => animal.id), fed });
+        if (fed < 2 && !AnimalUtils.findBreedingFood(bot, species)) break;
+      }
+
+      // 进入繁殖状态的动物会互相靠近，等待幼崽出生
+      const expected = results.filter(result => result.fed === 2).length;
+      const deadline = Date.now() + 8000;
+      while (born < expected && Date.now() < deadline) {
+        await AbortUtils.sleep(250, signal);
+      }
+    } finally {
+      bot.removeListener('entitySpawn', onSpawn);
+    }
+
+    const bredPairs = results.filter(result => result.fed === 2).length;
+    const data = { species, food, pairs: results, bredPairs, born, ...counts };
+    if (bredPairs === 0) {
+      return this.createErrorResult(`没有 ${species} 进入繁殖状态`, 'BREED_FAILED', data);
+    }
+    return this.createSuccessResult(
+      `已喂食 ${bredPairs} 对 ${species}，出生 ${born} 只幼崽${bredPairs < pairs ? `（目标 ${pairs} 对）` : ''}`,
+      data
+    );
+  }
+
+  private async tame(bot: Bot, species: string | undefined, attempts: number, center: Vec3, radius: number, signal?: AbortSignal): Promise<ActionResult> {
+    const tamable = [...Object.keys(TAMING_FOOD), ...RIDE_TAMED_ANIMALS];
+    if (!species || !tamable.includes(species)) {
+      return this.createErrorResult(`请指定可以驯服的动物: ${tamable.join(', ')}`, 'INVALID_PARAMS');
+    }
+    const foods = TAMING_FOOD[species];
+    if (foods && !foods.some(food => bot.inventory.items().some(item => item.name === food))) {
+      return this.createErrorResult(`驯服 ${species} 需要 ${foods.join(' / ')}，背包中没有`, 'MISSING_ITEM');
+    }
+
+    const animals = this.findAnimals(bot, [species], center, radius);
+    // 幼年马类无法骑乘
+    const target = animals.find(entity => !AnimalUtils.isTamed(bot, entity) && !(!foods && AnimalUtils.isBaby(bot, entity)));
+    if (!target) {
+      const tamed = animals.filter(entity => AnimalUtils.isTamed(bot, entity)).length;
+      return this.createErrorResult(`附近 ${radius} 格内没有未驯服的 ${species}${tamed > 0 ? `（${tamed} 只已驯服）` : ''}`, 'ANIMAL_NOT_FOUND');
+    }
+
+    let used = 0;
+    let tamed = false;
+    while (used < attempts && !tamed && bot.entities[target.id]) {
+      AbortUtils.throwIfAborted(signal);
+      used++;
+      if (foods) {
+        const food = foods.find(name => bot.inventory.items().some(item => item.name === name));
+        if (!food) break;
+        tamed = await this.feed(bot, target, food, [STATUS_TAMING, STATUS_TAMED], signal) === STATUS_TAMED;
+      } else {
+        tamed = await this.rideToTame(bot, target, signal);
+      }
+      tamed = tamed || AnimalUtils.isTamed(bot, target);
+    }
+
+    const { x, y, z } = target.position.floored();
+    const data = { species, entityId: target.id, position: { x, y, z }, attempts: used, owner: AnimalUtils.getOwner(bot, target) };
+    if (!tamed) {
+      return this.createErrorResult(`尝试 ${used} 次后仍未驯服 ${species}`, 'TAME_FAILED', data);
+    }
+    return this.createSuccessResult(`已驯服 ${species}（尝试 ${used} 次）`, data);
+  }
+
+  /**
+   * 骑上未驯服的马类动物，直到被甩下来或驯服成功
+   */
+  private async rideToTame(bot: Bot, entity: Entity, signal?: AbortSignal): Promise<boolean> {
+    if (!await this.approach(bot, entity, signal)) return false;
+    bot.mount(entity);
+    await AbortUtils.sleep(1000, signal);
+    const status = await this.waitForStatus(bot, entity, [STATUS_TAMED], 8000, signal, () => !bot.entity.vehicle);
+    const tamed = status === STATUS_TAMED || AnimalUtils.isTamed(bot, entity);
+    if (tamed) await VehicleUtils.dismount(bot, signal);
+    return tamed;
+  }
+
+  private async leash(bot: Bot, species: string | undefined, fence: Vec3 | undefined, radius: number, signal?: AbortSignal): Promise<ActionResult> {
+    if (!bot.inventory.items().some(item => item.name === 'lead')) {
+      return this.createErrorResult('背包中没有拴绳', 'MISSING_ITEM');
+    }
+    const fenceBlock = fence ? bot.blockAt(fence) : null;
+    if (fence && !fenceBlock?.name.endsWith('_fence')) {
+      return this.createErrorResult(`(${fence.x}, ${fence.y}, ${fence.z}) 不是栅栏`, 'INVALID_POSITION');
+    }
+
+    const target = this.findAnimals(bot, species ? [species] : LEASHABLE, bot.entity.position, radius)
+      .find(entity => !AnimalUtils.getLeashHolder(entity));
+    if (!target) {
+      return this.createErrorResult(`附近 ${radius} 格内没有可以拴绳的${species ?? '动物'}`, 'ANIMAL_NOT_FOUND');
+    }
+
+    if (!await this.approach(bot, target, signal)) {
+      return this.createErrorResult(`无法靠近 ${target.name}`, 'MOVE_FAILED', { entityId: target.id, name: target.name });
+    }
+    const lead = bot.inventory.items().find(item => item.name === 'lead')!;
+    await bot.equip(lead, 'hand');
+    // 先开始监听再交互，Promise.all 保证交互出错时等待中的 Promise 也有处理
+    const [attached] = await Promise.all([
+      this.waitForLeash(bot, target, holder => holder?.id === bot.entity.id, signal),
+      bot.activateEntity(target),
+    ]);
+    if (!attached) {
+      return this.createErrorResult(`未能给 ${target.name} 拴上拴绳`, 'LEASH_FAILED');
+    }
+
+    if (!fenceBlock) {
+      return this.createSuccessResult(`已给 ${target.name} 拴上拴绳`, { entityId: target.id, name: target.name });
+    }
+    // 拴绳最长 10 格，牵着动物走到栅栏旁再系上
+    const moveResult = await MovementUtils.moveTo(bot, {
+      type: 'coordinate',
+      x: fence!.x,
+      y: fence!.y,
+      z: fence!.z,
+      distance: INTERACT_REACH,
+      maxDistance: radius * 4,
+      useRelativeCoords: false,
+      goalType: GoalType.GoalNear,
+      signal
+    });
+    if (!moveResult.success) {
+      return this.createErrorResult(`已拴上 ${target.name}，但无法走到栅栏旁: ${moveResult.error}`, 'MOVE_FAILED', { entityId: target.id, name: target.name });
+    }
+    const [tied] = await Promise.all([
+      this.waitForLeash(bot, target, holder => holder?.name === 'leash_knot', signal),
+      bot.activateBlock(fenceBlock),
+    ]);
+    if (!tied) {
+      return this.createErrorResult(`已拴上 ${target.name}，但未能系到栅栏上`, 'LEASH_FAILED', { entityId: target.id, name: target.name });
+    }
+    return this.createSuccessResult(`已把 ${target.name} 拴在 (${fence!.x}, ${fence!.y}, ${fence!.z}) 的栅栏上`, {
+      entityId: target.id,
+      name: target.name,
+      fence: { x: fence!.x, y: fence!.y, z: fence!.z },
+    });
+  }
+
+  private async unleash(bot: Bot, species: string | undefined, center: Vec3, radius: number, signal?: AbortSignal): Promise<ActionResult> {
+    const target = this.findAnimals(bot, species ? [species] : LEASHABLE, center, radius)
+      .find(entity => !!AnimalUtils.getLeashHolder(entity));
+    if (!target) {
+      return this.createErrorResult(`附近 ${radius} 格内没有拴着拴绳的${species ?? '动物'}`, 'ANIMAL_NOT_FOUND');
+    }
+
+    // 由 bot 牵着时与动物交互即可解开，系在栅栏上时与拴绳结交互
+    const holder = AnimalUtils.getLeashHolder(target)!;
+    const interactWith = holder.id === bot.entity.id ? target : holder;
+    if (!await this.approach(bot, interactWith, signal)) {
+      return this.createErrorResult(`无法靠近 ${interactWith.name}`, 'MOVE_FAILED', { entityId: target.id, name: target.name });
+    }
+    const [detached] = await Promise.all([
+      this.waitForLeash(bot, target, holder => !holder, signal),
+      bot.activateEntity(interactWith),
+    ]);
+    if (!detached) {
+      return this.createErrorResult(`未能解开 ${target.name} 的拴绳`, 'UNLEASH_FAILED');
+    }
+    return this.createSuccessResult(`已解开 ${target.name} 的拴绳`, { entityId: target.id, name: target.name });
+  }
+
+  private query(bot: Bot, species: string | undefined, center: Vec3, radius: number): ActionResult {
+    const names = species ? [species] : [...new Set([...LEASHABLE, 'parrot'])];
+    const animals = this.findAnimals(bot, names, center, radius).map(entity => {
+      const name = entity.name!;
+      const baby = AnimalUtils.isBaby(bot, entity);
+      const tamable = name in TAMING_FOOD || RIDE_TAMED_ANIMALS.includes(name);
+      const tamed = tamable ? AnimalUtils.isTamed(bot, entity) : undefined;
+      const cooldown = AnimalUtils.getBreedingCooldown(entity);
+      const { x, y, z } = entity.position.floored();
+      return {
+        id: entity.id,
+        name,
+        position: { x, y, z },
+        distance: Number(entity.position.distanceTo(center).toFixed(1)),
+        baby,
+        tamed,
+        owner: tamable ? AnimalUtils.getOwner(bot, entity) : undefined,
+        leashedTo: AnimalUtils.getLeashHolder(entity)?.name ?? null,
+        breedingCooldown: Math.ceil(cooldown / 1000),
+        canBreed: !!BREEDING_FOOD[name] && !baby && cooldown === 0
+          && (!AnimalUtils.requiresTamingToBreed(name) || tamed === true),
+      };
+    });
+
+    const summary: Record<string, { adults: number; babies: number; canBreed: number }> = {};
+    for (const animal of animals) {
+      const entry = summary[animal.name] ??= { adults: 0, babies: 0, canBreed: 0 };
+      if (animal.baby) entry.babies++;
+      else entry.adults++;
+      if (animal.canBreed) entry.canBreed++;
+    }
+
+    const message = animals.length === 0
+      ? `附近 ${radius} 格内没有${species ?? '动物'}`
+      : `附近 ${radius} 格内有 ${animals.length} 只动物: ${Object.entries(summary).map(([name, s]) => `${name} 成年 ${s.adults} / 幼年 ${s.babies}`).join('，')}`;
+    return this.createSuccessResult(message, { center: { x: Math.floor(center.x), y: Math.floor(center.y), z: Math.floor(center.z) }, radius, summary, animals });
+  }
+
+  /**
+   * 喂食动物并等待实体状态（进入繁殖状态或驯服结果）
+   * @returns 收到的状态，无法靠近或超时返回 null
+   */
+  private async feed(bot: Bot, entity: Entity, food: string, statuses: number[], signal?: AbortSignal): Promise<number | null> {
+    if (!await this.approach(bot, entity, signal)) return null;
+    const item = bot.inventory.items().find(invItem => invItem.name === food);
+    if (!item) return null;
+    await bot.equip(item, 'hand');
+    const [status] = await Promise.all([
+      this.waitForStatus(bot, entity, statuses, 1500, signal),
+      bot.activateEntity(entity),
+    ]);
+    return status;
+  }
+
+  /**
+   * 等待服务端发送实体状态
+   * @param stop 提前结束的条件，满足时返回 null
+   */
+  private async waitForStatus(
+    bot: Bot,
+    entity: Entity,
+    statuses: number[],
+    timeoutMs: number,
+    signal?: AbortSignal,
+    stop?: () => boolean
+  ): Promise<number | null> {
+    let received: number | null = null;
+    const onStatus = (packet: { entityId: number; entityStatus: number }) => {
+      if (packet.entityId === entity.id && statuses.includes(packet.entityStatus)) received = packet.entityStatus;
+    };
+    bot._client.on('entity_status', onStatus);
+    try {
+      const deadline = Date.now() + timeoutMs;
+      while (received === null && Date.now() < deadline && !stop?.()) {
+        await AbortUtils.sleep(100, signal);
+      }
+      return received;
+    } finally {
+      bot._client.removeListener('entity_status', onStatus);
+    }
+  }
+
+  /**
+   * 等待动物的拴绳持有者满足条件（解开时持有者为 null）
+   */
+  private async waitForLeash(bot: Bot, entity: Entity, isDone: (holder: Entity | null) => boolean, signal?: AbortSignal): Promise<boolean> {
+    const deadline = Date.now() + 2000;
+    while (Date.now() < deadline) {
+      await AbortUtils.sleep(100, signal);
+      if (isDone(AnimalUtils.getLeashHolder(entity))) return true;
+    }
+    return false;
+  }
+
+  /**
+   * 走到实体旁边
+   * @returns 是否已在交互范围内
+   */
+  private async approach(bot: Bot, entity: Entity, signal?: AbortSignal): Promise<boolean> {
+    if (entity.position.distanceTo(bot.entity.position) <= INTERACT_REACH) return true;
+    const result = await MovementUtils.moveTo(bot, {
+      type: 'coordinate',
+      x: Math.floor(entity.position.x),
+      y: Math.floor(entity.position.y),
+      z: Math.floor(entity.position.z),
+      distance: 2,
+      maxDistance: 100,
+      useRelativeCoords: false,
+      goalType: GoalType.GoalNear,
+      signal
+    });
+    if (!result.success) {
+      this.logger.warn(`无法靠近 ${entity.name}: ${result.error}`);
+    }
+    return result.success;
+  }
+
+  /**
+   * 按距离排序的指定种类动物
+   */
+  private findAnimals(bot: Bot, names: string[], center: Vec3, radius: number): Entity[] {
+    return Object.values(bot.entities)
+      .filter(entity => !!entity.name && names.includes(entity.name) && entity.position.distanceTo(center) <= radius)
+      .sort((a, b) => a.position.distanceTo(bot.entity.position) - b.position.distanceTo(bot.entity.position));
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: breed_animals）
+}
@@ -0,0 +1,175 @@
+import { Bot } from 'mineflayer';
+import { Item } from 'prismarine-item';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { ContainerUtils } from '../utils/ContainerUtils.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
+import { BrewingUtils, BrewingStand, BrewStep, BOTTLE_SLOTS, FUEL_SLOT, INGREDIENT_SLOT } from '../utils/BrewingUtils.js';
+
+interface BrewPotionParams extends BaseActionParams {
+  potion: string;
+  count?: number;
+  x?: number;
+  y?: number;
+  z?: number;
+}
+
+/** 单次酿造的超时时间（正常 20 秒） */
+const BREW_TIMEOUT_MS = 40000;
+/** 打开酿造台后等待燃料属性同步的时间 */
+const PROPERTY_SYNC_MS = 500;
+
+/**
+ * BrewPotionAction - 酿造药水
+ * 将目标药水（如 potion_of_healing、strong_swiftness、splash_potion_of_healing）解析为从水瓶开始的材料顺序，
+ * 从背包中已有的最接近目标的药水开始，依次加入材料完成酿造。燃料不足时自动放入烈焰粉。
+ */
+export class BrewPotionAction extends BaseAction<BrewPotionParams> {
+  name = 'brewPotion';
+  description = '酿造药水：将目标药水（如 potion_of_healing、long_swiftness、splash_potion_of_healing）解析为材料顺序，在附近酿造台上从水瓶（或背包中已有的中间药水）开始依次酿造';
+  schema = z.object({
+    potion: z.string().describe('目标药水，如 potion_of_healing、strong_healing、long_night_vision、splash_potion_of_harming (字符串)'),
+    count: z.number().int().min(1).max(3).optional().describe('酿造瓶数 (整数，可选，默认3，最大3)'),
+    x: z.number().int().optional().describe('酿造台X坐标 (整数，可选，默认最近的酿造台)'),
+    y: z.number().int().optional().describe('酿造台Y坐标 (整数，可选)'),
+    z: z.number().int().optional().describe('酿造台Z坐标 (整数，可选)'),
+  });
+
+  async execute(bot: Bot, params: BrewPotionParams, context?: ActionContext): Promise<ActionResult> {
+    try {
+      const plan = BrewingUtils.plan(params.potion);
+      if (!plan) {
+        return this.createErrorResult(`无法识别或无法酿造的药水: ${params.potion}`, 'UNKNOWN_POTION');
+      }
+      const count = params.count ?? 3;
+
+      // 从背包中已有的最接近目标的药水开始（水瓶为起点）
+      const states = [{ item: 'potion', potion: 'water' }, ...plan.steps.map(step => ({ item: step.item, potion: step.potion }))];
+      let start = -1;
+      for (let i = states.length - 2; i >= 0; i--) {
+        if (this.findPotions(bot, states[i].item, states[i].potion).reduce((sum, item) => sum + item.count, 0) >= count) {
+          start = i;
+          break;
+        }
+      }
+      if (start < 0) {
+        return this.createErrorResult(
+          `需要 ${count} 瓶水瓶，背包中只有 ${this.countItem(bot, 'potion', this.findPotions(bot, 'potion', 'water'))} 瓶（可用 use_item 对水源使用玻璃瓶装水）`,
+          'MISSING_WATER_BOTTLES',
+          { plan }
+        );
+      }
+      const steps = plan.steps.slice(start);
+      const startState = states[start];
+
+      // 检查材料：每一步消耗 1 个材料
+      const required = new Map<string, number>();
+      for (const step of steps) {
+        required.set(step.ingredient, (required.get(step.ingredient) ?? 0) + 1);
+      }
+      const missing = Array.from(required)
+        .map(([name, needed]) => ({ name, count: needed - this.countItem(bot, name) }))
+        .filter(item => item.count > 0);
+      if (missing.length > 0) {
+        return this.createErrorResult(
+          `缺少酿造材料: ${missing.map(item => `${item.name} × ${item.count}`).join(', ')}`,
+          'MISSING_INGREDIENTS',
+          { plan, steps, missing }
+        );
+      }
+
+      const position = params.x !== undefined && params.y !== undefined && params.z !== undefined
+        ? { x: params.x, y: params.y, z: params.z }
+        : undefined;
+      const block = await ContainerUtils.approachWorkstation(bot, ['brewing_stand'], position, context?.signal);
+      const stand = await BrewingUtils.open(bot, block);
+
+      try {
+        // 清空药水瓶槽和材料槽中原有的物品
+        for (const slot of [...BOTTLE_SLOTS, INGREDIENT_SLOT]) {
+          await BrewingUtils.take(bot, stand, slot);
+        }
+
+        for (const slot of BOTTLE_SLOTS.slice(0, count)) {
+          const bottle = this.findPotions(bot, startState.item, startState.potion, stand.window.items());
+          await BrewingUtils.put(bot, stand, bottle[0], slot, 1);
+        }
+
+        await AbortUtils.sleep(PROPERTY_SYNC_MS, context?.signal);
+        if (!await this.ensureFuel(bot, stand, required.get('blaze_powder') ?? 0)) {
+          await this.takeBottles(bot, stand);
+          return this.createErrorResult('酿造台没有燃料，背包中也没有多余的烈焰粉', 'NO_FUEL', { plan, steps });
+        }
+
+        const completed: BrewStep[] = [];
+        for (const step of steps) {
+          AbortUtils.throwIfAborted(context?.signal);
+          const ingredient = (stand.window.items() as Item[]).find(item => item.name === step.ingredient)!;
+          await BrewingUtils.put(bot, stand, ingredient, INGREDIENT_SLOT, 1);
+
+          if (!await BrewingUtils.waitForBrew(stand, BREW_TIMEOUT_MS, context?.signal)) {
+            await BrewingUtils.take(bot, stand, INGREDIENT_SLOT);
+            await this.takeBottles(bot, stand);
+            return this.createErrorResult(`加入 ${step.ingredient} 后酿造超时`, 'BREW_TIMEOUT', { plan, steps, completed });
+          }
+          completed.push(step);
+          context?.reportProgress({
+            progress: completed.length,
+            total: steps.length,
+            message: `已加入 ${step.ingredient}，得到 ${step.item === 'potion' ? '' : `${step.item} `}${step.potion}`
+          });
+        }
+
+        const results = await this.takeBottles(bot, stand);
+        const brewed = results.filter(item => item.name === plan.item && item.potion === plan.potion).length;
+        return this.createSuccessResult(`酿造完成：${plan.item}（${plan.potion}）× ${brewed}`, {
+          potion: plan.potion,
+          item: plan.item,
+          count: brewed,
+          startedFrom: startState,
+          steps,
+          bottles: results,
+          fuelCharges: stand.fuel,
+        });
+      } finally {
+        bot.closeWindow(stand.window);
+      }
+    } catch (err) {
+      if (AbortUtils.isAbortError(err)) {
+        return this.createErrorResult('酿造药水已被取消', 'CANCELLED');
+      }
+      return this.createExceptionResult(err, '酿造药水失败', 'BREW_FAILED');
+    }
+  }
+
+  /**
+   * 燃料为空时放入一个烈焰粉（保留作为酿造材料的烈焰粉）
+   * @returns 是否有燃料可用
+   */
+  private async ensureFuel(bot: Bot, stand: BrewingStand, reservedBlazePowder: number): Promise<boolean> {
+    if (stand.fuel > 0 || stand.window.slots[FUEL_SLOT]) return true;
+    if (this.countItem(bot, 'blaze_powder', stand.window.items()) <= reservedBlazePowder) return false;
+    const powder = (stand.window.items() as Item[]).find(item => item.name === 'blaze_powder')!;
+    await BrewingUtils.put(bot, stand, powder, FUEL_SLOT, 1);
+    return true;
+  }
+
+  private async takeBottles(bot: Bot, stand: BrewingStand): Promise<Array<{ name: string; potion: string | null }>> {
+    const results: Array<{ name: string; potion: string | null }> = [];
+    for (const slot of BOTTLE_SLOTS) {
+      const item = await BrewingUtils.take(bot, stand, slot);
+      if (item) results.push({ name: item.name, potion: BrewingUtils.getPotionType(item) });
+    }
+    return results;
+  }
+
+  private findPotions(bot: Bot, itemName: string, potion: string, items: Item[] = bot.inventory.items()): Item[] {
+    return items.filter(item => item.name === itemName && BrewingUtils.getPotionType(item) === potion);
+  }
+
+  private countItem(bot: Bot, name: string, items: Item[] = bot.inventory.items()): number {
+    return items.filter(item => item.name === name).reduce((sum, item) => sum + item.count, 0);
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: brew_potion）
+}
@@ -0,0 +1,411 @@
+import { Bot } from 'mineflayer';
+import { Block } from 'prismarine-block';
+import { Vec3 } from 'vec3';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { MovementUtils, GoalType } from '../utils/MovementUtils.js';
+import { PlaceBlockUtils } from '../utils/PlaceBlockUtils.js';
+import { MinecraftUtils } from '../utils/MinecraftUtils.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
+import { BucketUtils } from '../utils/BucketUtils.js';
+import { MineBlockUtils } from '../utils/MineBlockUtils.js';
+import { MinecraftClient } from '../minecraft/MinecraftClient.js';
+
+interface BuildNetherPortalParams extends BaseActionParams {
+  /** obsidian 直接放置黑曜石 | bucket 用岩浆桶和水桶浇筑 | auto，默认 auto */
+  method?: 'auto' | 'obsidian' | 'bucket';
+  /** 框架左下角坐标，默认在 bot 前方 */
+  x?: number;
+  y?: number;
+  z?: number;
+  /** 传送门平面沿 x 轴还是 z 轴，默认根据 bot 朝向决定 */
+  axis?: 'x' | 'z';
+  /** 角落、浇筑模具和放水垫脚使用的方块 */
+  scaffold_block?: string;
+  /** 建好后是否点燃，默认 true */
+  ignite?: boolean;
+}
+
+type PortalPart = 'frame' | 'corner' | 'mold';
+
+interface BuildStep {
+  position: Vec3;
+  part: PortalPart;
+}
+
+const AIR_BLOCKS = new Set(['air', 'cave_air', 'void_air']);
+/** 未指定 scaffold_block 时从背包中挑选数量最多的 */
+const SCAFFOLD_CANDIDATES = ['cobblestone', 'cobbled_deepslate', 'dirt', 'netherrack', 'stone', 'blackstone', 'andesite', 'diorite', 'granite', 'deepslate'];
+/** 浇筑时寻找岩浆源的距离 */
+const LAVA_SEARCH_DISTANCE = 32;
+/** 点燃后等待传送门方块出现的时间 */
+const IGNITE_WAIT_MS = 2000;
+
+/**
+ * BuildNetherPortalAction - 建造下界传送门
+ * 框架为 4x5（不含角落需要 10 块黑曜石），角落使用普通方块作为支撑。
+ * obsidian：直接放置黑曜石；bucket：先用普通方块填充门内作为模具，再逐格倒岩浆、在外侧放水使其凝固成黑曜石，
+ * 岩浆桶用完时从附近的岩浆源补充，完成后拆除模具。确认框架全部是黑曜石后用打火石或火焰弹点燃
+ */
+export class BuildNetherPortalAction extends BaseAction<BuildNetherPortalParams> {
+  name = 'buildNetherPortal';
+  description = '建造并点燃下界传送门：obsidian 直接放置 10 块黑曜石；bucket 用岩浆桶和水桶逐格浇筑黑曜石（需要水桶、岩浆桶或附近的岩浆源，以及约 20 个普通方块做模具）；auto 黑曜石足够时用 obsidian，否则用 bucket。默认建在 bot 前方';
+  schema = z.object({
+    method: z.enum(['auto', 'obsidian', 'bucket']).optional().describe('建造方式 (auto | obsidian | bucket，默认是 auto)'),
+    x: z.number().int().optional().describe('框架左下角X坐标 (整数，可选，默认在 bot 前方)'),
+    y: z.number().int().optional().describe('框架底部Y坐标 (整数，可选)'),
+    z: z.number().int().optional().describe('框架左下角Z坐标 (整数，可选)'),
+    axis: z.enum(['x', 'z']).optional().describe('传送门平面方向 (x | z，可选，默认根据 bot 朝向)'),
+    scaffold_block: z.string().optional().describe('角落、模具和垫脚使用的方块 (字符串，可选，默认背包中最多的圆石/泥土/下界岩等)'),
+    ignite: z.boolean().optional().describe('建好后是否点燃 (布尔值，可选，默认 true)'),
+  });
+
+  async execute(bot: Bot, params: BuildNetherPortalParams, context?: ActionContext): Promise<ActionResult> {
+    const signal = context?.signal;
+    const placed: Array<{ x: number; y: number; z: number }> = [];
+    try {
+      const dimension = MinecraftUtils.getDimension(bot);
+      if (dimension === 'the_end') {
+        return this.createErrorResult('末地无法使用下界传送门', 'WRONG_DIMENSION');
+      }
+      const hasCoords = params.x !== undefined && params.y !== undefined && params.z !== undefined;
+      if (!hasCoords && (params.x !== undefined || params.y !== undefined || params.z !== undefined)) {
+        return this.createErrorResult('需要同时指定 x、y、z 坐标', 'INVALID_PARAMS');
+      }
+
+      const { origin, tangent, normal } = this.resolveSite(bot, params);
+      const at = (i: number, j: number) => origin.plus(tangent.scaled(i)).offset(0, j, 0);
+      const portalPosition = at(1, 1);
+      if (bot.blockAt(portalPosition)?.name === 'nether_portal') {
+        return this.createSuccessResult('这里已经有点燃的下界传送门', { portal: this.toPoint(portalPosition), lit: true });
+      }
+
+      // 检查场地：框架、角落和门内都必须是空气（已有的黑曜石和角落方块保留）
+      const blocked: Array<{ x: number; y: number; z: number; block: string }> = [];
+      for (let i = 0; i < 4; i++) {
+        for (let j = 0; j < 5; j++) {
+          const position = at(i, j);
+          const block = bot.blockAt(position);
+          if (!block) {
+            return this.createErrorResult(`位置 (${position.x}, ${position.y}, ${position.z}) 未加载`, 'SITE_NOT_LOADED');
+          }
+          const part = this.partAt(i, j);
+          if (AIR_BLOCKS.has(block.name)) continue;
+          if (part === 'frame' && block.name === 'obsidian') continue;
+          if (part === 'corner' && block.boundingBox === 'block') continue;
+          blocked.push({ ...this.toPoint(position), block: block.name });
+        }
+      }
+      if (blocked.length > 0) {
+        const list = blocked.map(b => `${b.block}(${b.x}, ${b.y}, ${b.z})`).join(', ');
+        return this.createErrorResult(`建造位置被占用，请清理或换个位置：${list}`, 'SITE_BLOCKED', { origin: this.toPoint(origin), blocked });
+      }
+
+      const frameNeeded = this.countParts(bot, at, 'frame', block => block.name !== 'obsidian');
+      const cornersNeeded = this.countParts(bot, at, 'corner', block => block.boundingBox !== 'block');
+      const obsidian = this.countItem(bot, 'obsidian');
+      const scaffoldBlock = params.scaffold_block ?? this.pickScaffoldBlock(bot);
+      const scaffoldCount = scaffoldBlock ? this.countItem(bot, scaffoldBlock) : 0;
+
+      // 选择建造方式
+      let method = params.method ?? 'auto';
+      const cornerBlock = scaffoldBlock && scaffoldCount >= cornersNeeded ? scaffoldBlock : 'obsidian';
+      const canUseObsidian = obsidian >= frameNeeded + (cornerBlock === 'obsidian' ? cornersNeeded : 0);
+      if (method === 'auto') {
+        method = canUseObsidian ? 'obsidian' : 'bucket';
+      }
+      if (method === 'obsidian' && !canUseObsidian) {
+        return this.createErrorResult(
+          `黑曜石不足：框架需要 ${frameNeeded} 块，角落需要 ${cornersNeeded} 个方块（可用普通方块代替），背包有 ${obsidian} 块黑曜石`,
+          'MISSING_MATERIALS'
+        );
+      }
+      if (method === 'bucket') {
+        if (dimension === 'the_nether') {
+          return this.createErrorResult(`下界无法放水，不能浇筑黑曜石（需要 ${frameNeeded} 块黑曜石，背包有 ${obsidian} 块）`, 'MISSING_MATERIALS');
+        }
+        const missing = this.checkBucketMaterials(bot, frameNeeded, cornersNeeded, scaffoldBlock, scaffoldCount);
+        if (missing) return this.createErrorResult(missing, 'MISSING_MATERIALS');
+      }
+
+      this.logger.info(`开始建造下界传送门（${method}），左下角 (${origin.x}, ${origin.y}, ${origin.z})`);
+      const mold: Vec3[] = [];
+      const supports: Vec3[] = [];
+
+      for (const step of this.buildOrder(at, method)) {
+        AbortUtils.throwIfAborted(signal);
+        if (step.part === 'corner') {
+          await this.placeSolid(bot, step.position, cornerBlock, placed, signal);
+        } else if (step.part === 'mold') {
+          if (await this.placeSolid(bot, step.position, scaffoldBlock!, placed, signal)) mold.push(step.position);
+        } else if (method === 'obsidian') {
+          await this.placeSolid(bot, step.position, 'obsidian', placed, signal);
+        } else {
+          await this.castObsidian(bot, step.position, normal, scaffoldBlock!, supports, signal);
+          placed.push(this.toPoint(step.position));
+        }
+      }
+
+      // 拆除模具和垫脚
+      const leftovers: Array<{ x: number; y: number; z: number }> = [];
+      for (const position of [...mold.reverse(), ...supports.reverse()]) {
+        AbortUtils.throwIfAborted(signal);
+        const removed = await MineBlockUtils.digAt(bot, position, signal).catch(err => {
+          if (AbortUtils.isAbortError(err)) throw err;
+          return false;
+        });
+        if (!removed) leftovers.push(this.toPoint(position));
+      }
+
+      const memory = ((bot as any).client as MinecraftClient | undefined)?.getWorldMemory?.();
+      const data = {
+        method,
+        origin: this.toPoint(origin),
+        axis: tangent.x !== 0 ? 'x' : 'z',
+        portal: this.toPoint(portalPosition),
+        blocksPlaced: placed.length,
+        leftoverScaffolds: leftovers,
+        lit: false,
+      };
+
+      // 岩浆流动可能把框架位置变成圆石或石头，点燃前确认每一格都是黑曜石
+      const invalidFrame = this.findInvalidFrame(bot, at);
+      if (invalidFrame.length > 0) {
+        const list = invalidFrame.map(b => `${b.block}(${b.x}, ${b.y}, ${b.z})`).join(', ');
+        return this.createErrorResult(`框架不完整，以下位置不是黑曜石：${list}`, 'FRAME_INCOMPLETE', { ...data, invalidFrame });
+      }
+
+      if (params.ignite === false) {
+        return this.createSuccessResult(`下界传送门框架已建好 (${portalPosition.x}, ${portalPosition.y}, ${portalPosition.z})，未点燃`, data);
+      }
+      const ignition = await this.ignite(bot, bot.blockAt(at(1, 0))!, portalPosition, signal);
+      if (!ignition.success) {
+        return this.createErrorResult(`框架已建好，但${ignition.message}`, 'IGNITE_FAILED', data);
+      }
+      data.lit = true;
+      memory?.recordBlock('nether_portal', portalPosition, dimension);
+      return this.createSuccessResult(`下界传送门已建好并点燃 (${portalPosition.x}, ${portalPosition.y}, ${portalPosition.z})`, data);
+    } catch (err) {
+      if (AbortUtils.isAbortError(err)) {
+        return this.createErrorResult('建造已被取消', 'CANCELLED', { blocksPlaced: placed.length, placed });
+      }
+      return this.createExceptionResult(err, '建造下界传送门失败', 'BUILD_PORTAL_FAILED');
+    }
+  }
+
+  /**
+   * 确定框架左下角、平面方向和朝向 bot 的法线方向
+   */
+  private resolveSite(bot: Bot, params: BuildNetherPortalParams): { origin: Vec3; tangent: Vec3; normal: Vec3 } {
+    const position = bot.entity.position;
+    const forward = new Vec3(-Math.sin(bot.entity.yaw), 0, -Math.cos(bot.entity.yaw));
+    const facingX = Math.abs(forward.x) > Math.abs(forward.z);
+    const axis = params.axis ?? (facingX ? 'z' : 'x');
+    const tangent = axis === 'x' ? new Vec3(1, 0, 0) : new Vec3(0, 0, 1);
+
+    let origin: Vec3;
+    if (params.x !== undefined && params.y !== undefined && params.z !== undefined) {
+      origin = new Vec3(params.x, params.y, params.z);
+    } else {
+      // 门洞中心在前方 3 格
+      const center = position.plus(forward.scaled(3)).floored();
+      origin = new Vec3(center.x, Math.floor(position.y), center.z).minus(tangent);
+    }
+
+    const toBot = position.minus(origin.offset(0.5, 0, 0.5));
+    const normal = axis === 'x'
+      ? new Vec3(0, 0, toBot.z >= 0 ? 1 : -1)
+      : new Vec3(toBot.x >= 0 ? 1 : -1, 0, 0);
+    return { origin, tangent, normal };
+  }
+
+  private partAt(i: number, j: number): PortalPart {
+    const edgeX = i === 0 || i === 3;
+    const edgeY = j === 0 || j === 4;
+    if (edgeX && edgeY) return 'corner';
+    if (edgeX || edgeY) return 'frame';
+    return 'mold';
+  }
+
+  private countParts(bot: Bot, at: (i: number, j: number) => Vec3, part: PortalPart, needed: (block: Block) => boolean): number {
+    let count = 0;
+    for (let i = 0; i < 4; i++) {
+      for (let j = 0; j < 5; j++) {
+        const block = bot.blockAt(at(i, j));
+        if (this.partAt(i, j) === part && block && needed(block)) count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * 建造顺序：每个方块下方或侧面都已有支撑。浇筑时每一层先放模具再倒岩浆，防止岩浆流进门内
+   */
+  private buildOrder(at: (i: number, j: number) => Vec3, method: 'obsidian' | 'bucket'): BuildStep[] {
+    const steps: BuildStep[] = [
+      { position: at(0, 0), part: 'corner' },
+      { position: at(3, 0), part: 'corner' },
+      { position: at(1, 0), part: 'frame' },
+      { position: at(2, 0), part: 'frame' },
+    ];
+    for (let j = 1; j <= 3; j++) {
+      if (method === 'bucket') {
+        steps.push({ position: at(1, j), part: 'mold' }, { position: at(2, j), part: 'mold' });
+      }
+      steps.push({ position: at(0, j), part: 'frame' }, { position: at(3, j), part: 'frame' });
+    }
+    steps.push(
+      { position: at(0, 4), part: 'corner' },
+      { position: at(3, 4), part: 'corner' },
+      { position: at(1, 4), part: 'frame' },
+      { position: at(2, 4), part: 'frame' },
+    );
+    return steps;
+  }
+
+  /**
+   * 检查浇筑所需材料，缺少时返回说明
+   */
+  private checkBucketMaterials(bot: Bot, frameNeeded: number, cornersNeeded: number, scaffoldBlock: string | undefined, scaffoldCount: number): string | null {
+    const missing: string[] = [];
+    if (this.countItem(bot, 'water_bucket') === 0) missing.push('水桶');
+    const lavaBuckets = this.countItem(bot, 'lava_bucket');
+    if (lavaBuckets < frameNeeded && !BucketUtils.findSource(bot, 'lava', LAVA_SEARCH_DISTANCE)) {
+      missing.push(`岩浆（需要 ${frameNeeded} 桶，背包有 ${lavaBuckets} 桶，附近 ${LAVA_SEARCH_DISTANCE} 格内没有岩浆源）`);
+    }
+    if (lavaBuckets === 0 && this.countItem(bot, 'bucket') === 0) missing.push('空桶（用于装岩浆）');
+    // 模具 6 个 + 角落 + 悬空位置的垫脚
+    const scaffoldNeeded = 6 + cornersNeeded;
+    if (!scaffoldBlock || scaffoldCount < scaffoldNeeded) {
+      missing.push(`模具方块（至少 ${scaffoldNeeded} 个${scaffoldBlock ? ` ${scaffoldBlock}，背包有 ${scaffoldCount} 个` : ''}）`);
+    }
+    return missing.length > 0 ? `浇筑材料不足：${missing.join('；')}` : null;
+  }
+
+  /**
+   * 浇筑一格黑曜石：在目标位置倒岩浆，然后在外侧放水使其凝固，再把水收回
+   */
+  private async castObsidian(bot: Bot, position: Vec3, normal: Vec3, scaffoldBlock: string, supports: Vec3[], signal?: AbortSignal): Promise<void> {
+    if (bot.blockAt(position)?.name === 'obsidian') return;
+
+    await this.ensureLavaBucket(bot, signal);
+
+    // 外侧放水的位置下方需要有方块
+    const waterPosition = position.plus(normal);
+    const support = waterPosition.offset(0, -1, 0);
+    if (bot.blockAt(support)?.boundingBox !== 'block') {
+      const result = await PlaceBlockUtils.placeBlock(bot, { x: support.x, y: support.y, z: support.z, block: scaffoldBlock, signal });
+      if (!result.success) throw new Error(`放置放水垫脚失败: ${result.message}`);
+      supports.push(support);
+    }
+
+    await this.moveNear(bot, position.plus(normal.scaled(2)), 1, signal);
+
+    // 倒岩浆，在外侧放水使其凝固，然后收回水
+    await BucketUtils.placeFluid(bot, position, 'lava', signal);
+    if (!await BucketUtils.solidifyLava(bot, position, signal, [waterPosition])) {
+      throw new Error('收回水失败，没有水桶可以继续浇筑');
+    }
+  }
+
+  /**
+   * 框架中不是黑曜石的位置（角落不要求）
+   */
+  private findInvalidFrame(bot: Bot, at: (i: number, j: number) => Vec3): Array<{ x: number; y: number; z: number; block: string }> {
+    const invalid: Array<{ x: number; y: number; z: number; block: string }> = [];
+    for (let i = 0; i < 4; i++) {
+      for (let j = 0; j < 5; j++) {
+        if (this.partAt(i, j) !== 'frame') continue;
+        const position = at(i, j);
+        const block = bot.blockAt(position);
+        if (block?.name !== 'obsidian') invalid.push({ ...this.toPoint(position), block: block?.name ?? 'unknown' });
+      }
+    }
+    return invalid;
+  }
+
+  /**
+   * 背包中没有岩浆桶时用空桶从附近的岩浆源装一桶
+   */
+  private async ensureLavaBucket(bot: Bot, signal?: AbortSignal): Promise<void> {
+    if (this.countItem(bot, 'lava_bucket') > 0) return;
+    const lava = BucketUtils.findSource(bot, 'lava', LAVA_SEARCH_DISTANCE);
+    if (!lava) throw new Error(`岩浆桶用完了，附近 ${LAVA_SEARCH_DISTANCE} 格内没有岩浆源`);
+    await BucketUtils.fill(bot, lava, signal);
+  }
+
+  /**
+   * 在空位放置方块，已经是实心方块时跳过
+   * @returns 是否新放置了方块
+   */
+  private async placeSolid(
+    bot: Bot,
+    position: Vec3,
+    blockName: string,
+    placed: Array<{ x: number; y: number; z: number }>,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    if (bot.blockAt(position)?.boundingBox === 'block') return false;
+    const result = await PlaceBlockUtils.placeBlock(bot, { x: position.x, y: position.y, z: position.z, block: blockName, signal });
+    if (!result.success) {
+      throw new Error(`在 (${position.x}, ${position.y}, ${position.z}) 放置 ${blockName} 失败: ${result.message}`);
+    }
+    placed.push(this.toPoint(position));
+    return true;
+  }
+
+  /**
+   * 用打火石或火焰弹点燃框架底部，等待传送门方块出现
+   */
+  private async ignite(bot: Bot, bottom: Block, portalPosition: Vec3, signal?: AbortSignal): Promise<{ success: boolean; message: string }> {
+    const igniter = bot.inventory.items().find(item => item.name === 'flint_and_steel')
+      ?? bot.inventory.items().find(item => item.name === 'fire_charge');
+    if (!igniter) return { success: false, message: '背包中没有打火石或火焰弹，无法点燃' };
+
+    await this.moveNear(bot, portalPosition, 3, signal);
+    await bot.equip(igniter, 'hand');
+    await bot.activateBlock(bottom, new Vec3(0, 1, 0));
+
+    const deadline = Date.now() + IGNITE_WAIT_MS;
+    while (Date.now() < deadline) {
+      if (bot.blockAt(portalPosition)?.name === 'nether_portal') return { success: true, message: '已点燃' };
+      await AbortUtils.sleep(200, signal);
+    }
+    return { success: false, message: '点燃后没有生成传送门，请检查框架是否完整' };
+  }
+
+  private async moveNear(bot: Bot, position: Vec3, distance: number, signal?: AbortSignal): Promise<void> {
+    if (bot.entity.position.distanceTo(position.offset(0.5, 0.5, 0.5)) <= distance + 1) return;
+    const result = await MovementUtils.moveTo(bot, {
+      type: 'coordinate',
+      x: position.x,
+      y: position.y,
+      z: position.z,
+      distance,
+      maxDistance: 100,
+      useRelativeCoords: false,
+      goalType: GoalType.GoalNear,
+      signal
+    });
+    if (!result.success) {
+      this.logger.warn(`移动到 (${position.x}, ${position.y}, ${position.z}) 附近失败: ${result.error}`);
+    }
+  }
+
+  private pickScaffoldBlock(bot: Bot): string | undefined {
+    return SCAFFOLD_CANDIDATES
+      .map(name => ({ name, count: this.countItem(bot, name) }))
+      .filter(entry => entry.count > 0)
+      .sort((a, b) => b.count - a.count)[0]?.name;
+  }
+
+  private countItem(bot: Bot, name: string): number {
+    return bot.inventory.items().filter(item => item.name === name).reduce((sum, item) => sum + item.count, 0);
+  }
+
+  private toPoint(position: Vec3): { x: number; y: number; z: number } {
+    return { x: position.x, y: position.y, z: position.z };
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: build_nether_portal）
+}
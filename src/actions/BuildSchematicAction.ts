@@ -0,0 +1,337 @@
+import { Bot } from 'mineflayer';
+import { Vec3 } from 'vec3';
+import path from 'path';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { MinecraftClient } from '../minecraft/MinecraftClient.js';
+import { SchematicUtils, SchematicBlock } from '../utils/SchematicUtils.js';
+import { PlaceBlockUtils } from '../utils/PlaceBlockUtils.js';
+import { BucketUtils } from '../utils/BucketUtils.js';
+import { MineBlockUtils } from '../utils/MineBlockUtils.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
+
+interface BuildSchematicParams extends BaseActionParams {
+  file?: string;
+  x?: number;
+  y?: number;
+  z?: number;
+  dry_run?: boolean;
+  replace?: boolean;
+  allow_partial?: boolean;
+  scaffold_block?: string;
+}
+
+interface MaterialEntry {
+  name: string;
+  needed: number;
+  have: number;
+  missing: number;
+}
+
+/** 搭建脚手架的最大高度 */
+const MAX_SCAFFOLD_HEIGHT = 16;
+
+const AIR_BLOCKS = new Set(['air', 'cave_air', 'void_air']);
+
+const NEIGHBOR_OFFSETS = [
+  new Vec3(0, -1, 0), new Vec3(0, 1, 0), new Vec3(1, 0, 0), new Vec3(-1, 0, 0), new Vec3(0, 0, 1), new Vec3(0, 0, -1)
+];
+
+/**
+ * BuildSchematicAction - 按蓝图建造
+ * 从蓝图目录读取 .schem / .schematic / .nbt 文件，对照背包计算材料清单，然后逐层放置方块。
+ * 已经正确放置的方块会被跳过，因此中断（取消、超时）后重新执行即可从上次的位置继续。
+ */
+export class BuildSchematicAction extends BaseAction<BuildSchematicParams> {
+  name = 'buildSchematic';
+  description = '按蓝图文件（.schem/.schematic/.nbt）逐层建造。dry_run 只返回材料清单和进度；已放置正确的方块会被跳过，中断后重新执行即可继续。不指定 file 时列出可用蓝图';
+  schema = z.object({
+    file: z.string().optional().describe('蓝图文件名，相对于蓝图目录 (字符串，可选，不指定时列出可用蓝图)'),
+    x: z.number().int().optional().describe('建造原点X坐标 (整数，可选，默认当前位置)'),
+    y: z.number().int().optional().describe('建造原点Y坐标 (整数，可选，默认当前位置)'),
+    z: z.number().int().optional().describe('建造原点Z坐标 (整数，可选，默认当前位置)'),
+    dry_run: z.boolean().optional().describe('是否只返回计划，不实际建造 (布尔值，可选，默认false)'),
+    replace: z.boolean().optional().describe('是否挖掉与蓝图不一致的已有方块 (布尔值，可选，默认false)'),
+    allow_partial: z.boolean().optional().describe('材料不足时是否仍然建造能建造的部分 (布尔值，可选，默认false)'),
+    scaffold_block: z.string().optional().describe('悬空方块下方搭建脚手架使用的方块 (字符串，可选，默认dirt)，建造完成后会拆除'),
+  });
+
+  async execute(bot: Bot, params: BuildSchematicParams, context?: ActionContext): Promise<ActionResult> {
+    try {
+      const client = (bot as any).client as MinecraftClient | undefined;
+      const dir = client?.getSchematicsDir?.() ?? path.resolve('schematics');
+
+      if (!params.file) {
+        const files = SchematicUtils.listFiles(dir);
+        return this.createSuccessResult(`蓝图目录中有 ${files.length} 个蓝图`, { dir, files });
+      }
+
+      const filePath = SchematicUtils.resolvePath(dir, params.file);
+      const schematic = await SchematicUtils.load(filePath, bot.version);
+      const blocks = SchematicUtils.listBlocks(schematic, bot.registry);
+
+      const hasOrigin = params.x !== undefined && params.y !== undefined && params.z !== undefined;
+      const origin = hasOrigin ? new Vec3(params.x!, params.y!, params.z!) : bot.entity.position.floored();
+
+      // 对照当前世界状态区分已完成、待放置、冲突和无法放置的方块
+      const done: SchematicBlock[] = [];
+      const pending: SchematicBlock[] = [];
+      const conflicts: SchematicBlock[] = [];
+      const unplaceable: SchematicBlock[] = [];
+      for (const block of blocks) {
+        const current = bot.blockAt(origin.plus(block.offset));
+        if (SchematicUtils.matches(current, block)) {
+          done.push(block);
+        } else if (!block.item) {
+          unplaceable.push(block);
+        } else if (current && current.boundingBox !== 'empty') {
+          conflicts.push(block);
+        } else {
+          pending.push(block);
+        }
+      }
+
+      const toPlace = params.replace ? [...pending, ...conflicts] : pending;
+      const materials = this.computeMaterials(bot, toPlace);
+      const missing = materials.filter(entry => entry.missing > 0);
+
+      const plan = {
+        file: params.file,
+        origin: { x: origin.x, y: origin.y, z: origin.z },
+        size: { x: schematic.size.x, y: schematic.size.y, z: schematic.size.z },
+        totalBlocks: blocks.length,
+        placed: done.length,
+        remaining: toPlace.length,
+        conflicts: conflicts.length,
+        unplaceable: this.countByName(unplaceable),
+        materials,
+      };
+
+      if (params.dry_run) {
+        const message = missing.length === 0
+          ? `蓝图 ${params.file} 共 ${blocks.length} 个方块，已完成 ${done.length} 个，还需放置 ${toPlace.length} 个，材料齐全`
+          : `蓝图 ${params.file} 还需放置 ${toPlace.length} 个方块，缺少材料: ${this.formatMissing(missing)}`;
+        return this.createSuccessResult(message, plan);
+      }
+
+      if (toPlace.length === 0) {
+        return this.createSuccessResult(`蓝图 ${params.file} 已建造完成`, plan);
+      }
+      if (missing.length > 0 && !params.allow_partial) {
+        return this.createErrorResult(`缺少材料: ${this.formatMissing(missing)}`, 'MISSING_MATERIALS', plan);
+      }
+
+      return await this.build(bot, origin, toPlace, blocks, params, plan, context);
+    } catch (err) {
+      if (AbortUtils.isAbortError(err)) {
+        return this.createErrorResult('按蓝图建造已被取消，重新执行可继续', 'CANCELLED');
+      }
+      return this.createExceptionResult(err, '按蓝图建造失败', 'BUILD_FAILED');
+    }
+  }
+
+  /**
+   * 逐层放置方块
+   */
+  private async build(
+    bot: Bot,
+    origin: Vec3,
+    toPlace: SchematicBlock[],
+    allBlocks: SchematicBlock[],
+    params: BuildSchematicParams,
+    plan: Record<string, any>,
+    context?: ActionContext
+  ): Promise<ActionResult> {
+    const scaffoldBlock = params.scaffold_block ?? 'dirt';
+    const targets = new Set(allBlocks.map(block => this.key(origin.plus(block.offset))));
+    const scaffolds: Vec3[] = [];
+    const failures: Array<{ position: { x: number; y: number; z: number }; block: string; reason: string }> = [];
+    let placed = 0;
+
+    // 按层从下到上，同层内由近及远
+    const ordered = [...toPlace].sort((a, b) => a.offset.y - b.offset.y
+      || bot.entity.position.distanceTo(origin.plus(a.offset)) - bot.entity.position.distanceTo(origin.plus(b.offset)));
+
+    try {
+      for (const block of ordered) {
+        AbortUtils.throwIfAborted(context?.signal);
+        const position = origin.plus(block.offset);
+        const fail = (reason: string) => failures.push({ position: { x: position.x, y: position.y, z: position.z }, block: block.name, reason });
+
+        const current = bot.blockAt(position);
+        if (SchematicUtils.matches(current, block)) continue;
+
+        if (current && current.boundingBox !== 'empty') {
+          if (!params.replace) {
+            fail(`位置已有方块 ${current.name}`);
+            continue;
+          }
+          if (!await this.clearBlock(bot, position, context?.signal)) {
+            fail(`无法挖掉已有方块 ${current.name}`);
+            continue;
+          }
+        } else if (current && !AIR_BLOCKS.has(current.name) && current.name !== 'water' && current.name !== 'lava') {
+          // 草、花、雪层、朝向不对的火把等可直接破坏的方块
+          if (!await this.clearBlock(bot, position, context?.signal)) {
+            fail(`无法清除 ${current.name}`);
+            continue;
+          }
+        }
+
+        if (!this.countItem(bot, block.item!)) {
+          fail(`背包中没有 ${block.item}`);
+          continue;
+        }
+
+        if (!this.hasReference(bot, position)) {
+          const built = await this.buildScaffold(bot, position, scaffoldBlock, targets, scaffolds, context?.signal);
+          if (!built) {
+            fail('悬空且无法搭建脚手架');
+            continue;
+          }
+        }
+
+        const result = await this.placeBlock(bot, position, block, context?.signal);
+        if (!result.success) {
+          fail(result.message);
+          continue;
+        }
+
+        placed++;
+        context?.reportProgress({
+          progress: placed,
+          total: ordered.length,
+          message: `已放置 ${block.name} (${position.x}, ${position.y}, ${position.z})，第 ${block.offset.y + 1} 层`
+        });
+      }
+    } finally {
+      // 拆除脚手架（从上到下），取消时也要拆除，因此不传取消信号
+      for (const scaffold of scaffolds.reverse()) {
+        await MineBlockUtils.digAt(bot, scaffold).catch(() => false);
+      }
+    }
+
+    const data = { ...plan, placedNow: placed, remaining: ordered.length - placed, failures };
+    if (failures.length === 0) {
+      return this.createSuccessResult(`蓝图 ${params.file} 建造完成，本次放置 ${placed} 个方块`, data);
+    }
+    if (placed > 0) {
+      return this.createSuccessResult(`部分完成：本次放置 ${placed} 个方块，${failures.length} 个方块未能放置，重新执行可继续`, data);
+    }
+    return this.createErrorResult(`未能放置任何方块: ${failures[0].reason}`, 'BUILD_FAILED', data);
+  }
+
+  /**
+   * 按蓝图中的方块状态放置一个方块：水和岩浆用桶放置，其余方块按朝向要求选择放置面和视线方向
+   */
+  private async placeBlock(bot: Bot, position: Vec3, block: SchematicBlock, signal?: AbortSignal): Promise<{ success: boolean; message: string }> {
+    if (block.name === 'water' || block.name === 'lava') {
+      try {
+        await BucketUtils.placeFluid(bot, position, block.name, signal);
+        return { success: true, message: `成功放置 ${block.name}` };
+      } catch (err) {
+        if (AbortUtils.isAbortError(err)) throw err;
+        return { success: false, message: err instanceof Error ? err.message : String(err) };
+      }
+    }
+
+    const result = await PlaceBlockUtils.placeBlock(bot, {
+      x: position.x,
+      y: position.y,
+      z: position.z,
+      block: block.item!,
+      orientation: SchematicUtils.placementFor(block),
+      signal,
+    });
+    if (!result.success || !SchematicUtils.isDoubleSlab(block)) return result;
+
+    // 双层台阶：在刚放下的下半台阶顶面再放一个
+    const slab = bot.blockAt(position);
+    const item = bot.inventory.items().find(invItem => invItem.name === block.item);
+    if (!slab || !item) return { success: false, message: `背包中没有第二个 ${block.item}` };
+    try {
+      await bot.equip(item, 'hand');
+      await bot.placeBlock(slab, new Vec3(0, 1, 0));
+      return result;
+    } catch (err) {
+      return { success: false, message: `放置双层台阶的上半失败: ${err instanceof Error ? err.message : String(err)}` };
+    }
+  }
+
+  /**
+   * 目标位置周围是否有可以作为参照的方块
+   */
+  private hasReference(bot: Bot, position: Vec3): boolean {
+    return NEIGHBOR_OFFSETS.some(offset => {
+      const neighbor = bot.blockAt(position.plus(offset));
+      return neighbor !== null && neighbor.boundingBox === 'block';
+    });
+  }
+
+  /**
+   * 在悬空位置下方从地面搭建脚手架柱
+   * @returns 是否搭建成功
+   */
+  private async buildScaffold(bot: Bot, position: Vec3, scaffoldBlock: string, targets: Set<string>, scaffolds: Vec3[], signal?: AbortSignal): Promise<boolean> {
+    let ground = position.offset(0, -1, 0);
+    let height = 0;
+    while (height < MAX_SCAFFOLD_HEIGHT) {
+      const below = bot.blockAt(ground.offset(0, -1, 0));
+      if (!below) return false;
+      if (below.boundingBox === 'block') break;
+      ground = ground.offset(0, -1, 0);
+      height++;
+    }
+    if (height >= MAX_SCAFFOLD_HEIGHT) return false;
+
+    for (let y = ground.y; y < position.y; y++) {
+      const scaffold = new Vec3(position.x, y, position.z);
+      if (bot.blockAt(scaffold)?.boundingBox === 'block') continue;
+      const result = await PlaceBlockUtils.placeBlock(bot, { x: scaffold.x, y: scaffold.y, z: scaffold.z, block: scaffoldBlock, signal });
+      if (!result.success) return false;
+      // 蓝图本身包含的位置之后会被替换，不作为脚手架拆除
+      if (!targets.has(this.key(scaffold))) scaffolds.push(scaffold);
+    }
+    return true;
+  }
+
+  /**
+   * 挖掉目标位置上的方块，挖掘出错时只记录并返回 false，由调用方记为失败后继续建造
+   */
+  private async clearBlock(bot: Bot, position: Vec3, signal?: AbortSignal): Promise<boolean> {
+    try {
+      return await MineBlockUtils.digAt(bot, position, signal);
+    } catch (err) {
+      if (AbortUtils.isAbortError(err)) throw err;
+      this.logger.warn(`挖掉 (${position.x}, ${position.y}, ${position.z}) 的方块失败: ${err instanceof Error ? err.message : String(err)}`);
+      return false;
+    }
+  }
+
+  private computeMaterials(bot: Bot, blocks: SchematicBlock[]): MaterialEntry[] {
+    return Array.from(SchematicUtils.billOfMaterials(blocks), ([name, needed]) => {
+      const have = this.countItem(bot, name);
+      return { name, needed, have, missing: Math.max(0, needed - have) };
+    }).sort((a, b) => b.needed - a.needed);
+  }
+
+  private countItem(bot: Bot, name: string): number {
+    return bot.inventory.items().filter(item => item.name === name).reduce((sum, item) => sum + item.count, 0);
+  }
+
+  private countByName(blocks: SchematicBlock[]): Array<{ name: string; count: number }> {
+    const counts = new Map<string, number>();
+    for (const block of blocks) counts.set(block.name, (counts.get(block.name) ?? 0) + 1);
+    return Array.from(counts, ([name, count]) => ({ name, count }));
+  }
+
+  private formatMissing(missing: MaterialEntry[]): string {
+    return missing.map(entry => `${entry.name} × ${entry.missing}`).join(', ');
+  }
+
+  private key(position: Vec3): string {
+    return `${position.x},${position.y},${position.z}`;
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: build_schematic）
+}
@@ -0,0 +1,360 @@
+import { Bot } from 'mineflayer';
+import { Block } from 'prismarine-block';
+import { Vec3 } from 'vec3';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { MovementUtils, GoalType } from '../utils/MovementUtils.js';
+import { PlaceBlockUtils } from '../utils/PlaceBlockUtils.js';
+import { MineBlockUtils } from '../utils/MineBlockUtils.js';
+import { MinecraftUtils } from '../utils/MinecraftUtils.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
+import { MinecraftClient } from '../minecraft/MinecraftClient.js';
+
+type ShelterMode = 'auto' | 'dig' | 'hut';
+
+interface BuildShelterParams extends BaseActionParams {
+  /** auto：附近有山坡时挖洞，否则搭小屋 */
+  mode?: ShelterMode;
+  /** 墙体、屋顶和地板使用的方块，默认背包中最多的圆石/泥土等 */
+  block?: string;
+  /** 是否放门，默认 true（没有门时用方块封住门口） */
+  door?: boolean;
+  /** 是否放火把，默认 true */
+  torch?: boolean;
+  /** 是否放床，默认 true（仅主世界） */
+  bed?: boolean;
+  /** 建好后保存为路径点的名称 */
+  waypoint?: string;
+}
+
+/** 避难所的局部坐标系：a 向右，y 向上，b 向前 */
+interface ShelterLayout {
+  mode: 'dig' | 'hut';
+  origin: Vec3;
+  at: (a: number, y: number, b: number) => Vec3;
+  /** 需要挖空的内部空间（含门口） */
+  interior: Vec3[];
+  /** 需要补上方块的墙、屋顶、地板和支撑 */
+  shell: Vec3[];
+  torch: Vec3;
+}
+
+const AIR_BLOCKS = new Set(['air', 'cave_air', 'void_air']);
+const BUILDING_CANDIDATES = ['cobblestone', 'cobbled_deepslate', 'dirt', 'netherrack', 'stone', 'blackstone', 'andesite', 'diorite', 'granite', 'deepslate', 'oak_planks', 'spruce_planks', 'birch_planks'];
+const FALLING_BLOCKS = new Set(['sand', 'red_sand', 'gravel', 'suspicious_sand', 'suspicious_gravel']);
+const TORCH_ITEMS = ['torch', 'soul_torch'];
+/** 小屋内部 3x3x2，山洞内部 1x4x2 */
+const HUT_RADIUS = 1;
+const TUNNEL_LENGTH = 4;
+
+/**
+ * BuildShelterAction - 建造过夜避难所
+ * dig：沿 bot 四周的山坡挖进一条 1 格宽、4 格深、2 格高的山洞；hut：以 bot 前方为中心搭一个内部 3x3x2 的封闭小屋。
+ * 内部布局相同：门口 → 站立位置 → 床尾 → 床头，bot 最后站在门内；放方块时不离开站立位置，所以只依赖已经放好的实心方块作为参照
+ */
+export class BuildShelterAction extends BaseAction<BuildShelterParams> {
+  name = 'buildShelter';
+  description = '建造过夜避难所：dig 挖进附近的山坡（约需 10 个方块补洞），hut 在前方搭内部 3x3x2 的封闭小屋（约需 35 个方块），auto 有合适山坡时挖洞否则搭小屋。背包有门、火把、床时自动放置（没有门时用方块封住门口），完成后 bot 站在避难所内并返回坐标';
+  schema = z.object({
+    mode: z.enum(['auto', 'dig', 'hut']).optional().describe('建造方式 (auto | dig | hut，默认是 auto)'),
+    block: z.string().optional().describe('墙体使用的方块 (字符串，可选，默认背包中最多的圆石/泥土/木板等)'),
+    door: z.boolean().optional().describe('是否放门 (布尔值，可选，默认 true)，背包没有门时用方块封住门口'),
+    torch: z.boolean().optional().describe('是否放火把 (布尔值，可选，默认 true)'),
+    bed: z.boolean().optional().describe('是否放床 (布尔值，可选，默认 true，仅主世界)'),
+    waypoint: z.string().min(1).optional().describe('建好后保存为路径点的名称 (字符串，可选)'),
+  });
+
+  async execute(bot: Bot, params: BuildShelterParams, context?: ActionContext): Promise<ActionResult> {
+    const signal = context?.signal;
+    const placed: Array<{ x: number; y: number; z: number }> = [];
+    try {
+      const feet = bot.entity.position.floored();
+      const forward = this.snapDirection(bot.entity.yaw);
+      const mode = params.mode ?? 'auto';
+
+      let layout: ShelterLayout | null = null;
+      if (mode !== 'hut') {
+        layout = this.findHillside(bot, feet, forward);
+        if (!layout && mode === 'dig') {
+          return this.createErrorResult('附近没有可以挖进去的山坡（需要前方 5 格、2 格高的实心方块且上方不是沙砾）', 'SITE_NOT_FOUND');
+        }
+      }
+      layout = layout ?? this.hutLayout(feet, forward);
+      const { at } = layout;
+
+      const blockName = params.block ?? this.pickBuildingBlock(bot);
+      if (!blockName) {
+        return this.createErrorResult('背包中没有可用于建造的方块，请通过 block 参数指定', 'MISSING_MATERIALS');
+      }
+      if (!bot.registry.blocksByName[blockName]) {
+        return this.createErrorResult(`${blockName} 不是可以放置的方块`, 'INVALID_PARAMS');
+      }
+
+      this.logger.info(`开始建造避难所（${layout.mode}），中心 (${layout.origin.x}, ${layout.origin.y}, ${layout.origin.z})`);
+
+      // 挖空内部和门口
+      let blocksDug = 0;
+      for (const position of layout.interior) {
+        AbortUtils.throwIfAborted(signal);
+        const before = bot.blockAt(position);
+        if (!await MineBlockUtils.digAt(bot, position, signal)) {
+          return this.createErrorResult(
+            `无法挖开 (${position.x}, ${position.y}, ${position.z}) 的 ${before?.name ?? '未知方块'}，请换个位置`,
+            'SITE_BLOCKED',
+            { mode: layout.mode, origin: this.toPoint(layout.origin) }
+          );
+        }
+        if (before && !AIR_BLOCKS.has(before.name)) blocksDug++;
+      }
+      const blocked = layout.interior
+        .map(position => bot.blockAt(position))
+        .filter((block): block is Block => !!block && (block.boundingBox === 'block' || MineBlockUtils.isFluidBlock(block)));
+      if (blocked.length > 0) {
+        const list = blocked.map(b => `${b.name}(${b.position.x}, ${b.position.y}, ${b.position.z})`).join(', ');
+        return this.createErrorResult(`避难所内部没有清理干净：${list}`, 'SITE_BLOCKED', { mode: layout.mode, origin: this.toPoint(layout.origin) });
+      }
+
+      // 检查材料
+      const door = params.door === false ? undefined : bot.inventory.items().find(item => item.name.endsWith('_door') && item.name !== 'iron_door');
+      const doorway = [at(0, 0, -2), at(0, 1, -2)];
+      const needed = layout.shell.filter(position => bot.blockAt(position)?.boundingBox !== 'block').length + (door ? 0 : doorway.length);
+      const available = this.countItem(bot, blockName);
+      if (available < needed) {
+        return this.createErrorResult(`${blockName} 不足：需要 ${needed} 个，背包有 ${available} 个`, 'MISSING_MATERIALS', {
+          mode: layout.mode,
+          origin: this.toPoint(layout.origin),
+        });
+      }
+
+      // 走到门内的站立位置，之后所有方块都在这里放置
+      const stand = at(0, 0, -1);
+      const moveResult = await MovementUtils.moveTo(bot, {
+        type: 'coordinate',
+        x: stand.x,
+        y: stand.y,
+        z: stand.z,
+        distance: 0,
+        maxDistance: 100,
+        useRelativeCoords: false,
+        goalType: GoalType.GoalBlock,
+        signal
+      });
+      if (!moveResult.success) {
+        return this.createErrorResult(`无法进入避难所: ${moveResult.error}`, 'MOVE_FAILED', { stand: this.toPoint(stand) });
+      }
+
+      // 墙、屋顶和地板：反复尝试直到没有新的方块能放上去（屋顶需要先放好的支撑作为参照）
+      let pending = layout.shell.filter(position => bot.blockAt(position)?.boundingBox !== 'block');
+      while (pending.length > 0) {
+        const remaining: Vec3[] = [];
+        for (const position of pending) {
+          AbortUtils.throwIfAborted(signal);
+          if (bot.blockAt(position)?.boundingBox === 'block') continue;
+          if (await this.placeAt(bot, position, blockName)) {
+            placed.push(this.toPoint(position));
+          } else {
+            remaining.push(position);
+          }
+        }
+        if (remaining.length === pending.length) break;
+        pending = remaining;
+      }
+      const gaps = pending.map(position => this.toPoint(position));
+
+      // 门口：放门，否则用方块封住
+      let doorPlaced = false;
+      if (door) {
+        doorPlaced = await this.placeAt(bot, doorway[0], door.name, '+y');
+      }
+      if (!doorPlaced) {
+        for (const position of doorway) {
+          if (await this.placeAt(bot, position, blockName)) {
+            placed.push(this.toPoint(position));
+          } else {
+            gaps.push(this.toPoint(position));
+          }
+        }
+      }
+
+      // 床和火把
+      const dimension = MinecraftUtils.getDimension(bot);
+      const bedItem = params.bed === false || dimension !== 'overworld'
+        ? undefined
+        : bot.inventory.items().find(item => item.name.endsWith('_bed'));
+      let bedPlaced = false;
+      if (bedItem) {
+        // 站在床尾后方看向床尾，床头朝向里侧
+        bedPlaced = await this.placeAt(bot, at(0, 0, 0), bedItem.name, '+y');
+      }
+      const torchItem = params.torch === false
+        ? undefined
+        : bot.inventory.items().find(item => TORCH_ITEMS.includes(item.name));
+      const torchPlaced = torchItem ? await this.placeAt(bot, layout.torch, torchItem.name, '+y') : false;
+
+      if (params.waypoint) {
+        const store = ((bot as any).client as MinecraftClient | undefined)?.getWaypointStore?.();
+        store?.set(params.waypoint, stand, dimension, layout.mode === 'dig' ? '山洞避难所' : '小屋避难所');
+      }
+
+      const data = {
+        mode: layout.mode,
+        origin: this.toPoint(layout.origin),
+        stand: this.toPoint(stand),
+        door: doorPlaced ? { ...this.toPoint(doorway[0]), block: door!.name } : null,
+        bed: bedPlaced ? { ...this.toPoint(at(0, 0, 0)), block: bedItem!.name } : null,
+        torch: torchPlaced ? this.toPoint(layout.torch) : null,
+        blocksPlaced: placed.length,
+        blocksDug,
+        gaps,
+        waypoint: params.waypoint ?? null,
+      };
+      const kind = layout.mode === 'dig' ? '山洞' : '小屋';
+      if (gaps.length > 0) {
+        const list = gaps.map(p => `(${p.x}, ${p.y}, ${p.z})`).join(', ');
+        return this.createErrorResult(`${kind}已基本建好，但以下位置没能补上：${list}`, 'SHELTER_INCOMPLETE', data);
+      }
+      return this.createSuccessResult(`${kind}避难所已建好，bot 位于 (${stand.x}, ${stand.y}, ${stand.z})`, data);
+    } catch (err) {
+      if (AbortUtils.isAbortError(err)) {
+        return this.createErrorResult('建造避难所已被取消', 'CANCELLED', { blocksPlaced: placed.length, placed });
+      }
+      return this.createExceptionResult(err, '建造避难所失败', 'BUILD_SHELTER_FAILED');
+    }
+  }
+
+  /**
+   * 依次检查 bot 朝向及另外三个方向，找到能挖进去的山坡
+   */
+  private findHillside(bot: Bot, feet: Vec3, forward: Vec3): ShelterLayout | null {
+    const directions = [forward, this.rightOf(forward), forward.scaled(-1), this.rightOf(forward).scaled(-1)];
+    for (const direction of directions) {
+      // 门口在 bot 前方 1 格，内部向前延伸 4 格
+      const origin = feet.plus(direction.scaled(3));
+      const at = this.frame(origin, direction);
+      const interior: Vec3[] = [];
+      for (let b = -2; b < TUNNEL_LENGTH - 1; b++) {
+        interior.push(at(0, 1, b), at(0, 0, b));
+      }
+
+      const solid = interior.every(position => {
+        const block = bot.blockAt(position);
+        return !!block && block.boundingBox === 'block' && block.diggable;
+      });
+      if (!solid) continue;
+
+      const shell = this.shellOf(interior.filter(position => !position.equals(at(0, 0, -2)) && !position.equals(at(0, 1, -2))), interior);
+      shell.push(at(0, -1, -2));
+      const unsafe = [...shell, ...interior].some(position => {
+        const block = bot.blockAt(position);
+        return !block || MineBlockUtils.isFluidBlock(block) || this.isFallingBlock(block);
+      });
+      if (unsafe) continue;
+
+      return { mode: 'dig', origin, at, interior, shell, torch: at(0, 0, TUNNEL_LENGTH - 2) };
+    }
+    return null;
+  }
+
+  /**
+   * 以 bot 前方 1 格为中心的小屋，bot 当前位置就是门内的站立位置
+   */
+  private hutLayout(feet: Vec3, forward: Vec3): ShelterLayout {
+    const origin = feet.plus(forward);
+    const at = this.frame(origin, forward);
+    const rooms: Vec3[] = [];
+    for (let a = -HUT_RADIUS; a <= HUT_RADIUS; a++) {
+      for (let b = -HUT_RADIUS; b <= HUT_RADIUS; b++) {
+        rooms.push(at(a, 1, b), at(a, 0, b));
+      }
+    }
+    const doorway = [at(0, 1, -2), at(0, 0, -2)];
+    const interior = [...rooms, ...doorway];
+    const shell = this.shellOf(rooms, interior);
+    shell.push(at(0, -1, -2));
+    // 屋顶没有水平方向的参照，先在四面墙顶放支撑
+    const edge = HUT_RADIUS + 1;
+    shell.push(at(-edge, 2, 0), at(edge, 2, 0), at(0, 2, -edge), at(0, 2, edge));
+    return { mode: 'hut', origin, at, interior, shell, torch: at(-1, 0, 1) };
+  }
+
+  /**
+   * 内部空间六个方向上的相邻方块（不含内部本身），地板在前、屋顶在后
+   */
+  private shellOf(cells: Vec3[], interior: Vec3[]): Vec3[] {
+    const offsets = [new Vec3(0, -1, 0), new Vec3(1, 0, 0), new Vec3(-1, 0, 0), new Vec3(0, 0, 1), new Vec3(0, 0, -1), new Vec3(0, 1, 0)];
+    const shell: Vec3[] = [];
+    const isTaken = (position: Vec3) =>
+      interior.some(cell => cell.equals(position)) || shell.some(cell => cell.equals(position));
+    for (const offset of offsets) {
+      for (const cell of cells) {
+        const neighbour = cell.plus(offset);
+        if (!isTaken(neighbour)) shell.push(neighbour);
+      }
+    }
+    return shell;
+  }
+
+  /**
+   * 在原地放置方块，不移动 bot（PlaceBlockUtils.placeBlock 会为视线移动，可能把 bot 带出避难所）
+   * @returns 是否放置成功
+   */
+  private async placeAt(bot: Bot, position: Vec3, itemName: string, face?: string): Promise<boolean> {
+    const before = bot.blockAt(position);
+    if (!before || before.boundingBox === 'block') return false;
+    const reference = PlaceBlockUtils.findReference(bot, position, face, block => block.boundingBox === 'block');
+    if (!reference || (face && !reference.faceVector.equals(new Vec3(0, 1, 0)))) return false;
+
+    const item = bot.inventory.items().find(i => i.name === itemName);
+    if (!item) throw new Error(`背包中没有 ${itemName}`);
+    await bot.equip(item, 'hand');
+    try {
+      await bot.placeBlock(reference.referenceBlock, reference.faceVector);
+    } catch (err) {
+      this.logger.warn(`在 (${position.x}, ${position.y}, ${position.z}) 放置 ${itemName} 失败: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    const block = bot.blockAt(position);
+    return !!block && block.name !== before.name;
+  }
+
+  /**
+   * 局部坐标到世界坐标：a 沿右侧，b 沿 forward
+   */
+  private frame(origin: Vec3, forward: Vec3): (a: number, y: number, b: number) => Vec3 {
+    const right = this.rightOf(forward);
+    return (a, y, b) => origin.plus(right.scaled(a)).plus(forward.scaled(b)).offset(0, y, 0);
+  }
+
+  private rightOf(forward: Vec3): Vec3 {
+    return new Vec3(-forward.z, 0, forward.x);
+  }
+
+  /**
+   * 把 bot 朝向吸附到最近的水平轴方向
+   */
+  private snapDirection(yaw: number): Vec3 {
+    const x = -Math.sin(yaw);
+    const z = -Math.cos(yaw);
+    return Math.abs(x) > Math.abs(z) ? new Vec3(Math.sign(x), 0, 0) : new Vec3(0, 0, Math.sign(z) || -1);
+  }
+
+  private isFallingBlock(block: Block): boolean {
+    return FALLING_BLOCKS.has(block.name) || block.name.endsWith('_concrete_powder');
+  }
+
+  private pickBuildingBlock(bot: Bot): string | undefined {
+    return BUILDING_CANDIDATES
+      .map(name => ({ name, count: this.countItem(bot, name) }))
+      .filter(entry => entry.count > 0)
+      .sort((a, b) => b.count - a.count)[0]?.name;
+  }
+
+  private countItem(bot: Bot, name: string): number {
+    return bot.inventory.items().filter(item => item.name === name).reduce((sum, item) => sum + item.count, 0);
+  }
+
+  private toPoint(position: Vec3): { x: number; y: number; z: number } {
+    return { x: position.x, y: position.y, z: position.z };
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: build_shelter）
+}
@@ -1,5 +1,5 @@
 import { Bot } from 'mineflayer';
-import { BaseAction, BaseActionParams, ActionResult } from '../minecraft/ActionInterface.js';
+import { BaseAction, BaseActionParams, ActionResult, ActionConcurrency } from '../minecraft/ActionInterface.js';
 import { z } from 'zod';
 
 interface ChatParams extends BaseActionParams {
@@ -9,6 +9,8 @@ interface ChatParams extends BaseActionParams {
 export class ChatAction extends BaseAction<ChatParams> {
   name = 'chat';
   description = '发送聊天消息';
+  // 发送消息不控制 bot，可与其他动作同时执行
+  concurrency: ActionConcurrency = 'parallel';
   schema = z.object({
     message: z.string().describe('要发送的聊天消息 (字符串)'),
   });
@@ -1,9 +1,11 @@
 import { Bot } from 'mineflayer';
-import { BaseAction, BaseActionParams, ActionResult } from '../minecraft/ActionInterface.js';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
 import { z } from 'zod';
 import { Vec3 } from 'vec3';
 import pathfinder from 'mineflayer-pathfinder-mai';
 import { MovementUtils } from '../utils/MovementUtils.js';
+import { ContainerUtils } from '../utils/ContainerUtils.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
 
 interface CraftItemParams extends BaseActionParams {
   item: string;
@@ -118,7 +120,8 @@ export class CraftItemAction extends BaseAction<CraftItemParams> {
     return score;
   }
 
-  async execute(bot: Bot, params: CraftItemParams): Promise<ActionResult> {
+  async execute(bot: Bot, params: CraftItemParams, context?: ActionContext): Promise<ActionResult> {
+    const signal = context?.signal;
     try {
       this.logger.debug(`开始合成物品: ${params.item}, 数量: ${params.count ?? 1}`);
       const count = params.count ?? 1;
@@ -169,6 +172,16 @@ export class CraftItemAction extends BaseAction<CraftItemParams> {
         // 2) 判断是否需要工作台
         const recipeWithoutTable = bot.recipesFor(itemByName.id, null, 1, null)?.[0];
 
+        // 附近没有工作台且背包里也没有时，前往世界记忆中最近的工作台
+        if (!craftingTableBlock && !recipeWithoutTable
+          && !bot.inventory.findInventoryItem(mcData.itemsByName.crafting_table.id, null, false)
+          && await ContainerUtils.approachRemembered(bot, ['crafting_table'], { signal })) {
+          craftingTableBlock = bot.findBlock({
+            matching: mcData.blocksByName.crafting_table.id,
+            maxDistance: 48
+          });
+        }
+
         // 若未找到工作台且必须使用工作台
         if (!craftingTableBlock && !recipeWithoutTable) {
           // 检查背包是否有工作台
@@ -179,7 +192,7 @@ export class CraftItemAction extends BaseAction<CraftItemParams> {
               // 尝试放置工作台
               // 使用统一的移动工具类移动到目标放置点附近
               const placePos = bot.entity.position.offset(1, 0, 0);
-              const moveResult = await MovementUtils.moveToCoordinate(bot, placePos.x, placePos.y, placePos.z, 1, 32, false);
+              const moveResult = await MovementUtils.moveToCoordinate(bot, placePos.x, placePos.y, placePos.z, 1, 32, false, signal);
               if (!moveResult.success) {
                 this.logger.warn(`移动到工作台放置点失败: ${moveResult.error}，尝试直接放置`);
               }
@@ -211,6 +224,7 @@ export class CraftItemAction extends BaseAction<CraftItemParams> {
                 });
               }
             } catch (placeErr) {
+              if (AbortUtils.isAbortError(placeErr)) throw placeErr;
               // 放置失败忽略，继续尝试无工作台配方
               this.logger.warn('放置工作台失败', placeErr);
             }
@@ -230,7 +244,8 @@ export class CraftItemAction extends BaseAction<CraftItemParams> {
           craftingTableBlock.position.z,
           1, // 到达距离
           32, // 最大移动距离
-          false // 不使用相对坐标
+          false, // 不使用相对坐标
+          signal
         );
 
         if (!moveResult.success) {
@@ -302,6 +317,9 @@ export class CraftItemAction extends BaseAction<CraftItemParams> {
       this.logger.debug(`成功合成 ${params.item} × ${count}`);
       return this.createSuccessResult(`成功合成 ${params.item} × ${count}`, { item: params.item, count });
     } catch (err) {
+      if (AbortUtils.isAbortError(err)) {
+        return this.createErrorResult('合成已被取消', 'CANCELLED');
+      }
       this.logger.error(`合成失败: ${err instanceof Error ? err.message : String(err)}`);
       return this.createExceptionResult(err, `合成失败`, 'CRAFT_FAILED');
     }
@@ -0,0 +1,125 @@
+import { Bot } from 'mineflayer';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { MinecraftClient } from '../minecraft/MinecraftClient.js';
+import { CraftingPlanner, CraftPlan } from '../utils/CraftingPlanner.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
+import { CraftItemAction } from './CraftItemAction.js';
+import { UseChestAction } from './UseChestAction.js';
+
+interface CraftRecursiveParams extends BaseActionParams {
+  item: string;
+  count?: number;
+  use_containers?: boolean;
+  execute?: boolean;
+}
+
+/**
+ * CraftRecursiveAction - 递归合成
+ * 展开目标物品的完整合成树（如 原木 → 木板 → 木棍 → 工作台），扣除背包和已知箱子中的物品，
+ * 返回合成步骤和缺少的原材料；execute 为 true 时按顺序从箱子取出材料并执行所有中间合成。
+ */
+export class CraftRecursiveAction extends BaseAction<CraftRecursiveParams> {
+  name = 'craftRecursive';
+  description = '规划并递归合成物品：计算完整的中间合成步骤和缺少的原材料，可选择直接执行所有合成';
+  schema = z.object({
+    item: z.string().describe('目标物品名称 (字符串)'),
+    count: z.number().int().min(1).optional().describe('目标数量 (数字，可选，默认为1)'),
+    use_containers: z.boolean().optional().describe('是否计入已知箱子中的物品 (布尔值，可选，默认true)。箱子内容来自最近一次打开箱子时的记录'),
+    execute: z.boolean().optional().describe('是否执行合成 (布尔值，可选，默认false，只返回计划)'),
+  });
+
+  private craftItemAction = new CraftItemAction();
+  private useChestAction = new UseChestAction();
+
+  async execute(bot: Bot, params: CraftRecursiveParams, context?: ActionContext): Promise<ActionResult> {
+    try {
+      const mcData: any = bot.registry;
+      const itemName = params.item.trim().toLowerCase().replace(/^minecraft:/, '').replace(/\s+/g, '_');
+      if (!mcData.itemsByName?.[itemName]) {
+        return this.createErrorResult(`未找到名为 ${params.item} 的物品`, 'ITEM_NOT_FOUND');
+      }
+
+      const count = params.count ?? 1;
+      const client = (bot as any).client as MinecraftClient | undefined;
+      const containers = params.use_containers === false
+        ? []
+        : client?.getWorldMemory?.().getContainers(client.getWorldMemory().dimensionOf(bot)) ?? [];
+      const hasCraftingTable = Boolean(bot.findBlock({
+        matching: mcData.blocksByName.crafting_table.id,
+        maxDistance: 48
+      }));
+
+      const plan = CraftingPlanner.plan(bot, itemName, count, { containers, hasCraftingTable });
+      if (plan.steps.length === 0) {
+        return this.createErrorResult(`无法找到 ${itemName} 的合成配方`, 'RECIPE_NOT_FOUND', plan);
+      }
+
+      if (!params.execute) {
+        const message = plan.complete
+          ? `合成 ${itemName} × ${count} 共需 ${plan.steps.length} 个合成步骤，材料齐全`
+          : `合成 ${itemName} × ${count} 缺少原材料: ${this.formatItems(plan.missing)}`;
+        return this.createSuccessResult(message, plan);
+      }
+
+      if (!plan.complete) {
+        return this.createErrorResult(`缺少原材料: ${this.formatItems(plan.missing)}`, 'MISSING_MATERIALS', plan);
+      }
+
+      return await this.executePlan(bot, plan, context);
+    } catch (err) {
+      return this.createExceptionResult(err, '递归合成失败', 'CRAFT_FAILED');
+    }
+  }
+
+  /**
+   * 按计划从箱子取出材料并依次合成
+   */
+  private async executePlan(bot: Bot, plan: CraftPlan, context?: ActionContext): Promise<ActionResult> {
+    const total = plan.steps.length + (plan.fromContainers.length > 0 ? 1 : 0);
+    let progress = 0;
+
+    // 1) 从已知箱子取出材料（按箱子分组）
+    const byContainer = new Map<string, { position: { x: number; y: number; z: number }; items: Array<{ name: string; count: number }> }>();
+    for (const entry of plan.fromContainers) {
+      const key = `${entry.position.x},${entry.position.y},${entry.position.z}`;
+      const group = byContainer.get(key) ?? { position: entry.position, items: [] };
+      group.items.push({ name: entry.name, count: entry.count });
+      byContainer.set(key, group);
+    }
+    for (const group of byContainer.values()) {
+      AbortUtils.throwIfAborted(context?.signal);
+      const result = await this.useChestAction.execute(bot, {
+        action: 'withdraw',
+        items: group.items,
+        ...group.position
+      }, context);
+      if (!result.success) {
+        return this.createErrorResult(`从箱子 (${group.position.x}, ${group.position.y}, ${group.position.z}) 取出材料失败: ${result.message}`, 'WITHDRAW_FAILED', { plan, failedStep: 'withdraw' });
+      }
+    }
+    if (byContainer.size > 0) {
+      context?.reportProgress({ progress: ++progress, total, message: '已从箱子取出材料' });
+    }
+
+    // 2) 依次执行合成步骤
+    const completed: string[] = [];
+    for (const step of plan.steps) {
+      AbortUtils.throwIfAborted(context?.signal);
+      const result = await this.craftItemAction.execute(bot, { item: step.item, count: step.crafts }, context);
+      if (!result.success) {
+        return this.createErrorResult(`合成 ${step.item} 失败: ${result.message}`, result.error ?? 'CRAFT_FAILED', { plan, completed, failedStep: step });
+      }
+      completed.push(`${step.item} × ${step.produced}`);
+      context?.reportProgress({ progress: ++progress, total, message: `已合成 ${step.item} × ${step.produced}` });
+    }
+
+    return this.createSuccessResult(`成功合成 ${plan.item} × ${plan.count}（共 ${plan.steps.length} 个合成步骤）`, { plan, completed });
+  }
+
+  private formatItems(items: Array<{ name: string; count: number }>): string {
+    return items.map(item => `${item.name} × ${item.count}`).join(', ');
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: craft_recursive）
+}
@@ -1,10 +1,11 @@
 import { Bot } from 'mineflayer';
-import { BaseAction, BaseActionParams, ActionResult } from '../minecraft/ActionInterface.js';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
 import { z } from 'zod';
 import { Vec3 } from 'vec3';
 import pathfinder from 'mineflayer-pathfinder-mai';
 import { Recipe } from 'prismarine-recipe';
 import { GoalType, MovementUtils } from '../utils/MovementUtils.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
 
 interface CraftWithRecipeParams extends BaseActionParams {
   /**
@@ -62,7 +63,7 @@ RecipeItem结构：{ id: number, metadata: number|null, count: number }`),
     withoutCraftingTable: z.boolean().optional().describe('是否强制不使用工作台 (布尔值，可选，默认false)'),
   });
 
-  async execute(bot: Bot, params: CraftWithRecipeParams): Promise<ActionResult> {
+  async execute(bot: Bot, params: CraftWithRecipeParams, context?: ActionContext): Promise<ActionResult> {
     try {
       this.logger.debug(`开始使用指定配方合成物品, 数量: ${params.count ?? 1}`);
       const count = params.count ?? 1;
@@ -93,7 +94,7 @@ RecipeItem结构：{ id: number, metadata: number|null, count: number }`),
               // 尝试放置工作台
               // 使用统一的移动工具类移动到目标放置点附近
               const placePos = bot.entity.position.offset(1, 0, 0);
-              const moveResult = await MovementUtils.moveToCoordinate(bot, placePos.x, placePos.y, placePos.z, 1, 32, false);
+              const moveResult = await MovementUtils.moveToCoordinate(bot, placePos.x, placePos.y, placePos.z, 1, 32, false, context?.signal);
               if (!moveResult.success) {
                 this.logger.warn(`移动到工作台放置点失败: ${moveResult.error}，尝试直接放置`);
               }
@@ -125,6 +126,7 @@ RecipeItem结构：{ id: number, metadata: number|null, count: number }`),
                 });
               }
             } catch (placeErr) {
+              if (AbortUtils.isAbortError(placeErr)) throw placeErr;
               // 放置失败忽略，继续尝试无工作台配方
               this.logger.warn('放置工作台失败', placeErr);
             }
@@ -148,6 +150,7 @@ RecipeItem结构：{ id: number, metadata: number|null, count: number }`),
             maxDistance: 32, // 最大移动距离
             useRelativeCoords: false, // 不使用相对坐标
             goalType: GoalType.GoalGetToBlock, // 使用获取方块目标类型
+            signal: context?.signal
           }
         );
 
@@ -204,6 +207,9 @@ RecipeItem结构：{ id: number, metadata: number|null, count: number }`),
         return this.createErrorResult(`合成失败: ${craftErr instanceof Error ? craftErr.message : String(craftErr)}`, 'CRAFT_FAILED');
       }
     } catch (err) {
+      if (AbortUtils.isAbortError(err)) {
+        return this.createErrorResult('合成已被取消', 'CANCELLED');
+      }
       this.logger.error(`合成失败: ${err instanceof Error ? err.message : String(err)}`);
       return this.createExceptionResult(err, `合成失败`, 'CRAFT_FAILED');
     }
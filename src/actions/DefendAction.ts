@@ -0,0 +1,292 @@
+import { Bot } from 'mineflayer';
+import { Entity } from 'prismarine-entity';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { MovementUtils, GoalType } from '../utils/MovementUtils.js';
+import { WeaponUtils } from '../utils/WeaponUtils.js';
+import { CombatUtils, ThreatInfo } from '../utils/CombatUtils.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
+import pathfinder from 'mineflayer-pathfinder-mai';
+
+interface DefendParams extends BaseActionParams {
+  /** defend 原地防守 | clear_area 清理区域，默认 defend */
+  mode?: 'defend' | 'clear_area';
+  /** 威胁搜索半径，默认 16 */
+  radius?: number;
+  /** 防守持续时间（秒），默认 60；clear_area 时为最长时间 */
+  duration?: number;
+  /** 生命值低于该值时撤退，默认 6 */
+  retreat_health?: number;
+  /** 是否使用盾牌，默认 true */
+  use_shield?: boolean;
+}
+
+/** 近战攻击距离 */
+const MELEE_REACH = 3;
+/** 两次近战攻击的最小间隔（剑的攻击冷却） */
+const ATTACK_INTERVAL_MS = 625;
+/** 战斗循环的检查间隔 */
+const TICK_MS = 200;
+/** 引爆中的苦力怕在此距离内时后退而不是攻击 */
+const CREEPER_SAFE_DISTANCE = 5;
+/** 撤退距离 */
+const RETREAT_DISTANCE = 20;
+
+/**
+ * 战斗过程中的统计，来源于 entityHurt / entityDead 事件
+ */
+interface CombatStats {
+  kills: Record<string, number>;
+  /** 攻击过的目标：实体 id -> 名称与初始生命值 */
+  engaged: Map<number, { name: string; initialHealth: number | null; lastHealth: number | null; dead: boolean }>;
+  hitsLanded: number;
+  hitsTaken: number;
+  damageTaken: number;
+  targetSwitches: number;
+}
+
+/**
+ * DefendAction - 多目标战斗
+ * 按距离、生物类型、苦力怕引爆状态和骷髅等远程生物的视线评估半径内所有敌对生物的威胁，
+ * 每次检查都重新选择威胁最高的目标；有盾牌时在不攻击的间隙举盾，生命值过低时撤退。
+ * defend：在当前位置防守到持续时间结束；clear_area：主动清理半径内所有敌对生物，清理完即结束
+ */
+export class DefendAction extends BaseAction<DefendParams> {
+  name = 'defend';
+  description = '多目标战斗：按威胁（距离、类型、苦力怕引爆、远程生物视线）动态选择目标，有盾牌时举盾，生命值过低时撤退，结束后返回击杀和伤害统计。1.defend在当前位置防守一段时间（默认）；2.clear_area清理半径内所有敌对生物';
+  // 战斗优先于普通动作
+  priority = 50;
+  schema = z.object({
+    mode: z.enum(['defend', 'clear_area']).optional().describe('战斗模式 (defend | clear_area，默认是 defend)'),
+    radius: z.number().int().min(4).max(48).optional().describe('威胁搜索半径 (整数，可选，默认 16)'),
+    duration: z.number().int().positive().optional().describe('持续时间 (秒，可选，默认 60；clear_area 时为最长时间)'),
+    retreat_health: z.number().min(0).max(20).optional().describe('生命值低于该值时撤退 (数字，可选，默认 6)'),
+    use_shield: z.boolean().optional().describe('有盾牌时是否使用 (布尔值，可选，默认 true)'),
+  });
+
+  async execute(bot: Bot, params: DefendParams, context?: ActionContext): Promise<ActionResult> {
+    const mode = params.mode ?? 'defend';
+    const radius = params.radius ?? 16;
+    const durationMs = (params.duration ?? 60) * 1000;
+    const retreatHealth = params.retreat_health ?? 6;
+    const signal = context?.signal;
+
+    const stats: CombatStats = {
+      kills: {},
+      engaged: new Map(),
+      hitsLanded: 0,
+      hitsTaken: 0,
+      damageTaken: 0,
+      targetSwitches: 0,
+    };
+
+    let lastHealth = bot.health;
+    const onEntityHurt = (entity: Entity) => {
+      if (entity.id === bot.entity.id) {
+        stats.hitsTaken++;
+      } else if (stats.engaged.has(entity.id)) {
+        stats.hitsLanded++;
+      }
+    };
+    const onEntityDead = (entity: Entity) => {
+      const record = stats.engaged.get(entity.id);
+      if (!record || record.dead) return;
+      record.dead = true;
+      stats.kills[record.name] = (stats.kills[record.name] ?? 0) + 1;
+    };
+    const onHealth = () => {
+      if (bot.health < lastHealth) stats.damageTaken += lastHealth - bot.health;
+      lastHealth = bot.health;
+    };
+    bot.on('entityHurt', onEntityHurt);
+    bot.on('entityDead', onEntityDead);
+    bot.on('health', onHealth);
+
+    const startTime = Date.now();
+    let shieldRaised = false;
+    let retreated = false;
+    try {
+      bot.armorManager.equipAll();
+      const weaponResult = await WeaponUtils.equipBestMeleeWeapon(bot);
+      this.logger.info(weaponResult.message);
+      const hasShield = (params.use_shield ?? true) && await this.equipShield(bot);
+
+      const setShield = (raise: boolean) => {
+        if (!hasShield || raise === shieldRaised) return;
+        if (raise) bot.activateItem(true);
+        else bot.deactivateItem();
+        shieldRaised = raise;
+      };
+
+      let current: Entity | null = null;
+      let lastAttack = 0;
+
+      while (Date.now() - startTime < durationMs) {
+        AbortUtils.throwIfAborted(signal);
+
+        if (bot.health <= retreatHealth) {
+          setShield(false);
+          bot.pathfinder.setGoal(null);
+          const threats = CombatUtils.assessThreats(bot, radius).map(threat => threat.entity);
+          this.logger.warn(`生命值 ${bot.health.toFixed(1)} 低于 ${retreatHealth}，撤退`);
+          await this.retreat(bot, threats.length > 0 ? threats : current ? [current] : [], signal);
+          retreated = true;
+          break;
+        }
+
+        const threats = CombatUtils.assessThreats(bot, radius);
+        if (threats.length === 0) {
+          current = null;
+          setShield(false);
+          bot.pathfinder.setGoal(null);
+          if (mode === 'clear_area') break;
+          await AbortUtils.sleep(TICK_MS, signal);
+          continue;
+        }
+
+        const target = threats[0];
+        if (current?.id !== target.entity.id) {
+          if (current) stats.targetSwitches++;
+          current = target.entity;
+          this.engage(bot, stats, target);
+          this.logger.info(`目标切换为 ${target.name}（距离 ${target.distance.toFixed(1)}，威胁 ${target.score.toFixed(1)}）`);
+        }
+
+        // 引爆中的苦力怕：举盾并后退，等它爆炸或停止引爆
+        if (target.fusing && target.distance < CREEPER_SAFE_DISTANCE) {
+          setShield(true);
+          const away = CombatUtils.getRetreatPosition(bot, [target.entity], CREEPER_SAFE_DISTANCE + 2);
+          bot.pathfinder.setGoal(new pathfinder.goals.GoalNearXZ(away.x, away.z, 1), false);
+          await AbortUtils.sleep(TICK_MS, signal);
+          continue;
+        }
+
+        if (target.distance > MELEE_REACH) {
+          // 只有防守模式下敌人未靠近时原地举盾等待，清理模式主动追击
+          if (mode === 'clear_area' || target.distance <= radius / 2) {
+            bot.pathfinder.setGoal(new pathfinder.goals.GoalFollow(target.entity, MELEE_REACH - 1), true);
+          }
+          setShield(threats.some(threat => threat.ranged && threat.hasLineOfSight));
+          await AbortUtils.sleep(TICK_MS, signal);
+          continue;
+        }
+
+        if (Date.now() - lastAttack >= ATTACK_INTERVAL_MS) {
+          setShield(false);
+          await bot.lookAt(target.entity.position.offset(0, (target.entity.height ?? 1.8) * 0.8, 0), true);
+          bot.attack(target.entity);
+          lastAttack = Date.now();
+        } else {
+          setShield(true);
+        }
+        await AbortUtils.sleep(TICK_MS, signal);
+      }
+    } catch (err) {
+      if (AbortUtils.isAbortError(err)) {
+        return this.createErrorResult('战斗已被取消', 'CANCELLED', this.buildSummary(bot, stats, radius, retreated, startTime));
+      }
+      return this.createExceptionResult(err, '战斗失败', 'DEFEND_FAILED');
+    } finally {
+      bot.removeListener('entityHurt', onEntityHurt);
+      bot.removeListener('entityDead', onEntityDead);
+      bot.removeListener('health', onHealth);
+      if (shieldRaised) bot.deactivateItem();
+      bot.pathfinder.setGoal(null);
+    }
+
+    const summary = this.buildSummary(bot, stats, radius, retreated, startTime);
+    const message = this.describe(summary);
+    if (retreated) {
+      return this.createErrorResult(`生命值过低，已撤退。${message}`, 'RETREATED', summary);
+    }
+    if (mode === 'clear_area' && summary.remainingThreats.length > 0) {
+      return this.createErrorResult(`在 ${params.duration ?? 60}s 内未能清理区域。${message}`, 'TIMEOUT', summary);
+    }
+    return this.createSuccessResult(message, summary);
+  }
+
+  /**
+   * 记录新交战的目标及其初始生命值
+   */
+  private engage(bot: Bot, stats: CombatStats, target: ThreatInfo): void {
+    if (stats.engaged.has(target.entity.id)) return;
+    const health = CombatUtils.getEntityHealth(bot, target.entity);
+    stats.engaged.set(target.entity.id, { name: target.name, initialHealth: health, lastHealth: health, dead: false });
+  }
+
+  /**
+   * 将背包中的盾牌装备到副手
+   */
+  private async equipShield(bot: Bot): Promise<boolean> {
+    const offHand = bot.inventory.slots[45];
+    if (offHand?.name === 'shield') return true;
+    const shield = bot.inventory.items().find(item => item.name === 'shield');
+    if (!shield) return false;
+    try {
+      await bot.equip(shield, 'off-hand');
+      return true;
+    } catch (err) {
+      this.logger.warn(`装备盾牌失败: ${err instanceof Error ? err.message : String(err)}`);
+      return false;
+    }
+  }
+
+  private async retreat(bot: Bot, threats: Entity[], signal?: AbortSignal): Promise<void> {
+    const target = CombatUtils.getRetreatPosition(bot, threats, RETREAT_DISTANCE);
+    const result = await MovementUtils.moveTo(bot, {
+      type: 'coordinate',
+      x: target.x,
+      y: target.y,
+      z: target.z,
+      distance: 2,
+      maxDistance: RETREAT_DISTANCE * 2,
+      goalType: GoalType.GoalNearXZ,
+      signal
+    });
+    if (!result.success) {
+      this.logger.warn(`撤退失败: ${result.error}`);
+    }
+  }
+
+  /**
+   * 汇总击杀和伤害：对目标造成的伤害按生命值变化计算，已死亡的目标计入全部初始生命值
+   */
+  private buildSummary(bot: Bot, stats: CombatStats, radius: number, retreated: boolean, startTime: number) {
+    let damageDealt = 0;
+    for (const [id, record] of stats.engaged) {
+      const entity = bot.entities[id];
+      if (entity && !record.dead) record.lastHealth = CombatUtils.getEntityHealth(bot, entity) ?? record.lastHealth;
+      if (record.initialHealth === null) continue;
+      damageDealt += record.dead ? record.initialHealth : Math.max(0, record.initialHealth - (record.lastHealth ?? record.initialHealth));
+    }
+
+    const remainingThreats = bot.entity ? CombatUtils.assessThreats(bot, radius).map(threat => ({
+      name: threat.name,
+      distance: Number(threat.distance.toFixed(1)),
+    })) : [];
+
+    return {
+      kills: stats.kills,
+      totalKills: Object.values(stats.kills).reduce((sum, count) => sum + count, 0),
+      targetsEngaged: stats.engaged.size,
+      targetSwitches: stats.targetSwitches,
+      hitsLanded: stats.hitsLanded,
+      hitsTaken: stats.hitsTaken,
+      damageDealt: Number(damageDealt.toFixed(1)),
+      damageTaken: Number(stats.damageTaken.toFixed(1)),
+      health: Number(bot.health.toFixed(1)),
+      retreated,
+      remainingThreats,
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  private describe(summary: ReturnType<DefendAction['buildSummary']>): string {
+    const kills = Object.entries(summary.kills).map(([name, count]) => `${name} × ${count}`).join(', ');
+    return `击杀 ${summary.totalKills} 个${kills ? `（${kills}）` : ''}，命中 ${summary.hitsLanded} 次，`
+      + `造成约 ${summary.damageDealt} 点伤害，受到 ${summary.damageTaken} 点伤害（被击中 ${summary.hitsTaken} 次），`
+      + `切换目标 ${summary.targetSwitches} 次，剩余生命值 ${summary.health}`;
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: defend）
+}
@@ -0,0 +1,42 @@
+import { Bot } from 'mineflayer';
+import { BaseAction, BaseActionParams, ActionResult, ActionConcurrency } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { MinecraftClient } from '../minecraft/MinecraftClient.js';
+import { MinecraftUtils } from '../utils/MinecraftUtils.js';
+
+interface DeleteWaypointParams extends BaseActionParams {
+  name: string;
+  dimension?: string;
+}
+
+/**
+ * DeleteWaypointAction - 删除路径点
+ */
+export class DeleteWaypointAction extends BaseAction<DeleteWaypointParams> {
+  name = 'deleteWaypoint';
+  description = '删除命名路径点';
+  concurrency: ActionConcurrency = 'parallel';
+  schema = z.object({
+    name: z.string().min(1).describe('路径点名称 (字符串)'),
+    dimension: z.string().optional().describe('维度 (字符串，可选，默认当前维度)'),
+  });
+
+  async execute(bot: Bot, params: DeleteWaypointParams): Promise<ActionResult> {
+    try {
+      const store = ((bot as any).client as MinecraftClient | undefined)?.getWaypointStore?.();
+      if (!store) {
+        return this.createErrorResult('路径点存储不可用', 'WAYPOINTS_UNAVAILABLE');
+      }
+
+      const dimension = params.dimension?.replace(/^minecraft:/, '') ?? MinecraftUtils.getDimension(bot);
+      if (!store.delete(params.name, dimension)) {
+        return this.createErrorResult(`路径点 ${params.name} 不存在 [${dimension}]`, 'WAYPOINT_NOT_FOUND');
+      }
+      return this.createSuccessResult(`已删除路径点 ${params.name} [${dimension}]`, { name: params.name, dimension });
+    } catch (error) {
+      return this.createExceptionResult(error, '删除路径点失败', 'DELETE_WAYPOINT_FAILED');
+    }
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: delete_waypoint）
+}
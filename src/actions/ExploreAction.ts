@@ -0,0 +1,320 @@
+import { Bot } from 'mineflayer';
+import { Vec3 } from 'vec3';
+import { Block } from 'prismarine-block';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { MovementUtils, GoalType } from '../utils/MovementUtils.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
+import { MinecraftClient } from '../minecraft/MinecraftClient.js';
+
+interface ExploreParams extends BaseActionParams {
+  /** 目标生物群系，如 desert、plains */
+  biome?: string;
+  /** 目标结构，通过标志性方块识别 */
+  structure?: string;
+  /** 目标方块名称 */
+  block?: string;
+  /** 目标实体名称 */
+  entity?: string;
+  /** 离起点的最大水平距离，默认 256 */
+  max_distance?: number;
+  /** 最长探索时间（秒），默认 300 */
+  timeout?: number;
+}
+
+/**
+ * 结构及其标志性方块：每组中至少找到一种方块才算识别到结构，
+ * 玩家也常用的方块（如铁轨）需要与其他标志方块同时出现
+ */
+const STRUCTURE_INDICATORS: Record<string, string[][]> = {
+  village: [['bell', 'hay_block']],
+  ocean_monument: [['prismarine_bricks', 'dark_prismarine', 'sea_lantern']],
+  mineshaft: [['rail'], ['cobweb'], ['oak_planks', 'dark_oak_planks', 'oak_fence', 'dark_oak_fence']],
+  ruined_portal: [['crying_obsidian']],
+  stronghold: [['end_portal_frame']],
+  ancient_city: [['sculk_shrieker', 'reinforced_deepslate']],
+  nether_fortress: [['nether_bricks', 'nether_brick_fence']],
+  bastion_remnant: [['gilded_blackstone', 'polished_blackstone_bricks']],
+  end_city: [['purpur_block', 'end_rod']],
+};
+
+/** 每个探索点覆盖的区块边长（3x3 区块），也是螺旋的步长 */
+const TILE_CHUNKS = 3;
+const TILE_RADIUS = Math.floor(TILE_CHUNKS / 2);
+/** 每个探索点的方块扫描半径 */
+const SCAN_RADIUS = 40;
+/** 生物群系采样间隔 */
+const BIOME_SAMPLE_STEP = 16;
+/** 同名兴趣点在此距离内视为同一处 */
+const POI_MERGE_DISTANCE = 48;
+
+interface PointOfInterest {
+  type: 'biome' | 'structure' | 'block' | 'entity';
+  name: string;
+  position: { x: number; y: number; z: number };
+  /** 识别结构所依据的方块 */
+  indicators?: string[];
+}
+
+/**
+ * ExploreAction - 探索未知区域
+ * 以起点为中心按螺旋向外行走，跳过世界记忆中为同一目标探索过的区块；每到一个探索点扫描周围的生物群系、
+ * 结构标志方块（如村庄的钟和干草块）和实体，找到目标生物群系、结构、方块或实体后停止，并返回沿途发现的兴趣点
+ */
+export class ExploreAction extends BaseAction<ExploreParams> {
+  name = 'explore';
+  description = `探索未知区域：以当前位置为中心螺旋向外行走，跳过已探索的区块，找到目标生物群系、结构、方块或实体后停止，返回沿途发现的兴趣点和坐标。不指定目标时探索到最大距离为止。可识别的结构：${Object.keys(STRUCTURE_INDICATORS).join(', ')}`;
+  schema = z.object({
+    biome: z.string().optional().describe('目标生物群系 (字符串，可选)，如 desert、plains、taiga，名称包含该值即匹配'),
+    structure: z.enum(Object.keys(STRUCTURE_INDICATORS) as [string, ...string[]]).optional().describe('目标结构 (可选)，通过标志性方块识别，如 village'),
+    block: z.string().optional().describe('目标方块名称 (字符串，可选)，如 diamond_ore'),
+    entity: z.string().optional().describe('目标实体名称 (字符串，可选)，如 villager、horse'),
+    max_distance: z.number().int().min(32).max(2048).optional().describe('离起点的最大水平距离 (整数，可选，默认 256)'),
+    timeout: z.number().int().positive().optional().describe('最长探索时间 (秒，可选，默认 300)'),
+  });
+
+  async execute(bot: Bot, params: ExploreParams, context?: ActionContext): Promise<ActionResult> {
+    const signal = context?.signal;
+    const maxDistance = params.max_distance ?? 256;
+    const timeoutMs = (params.timeout ?? 300) * 1000;
+    const targetBiome = params.biome?.replace(/^minecraft:/, '');
+    const targetBlock = params.block?.replace(/^minecraft:/, '');
+    const targetEntity = params.entity?.replace(/^minecraft:/, '');
+    const hasTarget = !!(targetBiome || params.structure || targetBlock || targetEntity);
+
+    if (targetBlock && !bot.registry.blocksByName[targetBlock]) {
+      return this.createErrorResult(`未知方块: ${targetBlock}`, 'INVALID_PARAMS');
+    }
+    if (targetEntity && !bot.registry.entitiesByName[targetEntity]) {
+      return this.createErrorResult(`未知实体: ${targetEntity}`, 'INVALID_PARAMS');
+    }
+    if (targetBiome && !Object.values(bot.registry.biomes).some(biome => biome.name.includes(targetBiome))) {
+      return this.createErrorResult(`未知生物群系: ${targetBiome}`, 'INVALID_PARAMS');
+    }
+
+    const memory = ((bot as any).client as MinecraftClient | undefined)?.getWorldMemory?.();
+    const dimension = memory?.dimensionOf(bot) ?? 'overworld';
+    // 探索记录按目标区分：为寻找村庄走过的区块，寻找马时仍需要重新探索
+    const targetKey = this.targetKey({ biome: targetBiome, structure: params.structure, block: targetBlock, entity: targetEntity });
+    const localVisited = new Set<string>();
+    const isVisited = (chunkX: number, chunkZ: number) =>
+      memory ? memory.isChunkVisited(chunkX, chunkZ, dimension, targetKey) : localVisited.has(`${chunkX},${chunkZ}`);
+    const markVisited = (chunkX: number, chunkZ: number) => {
+      if (memory) return memory.markChunkVisited(chunkX, chunkZ, dimension, targetKey);
+      const key = `${chunkX},${chunkZ}`;
+      if (localVisited.has(key)) return false;
+      localVisited.add(key);
+      return true;
+    };
+
+    const start = bot.entity.position.clone();
+    const startTime = Date.now();
+    const pois: PointOfInterest[] = [];
+    let chunksVisited = 0;
+    let waypoints = 0;
+    let unreachable = 0;
+    let found: PointOfInterest | null = null;
+
+    try {
+      const tiles = this.spiralTiles(start, maxDistance);
+      for (let i = 0; i < tiles.length && !found; i++) {
+        AbortUtils.throwIfAborted(signal);
+        if (Date.now() - startTime > timeoutMs) break;
+
+        const tile = tiles[i];
+        const centerChunkX = tile.x * TILE_CHUNKS + TILE_RADIUS;
+        const centerChunkZ = tile.z * TILE_CHUNKS + TILE_RADIUS;
+        // 第一个探索点是起点，不需要移动
+        if (i > 0) {
+          if (isVisited(centerChunkX, centerChunkZ)) continue;
+          const result = await MovementUtils.moveTo(bot, {
+            type: 'coordinate',
+            x: centerChunkX * 16 + 8,
+            y: Math.floor(bot.entity.position.y),
+            z: centerChunkZ * 16 + 8,
+            distance: 8,
+            maxDistance: maxDistance * 2,
+            goalType: GoalType.GoalNearXZ,
+            signal
+          });
+          AbortUtils.throwIfAborted(signal);
+          if (!result.success) {
+            unreachable++;
+            this.logger.warn(`无法到达探索点 (${centerChunkX * 16 + 8}, ${centerChunkZ * 16 + 8}): ${result.error ?? result.message}`);
+          }
+        }
+        waypoints++;
+
+        found = this.scan(bot, pois, { biome: targetBiome, structure: params.structure, block: targetBlock, entity: targetEntity });
+
+        const chunkX = Math.floor(bot.entity.position.x / 16);
+        const chunkZ = Math.floor(bot.entity.position.z / 16);
+        for (let dx = -TILE_RADIUS; dx <= TILE_RADIUS; dx++) {
+          for (let dz = -TILE_RADIUS; dz <= TILE_RADIUS; dz++) {
+            if (markVisited(chunkX + dx, chunkZ + dz)) chunksVisited++;
+          }
+        }
+        // 没能走到时也标记目标探索点，避免下次重复尝试
+        markVisited(centerChunkX, centerChunkZ);
+      }
+    } catch (err) {
+      if (!AbortUtils.isAbortError(err)) {
+        return this.createExceptionResult(err, '探索失败', 'EXPLORE_FAILED');
+      }
+      return this.createErrorResult('探索已被取消', 'CANCELLED', this.buildData(bot, start, startTime, pois, found, chunksVisited, waypoints, unreachable));
+    }
+
+    const data = this.buildData(bot, start, startTime, pois, found, chunksVisited, waypoints, unreachable);
+    const summary = `探索了 ${waypoints} 个探索点、${chunksVisited} 个新区块，发现 ${pois.length} 个兴趣点`;
+    if (found) {
+      const { x, y, z } = found.position;
+      return this.createSuccessResult(`找到${this.describeType(found.type)} ${found.name} (${x}, ${y}, ${z})。${summary}`, data);
+    }
+    if (hasTarget) {
+      return this.createErrorResult(`在 ${maxDistance} 格范围内未找到目标。${summary}`, 'TARGET_NOT_FOUND', data);
+    }
+    return this.createSuccessResult(summary, data);
+  }
+
+  /**
+   * 以起点所在的探索点为中心生成方形螺旋，只保留最大距离内的探索点
+   */
+  private spiralTiles(start: Vec3, maxDistance: number): Array<{ x: number; z: number }> {
+    const tileSize = TILE_CHUNKS * 16;
+    const originX = Math.floor(Math.floor(start.x / 16) / TILE_CHUNKS);
+    const originZ = Math.floor(Math.floor(start.z / 16) / TILE_CHUNKS);
+    const rings = Math.ceil(maxDistance / tileSize);
+    const tiles: Array<{ x: number; z: number }> = [{ x: originX, z: originZ }];
+
+    for (let ring = 1; ring <= rings; ring++) {
+      // 从右上角开始，依次沿四条边走一圈
+      let x = ring;
+      let z = -ring;
+      const directions = [[0, 1], [-1, 0], [0, -1], [1, 0]];
+      for (const [dx, dz] of directions) {
+        for (let step = 0; step < ring * 2; step++) {
+          x += dx;
+          z += dz;
+          const centerX = ((originX + x) * TILE_CHUNKS + TILE_RADIUS) * 16 + 8;
+          const centerZ = ((originZ + z) * TILE_CHUNKS + TILE_RADIUS) * 16 + 8;
+          if (Math.hypot(centerX - start.x, centerZ - start.z) <= maxDistance) {
+            tiles.push({ x: originX + x, z: originZ + z });
+          }
+        }
+      }
+    }
+    return tiles;
+  }
+
+  /**
+   * 扫描当前探索点：记录新的生物群系、结构和目标方块/实体
+   * @returns 找到的目标，没有时返回 null
+   */
+  private scan(
+    bot: Bot,
+    pois: PointOfInterest[],
+    target: { biome?: string; structure?: string; block?: string; entity?: string }
+  ): PointOfInterest | null {
+    const origin = bot.entity.position.floored();
+    let found: PointOfInterest | null = null;
+    const add = (poi: PointOfInterest): PointOfInterest => {
+      const existing = pois.find(known => known.type === poi.type && known.name === poi.name
+        && Math.hypot(known.position.x - poi.position.x, known.position.z - poi.position.z) < POI_MERGE_DISTANCE);
+      if (existing) return existing;
+      pois.push(poi);
+      this.logger.info(`发现${this.describeType(poi.type)} ${poi.name} (${poi.position.x}, ${poi.position.y}, ${poi.position.z})`);
+      return poi;
+    };
+
+    // 生物群系：在探索点周围按网格采样
+    for (let dx = -SCAN_RADIUS; dx <= SCAN_RADIUS; dx += BIOME_SAMPLE_STEP) {
+      for (let dz = -SCAN_RADIUS; dz <= SCAN_RADIUS; dz += BIOME_SAMPLE_STEP) {
+        const block = bot.blockAt(origin.offset(dx, 0, dz));
+        const biome = block?.biome?.name;
+        if (!block || !biome) continue;
+        const poi = add({ type: 'biome', name: biome, position: { x: block.position.x, y: block.position.y, z: block.position.z } });
+        if (!found && target.biome && biome.includes(target.biome)) found = poi;
+      }
+    }
+
+    // 结构：所有结构的标志方块都检查，目标结构优先
+    const structures = Object.entries(STRUCTURE_INDICATORS)
+      .sort(([a], [b]) => Number(b === target.structure) - Number(a === target.structure));
+    for (const [structure, groups] of structures) {
+      const blocks: Block[] = [];
+      for (const group of groups) {
+        const ids = group.map(name => bot.registry.blocksByName[name]?.id).filter((id): id is number => id !== undefined);
+        const block = ids.length > 0 ? bot.findBlock({ matching: ids, maxDistance: SCAN_RADIUS }) : null;
+        if (!block) break;
+        blocks.push(block);
+      }
+      if (blocks.length < groups.length) continue;
+      const position = blocks[0].position;
+      const poi = add({
+        type: 'structure',
+        name: structure,
+        position: { x: position.x, y: position.y, z: position.z },
+        indicators: blocks.map(block => block.name),
+      });
+      if (!found && structure === target.structure) found = poi;
+    }
+
+    if (target.block) {
+      const block = bot.findBlock({ matching: bot.registry.blocksByName[target.block].id, maxDistance: SCAN_RADIUS });
+      if (block && !found) {
+        found = add({ type: 'block', name: block.name, position: { x: block.position.x, y: block.position.y, z: block.position.z } });
+      }
+    }
+
+    if (target.entity) {
+      const entity = bot.nearestEntity(e => e.name === target.entity && e !== bot.entity);
+      if (entity && !found) {
+        const position = entity.position.floored();
+        found = add({ type: 'entity', name: target.entity, position: { x: position.x, y: position.y, z: position.z } });
+      }
+    }
+
+    return found;
+  }
+
+  private buildData(
+    bot: Bot,
+    start: Vec3,
+    startTime: number,
+    pois: PointOfInterest[],
+    found: PointOfInterest | null,
+    chunksVisited: number,
+    waypoints: number,
+    unreachable: number
+  ) {
+    const position = bot.entity.position;
+    return {
+      found,
+      pointsOfInterest: pois,
+      biomes: [...new Set(pois.filter(poi => poi.type === 'biome').map(poi => poi.name))],
+      waypoints,
+      unreachableWaypoints: unreachable,
+      chunksVisited,
+      start: { x: Math.floor(start.x), y: Math.floor(start.y), z: Math.floor(start.z) },
+      endPosition: { x: Math.floor(position.x), y: Math.floor(position.y), z: Math.floor(position.z) },
+      distanceFromStart: Number(Math.hypot(position.x - start.x, position.z - start.z).toFixed(1)),
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * 探索记录使用的目标键，不指定目标时为 any
+   */
+  private targetKey(target: { biome?: string; structure?: string; block?: string; entity?: string }): string {
+    const parts = Object.entries(target)
+      .filter(([, value]) => value)
+      .map(([type, value]) => `${type}:${value}`);
+    return parts.length > 0 ? parts.join(',') : 'any';
+  }
+
+  private describeType(type: PointOfInterest['type']): string {
+    return { biome: '生物群系', structure: '结构', block: '方块', entity: '实体' }[type];
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: explore）
+}
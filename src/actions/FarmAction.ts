@@ -0,0 +1,320 @@
+import { Bot } from 'mineflayer';
+import { Block } from 'prismarine-block';
+import { Vec3 } from 'vec3';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { MovementUtils, GoalType } from '../utils/MovementUtils.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
+import { UseChestAction } from './UseChestAction.js';
+
+type CropName = 'wheat' | 'carrots' | 'potatoes' | 'beetroots';
+
+interface FarmParams extends BaseActionParams {
+  x?: number;
+  y?: number;
+  z?: number;
+  radius?: number;
+  crop?: CropName;
+  harvest?: boolean;
+  till?: boolean;
+  plant?: boolean;
+  deposit?: boolean;
+  keep_seeds?: number;
+}
+
+interface CropInfo {
+  /** 种植使用的物品 */
+  seed: string;
+  /** 收获得到的物品 */
+  produce: string[];
+}
+
+/** 支持的作物 */
+const CROPS: Record<CropName, CropInfo> = {
+  wheat: { seed: 'wheat_seeds', produce: ['wheat', 'wheat_seeds'] },
+  carrots: { seed: 'carrot', produce: ['carrot'] },
+  potatoes: { seed: 'potato', produce: ['potato', 'poisonous_potato'] },
+  beetroots: { seed: 'beetroot_seeds', produce: ['beetroot', 'beetroot_seeds'] },
+};
+
+/** 可以用锄头开垦的方块 */
+const TILLABLE_BLOCKS = ['dirt', 'grass_block', 'dirt_path', 'coarse_dirt'];
+/** 耕地离水的最大水平距离（超出则不会湿润） */
+const HYDRATION_RANGE = 4;
+/** 农田的垂直搜索范围 */
+const VERTICAL_RANGE = 3;
+
+/**
+ * FarmAction - 自动种田
+ * 在指定范围内收获成熟作物并补种，用锄头开垦水源附近的泥土，在空耕地上播种，
+ * 可选将收获物存入附近的箱子。作物是否成熟由方块状态的 age 属性判断。
+ */
+export class FarmAction extends BaseAction<FarmParams> {
+  name = 'farm';
+  description = '自动种田：在范围内收获成熟作物并补种、用锄头开垦水源附近的泥土、在空耕地上播种（小麦、胡萝卜、马铃薯、甜菜根），可选将收获物存入附近箱子，返回产量报告';
+  schema = z.object({
+    x: z.number().int().optional().describe('农田中心X坐标 (整数，可选，默认当前位置)'),
+    y: z.number().int().optional().describe('农田中心Y坐标 (整数，可选，默认当前位置)'),
+    z: z.number().int().optional().describe('农田中心Z坐标 (整数，可选，默认当前位置)'),
+    radius: z.number().int().min(1).max(16).optional().describe('水平范围半径 (整数，可选，默认5，最大16)'),
+    crop: z.enum(['wheat', 'carrots', 'potatoes', 'beetroots']).optional().describe('在空耕地上种植的作物 (wheat | carrots | potatoes | beetroots，可选，默认根据背包中的种子选择)'),
+    harvest: z.boolean().optional().describe('是否收获成熟作物并补种 (布尔值，可选，默认true)'),
+    till: z.boolean().optional().describe('是否用锄头开垦水源附近的泥土 (布尔值，可选，默认true)'),
+    plant: z.boolean().optional().describe('是否在空耕地上播种 (布尔值，可选，默认true)'),
+    deposit: z.boolean().optional().describe('是否将收获物存入附近的箱子 (布尔值，可选，默认false)'),
+    keep_seeds: z.number().int().min(0).optional().describe('存入箱子时背包中保留的种子数量 (整数，可选，默认16)'),
+  });
+
+  private useChestAction = new UseChestAction();
+
+  async execute(bot: Bot, params: FarmParams, context?: ActionContext): Promise<ActionResult> {
+    try {
+      const center = params.x !== undefined && params.y !== undefined && params.z !== undefined
+        ? new Vec3(params.x, params.y, params.z)
+        : bot.entity.position.floored();
+      const radius = params.radius ?? 5;
+      const inventoryBefore = this.countProduce(bot);
+
+      const report = {
+        center: { x: center.x, y: center.y, z: center.z },
+        radius,
+        harvested: {} as Record<string, number>,
+        replanted: 0,
+        tilled: 0,
+        planted: 0,
+        yields: {} as Record<string, number>,
+        deposited: [] as Array<{ name: string; count: number }>,
+        notes: [] as string[],
+      };
+
+      // 1) 收获成熟作物并补种
+      if (params.harvest !== false) {
+        const mature = this.findBlocksInArea(bot, center, radius, block => this.isMatureCrop(bot, block));
+        for (const [index, crop] of mature.entries()) {
+          AbortUtils.throwIfAborted(context?.signal);
+          const cropName = crop.name as CropName;
+          if (!await this.harvestCrop(bot, crop)) continue;
+          report.harvested[cropName] = (report.harvested[cropName] ?? 0) + 1;
+
+          const farmland = bot.blockAt(crop.position.offset(0, -1, 0));
+          if (farmland?.name === 'farmland' && await this.plantSeed(bot, farmland, CROPS[cropName].seed, context?.signal)) {
+            report.replanted++;
+          }
+          context?.reportProgress({ progress: index + 1, total: mature.length, message: `已收获 ${cropName} (${crop.position.x}, ${crop.position.y}, ${crop.position.z})` });
+        }
+      }
+
+      const crop = params.crop ?? this.chooseCrop(bot);
+
+      // 2) 开垦水源附近的泥土（数量不超过可种植的种子数）
+      if (params.till !== false && crop) {
+        const hoe = bot.inventory.items().find(item => item.name.endsWith('_hoe'));
+        if (!hoe) {
+          report.notes.push('背包中没有锄头，跳过开垦');
+        } else {
+          const seeds = this.countItem(bot, CROPS[crop].seed);
+          const emptyFarmland = this.findBlocksInArea(bot, center, radius, block => this.isEmptyFarmland(bot, block)).length;
+          const candidates = this.findBlocksInArea(bot, center, radius, block => this.isTillable(bot, block))
+            .slice(0, Math.max(0, seeds - emptyFarmland));
+          for (const block of candidates) {
+            AbortUtils.throwIfAborted(context?.signal);
+            if (await this.till(bot, block, context?.signal)) report.tilled++;
+          }
+        }
+      }
+
+      // 3) 在空耕地上播种
+      if (params.plant !== false) {
+        if (!crop) {
+          report.notes.push('背包中没有可种植的种子，跳过播种');
+        } else {
+          const farmland = this.findBlocksInArea(bot, center, radius, block => this.isEmptyFarmland(bot, block));
+          for (const block of farmland) {
+            AbortUtils.throwIfAborted(context?.signal);
+            if (!this.countItem(bot, CROPS[crop].seed)) {
+              report.notes.push(`${CROPS[crop].seed} 已用完`);
+              break;
+            }
+            if (await this.plantSeed(bot, block, CROPS[crop].seed, context?.signal)) report.planted++;
+          }
+        }
+      }
+
+      // 产量 = 背包中作物物品的增量（已扣除补种和播种消耗）
+      const inventoryAfter = this.countProduce(bot);
+      for (const [name, count] of inventoryAfter) {
+        const delta = count - (inventoryBefore.get(name) ?? 0);
+        if (delta > 0) report.yields[name] = delta;
+      }
+
+      // 4) 存入箱子
+      if (params.deposit) {
+        report.deposited = await this.depositProduce(bot, params.keep_seeds ?? 16, report.notes, context);
+      }
+
+      const harvestedTotal = Object.values(report.harvested).reduce((sum, n) => sum + n, 0);
+      return this.createSuccessResult(
+        `种田完成：收获 ${harvestedTotal} 株，补种 ${report.replanted} 株，开垦 ${report.tilled} 格，播种 ${report.planted} 格`,
+        report
+      );
+    } catch (err) {
+      return this.createExceptionResult(err, '种田失败', 'FARM_FAILED');
+    }
+  }
+
+  /**
+   * 查找范围内满足条件的方块（按与 bot 的距离排序）
+   */
+  private findBlocksInArea(bot: Bot, center: Vec3, radius: number, predicate: (block: Block) => boolean): Block[] {
+    const result: Block[] = [];
+    for (let dx = -radius; dx <= radius; dx++) {
+      for (let dz = -radius; dz <= radius; dz++) {
+        for (let dy = -VERTICAL_RANGE; dy <= VERTICAL_RANGE; dy++) {
+          const block = bot.blockAt(center.offset(dx, dy, dz));
+          if (block && predicate(block)) result.push(block);
+        }
+      }
+    }
+    const position = bot.entity.position;
+    return result.sort((a, b) => position.distanceTo(a.position) - position.distanceTo(b.position));
+  }
+
+  /**
+   * 根据方块状态的 age 属性判断作物是否成熟
+   */
+  private isMatureCrop(bot: Bot, block: Block): boolean {
+    if (!(block.name in CROPS)) return false;
+    const age = Number(block.getProperties().age);
+    const ageState = bot.registry.blocksByName[block.name]?.states?.find((state: any) => state.name === 'age');
+    const maxAge = ageState?.num_values ? ageState.num_values - 1 : block.name === 'beetroots' ? 3 : 7;
+    return age >= maxAge;
+  }
+
+  private isEmptyFarmland(bot: Bot, block: Block): boolean {
+    if (block.name !== 'farmland') return false;
+    return bot.blockAt(block.position.offset(0, 1, 0))?.name === 'air';
+  }
+
+  /**
+   * 可开垦：泥土类方块，上方为空气，水平 4 格内有水
+   */
+  private isTillable(bot: Bot, block: Block): boolean {
+    if (!TILLABLE_BLOCKS.includes(block.name)) return false;
+    if (bot.blockAt(block.position.offset(0, 1, 0))?.name !== 'air') return false;
+
+    for (let dx = -HYDRATION_RANGE; dx <= HYDRATION_RANGE; dx++) {
+      for (let dz = -HYDRATION_RANGE; dz <= HYDRATION_RANGE; dz++) {
+        for (let dy = 0; dy <= 1; dy++) {
+          if (bot.blockAt(block.position.offset(dx, dy, dz))?.name === 'water') return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * 选择背包中有种子的作物
+   */
+  private chooseCrop(bot: Bot): CropName | null {
+    for (const [name, info] of Object.entries(CROPS) as Array<[CropName, CropInfo]>) {
+      if (this.countItem(bot, info.seed) > 0) return name;
+    }
+    return null;
+  }
+
+  private async moveNear(bot: Bot, position: Vec3, signal?: AbortSignal): Promise<void> {
+    await MovementUtils.moveTo(bot, {
+      type: 'coordinate',
+      x: position.x,
+      y: position.y,
+      z: position.z,
+      distance: 2,
+      maxDistance: 64,
+      useRelativeCoords: false,
+      goalType: GoalType.GoalNear,
+      signal
+    });
+  }
+
+  /**
+   * 收获作物并拾取掉落物
+   */
+  private async harvestCrop(bot: Bot, block: Block): Promise<boolean> {
+    try {
+      await bot.collectBlock.collect(block, { ignoreNoPath: true });
+      return true;
+    } catch (error) {
+      this.logger.warn(`收获 ${block.name} 失败: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+  }
+
+  /**
+   * 用锄头开垦
+   */
+  private async till(bot: Bot, block: Block, signal?: AbortSignal): Promise<boolean> {
+    const hoe = bot.inventory.items().find(item => item.name.endsWith('_hoe'));
+    if (!hoe) return false;
+    try {
+      await this.moveNear(bot, block.position, signal);
+      await bot.equip(hoe, 'hand');
+      await bot.activateBlock(block);
+      return bot.blockAt(block.position)?.name === 'farmland';
+    } catch (error) {
+      if (AbortUtils.isAbortError(error)) throw error;
+      this.logger.warn(`开垦 (${block.position.x}, ${block.position.y}, ${block.position.z}) 失败: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+  }
+
+  /**
+   * 在耕地上播种
+   */
+  private async plantSeed(bot: Bot, farmland: Block, seedName: string, signal?: AbortSignal): Promise<boolean> {
+    const seed = bot.inventory.items().find(item => item.name === seedName);
+    if (!seed) return false;
+    try {
+      await this.moveNear(bot, farmland.position, signal);
+      await bot.equip(seed, 'hand');
+      await bot.placeBlock(farmland, new Vec3(0, 1, 0));
+      return true;
+    } catch (error) {
+      if (AbortUtils.isAbortError(error)) throw error;
+      this.logger.warn(`播种 ${seedName} 失败: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+  }
+
+  /**
+   * 将收获物存入附近箱子，种子保留指定数量
+   */
+  private async depositProduce(bot: Bot, keepSeeds: number, notes: string[], context?: ActionContext): Promise<Array<{ name: string; count: number }>> {
+    const seeds = new Set(Object.values(CROPS).map(info => info.seed));
+    const items = Array.from(this.countProduce(bot))
+      .map(([name, count]) => ({ name, count: seeds.has(name) ? count - keepSeeds : count }))
+      .filter(item => item.count > 0);
+    if (items.length === 0) return [];
+
+    const result = await this.useChestAction.execute(bot, { action: 'store', items }, context);
+    if (!result.success) {
+      notes.push(`存入箱子失败: ${result.message}`);
+      return [];
+    }
+    return items;
+  }
+
+  private countProduce(bot: Bot): Map<string, number> {
+    const names = new Set(Object.values(CROPS).flatMap(info => [info.seed, ...info.produce]));
+    const counts = new Map<string, number>();
+    for (const item of bot.inventory.items()) {
+      if (names.has(item.name)) counts.set(item.name, (counts.get(item.name) ?? 0) + item.count);
+    }
+    return counts;
+  }
+
+  private countItem(bot: Bot, name: string): number {
+    return bot.inventory.items().filter(item => item.name === name).reduce((sum, item) => sum + item.count, 0);
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: farm）
+}
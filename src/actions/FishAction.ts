@@ -0,0 +1,281 @@
+import { Bot } from 'mineflayer';
+import { Block } from 'prismarine-block';
+import { Item } from 'prismarine-item';
+import { Vec3 } from 'vec3';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { MovementUtils, GoalType } from '../utils/MovementUtils.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
+
+interface FishParams extends BaseActionParams {
+  count?: number;
+  max_duration?: number;
+  bite_timeout?: number;
+  x?: number;
+  y?: number;
+  z?: number;
+  max_distance?: number;
+}
+
+/**
+ * 单次钓鱼收获
+ */
+export interface CaughtItem {
+  id: number;
+  name: string;
+  displayName: string;
+  count: number;
+  enchantments: Array<{ name: string; level: number }>;
+}
+
+/** 鱼竿剩余耐久低于该值时不再使用（收杆钩住实体会消耗 5 点耐久） */
+const MIN_ROD_DURABILITY = 5;
+/** 收杆后等待物品进入背包的最长时间（毫秒） */
+const COLLECT_TIMEOUT_MS = 3000;
+/** 连续多少次抛竿没有收获后停止 */
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+/**
+ * FishAction - 钓鱼
+ * 寻找附近的水面并装备鱼竿，重复抛竿直到达到目标收获次数或时间预算。
+ * 每次抛竿有咬钩超时，超时后收杆重抛；鱼竿耐久不足时切换到背包中的其他鱼竿。
+ * 每次收获都会触发 itemCaught 游戏事件，并返回包含附魔信息的收获记录。
+ */
+export class FishAction extends BaseAction<FishParams> {
+  name = 'fish';
+  description = '钓鱼：寻找附近水面并装备鱼竿，重复抛竿直到达到目标收获次数或时间上限，返回收获记录（物品、数量、附魔）';
+  schema = z.object({
+    count: z.number().int().min(1).max(64).optional().describe('目标收获次数 (整数，可选，默认5，最大64)'),
+    max_duration: z.number().int().min(10).max(540).optional().describe('最长钓鱼时间，单位秒 (整数，可选，默认300，最大540)'),
+    bite_timeout: z.number().int().min(5).max(120).optional().describe('单次抛竿等待咬钩的超时时间，单位秒 (整数，可选，默认45)'),
+    x: z.number().int().optional().describe('水方块X坐标 (整数，可选，默认自动寻找最近的水面)'),
+    y: z.number().int().optional().describe('水方块Y坐标 (整数，可选)'),
+    z: z.number().int().optional().describe('水方块Z坐标 (整数，可选)'),
+    max_distance: z.number().int().min(1).max(64).optional().describe('自动寻找水面的最大距离 (整数，可选，默认32)'),
+  });
+
+  async execute(bot: Bot, params: FishParams, context?: ActionContext): Promise<ActionResult> {
+    try {
+      const targetCount = params.count ?? 5;
+      const deadline = Date.now() + (params.max_duration ?? 300) * 1000;
+      const biteTimeoutMs = (params.bite_timeout ?? 45) * 1000;
+
+      if (!this.findUsableRod(bot)) {
+        const worn = bot.inventory.items().some(item => item.name === 'fishing_rod');
+        return worn
+          ? this.createErrorResult('背包中的鱼竿耐久不足', 'ROD_WORN_OUT')
+          : this.createErrorResult('背包中没有鱼竿', 'NO_FISHING_ROD');
+      }
+
+      const water = this.findWater(bot, params);
+      if (!water) {
+        return params.x !== undefined
+          ? this.createErrorResult(`坐标 (${params.x}, ${params.y}, ${params.z}) 处不是可以钓鱼的水面`, 'WATER_NOT_FOUND')
+          : this.createErrorResult(`${params.max_distance ?? 32} 格内没有找到可以钓鱼的水面`, 'WATER_NOT_FOUND');
+      }
+
+      await MovementUtils.moveTo(bot, {
+        type: 'coordinate',
+        x: water.position.x,
+        y: water.position.y,
+        z: water.position.z,
+        distance: 3,
+        maxDistance: 64,
+        useRelativeCoords: false,
+        goalType: GoalType.GoalNear,
+        signal: context?.signal
+      });
+
+      const catches: CaughtItem[] = [];
+      let casts = 0;
+      let timeouts = 0;
+      let consecutiveFailures = 0;
+      let stopReason = 'count_reached';
+
+      while (catches.length < targetCount) {
+        AbortUtils.throwIfAborted(context?.signal);
+        if (Date.now() >= deadline) {
+          stopReason = 'time_limit';
+          break;
+        }
+        if (consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+          stopReason = 'too_many_failures';
+          break;
+        }
+
+        const rod = this.findUsableRod(bot);
+        if (!rod) {
+          stopReason = 'rod_worn_out';
+          break;
+        }
+        if (bot.heldItem?.slot !== rod.slot) {
+          await bot.equip(rod, 'hand');
+        }
+        await bot.lookAt(water.position.offset(0.5, 1, 0.5), true);
+
+        const before = this.snapshotInventory(bot);
+        casts++;
+        const outcome = await this.castOnce(bot, Math.min(biteTimeoutMs, deadline - Date.now()), context?.signal);
+        if (outcome !== 'caught') {
+          if (outcome === 'timeout') timeouts++;
+          consecutiveFailures++;
+          continue;
+        }
+
+        const caught = await this.waitForCatch(bot, before, context?.signal);
+        if (caught.length === 0) {
+          consecutiveFailures++;
+          continue;
+        }
+        consecutiveFailures = 0;
+        for (const item of caught) {
+          catches.push(item);
+          (bot as any).emit('itemCaught', item);
+        }
+        context?.reportProgress({
+          progress: Math.min(catches.length, targetCount),
+          total: targetCount,
+          message: `钓到 ${caught.map(item => `${item.name} × ${item.count}`).join(', ')}`
+        });
+      }
+
+      const summary: Record<string, number> = {};
+      for (const item of catches) {
+        summary[item.name] = (summary[item.name] ?? 0) + item.count;
+      }
+      const rod = bot.heldItem?.name === 'fishing_rod' ? bot.heldItem : null;
+      const data = {
+        catches,
+        summary,
+        casts,
+        timeouts,
+        stopReason,
+        water: { x: water.position.x, y: water.position.y, z: water.position.z },
+        rodDurability: rod ? rod.maxDurability - rod.durabilityUsed : null,
+      };
+
+      if (catches.length === 0) {
+        return this.createErrorResult(`抛竿 ${casts} 次没有钓到任何物品（${this.describeStopReason(stopReason)}）`, 'NOTHING_CAUGHT', data);
+      }
+      const summaryText = Object.entries(summary).map(([name, count]) => `${name} × ${count}`).join(', ');
+      return this.createSuccessResult(`钓鱼完成：收获 ${catches.length} 次（${summaryText}），${this.describeStopReason(stopReason)}`, data);
+    } catch (err) {
+      return this.createExceptionResult(err, '钓鱼失败', 'FISH_FAILED');
+    }
+  }
+
+  /**
+   * 查找可以钓鱼的水面：水方块上方为空气
+   */
+  private findWater(bot: Bot, params: FishParams): Block | null {
+    const isSurface = (block: Block | null): block is Block =>
+      block?.name === 'water' && bot.blockAt(block.position.offset(0, 1, 0))?.name === 'air';
+
+    if (params.x !== undefined && params.y !== undefined && params.z !== undefined) {
+      const block = bot.blockAt(new Vec3(params.x, params.y, params.z));
+      return isSurface(block) ? block : null;
+    }
+
+    const waterId = bot.registry.blocksByName.water?.id;
+    if (waterId === undefined) return null;
+    const positions = bot.findBlocks({
+      matching: waterId,
+      maxDistance: params.max_distance ?? 32,
+      count: 64
+    });
+    for (const position of positions) {
+      const block = bot.blockAt(position);
+      if (isSurface(block)) return block;
+    }
+    return null;
+  }
+
+  /**
+   * 查找耐久足够的鱼竿，优先使用当前手持的鱼竿
+   */
+  private findUsableRod(bot: Bot): Item | null {
+    const usable = (item: Item | null | undefined): item is Item =>
+      item?.name === 'fishing_rod' && item.maxDurability - item.durabilityUsed > MIN_ROD_DURABILITY;
+    if (usable(bot.heldItem)) return bot.heldItem;
+    return bot.inventory.items().find(usable) ?? null;
+  }
+
+  /**
+   * 抛竿并等待咬钩
+   * @returns caught: 已咬钩并收杆；timeout: 超时后收杆；cancelled: 鱼漂被移除（如落在地面后消失）
+   */
+  private async castOnce(bot: Bot, timeoutMs: number, signal?: AbortSignal): Promise<'caught' | 'timeout' | 'cancelled'> {
+    let settled = false;
+    const fishing = bot.fish().then(
+      () => 'caught' as const,
+      (error) => {
+        this.logger.debug(`抛竿结束: ${error instanceof Error ? error.message : String(error)}`);
+        return 'cancelled' as const;
+      }
+    ).finally(() => { settled = true; });
+
+    try {
+      const outcome = await Promise.race([
+        fishing,
+        AbortUtils.sleep(Math.max(0, timeoutMs), signal).then(() => 'timeout' as const)
+      ]);
+      return outcome;
+    } finally {
+      if (!settled) {
+        // 超时或被取消时收杆，等待鱼漂消失
+        bot.activateItem();
+        await Promise.race([fishing, new Promise(resolve => setTimeout(resolve, 1000))]);
+      }
+    }
+  }
+
+  /**
+   * 收杆后等待钓到的物品进入背包，通过背包差异识别收获
+   */
+  private async waitForCatch(bot: Bot, before: Map<number, { name: string; count: number }>, signal?: AbortSignal): Promise<CaughtItem[]> {
+    const deadline = Date.now() + COLLECT_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      await AbortUtils.sleep(250, signal);
+      const caught = this.diffInventory(bot, before);
+      if (caught.length > 0) return caught;
+    }
+    return [];
+  }
+
+  private snapshotInventory(bot: Bot): Map<number, { name: string; count: number }> {
+    const snapshot = new Map<number, { name: string; count: number }>();
+    for (const item of bot.inventory.items()) {
+      snapshot.set(item.slot, { name: item.name, count: item.count });
+    }
+    return snapshot;
+  }
+
+  private diffInventory(bot: Bot, before: Map<number, { name: string; count: number }>): CaughtItem[] {
+    const caught: CaughtItem[] = [];
+    for (const item of bot.inventory.items()) {
+      const previous = before.get(item.slot);
+      const added = previous?.name === item.name ? item.count - previous.count : item.count;
+      if (added <= 0) continue;
+      caught.push({
+        id: item.type,
+        name: item.name,
+        displayName: item.displayName,
+        count: added,
+        enchantments: (item.enchants ?? []).map(enchant => ({ name: enchant.name, level: enchant.lvl })),
+      });
+    }
+    return caught;
+  }
+
+  private describeStopReason(reason: string): string {
+    switch (reason) {
+      case 'count_reached': return '已达到目标次数';
+      case 'time_limit': return '已达到时间上限';
+      case 'rod_worn_out': return '鱼竿耐久不足';
+      case 'too_many_failures': return `连续 ${MAX_CONSECUTIVE_FAILURES} 次抛竿没有收获`;
+      default: return reason;
+    }
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: fish）
+}
@@ -0,0 +1,61 @@
+import { Bot } from 'mineflayer';
+import { BaseAction, BaseActionParams, ActionResult, ActionConcurrency } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { MinecraftClient } from '../minecraft/MinecraftClient.js';
+import type { MemoryCategory } from '../minecraft/WorldMemory.js';
+
+interface ForgetLocationParams extends BaseActionParams {
+  x?: number;
+  y?: number;
+  z?: number;
+  dimension?: string;
+  type?: MemoryCategory;
+}
+
+/**
+ * ForgetLocationAction - 删除世界记忆中的位置
+ * 指定坐标时删除该位置；只指定类型时删除该类型的所有记录
+ */
+export class ForgetLocationAction extends BaseAction<ForgetLocationParams> {
+  name = 'forgetLocation';
+  description = '从世界记忆中删除位置：指定坐标时删除该位置的记录，只指定类型时删除该维度中该类型的所有记录';
+  concurrency: ActionConcurrency = 'parallel';
+  schema = z.object({
+    x: z.number().int().optional().describe('X坐标 (整数，可选)'),
+    y: z.number().int().optional().describe('Y坐标 (整数，可选)'),
+    z: z.number().int().optional().describe('Z坐标 (整数，可选)'),
+    dimension: z.string().optional().describe('维度 (字符串，可选，默认当前维度)'),
+    type: z.enum(['container', 'crafting_station', 'bed', 'portal', 'ore']).optional().describe('位置类型 (可选，不指定坐标时删除该类型的所有记录)'),
+  });
+
+  async execute(bot: Bot, params: ForgetLocationParams): Promise<ActionResult> {
+    try {
+      const client = (bot as any).client as MinecraftClient | undefined;
+      const memory = client?.getWorldMemory?.();
+      if (!memory) {
+        return this.createErrorResult('世界记忆不可用', 'MEMORY_UNAVAILABLE');
+      }
+
+      const dimension = params.dimension?.replace(/^minecraft:/, '') ?? memory.dimensionOf(bot);
+      const hasPosition = params.x !== undefined && params.y !== undefined && params.z !== undefined;
+
+      if (hasPosition) {
+        const position = { x: params.x!, y: params.y!, z: params.z! };
+        if (!memory.forget(position, dimension)) {
+          return this.createErrorResult(`记忆中没有位置 (${position.x}, ${position.y}, ${position.z})`, 'LOCATION_NOT_FOUND');
+        }
+        return this.createSuccessResult(`已忘记位置 (${position.x}, ${position.y}, ${position.z})`, { dimension, position });
+      }
+
+      if (!params.type) {
+        return this.createErrorResult('需要指定坐标 (x, y, z) 或位置类型 (type)', 'INVALID_PARAMS');
+      }
+      const removed = memory.forgetWhere({ category: params.type, dimension });
+      return this.createSuccessResult(`已忘记 ${removed} 个 ${params.type} 位置`, { dimension, type: params.type, removed });
+    } catch (error) {
+      return this.createExceptionResult(error, '删除世界记忆失败', 'FORGET_LOCATION_FAILED');
+    }
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: forget_location）
+}
@@ -1,5 +1,5 @@
 import { Bot } from 'mineflayer';
-import { BaseAction, BaseActionParams, ActionResult } from '../minecraft/ActionInterface.js';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
 import { z } from 'zod';
 import { MovementUtils, GoalType } from '../utils/MovementUtils.js';
 import { WeaponUtils } from '../utils/WeaponUtils.js';
@@ -25,6 +25,8 @@ interface KillMobParams extends BaseActionParams {
 export class KillMobAction extends BaseAction<KillMobParams> {
   name = 'killMob';
   description = '击杀指定名称的生物';
+  // 战斗优先于普通动作
+  priority = 50;
   schema = z.object({
     mob: z.string().describe('目标生物名称 (字符串)'),
     timeout: z.number().int().positive().optional().describe('等待超时时间 (秒，可选，默认 300)'),
@@ -34,7 +36,7 @@ export class KillMobAction extends BaseAction<KillMobParams> {
 
   // 校验和参数描述由基类通过 schema 自动提供
 
-  async execute(bot: Bot, params: KillMobParams): Promise<ActionResult> {
+  async execute(bot: Bot, params: KillMobParams, context?: ActionContext): Promise<ActionResult> {
     try {
       const timeoutMs = (params.timeout ?? 300) * 1000;
       const startTime = Date.now();
@@ -73,9 +75,9 @@ export class KillMobAction extends BaseAction<KillMobParams> {
 
       // 执行攻击
       if (useRangedAttack) {
-        return await this.executeRangedAttack(bot, targetEntity, timeoutMs, startTime, params);
+        return await this.executeRangedAttack(bot, targetEntity, timeoutMs, startTime, params, context?.signal);
       } else {
-        return await this.executeMeleeAttack(bot, targetEntity, timeoutMs, startTime, params);
+        return await this.executeMeleeAttack(bot, targetEntity, timeoutMs, startTime, params, context?.signal);
       }
 
     } catch (err) {
@@ -86,12 +88,12 @@ export class KillMobAction extends BaseAction<KillMobParams> {
   /**
    * 执行远程攻击
    */
-  private async executeRangedAttack(bot: Bot, targetEntity: any, timeoutMs: number, startTime: number, params: KillMobParams): Promise<ActionResult> {
+  private async executeRangedAttack(bot: Bot, targetEntity: any, timeoutMs: number, startTime: number, params: KillMobParams, signal?: AbortSignal): Promise<ActionResult> {
     // 装备最佳远程武器
     const weaponResult = await WeaponUtils.equipBestRangedWeapon(bot);
     if (!weaponResult.success) {
       this.logger.warn(`装备远程武器失败: ${weaponResult.message}，尝试近战攻击`);
-      return await this.executeMeleeAttack(bot, targetEntity, timeoutMs, startTime, params);
+      return await this.executeMeleeAttack(bot, targetEntity, timeoutMs, startTime, params, signal);
     }
 
     this.logger.info(weaponResult.message);
@@ -99,7 +101,7 @@ export class KillMobAction extends BaseAction<KillMobParams> {
     // 检查是否需要弹药
     if (WeaponUtils.needsAmmo(weaponResult.weapon.name) && !WeaponUtils.hasAmmo(bot, weaponResult.weapon.name)) {
       this.logger.warn('没有足够的弹药，切换到近战攻击');
-      return await this.executeMeleeAttack(bot, targetEntity, timeoutMs, startTime, params);
+      return await this.executeMeleeAttack(bot, targetEntity, timeoutMs, startTime, params, signal);
     }
 
     // 使用hawkEye进行精确攻击
@@ -116,7 +118,8 @@ export class KillMobAction extends BaseAction<KillMobParams> {
         entity: params.mob,
         distance: attackDistance,
         maxDistance: 50,
-        goalType: GoalType.GoalFollow
+        goalType: GoalType.GoalFollow,
+        signal
       });
       
       if (!moveResult.success) {
@@ -128,7 +131,7 @@ export class KillMobAction extends BaseAction<KillMobParams> {
     bot.hawkEye.autoAttack(targetEntity, weaponResult.weapon.name);
 
     // 等待生物死亡
-    await this.waitForMobDeath(bot, targetEntity, timeoutMs, startTime);
+    await this.waitForMobDeath(bot, targetEntity, timeoutMs, startTime, signal);
 
     // 停止hawkEye攻击
     bot.hawkEye.stop();
@@ -145,7 +148,7 @@ export class KillMobAction extends BaseAction<KillMobParams> {
   /**
    * 执行近战攻击
    */
-  private async executeMeleeAttack(bot: Bot, targetEntity: any, timeoutMs: number, startTime: number, params: KillMobParams): Promise<ActionResult> {
+  private async executeMeleeAttack(bot: Bot, targetEntity: any, timeoutMs: number, startTime: number, params: KillMobParams, signal?: AbortSignal): Promise<ActionResult> {
     // 装备最佳近战武器
     const weaponResult = await WeaponUtils.equipBestMeleeWeapon(bot);
     if (weaponResult.success) {
@@ -166,7 +169,8 @@ export class KillMobAction extends BaseAction<KillMobParams> {
         entity: params.mob,
         distance: 2,
         maxDistance: 50,
-        goalType: GoalType.GoalFollow
+        goalType: GoalType.GoalFollow,
+        signal
       });
       
       if (!moveResult.success) {
@@ -177,7 +181,7 @@ export class KillMobAction extends BaseAction<KillMobParams> {
     }
 
     // 等待生物死亡
-    await this.waitForMobDeath(bot, targetEntity, timeoutMs, startTime);
+    await this.waitForMobDeath(bot, targetEntity, timeoutMs, startTime, signal);
 
     const stillExists = bot.entities[targetEntity.id];
     if (stillExists) {
@@ -189,14 +193,14 @@ export class KillMobAction extends BaseAction<KillMobParams> {
 
 
   /**
-   * 等待生物死亡
+   * 等待生物死亡（动作被取消时提前结束）
    */
-  private async waitForMobDeath(bot: Bot, targetEntity: any, timeoutMs: number, startTime: number): Promise<void> {
+  private async waitForMobDeath(bot: Bot, targetEntity: any, timeoutMs: number, startTime: number, signal?: AbortSignal): Promise<void> {
     return new Promise<void>((resolve) => {
       const interval = setInterval(() => {
         const stillAlive = bot.entities[targetEntity.id];
         const elapsed = Date.now() - startTime;
-        if (!stillAlive || elapsed > timeoutMs) {
+        if (!stillAlive || elapsed > timeoutMs || signal?.aborted) {
           clearInterval(interval);
           resolve();
         }
@@ -0,0 +1,53 @@
+import { Bot } from 'mineflayer';
+import { BaseAction, BaseActionParams, ActionResult, ActionConcurrency } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { MinecraftClient } from '../minecraft/MinecraftClient.js';
+import { MinecraftUtils } from '../utils/MinecraftUtils.js';
+
+interface ListWaypointsParams extends BaseActionParams {
+  dimension?: string;
+  all_dimensions?: boolean;
+}
+
+/**
+ * ListWaypointsAction - 列出路径点
+ * 当前维度的路径点附带与 bot 的距离
+ */
+export class ListWaypointsAction extends BaseAction<ListWaypointsParams> {
+  name = 'listWaypoints';
+  description = '列出已保存的命名路径点，当前维度的路径点按距离排序';
+  concurrency: ActionConcurrency = 'parallel';
+  schema = z.object({
+    dimension: z.string().optional().describe('维度 (字符串，可选，默认当前维度)'),
+    all_dimensions: z.boolean().optional().describe('是否列出所有维度的路径点 (布尔值，可选，默认false)'),
+  });
+
+  async execute(bot: Bot, params: ListWaypointsParams): Promise<ActionResult> {
+    try {
+      const store = ((bot as any).client as MinecraftClient | undefined)?.getWaypointStore?.();
+      if (!store) {
+        return this.createErrorResult('路径点存储不可用', 'WAYPOINTS_UNAVAILABLE');
+      }
+
+      const currentDimension = MinecraftUtils.getDimension(bot);
+      const dimension = params.all_dimensions ? undefined : params.dimension?.replace(/^minecraft:/, '') ?? currentDimension;
+      const position = bot.entity?.position;
+
+      const waypoints = store.list(dimension).map(waypoint => {
+        if (waypoint.dimension !== currentDimension || !position) return waypoint;
+        const { x, y, z } = waypoint.position;
+        return { ...waypoint, distance: Number(position.distanceTo({ x, y, z } as any).toFixed(2)) };
+      });
+      waypoints.sort((a, b) => ('distance' in a ? a.distance : Infinity) - ('distance' in b ? b.distance : Infinity));
+
+      return this.createSuccessResult(`共有 ${waypoints.length} 个路径点`, {
+        dimension: dimension ?? 'all',
+        waypoints,
+      });
+    } catch (error) {
+      return this.createExceptionResult(error, '列出路径点失败', 'LIST_WAYPOINTS_FAILED');
+    }
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: list_waypoints）
+}
@@ -0,0 +1,274 @@
+import { Bot } from 'mineflayer';
+import { Item } from 'prismarine-item';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { ContainerUtils } from '../utils/ContainerUtils.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
+import { InventoryUtils, DEFAULT_JUNK_ITEMS } from '../utils/InventoryUtils.js';
+import { WeaponUtils } from '../utils/WeaponUtils.js';
+import { MinecraftClient } from '../minecraft/MinecraftClient.js';
+
+type InventoryMode = 'status' | 'consolidate' | 'drop_junk' | 'store_junk' | 'hotbar' | 'equip';
+
+interface ManageInventoryParams extends BaseActionParams {
+  mode?: InventoryMode;
+  junk?: string[];
+  keep?: number;
+  items?: string[];
+  to?: 'hotbar' | 'main';
+  equip?: 'all' | 'armor' | 'weapon' | 'tool';
+  tool_type?: 'pickaxe' | 'axe' | 'shovel' | 'hoe';
+  x?: number;
+  y?: number;
+  z?: number;
+}
+
+/** store_junk 可以使用的容器 */
+const JUNK_CONTAINERS = ['chest', 'trapped_chest', 'barrel'];
+/** 快捷栏槽位数 */
+const HOTBAR_SIZE = 9;
+
+/**
+ * ManageInventoryAction - 物品栏管理
+ * status：查看空槽位、可合并槽位、杂物和剩余容量预测；consolidate：合并未满的相同物品；
+ * drop_junk / store_junk：丢弃或存放杂物；hotbar：在快捷栏和背包之间移动物品；equip：装备评分最高的护甲、武器或工具
+ */
+export class ManageInventoryAction extends BaseAction<ManageInventoryParams> {
+  name = 'manageInventory';
+  description = '物品栏管理：1.status查看空槽位、可合并槽位、杂物和剩余容量预测（默认）；2.consolidate合并未满的相同物品；3.drop_junk丢弃杂物；4.store_junk把杂物存入附近箱子；5.hotbar在快捷栏和背包之间移动物品；6.equip装备最好的护甲/武器/工具';
+  schema = z.object({
+    mode: z.enum(['status', 'consolidate', 'drop_junk', 'store_junk', 'hotbar', 'equip']).optional().describe('操作模式 (status | consolidate | drop_junk | store_junk | hotbar | equip，默认 status)'),
+    junk: z.array(z.string()).optional().describe('杂物列表 (字符串数组，可选，默认使用配置 inventory.junkItems，如 ["cobblestone", "dirt"])'),
+    keep: z.number().int().min(0).optional().describe('每种杂物保留的数量 (整数，可选，默认0)，drop_junk / store_junk 使用'),
+    items: z.array(z.string()).optional().describe('物品名称数组：hotbar 模式必填，要移动的物品；status 模式可选，预测还能拾取多少个'),
+    to: z.enum(['hotbar', 'main']).optional().describe('hotbar 模式的移动方向 (hotbar 移到快捷栏 | main 移到背包，默认 hotbar)'),
+    equip: z.enum(['all', 'armor', 'weapon', 'tool']).optional().describe('equip 模式装备的内容 (all 护甲和武器 | armor | weapon | tool，默认 all)'),
+    tool_type: z.enum(['pickaxe', 'axe', 'shovel', 'hoe']).optional().describe('equip 为 tool 时的工具类型 (可选，默认 pickaxe)'),
+    x: z.number().int().optional().describe('store_junk 使用的箱子X坐标 (整数，可选，默认最近的箱子或木桶)'),
+    y: z.number().int().optional().describe('箱子Y坐标 (整数，可选)'),
+    z: z.number().int().optional().describe('箱子Z坐标 (整数，可选)'),
+  });
+
+  async execute(bot: Bot, params: ManageInventoryParams, context?: ActionContext): Promise<ActionResult> {
+    try {
+      const mode = params.mode ?? 'status';
+      const junkItems = (params.junk ?? this.getConfiguredJunk(bot)).map(name => name.replace(/^minecraft:/, ''));
+      const keep = params.keep ?? 0;
+      const results: string[] = [];
+
+      switch (mode) {
+        case 'status':
+          break;
+        case 'consolidate': {
+          const merges = await InventoryUtils.mergeStacks(bot, bot.inventory, bot.inventory.inventoryStart, bot.inventory.inventoryEnd, context?.signal);
+          results.push(merges > 0 ? `已合并 ${merges} 次` : '没有可以合并的物品');
+          break;
+        }
+        case 'drop_junk': {
+          const dropped = await this.dropJunk(bot, junkItems, keep, context?.signal);
+          if (dropped.length === 0) {
+            return this.createErrorResult('背包中没有需要丢弃的杂物', 'NO_JUNK', this.getStatus(bot, junkItems, params.items));
+          }
+          results.push(`已丢弃 ${dropped.map(item => `${item.name} × ${item.count}`).join(', ')}`);
+          break;
+        }
+        case 'store_junk': {
+          const stored = await this.storeJunk(bot, params, junkItems, keep, results, context?.signal);
+          if (stored === 0) {
+            return this.createErrorResult(results.join('; ') || '背包中没有需要存放的杂物', 'NO_JUNK', this.getStatus(bot, junkItems, params.items));
+          }
+          break;
+        }
+        case 'hotbar': {
+          if (!params.items?.length) {
+            return this.createErrorResult('hotbar 模式必须指定 items', 'INVALID_PARAMS');
+          }
+          const moved = await this.moveItems(bot, params.items, params.to ?? 'hotbar', results, context?.signal);
+          if (moved === 0) {
+            return this.createErrorResult(`所有操作失败: ${results.join('; ')}`, 'ALL_OPERATIONS_FAILED', this.getStatus(bot, junkItems, params.items));
+          }
+          break;
+        }
+        case 'equip': {
+          const equipped = await this.equipBest(bot, params.equip ?? 'all', params.tool_type ?? 'pickaxe', results);
+          if (equipped === 0 && results.length === 0) {
+            results.push('当前装备已经是最好的');
+          }
+          break;
+        }
+      }
+
+      const status = this.getStatus(bot, junkItems, params.items);
+      const summary = `空槽位 ${status.freeSlots}/${status.totalSlots}，合并后可空出 ${status.consolidatableSlots} 格，杂物占用 ${status.junkSlots} 格`;
+      return this.createSuccessResult(results.length > 0 ? `${results.join('; ')}。${summary}` : summary, {
+        operationResults: results,
+        ...status,
+      });
+    } catch (err) {
+      return this.createExceptionResult(err, '物品栏管理失败', 'INVENTORY_FAILED');
+    }
+  }
+
+  private getConfiguredJunk(bot: Bot): string[] {
+    const client = (bot as any).client as MinecraftClient | undefined;
+    return client?.getJunkItems?.() ?? DEFAULT_JUNK_ITEMS;
+  }
+
+  /**
+   * 物品栏状态和剩余容量预测
+   */
+  private getStatus(bot: Bot, junkItems: string[], items?: string[]) {
+    const status = InventoryUtils.getSlotStatus(bot, junkItems);
+    const forecast = (items ?? []).map(name => ({ name, capacity: InventoryUtils.getCapacity(bot, name) }));
+    return {
+      ...status,
+      forecast,
+      heldItem: bot.heldItem ? { name: bot.heldItem.name, count: bot.heldItem.count } : null,
+    };
+  }
+
+  /**
+   * 计算每种杂物超出保留数量的部分
+   */
+  private getJunkExcess(bot: Bot, junkItems: string[], keep: number): Array<{ name: string; count: number }> {
+    return InventoryUtils.getSlotStatus(bot, junkItems).junk
+      .map(entry => ({ name: entry.name, count: entry.count - keep }))
+      .filter(entry => entry.count > 0);
+  }
+
+  private async dropJunk(bot: Bot, junkItems: string[], keep: number, signal?: AbortSignal): Promise<Array<{ name: string; count: number }>> {
+    const excess = this.getJunkExcess(bot, junkItems, keep);
+    for (const entry of excess) {
+      AbortUtils.throwIfAborted(signal);
+      await bot.toss(bot.registry.itemsByName[entry.name].id, null, entry.count);
+    }
+    return excess;
+  }
+
+  /**
+   * 把杂物存入附近的箱子或木桶
+   * @returns 存入的物品总数
+   */
+  private async storeJunk(bot: Bot, params: ManageInventoryParams, junkItems: string[], keep: number, results: string[], signal?: AbortSignal): Promise<number> {
+    const excess = this.getJunkExcess(bot, junkItems, keep);
+    if (excess.length === 0) return 0;
+
+    const position = params.x !== undefined && params.y !== undefined && params.z !== undefined
+      ? { x: params.x, y: params.y, z: params.z }
+      : undefined;
+    const block = await ContainerUtils.approachWorkstation(bot, JUNK_CONTAINERS, position, signal);
+    const container = await ContainerUtils.openContainer(bot, block.name, block);
+
+    let stored = 0;
+    try {
+      for (const entry of excess) {
+        try {
+          await container.deposit(bot.registry.itemsByName[entry.name].id, null, entry.count);
+          results.push(`已存入 ${entry.name} ${entry.count} 个`);
+          stored += entry.count;
+        } catch (err) {
+          results.push(`存储 ${entry.name} 失败: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+      const memory = ((bot as any).client as MinecraftClient | undefined)?.getWorldMemory?.();
+      const contents = (container.containerItems() as Item[]).map(item => ({ name: item.name, count: item.count }));
+      memory?.recordContainer(block.position, block.name, contents, memory.dimensionOf(bot));
+    } finally {
+      container.close();
+    }
+    return stored;
+  }
+
+  /**
+   * 在快捷栏和背包之间移动物品，快捷栏没有空位时替换不在列表中的物品
+   * @returns 成功移动的物品种类数
+   */
+  private async moveItems(bot: Bot, names: string[], to: 'hotbar' | 'main', results: string[], signal?: AbortSignal): Promise<number> {
+    const hotbarStart = bot.inventory.hotbarStart;
+    const isHotbar = (slot: number) => slot >= hotbarStart && slot < hotbarStart + HOTBAR_SIZE;
+    const itemNames = names.map(name => name.replace(/^minecraft:/, ''));
+
+    let moved = 0;
+    for (const name of itemNames) {
+      AbortUtils.throwIfAborted(signal);
+      const stacks = bot.inventory.items().filter(item => item.name === name);
+      if (stacks.length === 0) {
+        results.push(`背包没有 ${name}`);
+        continue;
+      }
+
+      const source = stacks.find(item => to === 'hotbar' ? !isHotbar(item.slot) : isHotbar(item.slot));
+      if (!source) {
+        results.push(`${name} 已经在${to === 'hotbar' ? '快捷栏' : '背包'}中`);
+        moved++;
+        continue;
+      }
+
+      let dest: number | undefined;
+      if (to === 'hotbar') {
+        const hotbarSlots = Array.from({ length: HOTBAR_SIZE }, (_, i) => hotbarStart + i);
+        dest = hotbarSlots.find(slot => !bot.inventory.slots[slot])
+          ?? hotbarSlots.find(slot => !itemNames.includes(bot.inventory.slots[slot]!.name));
+      } else {
+        dest = bot.inventory.firstEmptySlotRange(bot.inventory.inventoryStart, hotbarStart) ?? undefined;
+      }
+      if (dest === undefined) {
+        results.push(`${to === 'hotbar' ? '快捷栏' : '背包'}没有空位放 ${name}`);
+        continue;
+      }
+
+      await bot.moveSlotItem(source.slot, dest);
+      results.push(`已将 ${name} 移到${to === 'hotbar' ? '快捷栏' : '背包'}`);
+      moved++;
+    }
+    return moved;
+  }
+
+  /**
+   * 装备评分最高的护甲、武器或工具
+   * @returns 更换的装备数量
+   */
+  private async equipBest(bot: Bot, target: 'all' | 'armor' | 'weapon' | 'tool', toolType: string, results: string[]): Promise<number> {
+    let equipped = 0;
+
+    if (target === 'all' || target === 'armor') {
+      const best = WeaponUtils.getBestArmor(bot);
+      for (const [destination, item] of Object.entries(best) as Array<['head' | 'torso' | 'legs' | 'feet', Item | null]>) {
+        if (!item) continue;
+        const current = bot.inventory.slots[bot.getEquipmentDestSlot(destination)];
+        if (current && WeaponUtils.scoreArmor(current) >= WeaponUtils.scoreArmor(item)) continue;
+        await bot.equip(item, destination);
+        results.push(`已装备 ${item.name}`);
+        equipped++;
+      }
+    }
+
+    if (target === 'all' || target === 'weapon') {
+      const weapon = WeaponUtils.getBestMeleeWeapon(bot);
+      const held = bot.heldItem;
+      if (!weapon) {
+        if (target === 'weapon') results.push('背包中没有近战武器');
+      } else if (!held || WeaponUtils.scoreMeleeWeapon(held) < WeaponUtils.scoreMeleeWeapon(weapon)) {
+        await bot.equip(weapon, 'hand');
+        results.push(`已手持武器 ${weapon.name}`);
+        equipped++;
+      }
+    }
+
+    if (target === 'tool') {
+      const tool = WeaponUtils.getBestTool(bot, toolType);
+      const held = bot.heldItem;
+      if (!tool) {
+        results.push(`背包中没有 ${toolType}`);
+      } else if (!held || WeaponUtils.scoreTool(held, toolType) < WeaponUtils.scoreTool(tool, toolType)) {
+        await bot.equip(tool, 'hand');
+        results.push(`已手持工具 ${tool.name}`);
+        equipped++;
+      }
+    }
+
+    return equipped;
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: manage_inventory）
+}
@@ -1,10 +1,12 @@
 import { Bot } from 'mineflayer';
-import { BaseAction, BaseActionParams, ActionResult } from '../minecraft/ActionInterface.js';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
 import { z } from 'zod';
 import { Vec3 } from 'vec3';
 import { Block } from 'prismarine-block';
 import { MinecraftUtils } from '../utils/MinecraftUtils.js';
 import { MovementUtils, GoalType } from '../utils/MovementUtils.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
+import { MineBlockUtils } from '../utils/MineBlockUtils.js';
 
 /**
  * MineBlockAction 的执行结果数据结构
@@ -170,22 +172,7 @@ export class MineBlockAction extends BaseAction<MineBlockParams> {
   // 校验和 schema 描述由基类提供
 
 
-  /**
-   * Minecraft原版流体方块列表（硬编码）
-   */
-  private static readonly FLUID_BLOCKS = new Set([
-    'water',
-    'flowing_water',
-    'lava',
-    'flowing_lava'
-  ]);
-
-  private isFluidBlock(block: Block): boolean {
-    if (!block) return false;
-    return MineBlockAction.FLUID_BLOCKS.has(block.name);
-  }
-
-  async execute(bot: Bot, params: MineBlockParams): Promise<ActionResult> {
+  async execute(bot: Bot, params: MineBlockParams, context?: ActionContext): Promise<ActionResult> {
     try {
       const count = params.count ?? 1;
       const bypassAllCheck = params.bypassAllCheck ?? false;
@@ -230,17 +217,17 @@ export class MineBlockAction extends BaseAction<MineBlockParams> {
       // 根据参数组合选择挖掘策略
       if (hasCoordinates) {
         // 精准坐标挖掘模式
-        const result = await this.mineAtCoordinates(bot, params, blockByName, count, bypassAllCheck, useRelativeCoords, digOnly, enable_xray, useMovementUtils, goalType);
+        const result = await this.mineAtCoordinates(bot, params, blockByName, count, bypassAllCheck, useRelativeCoords, digOnly, enable_xray, useMovementUtils, goalType, context);
         successCount = result.count;
         minedBlocks = result.blocks;
       } else if (hasDirection && !hasName) {
         // 方向挖掘模式：朝着指定方向挖掘指定数量的方块
-        const result = await this.mineInDirection(bot, params, count, bypassAllCheck, maxDistance, digOnly, enable_xray);
+        const result = await this.mineInDirection(bot, params, count, bypassAllCheck, maxDistance, digOnly, enable_xray, context);
         successCount = result.count;
         minedBlocks = result.blocks;
       } else {
         // 搜索挖掘模式（原有逻辑）- 此时 blockByName 一定不为 null
-        const result = await this.mineBySearch(bot, params, blockByName!, count, bypassAllCheck, maxDistance, digOnly, enable_xray);
+        const result = await this.mineBySearch(bot, params, blockByName!, count, bypassAllCheck, maxDistance, digOnly, enable_xray, context);
         successCount = result.count;
         minedBlocks = result.blocks;
       }
@@ -390,7 +377,8 @@ export class MineBlockAction extends BaseAction<MineBlockParams> {
     digOnly: boolean,
     enable_xray: boolean,
     useMovementUtils: boolean,
-    goalType: GoalType
+    goalType: GoalType,
+    context?: ActionContext
   ): Promise<MineOperationResult> {
     const botPos = bot.entity.position;
     let targetX = params.x!;
@@ -414,7 +402,7 @@ export class MineBlockAction extends BaseAction<MineBlockParams> {
       throw new Error(`目标坐标 (${targetX}, ${targetY}, ${targetZ}) 没有方块`);
     }
     // 检查是否为流体方块（暂用boundingBox判断）
-    if (this.isFluidBlock(targetBlock)) {
+    if (MineBlockUtils.isFluidBlock(targetBlock)) {
       this.logger.error(`目标坐标 (${targetX}, ${targetY}, ${targetZ}) 的方块是流体 ${targetBlock.name}，不允许挖掘`);
       throw new Error(`目标坐标 (${targetX}, ${targetY}, ${targetZ}) 的方块是流体 ${targetBlock.name}，不允许挖掘`);
     }
@@ -437,14 +425,15 @@ export class MineBlockAction extends BaseAction<MineBlockParams> {
 
     // 挖掘指定数量的方块（在坐标模式下，通常只挖掘一个）
     for (let i = 0; i < count; i++) {
+      AbortUtils.throwIfAborted(context?.signal);
       if (useMovementUtils) {
         // 使用 MovementUtils 进行移动和挖掘
         this.logger.debug(`使用 MovementUtils (${goalType}) 挖掘方块`);
-        await this.mineWithMovementUtils(bot, targetBlock, goalType, digOnly);
+        await this.mineWithMovementUtils(bot, targetBlock, goalType, digOnly, context?.signal);
       } else if (bypassAllCheck || digOnly) {
         // 绕过安全检查或只挖掘不收集，直接使用bot.dig()
         this.logger.debug(`${bypassAllCheck ? '绕过安全检查' : '只挖掘不收集'}，直接挖掘方块`);
-        await this.digBlockDirectly(bot, targetBlock, digOnly);
+        await MineBlockUtils.digBlock(bot, targetBlock, digOnly);
       } else {
         // 使用collectBlock插件（包含安全检查），无消息模式
         try {
@@ -460,6 +449,7 @@ export class MineBlockAction extends BaseAction<MineBlockParams> {
       successCount++;
       minedBlocks.push(targetBlock.name);
       const blockNameText = params.name || targetBlock.name;
+      context?.reportProgress({ progress: successCount, total: count, message: `已挖掘 ${successCount}/${count} 个 ${blockNameText}` });
       this.logger.debug(`成功挖掘第 ${i+1} 个 ${blockNameText} 方块在坐标 (${targetX}, ${targetY}, ${targetZ})`);
     }
 
@@ -476,7 +466,8 @@ export class MineBlockAction extends BaseAction<MineBlockParams> {
     bypassAllCheck: boolean,
     maxDistance: number,
     digOnly: boolean,
-    enable_xray: boolean
+    enable_xray: boolean,
+    context?: ActionContext
   ): Promise<MineOperationResult> {
     let successCount = 0;
     const minedBlocks: string[] = [];
@@ -513,13 +504,14 @@ export class MineBlockAction extends BaseAction<MineBlockParams> {
     
     // 逐个挖掘指定方向的方块
     for (let i = 0; i < count; i++) {
+      AbortUtils.throwIfAborted(context?.signal);
       const targetPos = new Vec3(currentX, currentY, currentZ);
       const block = bot.blockAt(targetPos);
       
       if (!block) {
         this.logger.warn(`位置 (${currentX}, ${currentY}, ${currentZ}) 没有方块，跳过`);
         // 继续下一个位置
-      } else if (this.isFluidBlock(block)) {
+      } else if (MineBlockUtils.isFluidBlock(block)) {
         this.logger.warn(`位置 (${currentX}, ${currentY}, ${currentZ}) 的方块是流体 ${block.name}，跳过挖掘`);
         // 继续下一个位置
       } else if (!enable_xray && !bot.canSeeBlock(block)) {
@@ -531,7 +523,7 @@ export class MineBlockAction extends BaseAction<MineBlockParams> {
           if (bypassAllCheck || digOnly) {
           // 绕过安全检查或只挖掘不收集，直接使用bot.dig()
           this.logger.debug(`${bypassAllCheck ? '绕过安全检查' : '只挖掘不收集'}，直接挖掘方块`);
-          await this.digBlockDirectly(bot, block, digOnly);
+          await MineBlockUtils.digBlock(bot, block, digOnly);
         } else {
           // 使用collectBlock插件（包含安全检查），无消息模式
           try {
@@ -548,6 +540,7 @@ export class MineBlockAction extends BaseAction<MineBlockParams> {
 
         successCount++;
         minedBlocks.push(block.name);
+        context?.reportProgress({ progress: successCount, total: count, message: `已挖掘 ${successCount}/${count} 个方块` });
       }
       
       // 移动到下一个位置
@@ -588,13 +581,15 @@ export class MineBlockAction extends BaseAction<MineBlockParams> {
     bypassAllCheck: boolean,
     maxDistance: number,
     digOnly: boolean,
-    enable_xray: boolean
+    enable_xray: boolean,
+    context?: ActionContext
   ): Promise<MineOperationResult> {
     let successCount = 0;
     const minedBlocks: string[] = [];
 
     // 搜索目标方块
     for (let i = 0; i < count; i++) {
+      AbortUtils.throwIfAborted(context?.signal);
       let block;
       
       if (params.direction) {
@@ -622,7 +617,7 @@ export class MineBlockAction extends BaseAction<MineBlockParams> {
       }
 
       // 检查是否为流体方块
-      if (this.isFluidBlock(block)) {
+      if (MineBlockUtils.isFluidBlock(block)) {
         const directionText = params.direction ? `在${this.getDirectionText(params.direction)}方向` : '附近';
         this.logger.warn(`找到的 ${params.name} 方块是流体 ${block.name}，${directionText}位置: ${block.position.x}, ${block.position.y}, ${block.position.z}，不允许挖掘`);
         throw new Error(`找到的 ${params.name} 方块是流体 ${block.name}，不允许挖掘`);
@@ -641,7 +636,7 @@ export class MineBlockAction extends BaseAction<MineBlockParams> {
       if (bypassAllCheck || digOnly) {
         // 绕过安全检查或只挖掘不收集，直接使用bot.dig()
         this.logger.debug(`${bypassAllCheck ? '绕过安全检查' : '只挖掘不收集'}，直接挖掘方块`);
-        await this.digBlockDirectly(bot, block, digOnly);
+        await MineBlockUtils.digBlock(bot, block, digOnly);
       } else {
         // 使用collectBlock插件（包含安全检查），无消息模式
         try {
@@ -656,35 +651,13 @@ export class MineBlockAction extends BaseAction<MineBlockParams> {
       
       successCount++;
       minedBlocks.push(block.name);
+      context?.reportProgress({ progress: successCount, total: count, message: `已挖掘 ${successCount}/${count} 个 ${params.name}` });
       this.logger.debug(`成功挖掘第 ${i+1} 个 ${params.name} 方块`);
     }
 
     return { count: successCount, blocks: minedBlocks };
   }
 
-  /**
-   * 直接挖掘方块，绕过安全检查
-   */
-  private async digBlockDirectly(bot: Bot, block: any, digOnly: boolean): Promise<void> {
-    // 装备合适的工具，使用与collectBlock插件相同的配置
-    const equipToolOptions = {
-      requireHarvest: true,
-      getFromChest: false,
-      maxTools: 2,
-    };
-
-    await bot.tool.equipForBlock(block, equipToolOptions);
-
-    // 在digOnly模式下，不检查工具是否合适，直接挖掘
-    // 在非digOnly模式下，检查是否有合适的工具
-    if (!digOnly && !block.canHarvest(bot.heldItem ? bot.heldItem.type : bot.heldItem)) {
-      throw new Error(`没有合适的工具来挖掘 ${block.name}！`);
-    }
-
-    // 直接挖掘
-    await bot.dig(block);
-  }
-
   /**
    * 无消息收集方块 - 阻止 collectBlock 插件发送完成消息
    */
@@ -699,7 +672,7 @@ export class MineBlockAction extends BaseAction<MineBlockParams> {
   /**
    * 使用 MovementUtils 挖掘方块
    */
-  private async mineWithMovementUtils(bot: Bot, targetBlock: any, goalType: GoalType, digOnly: boolean): Promise<void> {
+  private async mineWithMovementUtils(bot: Bot, targetBlock: any, goalType: GoalType, digOnly: boolean, signal?: AbortSignal): Promise<void> {
     // 使用 MovementUtils 移动到目标位置
     const moveResult = await MovementUtils.moveTo(
       bot,
@@ -711,7 +684,8 @@ export class MineBlockAction extends BaseAction<MineBlockParams> {
         distance: 4, // 挖掘距离
         maxDistance: 64, // 最大移动距离
         useRelativeCoords: false,
-        goalType: goalType
+        goalType: goalType,
+        signal
       }
     );
 
@@ -721,7 +695,7 @@ export class MineBlockAction extends BaseAction<MineBlockParams> {
 
     // 挖掘方块
     if (digOnly) {
-      await this.digBlockDirectly(bot, targetBlock, digOnly);
+      await MineBlockUtils.digBlock(bot, targetBlock, digOnly);
     } else {
       // 使用 collectBlock 收集
       await this.collectBlockSilently(bot, targetBlock, {
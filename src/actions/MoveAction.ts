@@ -1,11 +1,14 @@
 import { Bot } from 'mineflayer';
-import { BaseAction, BaseActionParams, ActionResult } from '../minecraft/ActionInterface.js';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
 import { z } from 'zod';
+import { AbortUtils } from '../utils/AbortUtils.js';
 import { MovementUtils, MovementParams, GoalType } from '../utils/MovementUtils.js';
+import { MinecraftUtils } from '../utils/MinecraftUtils.js';
+import { MinecraftClient } from '../minecraft/MinecraftClient.js';
 
 interface MoveParams extends BaseActionParams {
   /** 移动类型 */
-  type: 'coordinate' | 'block' | 'player' | 'entity';
+  type: 'coordinate' | 'block' | 'player' | 'entity' | 'waypoint';
   /** 是否使用相对坐标，默认 false (绝对坐标) */
   useRelativeCoords?: boolean;
   /** 目标坐标 X (整数，当 type 为 coordinate 时必需) */
@@ -20,12 +23,16 @@ interface MoveParams extends BaseActionParams {
   player?: string;
   /** 目标实体类型 (当 type 为 entity 时必需) */
   entity?: string;
+  /** 路径点名称 (当 type 为 waypoint 时必需) */
+  waypoint?: string;
   /** 到达距离，默认 1 */
   distance?: number;
   /** 最大移动距离，默认 200 */
   maxDistance?: number;
   /** 移动目标类型，默认根据移动类型自动选择 */
   goalType?: GoalType;
+  /** 沿途有长距离水面时是否乘船横渡，默认 false */
+  useBoat?: boolean;
 }
 
 /**
@@ -36,6 +43,7 @@ interface MoveParams extends BaseActionParams {
  * - block: 移动到指定方块附近
  * - player: 移动到指定玩家附近
  * - entity: 移动到指定实体附近
+ * - waypoint: 移动到已保存的命名路径点（set_waypoint）
  *
  * 支持多种目标类型（通过 goalType 参数控制）：
  * - goalBlock: 移动到指定方块，玩家站在方块内脚部水平位置
@@ -52,7 +60,7 @@ export class MoveAction extends BaseAction<MoveParams> {
   name = 'move';
   description = '移动到指定位置';
   schema = z.object({
-    type: z.enum(['coordinate', 'block', 'player', 'entity']).describe('移动类型 (coordinate | block | player | entity)'),
+    type: z.enum(['coordinate', 'block', 'player', 'entity', 'waypoint']).describe('移动类型 (coordinate | block | player | entity | waypoint)'),
     useRelativeCoords: z.boolean().optional().describe('是否使用相对坐标 (布尔值，可选，默认 false)'),
     x: z.number().int().optional().describe('目标坐标 X (整数，当 type 为 coordinate 时必需)'),
     y: z.number().int().optional().describe('目标坐标 Y (整数，当 type 为 coordinate 时必需)'),
@@ -60,6 +68,7 @@ export class MoveAction extends BaseAction<MoveParams> {
     block: z.string().optional().describe('目标方块名称 (当 type 为 block 时必需)'),
     player: z.string().optional().describe('目标玩家名称 (当 type 为 player 时必需)'),
     entity: z.string().optional().describe('目标实体类型 (当 type 为 entity 时必需)，例如cow,pig,zombie等'),
+    waypoint: z.string().optional().describe('路径点名称 (当 type 为 waypoint 时必需)，例如home'),
     distance: z.number().positive().optional().describe('到达距离 (数字，可选，默认 1)'),
     maxDistance: z.number().positive().optional().describe('最大移动距离 (数字，可选，默认 200)'),
     goalType: z.enum([
@@ -75,23 +84,43 @@ export class MoveAction extends BaseAction<MoveParams> {
 • goalFollow: 跟随实体移动
 • goalPlaceBlock: 移动到适合放置方块的位置
 • goalLookAtBlock: 移动到可以看到指定方块面的位置`),
+    useBoat: z.boolean().optional().describe('沿途有长距离水面时是否乘船横渡 (布尔值，可选，默认 false)，需要背包中有船'),
   });
 
-  async execute(bot: Bot, params: MoveParams): Promise<ActionResult> {
+  async execute(bot: Bot, params: MoveParams, context?: ActionContext): Promise<ActionResult> {
     try {
+      // 路径点转换为坐标移动
+      let target: { x?: number; y?: number; z?: number } = params;
+      if (params.type === 'waypoint') {
+        const resolved = this.resolveWaypoint(bot, params.waypoint);
+        if ('error' in resolved) {
+          return this.createErrorResult(resolved.message, resolved.error);
+        }
+        target = resolved.position;
+      }
+
       // 转换参数格式
       const movementParams: MovementParams = {
-        type: params.type,
-        useRelativeCoords: params.useRelativeCoords,
-        x: params.x,
-        y: params.y,
-        z: params.z,
+        type: params.type === 'waypoint' ? 'coordinate' : params.type,
+        useRelativeCoords: params.type === 'waypoint' ? false : params.useRelativeCoords,
+        x: target.x,
+        y: target.y,
+        z: target.z,
         block: params.block,
         player: params.player,
         entity: params.entity,
         distance: params.distance,
         maxDistance: params.maxDistance,
-        goalType: params.goalType
+        goalType: params.goalType,
+        useBoat: params.useBoat,
+        onProgress: context
+          ? (remaining, initial) => context.reportProgress({
+              progress: Math.max(0, Number((initial - remaining).toFixed(2))),
+              total: Number(initial.toFixed(2)),
+              message: `距离目标还有 ${remaining.toFixed(2)} 格`
+            })
+          : undefined,
+        signal: context?.signal
       };
 
       // 调用统一的移动工具类
@@ -100,8 +129,34 @@ export class MoveAction extends BaseAction<MoveParams> {
       // 返回统一的结构化数据
       return this.createSuccessResult(result.message, result);
     } catch (error) {
+      if (AbortUtils.isAbortError(error)) {
+        return this.createErrorResult('移动已被取消', 'CANCELLED');
+      }
       this.logger.error(`移动失败: ${error instanceof Error ? error.message : String(error)}`);
       return this.createExceptionResult(error, '移动失败', 'MOVE_FAILED');
     }
   }
+
+  /**
+   * 查找当前维度中的路径点
+   */
+  private resolveWaypoint(bot: Bot, name?: string): { position: { x: number; y: number; z: number } } | { error: string; message: string } {
+    if (!name) {
+      return { error: 'INVALID_PARAMS', message: 'type 为 waypoint 时需要指定 waypoint 参数' };
+    }
+    const store = ((bot as any).client as MinecraftClient | undefined)?.getWaypointStore?.();
+    if (!store) {
+      return { error: 'WAYPOINTS_UNAVAILABLE', message: '路径点存储不可用' };
+    }
+
+    const dimension = MinecraftUtils.getDimension(bot);
+    const waypoint = store.get(name, dimension);
+    if (!waypoint) {
+      const elsewhere = store.findAll(name).map(w => w.dimension);
+      return elsewhere.length > 0
+        ? { error: 'WRONG_DIMENSION', message: `路径点 ${name} 在 ${elsewhere.join(', ')}，当前维度为 ${dimension}，可以先使用 travel_dimension 穿过传送门` }
+        : { error: 'WAYPOINT_NOT_FOUND', message: `路径点 ${name} 不存在` };
+    }
+    return { position: waypoint.position };
+  }
 }
@@ -1,5 +1,5 @@
 import { Bot, Furnace } from 'mineflayer';
-import { BaseAction, BaseActionParams, ActionResult } from '../minecraft/ActionInterface.js';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext, ActionConcurrency } from '../minecraft/ActionInterface.js';
 import { z } from 'zod';
 import { Vec3 } from 'vec3';
 import { MoveAction } from './MoveAction.js';
@@ -15,6 +15,8 @@ interface QueryBlockParams extends BaseActionParams {
 export class QueryBlockAction extends BaseAction<QueryBlockParams> {
   name = 'queryBlock';
   description = '查询指定坐标处方块的详细信息，包括方块类型、状态、实体等，支持容器内容查询';
+  // 查询容器内容时需要走到容器旁边打开它
+  concurrency: ActionConcurrency = 'exclusive';
   schema = z.object({
     x: z.number().int().describe('目标坐标 X (整数)'),
     y: z.number().int().describe('目标坐标 Y (整数)'),
@@ -23,7 +25,7 @@ export class QueryBlockAction extends BaseAction<QueryBlockParams> {
     includeContainerInfo: z.boolean().optional().describe('是否包含容器信息 (布尔值，可选，默认 false)'),
   });
 
-  async execute(bot: Bot, params: QueryBlockParams): Promise<ActionResult> {
+  async execute(bot: Bot, params: QueryBlockParams, context?: ActionContext): Promise<ActionResult> {
     try {
       this.logger.debug(`查询坐标 (${params.x}, ${params.y}, ${params.z}) 处的方块信息`);
 
@@ -87,7 +89,7 @@ export class QueryBlockAction extends BaseAction<QueryBlockParams> {
             };
 
             this.logger.debug(`移动到容器位置: (${position.x}, ${position.y}, ${position.z})`);
-            const moveResult = await moveAction.execute(bot, moveParams);
+            const moveResult = await moveAction.execute(bot, moveParams, context);
 
             if (!moveResult.success) {
               this.logger.warn(`移动到容器位置失败: ${moveResult.message}`);
@@ -0,0 +1,71 @@
+import { Bot } from 'mineflayer';
+import { BaseAction, BaseActionParams, ActionResult } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { MinecraftClient } from '../minecraft/MinecraftClient.js';
+import type { MemoryCategory } from '../minecraft/WorldMemory.js';
+
+interface QueryMemoryParams extends BaseActionParams {
+  type?: MemoryCategory;
+  block?: string;
+  item?: string;
+  dimension?: string;
+  max_distance?: number;
+  limit?: number;
+}
+
+/**
+ * QueryMemoryAction - 查询世界记忆
+ * 返回 bot 记住的容器（含最近一次看到的内容）、工作方块、床、传送门和矿石位置，按距离排序
+ */
+export class QueryMemoryAction extends BaseAction<QueryMemoryParams> {
+  name = 'queryMemory';
+  description = '查询世界记忆：bot 记住的箱子（含最近一次看到的内容）、工作方块、床、传送门和矿石位置，可按类型、方块、物品和距离过滤';
+  schema = z.object({
+    type: z.enum(['container', 'crafting_station', 'bed', 'portal', 'ore']).optional().describe('位置类型 (container | crafting_station | bed | portal | ore，可选)'),
+    block: z.string().optional().describe('方块名称，如 chest、furnace、diamond_ore (字符串，可选)'),
+    item: z.string().optional().describe('只返回存有该物品的容器 (字符串，可选)'),
+    dimension: z.string().optional().describe('维度 (overworld | the_nether | the_end，可选，默认当前维度)'),
+    max_distance: z.number().min(1).optional().describe('最大距离 (数字，可选，仅当前维度有效)'),
+    limit: z.number().int().min(1).max(100).optional().describe('返回数量 (整数，可选，默认20)'),
+  });
+
+  async execute(bot: Bot, params: QueryMemoryParams): Promise<ActionResult> {
+    try {
+      const client = (bot as any).client as MinecraftClient | undefined;
+      const memory = client?.getWorldMemory?.();
+      if (!memory) {
+        return this.createErrorResult('世界记忆不可用', 'MEMORY_UNAVAILABLE');
+      }
+
+      const currentDimension = memory.dimensionOf(bot);
+      const dimension = params.dimension?.replace(/^minecraft:/, '') ?? currentDimension;
+      const position = bot.entity?.position;
+      const near = dimension === currentDimension && position ? { x: position.x, y: position.y, z: position.z } : undefined;
+      const limit = params.limit ?? 20;
+
+      const matched = memory.query({
+        category: params.type,
+        blockName: params.block,
+        item: params.item,
+        dimension,
+        near,
+        maxDistance: near ? params.max_distance : undefined,
+      });
+      const locations = matched.slice(0, limit);
+
+      // 查询传送门时附带穿越过的传送门对应关系
+      const portalLinks = !params.type || params.type === 'portal' ? memory.getPortalLinks(dimension) : undefined;
+
+      return this.createSuccessResult(`记忆中找到 ${matched.length} 个位置，返回 ${locations.length} 个`, {
+        dimension,
+        total: matched.length,
+        locations,
+        portalLinks,
+      });
+    } catch (error) {
+      return this.createExceptionResult(error, '查询世界记忆失败', 'QUERY_MEMORY_FAILED');
+    }
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: query_memory）
+}
@@ -0,0 +1,122 @@
+import { Bot } from 'mineflayer';
+import { BaseAction, BaseActionParams, ActionResult, ActionConcurrency, ActionContext } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { MinecraftClient } from '../minecraft/MinecraftClient.js';
+import { VillagerUtils } from '../utils/VillagerUtils.js';
+
+interface QueryTradesParams extends BaseActionParams {
+  entity_id?: number;
+  x?: number;
+  y?: number;
+  z?: number;
+  profession?: string;
+  item?: string;
+  max_distance?: number;
+  remembered?: boolean;
+}
+
+/**
+ * QueryTradesAction - 查询村民交易
+ * 走到村民旁边打开交易界面，列出每项交易的价格、产出、已用次数和剩余库存，并记入世界记忆；
+ * remembered 为 true 时只查询记忆中的村民交易，不移动
+ */
+export class QueryTradesAction extends BaseAction<QueryTradesParams> {
+  name = 'queryTrades';
+  description = '查询村民交易：打开附近村民的交易界面，列出每项交易的价格、产出、使用次数和剩余库存（会记住村民及其交易）；也可只查询记忆中哪些村民提供某物品';
+  // 需要走到村民旁边并打开交易界面
+  concurrency: ActionConcurrency = 'exclusive';
+  schema = z.object({
+    entity_id: z.number().int().optional().describe('村民实体ID (整数，可选，默认选择最近的村民)'),
+    x: z.number().optional().describe('参照位置X坐标 (数字，可选，选择离该位置最近的村民)'),
+    y: z.number().optional().describe('参照位置Y坐标 (数字，可选)'),
+    z: z.number().optional().describe('参照位置Z坐标 (数字，可选)'),
+    profession: z.string().optional().describe('村民职业，如 librarian、farmer、wandering_trader (字符串，可选)'),
+    item: z.string().optional().describe('只返回产出或需要该物品的交易 (字符串，可选)'),
+    max_distance: z.number().min(1).max(64).optional().describe('搜索村民的最大距离 (数字，可选，默认16；remembered 时不限制)'),
+    remembered: z.boolean().optional().describe('只查询记忆中的村民交易，不打开交易界面 (布尔值，可选，默认false)'),
+  });
+
+  async execute(bot: Bot, params: QueryTradesParams, context?: ActionContext): Promise<ActionResult> {
+    try {
+      const item = params.item?.replace(/^minecraft:/, '');
+
+      if (params.remembered) {
+        return this.queryRemembered(bot, params.profession, item, params.max_distance);
+      }
+
+      const position = params.x !== undefined && params.y !== undefined && params.z !== undefined
+        ? { x: params.x, y: params.y, z: params.z }
+        : undefined;
+      const entity = VillagerUtils.findVillager(bot, {
+        entityId: params.entity_id,
+        position,
+        profession: params.profession,
+        maxDistance: params.max_distance,
+      });
+      if (!entity) {
+        return this.createErrorResult('附近没有找到符合条件的村民', 'VILLAGER_NOT_FOUND');
+      }
+
+      const villager = await VillagerUtils.open(bot, entity, context?.signal);
+      let trades;
+      try {
+        trades = VillagerUtils.summarizeTrades(villager);
+      } finally {
+        villager.close();
+      }
+      VillagerUtils.remember(bot, entity, trades);
+
+      const { profession, level } = VillagerUtils.getProfession(entity);
+      const matched = item
+        ? trades.filter(trade => trade.output.name === item || trade.inputs.some(input => input.name === item))
+        : trades;
+
+      return this.createSuccessResult(`村民 #${entity.id}（${profession}）共有 ${trades.length} 项交易，返回 ${matched.length} 项`, {
+        villager: {
+          entityId: entity.id,
+          uuid: entity.uuid,
+          profession,
+          level,
+          position: {
+            x: Number(entity.position.x.toFixed(2)),
+            y: Number(entity.position.y.toFixed(2)),
+            z: Number(entity.position.z.toFixed(2))
+          }
+        },
+        trades: matched,
+      });
+    } catch (error) {
+      return this.createExceptionResult(error, '查询村民交易失败', 'QUERY_TRADES_FAILED');
+    }
+  }
+
+  /**
+   * 查询记忆中的村民交易（当前维度，按距离排序）
+   */
+  private queryRemembered(bot: Bot, profession: string | undefined, item: string | undefined, maxDistance?: number): ActionResult {
+    const client = (bot as any).client as MinecraftClient | undefined;
+    const memory = client?.getWorldMemory?.();
+    if (!memory) {
+      return this.createErrorResult('世界记忆不可用', 'MEMORY_UNAVAILABLE');
+    }
+
+    const position = bot.entity.position;
+    const villagers = memory.queryVillagers({
+      profession,
+      item,
+      dimension: memory.dimensionOf(bot),
+      near: { x: position.x, y: position.y, z: position.z },
+      maxDistance,
+      limit: 20,
+    }).map(villager => ({
+      ...villager,
+      trades: item
+        ? villager.trades.filter(trade => trade.output.name === item || trade.inputs.some(input => input.name === item))
+        : villager.trades,
+    }));
+
+    return this.createSuccessResult(`记忆中找到 ${villagers.length} 个符合条件的村民`, { villagers });
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: query_trades）
+}
@@ -0,0 +1,56 @@
+import { Bot } from 'mineflayer';
+import { BaseAction, BaseActionParams, ActionResult, ActionConcurrency } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { MinecraftClient } from '../minecraft/MinecraftClient.js';
+import { MinecraftUtils } from '../utils/MinecraftUtils.js';
+
+interface SetWaypointParams extends BaseActionParams {
+  name: string;
+  x?: number;
+  y?: number;
+  z?: number;
+  dimension?: string;
+  description?: string;
+}
+
+/**
+ * SetWaypointAction - 设置命名路径点
+ * 不指定坐标时使用 bot 当前位置；同一维度中同名路径点会被覆盖
+ */
+export class SetWaypointAction extends BaseAction<SetWaypointParams> {
+  name = 'setWaypoint';
+  description = '设置命名路径点（如 home、mine、farm），之后可以用 move 的 waypoint 类型前往。不指定坐标时使用当前位置';
+  concurrency: ActionConcurrency = 'parallel';
+  schema = z.object({
+    name: z.string().min(1).describe('路径点名称 (字符串)'),
+    x: z.number().int().optional().describe('X坐标 (整数，可选，默认当前位置)'),
+    y: z.number().int().optional().describe('Y坐标 (整数，可选，默认当前位置)'),
+    z: z.number().int().optional().describe('Z坐标 (整数，可选，默认当前位置)'),
+    dimension: z.string().optional().describe('维度 (字符串，可选，默认当前维度)'),
+    description: z.string().optional().describe('备注 (字符串，可选)'),
+  });
+
+  async execute(bot: Bot, params: SetWaypointParams): Promise<ActionResult> {
+    try {
+      const store = ((bot as any).client as MinecraftClient | undefined)?.getWaypointStore?.();
+      if (!store) {
+        return this.createErrorResult('路径点存储不可用', 'WAYPOINTS_UNAVAILABLE');
+      }
+
+      const hasPosition = params.x !== undefined && params.y !== undefined && params.z !== undefined;
+      if (!hasPosition && (params.x !== undefined || params.y !== undefined || params.z !== undefined)) {
+        return this.createErrorResult('坐标需要同时指定 x, y, z', 'INVALID_PARAMS');
+      }
+      const position = hasPosition ? { x: params.x!, y: params.y!, z: params.z! } : bot.entity.position;
+      const dimension = params.dimension?.replace(/^minecraft:/, '') ?? MinecraftUtils.getDimension(bot);
+
+      const waypoint = store.set(params.name, position, dimension, params.description);
+      const { x, y, z } = waypoint.position;
+      return this.createSuccessResult(`已设置路径点 ${waypoint.name}: (${x}, ${y}, ${z}) [${dimension}]`, waypoint);
+    } catch (error) {
+      return this.createExceptionResult(error, '设置路径点失败', 'SET_WAYPOINT_FAILED');
+    }
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: set_waypoint）
+}
@@ -1,6 +1,6 @@
 import { Bot } from 'mineflayer';
 import minecraftData from 'minecraft-data';
-import { BaseAction, BaseActionParams, ActionResult } from '../minecraft/ActionInterface.js';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
 import { z } from 'zod';
 import { MovementUtils, GoalType } from '../utils/MovementUtils.js';
 import pathfinder from 'mineflayer-pathfinder-mai';
@@ -21,6 +21,8 @@ interface SwimToLandParams extends BaseActionParams {
 export class SwimToLandAction extends BaseAction<SwimToLandParams> {
   name = 'swimToLand';
   description = '游向最近的陆地';
+  // 溺水风险优先处理，抢占其他动作
+  priority = 100;
   schema = z.object({
     maxDistance: z.number().int().positive().optional().describe('最大搜索距离 (数字，可选，默认 64)'),
     timeout: z.number().int().positive().optional().describe('超时时间 (秒，可选，默认 60)'),
@@ -28,7 +30,7 @@ export class SwimToLandAction extends BaseAction<SwimToLandParams> {
 
   // 校验与参数描述由基类通过 schema 自动提供
 
-  async execute(bot: Bot, params: SwimToLandParams): Promise<ActionResult> {
+  async execute(bot: Bot, params: SwimToLandParams, context?: ActionContext): Promise<ActionResult> {
     try {
       const maxDist = params.maxDistance ?? 64;
       const timeoutSec = params.timeout ?? 60;
@@ -80,7 +82,8 @@ export class SwimToLandAction extends BaseAction<SwimToLandParams> {
             distance: 1, // 到达距离
             maxDistance: maxDist, // 最大移动距离
             useRelativeCoords: false, // 不使用相对坐标
-            goalType: GoalType.GoalNear // 使用附近目标类型
+            goalType: GoalType.GoalNear, // 使用附近目标类型
+            signal: context?.signal
           }
         );
 
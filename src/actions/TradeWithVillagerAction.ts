@@ -0,0 +1,193 @@
+import { Bot, Villager } from 'mineflayer';
+import { Entity } from 'prismarine-entity';
+import { Vec3 } from 'vec3';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { MinecraftClient } from '../minecraft/MinecraftClient.js';
+import { MovementUtils, GoalType } from '../utils/MovementUtils.js';
+import { VillagerUtils } from '../utils/VillagerUtils.js';
+
+interface TradeWithVillagerParams extends BaseActionParams {
+  entity_id?: number;
+  x?: number;
+  y?: number;
+  z?: number;
+  profession?: string;
+  trade_index?: number;
+  item?: string;
+  times?: number;
+  max_distance?: number;
+}
+
+/** 前往记忆中村民的最大距离 */
+const REMEMBERED_MAX_DISTANCE = 128;
+
+/**
+ * TradeWithVillagerAction - 与村民交易
+ * 按交易序号或产出物品选择交易，执行前检查交易库存和背包中的绿宝石/材料是否足够，执行后更新世界记忆中的交易列表。
+ * 附近没有提供该物品的村民时，会前往记忆中提供该物品的村民。
+ */
+export class TradeWithVillagerAction extends BaseAction<TradeWithVillagerParams> {
+  name = 'tradeWithVillager';
+  description = '与村民交易：按交易序号或产出物品选择交易并执行指定次数，执行前检查库存和绿宝石/材料是否足够；附近没有时会前往记忆中提供该物品的村民';
+  schema = z.object({
+    entity_id: z.number().int().optional().describe('村民实体ID (整数，可选，默认选择最近的村民)'),
+    x: z.number().optional().describe('参照位置X坐标 (数字，可选，选择离该位置最近的村民)'),
+    y: z.number().optional().describe('参照位置Y坐标 (数字，可选)'),
+    z: z.number().optional().describe('参照位置Z坐标 (数字，可选)'),
+    profession: z.string().optional().describe('村民职业，如 librarian、farmer (字符串，可选)'),
+    trade_index: z.number().int().min(0).optional().describe('交易序号，来自 query_trades 的 index (整数，可选，与 item 二选一)'),
+    item: z.string().optional().describe('要换取的物品名称 (字符串，可选，与 trade_index 二选一)'),
+    times: z.number().int().min(1).max(64).optional().describe('交易次数 (整数，可选，默认1)'),
+    max_distance: z.number().min(1).max(64).optional().describe('搜索附近村民的最大距离 (数字，可选，默认16)'),
+  });
+
+  async execute(bot: Bot, params: TradeWithVillagerParams, context?: ActionContext): Promise<ActionResult> {
+    try {
+      if (params.trade_index === undefined && !params.item) {
+        return this.createErrorResult('必须指定 trade_index 或 item', 'INVALID_PARAMS');
+      }
+      const item = params.item?.replace(/^minecraft:/, '');
+      const times = params.times ?? 1;
+
+      const entity = await this.locateVillager(bot, params, item, context?.signal);
+      if (!entity) {
+        return this.createErrorResult(
+          item ? `附近和记忆中都没有找到提供 ${item} 的村民` : '附近没有找到符合条件的村民',
+          'VILLAGER_NOT_FOUND'
+        );
+      }
+
+      const villager = await VillagerUtils.open(bot, entity, context?.signal);
+      try {
+        return await this.trade(bot, entity, villager, params.trade_index, item, times);
+      } finally {
+        villager.close();
+      }
+    } catch (error) {
+      return this.createExceptionResult(error, '村民交易失败', 'TRADE_FAILED');
+    }
+  }
+
+  /**
+   * 查找交易目标：指定了村民时直接查找；只指定物品时优先使用记忆中提供该物品的村民
+   */
+  private async locateVillager(bot: Bot, params: TradeWithVillagerParams, item?: string, signal?: AbortSignal): Promise<Entity | null> {
+    const position = params.x !== undefined && params.y !== undefined && params.z !== undefined
+      ? { x: params.x, y: params.y, z: params.z }
+      : undefined;
+    const target = { entityId: params.entity_id, position, profession: params.profession, maxDistance: params.max_distance };
+    if (params.entity_id !== undefined || position || !item) {
+      return VillagerUtils.findVillager(bot, target);
+    }
+
+    const client = (bot as any).client as MinecraftClient | undefined;
+    const memory = client?.getWorldMemory?.();
+    const botPosition = bot.entity.position;
+    const remembered = memory?.queryVillagers({
+      profession: params.profession,
+      item,
+      dimension: memory.dimensionOf(bot),
+      near: { x: botPosition.x, y: botPosition.y, z: botPosition.z },
+      maxDistance: REMEMBERED_MAX_DISTANCE,
+    }).find(villager => villager.trades.some(trade => trade.output.name === item));
+    if (!remembered) {
+      return VillagerUtils.findVillager(bot, target);
+    }
+
+    const byUuid = (): Entity | null => Object.values(bot.entities)
+      .find(entity => remembered.uuid && entity.uuid === remembered.uuid) ?? null;
+    if (!byUuid() && botPosition.distanceTo(new Vec3(remembered.position.x, remembered.position.y, remembered.position.z)) > 8) {
+      this.logger.info(`前往记忆中的村民 (${remembered.profession}) ${remembered.position.x}, ${remembered.position.y}, ${remembered.position.z}`);
+      await MovementUtils.moveTo(bot, {
+        type: 'coordinate',
+        x: remembered.position.x,
+        y: remembered.position.y,
+        z: remembered.position.z,
+        distance: 3,
+        maxDistance: REMEMBERED_MAX_DISTANCE,
+        useRelativeCoords: false,
+        goalType: GoalType.GoalNear,
+        signal
+      });
+    }
+    return byUuid() ?? VillagerUtils.findVillager(bot, {
+      position: remembered.position,
+      profession: remembered.profession,
+      maxDistance: 8,
+    });
+  }
+
+  /**
+   * 选择交易，检查库存和材料后执行
+   */
+  private async trade(
+    bot: Bot,
+    entity: Entity,
+    villager: Villager,
+    tradeIndex: number | undefined,
+    item: string | undefined,
+    times: number
+  ): Promise<ActionResult> {
+    const summaries = VillagerUtils.summarizeTrades(villager);
+    VillagerUtils.remember(bot, entity, summaries);
+
+    let index = tradeIndex;
+    if (index === undefined) {
+      const offers = summaries.filter(trade => trade.output.name === item);
+      index = (offers.find(trade => !trade.disabled && trade.stock > 0) ?? offers[0])?.index;
+    }
+    if (index === undefined || !villager.trades[index]) {
+      return this.createErrorResult(
+        tradeIndex !== undefined ? `交易序号 ${tradeIndex} 不存在` : `该村民不提供 ${item}`,
+        'TRADE_NOT_FOUND',
+        { trades: summaries }
+      );
+    }
+
+    const trade = villager.trades[index];
+    const summary = summaries[index];
+    if (trade.tradeDisabled || summary.stock <= 0) {
+      return this.createErrorResult(`交易 ${VillagerUtils.formatTrade(summary)} 已售罄，等待村民补货`, 'OUT_OF_STOCK', { trade: summary });
+    }
+    if (times > summary.stock) {
+      return this.createErrorResult(`交易 ${VillagerUtils.formatTrade(summary)} 最多还能进行 ${summary.stock} 次`, 'OUT_OF_STOCK', { trade: summary });
+    }
+
+    // 检查材料（第一个材料使用计入需求和声望后的实际价格）
+    const shortages: Array<{ name: string; required: number; available: number }> = [];
+    const inputs = [{ item: trade.inputItem1, count: trade.realPrice ?? trade.inputItem1.count }];
+    if (trade.hasItem2 && trade.inputItem2) {
+      inputs.push({ item: trade.inputItem2, count: trade.inputItem2.count });
+    }
+    for (const input of inputs) {
+      const required = input.count * times;
+      const available = villager.count(input.item.type, null);
+      if (available < required) {
+        shortages.push({ name: input.item.name, required, available });
+      }
+    }
+    if (shortages.length > 0) {
+      const text = shortages.map(s => `${s.name} 需要 ${s.required} 个，只有 ${s.available} 个`).join('；');
+      return this.createErrorResult(`材料不足：${text}`, 'INSUFFICIENT_ITEMS', { trade: summary, shortages });
+    }
+
+    const outputBefore = villager.count(trade.outputItem.type, null);
+    await bot.trade(villager, index, times);
+    const received = villager.count(trade.outputItem.type, null) - outputBefore;
+
+    const updated = VillagerUtils.summarizeTrades(villager);
+    VillagerUtils.remember(bot, entity, updated);
+
+    const { profession } = VillagerUtils.getProfession(entity);
+    return this.createSuccessResult(`与村民 #${entity.id}（${profession}）交易 ${times} 次，获得 ${trade.outputItem.name} × ${received}`, {
+      villager: { entityId: entity.id, uuid: entity.uuid, profession },
+      trade: updated[index] ?? summary,
+      times,
+      received: { name: trade.outputItem.name, count: received },
+      spent: inputs.map(input => ({ name: input.item.name, count: input.count * times })),
+    });
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: trade_with_villager）
+}
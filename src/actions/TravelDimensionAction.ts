@@ -0,0 +1,240 @@
+import { Bot } from 'mineflayer';
+import { Block } from 'prismarine-block';
+import { Vec3 } from 'vec3';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { MovementUtils, GoalType } from '../utils/MovementUtils.js';
+import { MinecraftUtils } from '../utils/MinecraftUtils.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
+import { MinecraftClient } from '../minecraft/MinecraftClient.js';
+
+interface TravelDimensionParams extends BaseActionParams {
+  /** 传送门坐标，默认最近的下界传送门 */
+  x?: number;
+  y?: number;
+  z?: number;
+  /** 同时在两端保存的路径点名称 */
+  waypoint?: string;
+  /** 等待切换维度的超时时间（秒），默认 30 */
+  timeout?: number;
+}
+
+/** 附近查找传送门的距离 */
+const PORTAL_SEARCH_DISTANCE = 64;
+/** 到达后在落脚点附近查找出口传送门的距离 */
+const EXIT_PORTAL_DISTANCE = 4;
+
+/**
+ * TravelDimensionAction - 穿过下界传送门
+ * 走进附近（或世界记忆中）的下界传送门，等待维度切换和区块加载，
+ * 然后把两端的传送门记录到世界记忆，可选地在两端保存同名路径点
+ */
+export class TravelDimensionAction extends BaseAction<TravelDimensionParams> {
+  name = 'travelDimension';
+  description = '穿过下界传送门往返主世界和下界：走进附近或世界记忆中的传送门，等待维度切换，记录两端传送门的对应关系（主世界坐标 ÷ 8 = 下界坐标），可在两端保存同名路径点';
+  schema = z.object({
+    x: z.number().int().optional().describe('传送门X坐标 (整数，可选，默认最近的传送门)'),
+    y: z.number().int().optional().describe('传送门Y坐标 (整数，可选)'),
+    z: z.number().int().optional().describe('传送门Z坐标 (整数，可选)'),
+    waypoint: z.string().optional().describe('在两端传送门保存的路径点名称 (字符串，可选)，之后可在任一维度用 move 前往'),
+    timeout: z.number().int().positive().optional().describe('等待切换维度的超时时间 (秒，可选，默认 30)'),
+  });
+
+  async execute(bot: Bot, params: TravelDimensionParams, context?: ActionContext): Promise<ActionResult> {
+    const signal = context?.signal;
+    try {
+      const client = (bot as any).client as MinecraftClient | undefined;
+      const memory = client?.getWorldMemory?.();
+      const fromDimension = MinecraftUtils.getDimension(bot);
+      if (fromDimension === 'the_end') {
+        return this.createErrorResult('末地中没有下界传送门，请使用末地折跃门或返回传送门', 'WRONG_DIMENSION');
+      }
+      const toDimension = fromDimension === 'the_nether' ? 'overworld' : 'the_nether';
+
+      const portal = await this.findPortal(bot, params, signal);
+      if (!portal) {
+        return this.createErrorResult(
+          `附近 ${PORTAL_SEARCH_DISTANCE} 格内和世界记忆中都没有下界传送门，可以先使用 build_nether_portal 建造`,
+          'PORTAL_NOT_FOUND'
+        );
+      }
+      const fromPosition = portal.position.clone();
+      const knownLink = memory?.findPortalLink(fromPosition, fromDimension) ?? null;
+      const expected = MinecraftUtils.convertPortalCoordinates(fromPosition, fromDimension, toDimension);
+      this.logger.info(`前往传送门 (${fromPosition.x}, ${fromPosition.y}, ${fromPosition.z})，目标维度 ${toDimension}`);
+
+      // 先走到传送门旁边，再直接走进去（寻路不会把传送门方块作为终点）
+      await MovementUtils.moveTo(bot, {
+        type: 'coordinate',
+        x: fromPosition.x,
+        y: fromPosition.y,
+        z: fromPosition.z,
+        distance: 2,
+        maxDistance: PORTAL_SEARCH_DISTANCE * 2,
+        useRelativeCoords: false,
+        goalType: GoalType.GoalNear,
+        signal
+      });
+      AbortUtils.throwIfAborted(signal);
+
+      const arrived = await this.enterPortal(bot, fromPosition, fromDimension, (params.timeout ?? 30) * 1000, signal);
+      if (!arrived) {
+        return this.createErrorResult(`在 ${params.timeout ?? 30}s 内没有切换到 ${toDimension}，请确认传送门已点燃`, 'TIMEOUT', {
+          portal: this.toPoint(fromPosition),
+        });
+      }
+
+      await bot.waitForChunksToLoad();
+      AbortUtils.throwIfAborted(signal);
+
+      const exit = this.findNearbyPortal(bot, EXIT_PORTAL_DISTANCE);
+      await this.stepOutOfPortal(bot, signal);
+      const toPosition = exit?.position ?? bot.entity.position.floored();
+      const from = { position: this.toPoint(fromPosition), dimension: fromDimension };
+      const to = { position: this.toPoint(toPosition), dimension: toDimension };
+      memory?.recordPortalLink(from, to);
+      memory?.recordBlock('nether_portal', toPosition, toDimension);
+
+      const waypoints = params.waypoint ? this.saveWaypoints(client, params.waypoint, from, to) : [];
+
+      const offset = Math.hypot(toPosition.x - expected.x, toPosition.z - expected.z);
+      const data = {
+        from,
+        to,
+        expectedPosition: expected,
+        offsetFromExpected: Number(offset.toFixed(1)),
+        linkChanged: knownLink ? Math.hypot(knownLink.to.position.x - toPosition.x, knownLink.to.position.z - toPosition.z) > EXIT_PORTAL_DISTANCE : false,
+        waypoints,
+      };
+      const note = exit ? '' : '（落脚点附近未找到出口传送门方块，按落脚点记录）';
+      return this.createSuccessResult(
+        `已从 ${fromDimension} (${fromPosition.x}, ${fromPosition.y}, ${fromPosition.z}) 到达 ${toDimension} (${toPosition.x}, ${toPosition.y}, ${toPosition.z})${note}`,
+        data
+      );
+    } catch (err) {
+      if (AbortUtils.isAbortError(err)) {
+        return this.createErrorResult('穿越传送门已被取消', 'CANCELLED');
+      }
+      return this.createExceptionResult(err, '穿越传送门失败', 'TRAVEL_FAILED');
+    } finally {
+      bot.clearControlStates();
+    }
+  }
+
+  /**
+   * 查找传送门：指定坐标 > 附近 > 世界记忆（先前往记忆中的位置再查找）
+   */
+  private async findPortal(bot: Bot, params: TravelDimensionParams, signal?: AbortSignal): Promise<Block | null> {
+    if (params.x !== undefined && params.y !== undefined && params.z !== undefined) {
+      const target = new Vec3(params.x, params.y, params.z);
+      if (!bot.blockAt(target)) {
+        await this.approach(bot, target, signal);
+      }
+      const block = bot.blockAt(target);
+      if (block?.name === 'nether_portal') return block;
+      return this.findNearbyPortal(bot, EXIT_PORTAL_DISTANCE, target);
+    }
+
+    const nearby = this.findNearbyPortal(bot, PORTAL_SEARCH_DISTANCE);
+    if (nearby) return nearby;
+
+    const memory = ((bot as any).client as MinecraftClient | undefined)?.getWorldMemory?.();
+    const remembered = memory?.findNearest(bot, { blockName: 'nether_portal' });
+    if (!remembered) return null;
+    const position = new Vec3(remembered.position.x, remembered.position.y, remembered.position.z);
+    await this.approach(bot, position, signal);
+    const block = this.findNearbyPortal(bot, EXIT_PORTAL_DISTANCE, position);
+    if (!block) {
+      // 传送门已被破坏或熄灭
+      memory!.forget(remembered.position, remembered.dimension);
+    }
+    return block;
+  }
+
+  private findNearbyPortal(bot: Bot, maxDistance: number, point?: Vec3): Block | null {
+    const portalId = bot.registry.blocksByName.nether_portal?.id;
+    if (portalId === undefined) return null;
+    return bot.findBlock({ matching: portalId, maxDistance, point });
+  }
+
+  private async approach(bot: Bot, position: Vec3, signal?: AbortSignal): Promise<void> {
+    const result = await MovementUtils.moveTo(bot, {
+      type: 'coordinate',
+      x: position.x,
+      y: position.y,
+      z: position.z,
+      distance: 3,
+      maxDistance: 500,
+      useRelativeCoords: false,
+      goalType: GoalType.GoalNear,
+      signal
+    });
+    if (!result.success) {
+      this.logger.warn(`前往传送门失败: ${result.error}`);
+    }
+  }
+
+  /**
+   * 朝传送门走进去并停留，直到维度改变或超时
+   */
+  private async enterPortal(bot: Bot, portal: Vec3, fromDimension: string, timeoutMs: number, signal?: AbortSignal): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      AbortUtils.throwIfAborted(signal);
+      if (MinecraftUtils.getDimension(bot) !== fromDimension) return true;
+
+      const inPortal = bot.blockAt(bot.entity.position)?.name === 'nether_portal';
+      if (inPortal) {
+        // 站在传送门里等待传送（生存模式约 4 秒）
+        bot.clearControlStates();
+      } else {
+        await bot.lookAt(portal.offset(0.5, 0.5, 0.5), true);
+        bot.setControlState('forward', true);
+      }
+      await AbortUtils.sleep(250, signal);
+    }
+    return MinecraftUtils.getDimension(bot) !== fromDimension;
+  }
+
+  /**
+   * 走出出口传送门，避免停留在里面被传送回去
+   */
+  private async stepOutOfPortal(bot: Bot, signal?: AbortSignal): Promise<void> {
+    const feet = bot.entity.position.floored();
+    if (bot.blockAt(feet)?.name !== 'nether_portal') return;
+    const passable = (position: Vec3) => {
+      const block = bot.blockAt(position);
+      return !!block && block.boundingBox === 'empty' && block.name !== 'nether_portal' && block.name !== 'lava';
+    };
+    const direction = [new Vec3(0, 0, 1), new Vec3(0, 0, -1), new Vec3(1, 0, 0), new Vec3(-1, 0, 0)]
+      .find(offset => passable(feet.plus(offset)) && passable(feet.plus(offset).offset(0, 1, 0)));
+    if (!direction) return;
+    await bot.lookAt(feet.plus(direction.scaled(2)).offset(0.5, 1.6, 0.5), true);
+    bot.setControlState('forward', true);
+    await AbortUtils.sleep(800, signal);
+    bot.clearControlStates();
+  }
+
+  /**
+   * 在两端保存同名路径点
+   */
+  private saveWaypoints(
+    client: MinecraftClient | undefined,
+    name: string,
+    from: { position: { x: number; y: number; z: number }; dimension: string },
+    to: { position: { x: number; y: number; z: number }; dimension: string }
+  ): Array<{ name: string; dimension: string; position: { x: number; y: number; z: number } }> {
+    const store = client?.getWaypointStore?.();
+    if (!store) return [];
+    return [
+      store.set(name, from.position, from.dimension, `传送门，通往 ${to.dimension} (${to.position.x}, ${to.position.y}, ${to.position.z})`),
+      store.set(name, to.position, to.dimension, `传送门，通往 ${from.dimension} (${from.position.x}, ${from.position.y}, ${from.position.z})`),
+    ].map(waypoint => ({ name: waypoint.name, dimension: waypoint.dimension, position: waypoint.position }));
+  }
+
+  private toPoint(position: Vec3): { x: number; y: number; z: number } {
+    return { x: position.x, y: position.y, z: position.z };
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: travel_dimension）
+}
@@ -0,0 +1,119 @@
+import { Anvil, Bot } from 'mineflayer';
+import PrismarineItem, { Item } from 'prismarine-item';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { ContainerUtils } from '../utils/ContainerUtils.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
+
+interface UseAnvilParams extends BaseActionParams {
+  action: 'combine' | 'rename';
+  item: string;
+  sacrifice?: string;
+  name?: string;
+  x?: number;
+  y?: number;
+  z?: number;
+}
+
+/** 铁砧的三种损坏状态 */
+const ANVIL_BLOCKS = ['anvil', 'chipped_anvil', 'damaged_anvil'];
+/** 铁砧允许的最长名称 */
+const MAX_NAME_LENGTH = 35;
+
+/**
+ * UseAnvilAction - 使用铁砧
+ * combine：合并两件相同物品（修复/合并附魔）或将附魔书应用到物品上，可同时重命名；
+ * rename：重命名物品。打开铁砧前会计算经验消耗并检查经验等级
+ */
+export class UseAnvilAction extends BaseAction<UseAnvilParams> {
+  name = 'useAnvil';
+  description = '使用铁砧：合并物品或将附魔书应用到物品上（combine），或重命名物品（rename），执行前检查经验等级是否足够';
+  schema = z.object({
+    action: z.enum(['combine', 'rename']).describe('操作类型 (combine | rename)'),
+    item: z.string().describe('目标物品名称，如 diamond_pickaxe (字符串)'),
+    sacrifice: z.string().optional().describe('combine 时作为材料的物品，如 enchanted_book 或另一件相同物品 (字符串，combine 时必填)'),
+    name: z.string().max(MAX_NAME_LENGTH).optional().describe('新名称 (字符串，rename 时必填，combine 时可选，最长35个字符)'),
+    x: z.number().int().optional().describe('铁砧X坐标 (整数，可选，默认最近的铁砧)'),
+    y: z.number().int().optional().describe('铁砧Y坐标 (整数，可选)'),
+    z: z.number().int().optional().describe('铁砧Z坐标 (整数，可选)'),
+  });
+
+  async execute(bot: Bot, params: UseAnvilParams, context?: ActionContext): Promise<ActionResult> {
+    try {
+      const itemName = params.item.replace(/^minecraft:/, '');
+      const sacrificeName = params.sacrifice?.replace(/^minecraft:/, '');
+      if (params.action === 'combine' && !sacrificeName) {
+        return this.createErrorResult('combine 操作必须指定 sacrifice', 'INVALID_PARAMS');
+      }
+      if (params.action === 'rename' && !params.name) {
+        return this.createErrorResult('rename 操作必须指定 name', 'INVALID_PARAMS');
+      }
+
+      // 打开铁砧前先检查物品和经验消耗
+      const target = bot.inventory.items().find(item => item.name === itemName);
+      if (!target) {
+        return this.createErrorResult(`背包中没有 ${itemName}`, 'ITEM_NOT_FOUND');
+      }
+      let sacrifice: Item | null = null;
+      if (params.action === 'combine') {
+        sacrifice = bot.inventory.items().find(item => item.name === sacrificeName && item.slot !== target.slot) ?? null;
+        if (!sacrifice) {
+          return this.createErrorResult(`背包中没有可作为材料的 ${sacrificeName}`, 'ITEM_NOT_FOUND');
+        }
+      }
+
+      const creative = bot.game.gameMode === 'creative';
+      const ItemClass = PrismarineItem(bot.registry);
+      const { xpCost, item: preview } = ItemClass.anvil(target, sacrifice, creative, params.name);
+      if (!xpCost || !preview) {
+        return this.createErrorResult(
+          params.action === 'combine' ? `${itemName} 和 ${sacrificeName} 无法在铁砧上合并` : `${itemName} 无法重命名为 ${params.name}`,
+          'INVALID_ANVIL_OPERATION'
+        );
+      }
+      if (!creative && bot.experience.level < xpCost) {
+        return this.createErrorResult(`需要 ${xpCost} 级经验，当前 ${bot.experience.level} 级`, 'INSUFFICIENT_XP', { xpCost });
+      }
+
+      const position = params.x !== undefined && params.y !== undefined && params.z !== undefined
+        ? { x: params.x, y: params.y, z: params.z }
+        : undefined;
+      const block = await ContainerUtils.approachWorkstation(bot, ANVIL_BLOCKS, position, context?.signal);
+      AbortUtils.throwIfAborted(context?.signal);
+      const levelBefore = bot.experience.level;
+      const anvil: Anvil = await bot.openAnvil(block);
+
+      try {
+        AbortUtils.throwIfAborted(context?.signal);
+        if (params.action === 'combine') {
+          await anvil.combine(target, sacrifice!, params.name);
+        } else {
+          await anvil.rename(target, params.name);
+        }
+      } finally {
+        // mineflayer 的 Anvil 类型没有声明 close，按当前窗口关闭
+        if (bot.currentWindow) bot.closeWindow(bot.currentWindow);
+      }
+
+      const result = {
+        anvil: { x: block.position.x, y: block.position.y, z: block.position.z },
+        item: itemName,
+        name: preview.customName ?? undefined,
+        enchantments: (preview.enchants ?? []).map(enchant => ({ name: enchant.name, level: enchant.lvl })),
+        xpCost,
+        experienceLevel: bot.experience.level,
+        levelsSpent: Math.max(0, levelBefore - bot.experience.level),
+      };
+      return params.action === 'combine'
+        ? this.createSuccessResult(`已将 ${sacrificeName} 合并到 ${itemName}，消耗 ${xpCost} 级经验`, result)
+        : this.createSuccessResult(`已将 ${itemName} 重命名为 ${params.name}，消耗 ${xpCost} 级经验`, result);
+    } catch (error) {
+      if (AbortUtils.isAbortError(error)) {
+        return this.createErrorResult('使用铁砧已被取消', 'CANCELLED');
+      }
+      return this.createExceptionResult(error, '使用铁砧失败', 'ANVIL_FAILED');
+    }
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: use_anvil）
+}
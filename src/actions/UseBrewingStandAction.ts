@@ -0,0 +1,201 @@
+import { Bot } from 'mineflayer';
+import { Item } from 'prismarine-item';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { ContainerUtils } from '../utils/ContainerUtils.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
+import { BrewingUtils, BrewingStand, BOTTLE_SLOTS, INGREDIENT_SLOT, FUEL_SLOT, POTION_ITEMS } from '../utils/BrewingUtils.js';
+
+type BrewingSlot = 'bottle' | 'ingredient' | 'fuel';
+
+interface BrewingStandItem {
+  name?: string;
+  count?: number;
+  position?: BrewingSlot;
+  /** 放入药水瓶时指定药水类型，如 water、awkward */
+  potion?: string;
+}
+
+interface UseBrewingStandParams extends BaseActionParams {
+  action?: 'put' | 'take' | 'view';
+  items?: BrewingStandItem[];
+  x?: number;
+  y?: number;
+  z?: number;
+}
+
+/**
+ * UseBrewingStandAction - 酿造台操作
+ * put：向药水瓶槽（最多3瓶）、材料槽或燃料槽（烈焰粉）放入物品；take：按槽位取出；view：查看各槽位、药水类型、燃料和酿造进度
+ */
+export class UseBrewingStandAction extends BaseAction<UseBrewingStandParams> {
+  name = 'useBrewingStand';
+  description = '酿造台操作：1.put放入物品（bottle药水瓶槽最多3瓶/ingredient材料槽/fuel燃料槽只能放烈焰粉，不指定位置时自动判断）；2.take按槽位取出；3.view查看各槽位、药水类型、燃料和酿造进度';
+  schema = z.object({
+    action: z.enum(['put', 'take', 'view']).optional().describe('操作类型：put(放入)、take(取出)或view(查看，默认)'),
+    items: z.array(z.object({
+      name: z.string().optional().describe('物品名称：put操作必需'),
+      count: z.number().int().min(1).optional().describe('物品数量，默认为1（仅put操作使用，药水瓶槽最多3瓶）'),
+      position: z.enum(['bottle', 'ingredient', 'fuel']).optional().describe('槽位：put操作可选（自动判断），take操作必需'),
+      potion: z.string().optional().describe('放入药水瓶时指定药水类型，如 water、awkward (可选)'),
+    })).optional().describe('物品数组：put操作必需（指定物品），take操作必需（指定槽位），view操作不需要'),
+    x: z.number().int().optional().describe('酿造台X坐标 (整数，可选，默认最近的酿造台)'),
+    y: z.number().int().optional().describe('酿造台Y坐标 (整数，可选)'),
+    z: z.number().int().optional().describe('酿造台Z坐标 (整数，可选)'),
+  });
+
+  async execute(bot: Bot, params: UseBrewingStandParams, context?: ActionContext): Promise<ActionResult> {
+    try {
+      const action = params.action ?? 'view';
+      const items = params.items ?? [];
+      if (action === 'put' && items.some(item => !item.name)) {
+        return this.createErrorResult('放入操作必须指定物品名称', 'INVALID_PARAMS');
+      }
+      if (action === 'take' && items.some(item => !item.position)) {
+        return this.createErrorResult('取出操作必须指定槽位位置', 'INVALID_PARAMS');
+      }
+      if (action !== 'view' && items.length === 0) {
+        return this.createErrorResult(`${action === 'put' ? '放入' : '取出'}操作需要指定物品数组`, 'INVALID_PARAMS');
+      }
+
+      const position = params.x !== undefined && params.y !== undefined && params.z !== undefined
+        ? { x: params.x, y: params.y, z: params.z }
+        : undefined;
+      const block = await ContainerUtils.approachWorkstation(bot, ['brewing_stand'], position, context?.signal);
+      const stand = await BrewingUtils.open(bot, block);
+
+      const results: string[] = [];
+      let successCount = 0;
+      let errorCount = 0;
+      try {
+        for (const item of items) {
+          const success = action === 'put'
+            ? await this.putItem(bot, stand, item, results)
+            : await this.takeItem(bot, stand, item.position!, results);
+          if (success) successCount++;
+          else errorCount++;
+        }
+
+        const data = {
+          operationResults: results,
+          brewingStand: BrewingUtils.describeSlots(stand),
+          containerLocation: { x: block.position.x, y: block.position.y, z: block.position.z },
+        };
+        if (action === 'view') {
+          return this.createSuccessResult(this.describe(data.brewingStand), data);
+        }
+        if (successCount === 0) {
+          return this.createErrorResult(`所有操作失败: ${results.join('; ')}`, 'ALL_OPERATIONS_FAILED', data);
+        }
+        return this.createSuccessResult(errorCount > 0 ? `部分成功: ${results.join('; ')}` : results.join('; '), data);
+      } finally {
+        bot.closeWindow(stand.window);
+      }
+    } catch (err) {
+      if (AbortUtils.isAbortError(err)) {
+        return this.createErrorResult('酿造台交互已被取消', 'CANCELLED');
+      }
+      return this.createExceptionResult(err, '酿造台交互失败', 'CONTAINER_FAILED');
+    }
+  }
+
+  /**
+   * 根据物品类型判断默认槽位
+   */
+  private determinePosition(itemName: string): BrewingSlot {
+    if (itemName === 'blaze_powder') return 'fuel';
+    if (POTION_ITEMS.includes(itemName)) return 'bottle';
+    return 'ingredient';
+  }
+
+  private async putItem(bot: Bot, stand: BrewingStand, item: BrewingStandItem, results: string[]): Promise<boolean> {
+    const name = item.name!.replace(/^minecraft:/, '');
+    const position = item.position ?? this.determinePosition(name);
+    const count = item.count ?? 1;
+
+    try {
+      const matches = (stand.window.items() as Item[]).filter(invItem => invItem.name === name
+        && (!item.potion || BrewingUtils.getPotionType(invItem) === item.potion));
+      const available = matches.reduce((sum, invItem) => sum + invItem.count, 0);
+      if (available === 0) {
+        results.push(`背包没有 ${name}${item.potion ? `（${item.potion}）` : ''}`);
+        return false;
+      }
+
+      switch (position) {
+        case 'bottle': {
+          if (!POTION_ITEMS.includes(name)) {
+            results.push(`${name} 不能放入药水瓶槽`);
+            return false;
+          }
+          const emptySlots = BOTTLE_SLOTS.filter(slot => !stand.window.slots[slot]);
+          let placed = 0;
+          for (const slot of emptySlots.slice(0, count)) {
+            const source = (stand.window.items() as Item[]).find(invItem => invItem.name === name
+              && (!item.potion || BrewingUtils.getPotionType(invItem) === item.potion));
+            if (!source) break;
+            await BrewingUtils.put(bot, stand, source, slot, 1);
+            placed++;
+          }
+          if (placed === 0) {
+            results.push('药水瓶槽已满');
+            return false;
+          }
+          results.push(`已放入 ${name} ${placed} 瓶到药水瓶槽`);
+          return true;
+        }
+        case 'fuel':
+          if (name !== 'blaze_powder') {
+            results.push(`燃料槽只能放入烈焰粉，不能放入 ${name}`);
+            return false;
+          }
+          await BrewingUtils.put(bot, stand, matches[0], FUEL_SLOT, Math.min(count, available));
+          results.push(`已放入 blaze_powder ${Math.min(count, available)} 个到燃料槽`);
+          return true;
+        case 'ingredient':
+          await BrewingUtils.put(bot, stand, matches[0], INGREDIENT_SLOT, Math.min(count, available));
+          results.push(`已放入 ${name} ${Math.min(count, available)} 个到材料槽`);
+          return true;
+      }
+    } catch (err) {
+      results.push(`放入 ${name} 失败: ${err instanceof Error ? err.message : String(err)}`);
+      return false;
+    }
+  }
+
+  private async takeItem(bot: Bot, stand: BrewingStand, position: BrewingSlot, results: string[]): Promise<boolean> {
+    const slots = position === 'bottle' ? BOTTLE_SLOTS : [position === 'fuel' ? FUEL_SLOT : INGREDIENT_SLOT];
+    const positionName = position === 'bottle' ? '药水瓶槽' : position === 'fuel' ? '燃料槽' : '材料槽';
+
+    try {
+      const taken: string[] = [];
+      for (const slot of slots) {
+        const item = await BrewingUtils.take(bot, stand, slot);
+        if (!item) continue;
+        const potion = BrewingUtils.getPotionType(item);
+        taken.push(`${item.name}${potion ? `（${potion}）` : ''} × ${item.count}`);
+      }
+      if (taken.length === 0) {
+        results.push(`${positionName}没有物品可以取出`);
+        return false;
+      }
+      results.push(`已从${positionName}取出 ${taken.join(', ')}`);
+      return true;
+    } catch (err) {
+      results.push(`取出物品失败: ${err instanceof Error ? err.message : String(err)}`);
+      return false;
+    }
+  }
+
+  private describe(status: ReturnType<typeof BrewingUtils.describeSlots>): string {
+    const bottles = status.bottles
+      .map((bottle, index) => `${index}: ${bottle ? `${bottle.name}${bottle.potion ? `（${bottle.potion}）` : ''}` : '空'}`)
+      .join(', ');
+    const ingredient = status.ingredient ? `${status.ingredient.name} × ${status.ingredient.count}` : '空';
+    const fuel = status.fuel ? `${status.fuel.name} × ${status.fuel.count}` : '空';
+    const brewing = status.brewTime > 0 ? `，正在酿造（剩余 ${Math.ceil(status.brewTime / 20)} 秒）` : '';
+    return `酿造台状态：药水瓶槽 [${bottles}]；材料槽: ${ingredient}；燃料槽: ${fuel}（剩余燃料 ${status.fuelCharges} 次）${brewing}`;
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: use_brewing_stand）
+}
@@ -0,0 +1,347 @@
+import { Bot } from 'mineflayer';
+import { Block } from 'prismarine-block';
+import { Vec3 } from 'vec3';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { MovementUtils, GoalType } from '../utils/MovementUtils.js';
+import { MinecraftUtils } from '../utils/MinecraftUtils.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
+import { BucketUtils, BucketFluid, FILLED_BUCKETS } from '../utils/BucketUtils.js';
+import { AnimalUtils } from '../utils/AnimalUtils.js';
+
+type BucketMode = 'fill' | 'place' | 'milk' | 'capture' | 'extinguish' | 'clutch' | 'obsidian';
+
+interface UseBucketParams extends BaseActionParams {
+  mode: BucketMode;
+  /** fill / place 的流体，默认 water */
+  fluid?: BucketFluid;
+  /** milk / capture 的目标生物，默认最近的可用生物 */
+  entity?: string;
+  x?: number;
+  y?: number;
+  z?: number;
+  /** 搜索半径，默认 16（obsidian 默认 6） */
+  radius?: number;
+  /** clutch 等待掉落的时间（秒），默认 10 */
+  timeout?: number;
+}
+
+/** 可以挤奶的生物 */
+const MILKABLE_MOBS = ['cow', 'mooshroom', 'goat'];
+/** 可以用水桶装起来的生物及装好后的物品 */
+const CAPTURABLE_MOBS: Record<string, string> = {
+  cod: 'cod_bucket',
+  salmon: 'salmon_bucket',
+  tropical_fish: 'tropical_fish_bucket',
+  pufferfish: 'pufferfish_bucket',
+  axolotl: 'axolotl_bucket',
+  tadpole: 'tadpole_bucket',
+};
+/** 与生物交互的距离 */
+const ENTITY_REACH = 3;
+/** 单次最多转换的岩浆源数量 */
+const MAX_OBSIDIAN = 16;
+/** 落地前多高开始放水 */
+const CLUTCH_HEIGHT = 4;
+/** 触发落地水的最小下落速度（格/tick） */
+const FALLING_SPEED = 0.5;
+
+/**
+ * UseBucketAction - 桶与流体操作
+ * fill：从流体源装桶；place：在指定位置放水/岩浆；milk：给牛、哞菇或山羊挤奶；capture：用水桶装鱼、美西螈或蝌蚪；
+ * extinguish：身上着火时在脚下放水灭火；clutch：等待下落并在落地前放水缓冲；obsidian：在岩浆源旁放水把岩浆变成黑曜石。
+ * 放置流体时与 place_block 使用相同的参照面选择
+ */
+export class UseBucketAction extends BaseAction<UseBucketParams> {
+  name = 'useBucket';
+  description = '桶与流体操作：1.fill从水/岩浆/细雪源装桶；2.place在指定坐标放水或岩浆；3.milk给牛/哞菇/山羊挤奶；4.capture用水桶装鱼、美西螈或蝌蚪；5.extinguish着火时放水灭火；6.clutch等待下落并在落地前放水缓冲；7.obsidian把附近的岩浆源变成黑曜石';
+  schema = z.object({
+    mode: z.enum(['fill', 'place', 'milk', 'capture', 'extinguish', 'clutch', 'obsidian']).describe('操作类型 (fill | place | milk | capture | extinguish | clutch | obsidian)'),
+    fluid: z.enum(['water', 'lava', 'powder_snow']).optional().describe('流体类型 (water | lava | powder_snow，可选，默认 water)，fill/place 时使用，place 不支持 powder_snow'),
+    entity: z.string().optional().describe(`目标生物 (字符串，可选)，milk：${MILKABLE_MOBS.join(' | ')}；capture：${Object.keys(CAPTURABLE_MOBS).join(' | ')}，默认最近的一只`),
+    x: z.number().int().optional().describe('目标X坐标 (整数，可选)，place 时必填；fill/obsidian 时指定流体源'),
+    y: z.number().int().optional().describe('目标Y坐标 (整数，可选)'),
+    z: z.number().int().optional().describe('目标Z坐标 (整数，可选)'),
+    radius: z.number().int().min(1).max(64).optional().describe('搜索半径 (整数，可选，默认 16，obsidian 默认 6)'),
+    timeout: z.number().int().positive().optional().describe('clutch 等待下落的时间 (秒，可选，默认 10)'),
+  });
+
+  async execute(bot: Bot, params: UseBucketParams, context?: ActionContext): Promise<ActionResult> {
+    const signal = context?.signal;
+    const hasCoords = params.x !== undefined && params.y !== undefined && params.z !== undefined;
+    const target = hasCoords ? new Vec3(params.x!, params.y!, params.z!) : null;
+    try {
+      switch (params.mode) {
+        case 'fill':
+          return await this.fill(bot, params.fluid ?? 'water', target, params.radius ?? 16, signal);
+        case 'place':
+          return await this.place(bot, params.fluid ?? 'water', target, signal);
+        case 'milk':
+          return await this.useOnEntity(bot, 'milk', params.entity, params.radius ?? 16, signal);
+        case 'capture':
+          return await this.useOnEntity(bot, 'capture', params.entity, params.radius ?? 16, signal);
+        case 'extinguish':
+          return await this.extinguish(bot, signal);
+        case 'clutch':
+          return await this.clutch(bot, (params.timeout ?? 10) * 1000, signal);
+        case 'obsidian':
+          return await this.makeObsidian(bot, target, params.radius ?? 6, signal);
+        default:
+          return this.createErrorResult(`不支持的操作类型: ${params.mode}`, 'INVALID_PARAMS');
+      }
+    } catch (err) {
+      if (AbortUtils.isAbortError(err)) {
+        return this.createErrorResult('桶操作已被取消', 'CANCELLED');
+      }
+      return this.createExceptionResult(err, '桶操作失败', 'BUCKET_FAILED');
+    }
+  }
+
+  private async fill(bot: Bot, fluid: BucketFluid, target: Vec3 | null, radius: number, signal?: AbortSignal): Promise<ActionResult> {
+    if (BucketUtils.countItem(bot, 'bucket') === 0) {
+      return this.createErrorResult('背包中没有空桶', 'NO_BUCKET');
+    }
+
+    let source: Block | null;
+    if (target) {
+      source = bot.blockAt(target);
+      if (!source || source.name !== fluid || (fluid !== 'powder_snow' && source.metadata !== 0)) {
+        return this.createErrorResult(`(${target.x}, ${target.y}, ${target.z}) 不是 ${fluid} 源方块`, 'SOURCE_NOT_FOUND');
+      }
+    } else {
+      source = BucketUtils.findSource(bot, fluid, radius);
+      if (!source) {
+        return this.createErrorResult(`附近 ${radius} 格内没有 ${fluid} 源方块`, 'SOURCE_NOT_FOUND');
+      }
+    }
+
+    await BucketUtils.fill(bot, source, signal);
+    const { x, y, z } = source.position;
+    return this.createSuccessResult(`已从 (${x}, ${y}, ${z}) 装取 ${fluid}，得到 ${FILLED_BUCKETS[fluid]}`, {
+      source: { x, y, z },
+      item: FILLED_BUCKETS[fluid],
+      count: BucketUtils.countItem(bot, FILLED_BUCKETS[fluid]),
+    });
+  }
+
+  private async place(bot: Bot, fluid: BucketFluid, target: Vec3 | null, signal?: AbortSignal): Promise<ActionResult> {
+    if (fluid === 'powder_snow') {
+      return this.createErrorResult('细雪请使用 place_block 放置', 'INVALID_PARAMS');
+    }
+    if (!target) {
+      return this.createErrorResult('place 操作需要指定 x、y、z 坐标', 'INVALID_PARAMS');
+    }
+    if (BucketUtils.countItem(bot, FILLED_BUCKETS[fluid]) === 0) {
+      return this.createErrorResult(`背包中没有 ${FILLED_BUCKETS[fluid]}`, 'NO_BUCKET');
+    }
+
+    await BucketUtils.placeFluid(bot, target, fluid, signal);
+    return this.createSuccessResult(`已在 (${target.x}, ${target.y}, ${target.z}) 放置 ${fluid}`, {
+      position: { x: target.x, y: target.y, z: target.z },
+      fluid,
+    });
+  }
+
+  /**
+   * 对生物使用桶：空桶挤奶，水桶装鱼/美西螈/蝌蚪
+   */
+  private async useOnEntity(bot: Bot, mode: 'milk' | 'capture', entityName: string | undefined, radius: number, signal?: AbortSignal): Promise<ActionResult> {
+    const candidates = mode === 'milk' ? MILKABLE_MOBS : Object.keys(CAPTURABLE_MOBS);
+    if (entityName && !candidates.includes(entityName)) {
+      return this.createErrorResult(
+        `${entityName} 不能${mode === 'milk' ? '挤奶' : '用水桶装起来'}，可选：${candidates.join(', ')}`,
+        'INVALID_PARAMS'
+      );
+    }
+    const bucket = mode === 'milk' ? 'bucket' : 'water_bucket';
+    if (BucketUtils.countItem(bot, bucket) === 0) {
+      return this.createErrorResult(`背包中没有 ${bucket}`, 'NO_BUCKET');
+    }
+
+    const names = entityName ? [entityName] : candidates;
+    const entity = bot.nearestEntity(e => !!e.name && names.includes(e.name)
+      && e.position.distanceTo(bot.entity.position) <= radius
+      // 幼年生物不能挤奶
+      && !(mode === 'milk' && AnimalUtils.isBaby(bot, e)));
+    if (!entity) {
+      return this.createErrorResult(`附近 ${radius} 格内没有 ${names.join('/')}`, 'ENTITY_NOT_FOUND');
+    }
+
+    const result = mode === 'milk' ? 'milk_bucket' : CAPTURABLE_MOBS[entity.name!];
+    const before = BucketUtils.countItem(bot, result);
+    // 鱼会游动，多尝试几次
+    for (let attempt = 0; attempt < 3 && BucketUtils.countItem(bot, result) <= before; attempt++) {
+      AbortUtils.throwIfAborted(signal);
+      if (!bot.entities[entity.id]) break;
+      if (entity.position.distanceTo(bot.entity.position) > ENTITY_REACH) {
+        await MovementUtils.moveTo(bot, {
+          type: 'coordinate',
+          x: Math.floor(entity.position.x),
+          y: Math.floor(entity.position.y),
+          z: Math.floor(entity.position.z),
+          distance: 2,
+          maxDistance: radius * 2,
+          useRelativeCoords: false,
+          goalType: GoalType.GoalNear,
+          signal
+        });
+      }
+      const item = bot.inventory.items().find(invItem => invItem.name === bucket);
+      if (!item) break;
+      await bot.equip(item, 'hand');
+      await bot.activateEntity(entity);
+      await AbortUtils.sleep(300, signal);
+    }
+
+    if (BucketUtils.countItem(bot, result) <= before) {
+      return this.createErrorResult(`未能${mode === 'milk' ? `给 ${entity.name} 挤奶` : `装起 ${entity.name}`}`, 'INTERACT_FAILED');
+    }
+    const { x, y, z } = entity.position.floored();
+    return this.createSuccessResult(mode === 'milk' ? `已给 ${entity.name} 挤奶，得到 milk_bucket` : `已装起 ${entity.name}，得到 ${result}`, {
+      entity: entity.name,
+      position: { x, y, z },
+      item: result,
+    });
+  }
+
+  private async extinguish(bot: Bot, signal?: AbortSignal): Promise<ActionResult> {
+    if (!MinecraftUtils.isOnFire(bot)) {
+      return this.createSuccessResult('身上没有着火');
+    }
+    const result = await BucketUtils.extinguishSelf(bot, signal);
+    return result.success
+      ? this.createSuccessResult(result.message)
+      : this.createErrorResult(result.message, 'EXTINGUISH_FAILED');
+  }
+
+  /**
+   * 落地水：等待开始下落，在离地面 CLUTCH_HEIGHT 格内时对准地面放水，落地后收回
+   */
+  private async clutch(bot: Bot, timeoutMs: number, signal?: AbortSignal): Promise<ActionResult> {
+    if (MinecraftUtils.getDimension(bot) === 'the_nether') {
+      return this.createErrorResult('下界无法放水', 'WRONG_DIMENSION');
+    }
+    if (BucketUtils.countItem(bot, 'water_bucket') === 0) {
+      return this.createErrorResult('背包中没有水桶', 'NO_BUCKET');
+    }
+    const waterBucket = bot.inventory.items().find(item => item.name === 'water_bucket')!;
+    await bot.equip(waterBucket, 'hand');
+
+    const deadline = Date.now() + timeoutMs;
+    let fallStartY: number | null = null;
+    let water: Vec3 | null = null;
+
+    while (Date.now() < deadline) {
+      AbortUtils.throwIfAborted(signal);
+      await new Promise<void>(resolve => bot.once('physicsTick', () => resolve()));
+      const { position, velocity, onGround } = bot.entity;
+
+      if (fallStartY === null) {
+        if (onGround || velocity.y > -FALLING_SPEED) continue;
+        fallStartY = position.y;
+        await bot.look(bot.entity.yaw, -Math.PI / 2, true);
+      }
+
+      if (onGround || bot.blockAt(position)?.name === 'water') break;
+
+      const ground = this.findGroundBelow(bot, position);
+      if (!water && ground) {
+        const height = position.y - (ground.position.y + 1);
+        // 按下一 tick 的下落距离提前放水
+        if (height <= Math.max(CLUTCH_HEIGHT, -velocity.y * 2)) {
+          await bot.lookAt(ground.position.offset(0.5, 1, 0.5), true);
+          bot.activateItem();
+          water = ground.position.offset(0, 1, 0);
+        }
+      }
+    }
+
+    if (fallStartY === null) {
+      return this.createErrorResult(`${timeoutMs / 1000}s 内没有开始下落`, 'NOT_FALLING');
+    }
+    const fallHeight = Number((fallStartY - bot.entity.position.y).toFixed(1));
+    if (!water) {
+      return this.createErrorResult(`下落 ${fallHeight} 格，没能在落地前放水`, 'CLUTCH_FAILED', { fallHeight });
+    }
+
+    await AbortUtils.sleep(300, signal);
+    const recovered = await BucketUtils.pickUp(bot, water, 'water', signal);
+    return this.createSuccessResult(`下落 ${fallHeight} 格，已放水缓冲${recovered ? '并收回' : '，但未能收回水'}`, {
+      fallHeight,
+      water: { x: water.x, y: water.y, z: water.z },
+      recovered,
+      health: bot.health,
+    });
+  }
+
+  private findGroundBelow(bot: Bot, position: Vec3): Block | null {
+    const start = position.floored();
+    for (let dy = 1; dy <= 32; dy++) {
+      const block = bot.blockAt(start.offset(0, -dy, 0));
+      if (!block) return null;
+      if (block.boundingBox === 'block') return block;
+      if (block.name === 'water') return null;
+    }
+    return null;
+  }
+
+  /**
+   * 在岩浆源旁边放水使其变成黑曜石，然后收回水
+   */
+  private async makeObsidian(bot: Bot, target: Vec3 | null, radius: number, signal?: AbortSignal): Promise<ActionResult> {
+    if (MinecraftUtils.getDimension(bot) === 'the_nether') {
+      return this.createErrorResult('下界无法放水', 'WRONG_DIMENSION');
+    }
+    if (BucketUtils.countItem(bot, 'water_bucket') === 0) {
+      return this.createErrorResult('背包中没有水桶', 'NO_BUCKET');
+    }
+
+    const lavaId = bot.registry.blocksByName.lava.id;
+    const sources = target
+      ? [target]
+      : bot.findBlocks({
+        matching: (block: Block) => block.type === lavaId && block.metadata === 0,
+        maxDistance: radius,
+        count: MAX_OBSIDIAN,
+      });
+    if (sources.length === 0) {
+      return this.createErrorResult(`附近 ${radius} 格内没有岩浆源`, 'SOURCE_NOT_FOUND');
+    }
+
+    const converted: Array<{ x: number; y: number; z: number }> = [];
+    const failed: string[] = [];
+    for (const source of sources) {
+      AbortUtils.throwIfAborted(signal);
+      const block = bot.blockAt(source);
+      // 之前放的水可能已经顺带把它变成了黑曜石
+      if (block?.name === 'obsidian') {
+        converted.push({ x: source.x, y: source.y, z: source.z });
+        continue;
+      }
+      if (block?.name !== 'lava' || block.metadata !== 0) {
+        failed.push(`(${source.x}, ${source.y}, ${source.z}) 不是岩浆源`);
+        continue;
+      }
+      if (BucketUtils.countItem(bot, 'water_bucket') === 0) {
+        failed.push('水桶已用完');
+        break;
+      }
+      try {
+        await BucketUtils.solidifyLava(bot, source, signal);
+        converted.push({ x: source.x, y: source.y, z: source.z });
+      } catch (err) {
+        if (AbortUtils.isAbortError(err)) throw err;
+        failed.push(err instanceof Error ? err.message : String(err));
+      }
+    }
+
+    const data = { converted, failed };
+    if (converted.length === 0) {
+      return this.createErrorResult(`没有岩浆变成黑曜石: ${failed.join('; ')}`, 'ALL_OPERATIONS_FAILED', data);
+    }
+    const message = `已把 ${converted.length} 个岩浆源变成黑曜石`;
+    return this.createSuccessResult(failed.length > 0 ? `${message}，失败: ${failed.join('; ')}` : message, data);
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: use_bucket）
+}
@@ -1,10 +1,13 @@
 import { Bot } from 'mineflayer';
 import minecraftData from 'minecraft-data';
-import { BaseAction, BaseActionParams, ActionResult } from '../minecraft/ActionInterface.js';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
 import { z } from 'zod';
 import pathfinder from 'mineflayer-pathfinder-mai';
 import { Vec3 } from 'vec3';
 import { MovementUtils, GoalType } from '../utils/MovementUtils.js';
+import { ContainerUtils } from '../utils/ContainerUtils.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
+import { MinecraftClient } from '../minecraft/MinecraftClient.js';
 
 interface ItemWithCount {
   name: string;
@@ -88,12 +91,15 @@ export class UseChestAction extends BaseAction<UseChestParams> {
   }
 
   /**
-   * 查找箱子（指定坐标或最近的）
+   * 查找箱子（指定坐标或最近的），附近没有或指定位置未加载时先前往世界记忆中的位置
    */
-  private findChest(bot: Bot, params: UseChestParams, mcData: any): any {
+  private async findChest(bot: Bot, params: UseChestParams, mcData: any, signal?: AbortSignal): Promise<any> {
     if (params.x !== undefined && params.y !== undefined && params.z !== undefined) {
       // 查找指定坐标的箱子
       const pos = new Vec3(params.x, params.y, params.z);
+      if (!bot.blockAt(pos)) {
+        await ContainerUtils.approachRemembered(bot, ['chest'], { position: { x: params.x, y: params.y, z: params.z }, signal });
+      }
       const chestBlock = bot.blockAt(pos);
       if (!chestBlock) {
         throw new Error(`指定坐标 (${params.x}, ${params.y}, ${params.z}) 处没有方块`);
@@ -105,7 +111,10 @@ export class UseChestAction extends BaseAction<UseChestParams> {
       return chestBlock;
     } else {
       // 找到最近箱子
-      const chestBlock = bot.findBlock({ matching: mcData.blocksByName.chest.id, maxDistance: 16 });
+      let chestBlock = bot.findBlock({ matching: mcData.blocksByName.chest.id, maxDistance: 16 });
+      if (!chestBlock && await ContainerUtils.approachRemembered(bot, ['chest'], { item: params.items[0]?.name, signal })) {
+        chestBlock = bot.findBlock({ matching: mcData.blocksByName.chest.id, maxDistance: 16 });
+      }
       if (!chestBlock) {
         throw new Error('附近没有箱子');
       }
@@ -154,7 +163,7 @@ export class UseChestAction extends BaseAction<UseChestParams> {
   /**
    * 移动到箱子附近
    */
-  private async moveToChest(bot: Bot, chestBlock: any): Promise<void> {
+  private async moveToChest(bot: Bot, chestBlock: any, signal?: AbortSignal): Promise<void> {
     // 使用统一的移动工具类移动到箱子位置，使用 GoalGetToBlock 目标类型
     const moveResult = await MovementUtils.moveTo(
       bot,
@@ -166,7 +175,8 @@ export class UseChestAction extends BaseAction<UseChestParams> {
         distance: 3, // 到达距离（稍微远一点，以便更好地看到箱子）
         maxDistance: 32, // 最大移动距离
         useRelativeCoords: false, // 不使用相对坐标
-        goalType: GoalType.GoalGetToBlock // 使用获取方块目标类型
+        goalType: GoalType.GoalGetToBlock, // 使用获取方块目标类型
+        signal
       }
     );
 
@@ -297,6 +307,14 @@ export class UseChestAction extends BaseAction<UseChestParams> {
     }));
   }
 
+  /**
+   * 记录箱子内容到世界记忆，供合成规划等功能使用
+   */
+  private rememberChest(bot: Bot, chestBlock: any, contents: Array<{ name: string; count: number }>): void {
+    const memory = ((bot as any).client as MinecraftClient | undefined)?.getWorldMemory?.();
+    memory?.recordContainer(chestBlock.position, chestBlock.name, contents, memory.dimensionOf(bot));
+  }
+
   /**
    * 创建操作结果
    */
@@ -393,7 +411,8 @@ export class UseChestAction extends BaseAction<UseChestParams> {
     bot: Bot,
     items: ItemWithCount[],
     itemMetas: any[],
-    mcData: any
+    mcData: any,
+    signal?: AbortSignal
   ): Promise<MultiChestResult> {
     const chests: ChestInfo[] = [];
     let totalSuccessCount = 0;
@@ -403,7 +422,10 @@ export class UseChestAction extends BaseAction<UseChestParams> {
     const remainingItems = items.map(item => ({ ...item }));
     
     // 查找多个箱子
-    const chestBlocks = this.findMultipleChests(bot, mcData);
+    let chestBlocks = this.findMultipleChests(bot, mcData);
+    if (chestBlocks.length === 0 && await ContainerUtils.approachRemembered(bot, ['chest'], { item: items[0]?.name, signal })) {
+      chestBlocks = this.findMultipleChests(bot, mcData);
+    }
     
     if (chestBlocks.length === 0) {
       throw new Error('附近没有找到任何箱子');
@@ -425,7 +447,7 @@ export class UseChestAction extends BaseAction<UseChestParams> {
 
       try {
         // 移动到箱子附近
-        await this.moveToChest(bot, chestBlock);
+        await this.moveToChest(bot, chestBlock, signal);
         
         // 打开箱子
         const chest = await bot.openContainer(chestBlock);
@@ -464,6 +486,7 @@ export class UseChestAction extends BaseAction<UseChestParams> {
           }
           
         } finally {
+          this.rememberChest(bot, chestBlock, this.getChestContents(chest, mcData));
           chest.close();
         }
         
@@ -476,6 +499,7 @@ export class UseChestAction extends BaseAction<UseChestParams> {
         }
         
       } catch (error) {
+        if (AbortUtils.isAbortError(error)) throw error;
         const errorMessage = error instanceof Error ? error.message : String(error);
         chestInfo.operations.push(`❌ 访问箱子失败: ${errorMessage}`);
         chestInfo.errorCount++;
@@ -533,7 +557,7 @@ export class UseChestAction extends BaseAction<UseChestParams> {
     return parts.join('; ');
   }
 
-  async execute(bot: Bot, params: UseChestParams): Promise<ActionResult> {
+  async execute(bot: Bot, params: UseChestParams, context?: ActionContext): Promise<ActionResult> {
     try {
       const action = (params.action ?? 'store').toLowerCase();
       const mcData = minecraftData(bot.version);
@@ -543,13 +567,13 @@ export class UseChestAction extends BaseAction<UseChestParams> {
 
       // 如果是取出操作且没有指定特定箱子，则执行多箱子操作
       if (action === 'withdraw' && params.x === undefined && params.y === undefined && params.z === undefined) {
-        const multiChestResult = await this.performMultiChestWithdraw(bot, validItems, itemMetas, mcData);
+        const multiChestResult = await this.performMultiChestWithdraw(bot, validItems, itemMetas, mcData, context?.signal);
         return this.createMultiChestResult(multiChestResult);
       }
 
       // 单箱子操作（原有逻辑）
-      const chestBlock = this.findChest(bot, params, mcData);
-      await this.moveToChest(bot, chestBlock);
+      const chestBlock = await this.findChest(bot, params, mcData, context?.signal);
+      await this.moveToChest(bot, chestBlock, context?.signal);
       const chest = await bot.openContainer(chestBlock);
 
       try {
@@ -562,6 +586,7 @@ export class UseChestAction extends BaseAction<UseChestParams> {
         );
 
         const chestContents = this.getChestContents(chest, mcData);
+        this.rememberChest(bot, chestBlock, chestContents);
         return this.createOperationResult(results, chestContents, chestBlock, successCount, totalErrors);
       } finally {
         chest.close();
@@ -0,0 +1,280 @@
+import { Bot } from 'mineflayer';
+import minecraftData from 'minecraft-data';
+import { Block } from 'prismarine-block';
+import { Item } from 'prismarine-item';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { Vec3 } from 'vec3';
+import { ContainerUtils, STORAGE_CONTAINERS } from '../utils/ContainerUtils.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
+import { InventoryUtils } from '../utils/InventoryUtils.js';
+import { MinecraftClient } from '../minecraft/MinecraftClient.js';
+
+interface ItemWithCount {
+  name: string;
+  count: number;
+}
+
+interface UseContainerParams extends BaseActionParams {
+  /** store | withdraw | view | sort，默认是 view */
+  action?: 'store' | 'withdraw' | 'view' | 'sort';
+  /** 容器类型，默认任意可存取物品的容器 */
+  container_type?: string;
+  /** 物品及其数量，store/withdraw 时必填 */
+  items?: ItemWithCount[];
+  x?: number;
+  y?: number;
+  z?: number;
+}
+
+interface SlotContent {
+  slot: number;
+  name: string;
+  count: number;
+}
+
+/**
+ * UseContainerAction - 通用容器操作
+ * 支持箱子、陷阱箱、木桶、末影箱、潜影盒、漏斗、发射器和投掷器，大箱子按一个库存处理。
+ * store：存入物品；withdraw：取出物品；view：查看每个槽位的内容；sort：合并相同物品并按名称排序
+ */
+export class UseContainerAction extends BaseAction<UseContainerParams> {
+  name = 'useContainer';
+  description = '通用容器操作：支持箱子、陷阱箱、木桶、末影箱、潜影盒、漏斗、发射器和投掷器（大箱子按一个库存处理）。1.store存入物品；2.withdraw取出物品；3.view查看每个槽位的内容（默认）；4.sort合并相同物品并按名称排序';
+  schema = z.object({
+    action: z.enum(['store', 'withdraw', 'view', 'sort']).optional().describe('操作类型 (store | withdraw | view | sort，默认是 view)'),
+    container_type: z.string().optional().describe(`容器类型 (字符串，可选，默认任意容器)：${STORAGE_CONTAINERS.join(' | ')}，shulker_box 匹配所有颜色，也可指定如 red_shulker_box`),
+    items: z.array(z.object({
+      name: z.string().describe('物品名称'),
+      count: z.number().int().min(1).describe('物品数量')
+    })).optional().describe('物品及其数量的对象数组，格式：[{"name": "物品名", "count": 数量}, ...]，store/withdraw 时必填'),
+    x: z.number().int().optional().describe('容器X坐标 (整数，可选，默认最近的容器)'),
+    y: z.number().int().optional().describe('容器Y坐标 (整数，可选)'),
+    z: z.number().int().optional().describe('容器Z坐标 (整数，可选)'),
+  });
+
+  async execute(bot: Bot, params: UseContainerParams, context?: ActionContext): Promise<ActionResult> {
+    const signal = context?.signal;
+    try {
+      const action = params.action ?? 'view';
+      const items = params.items ?? [];
+      const mcData = minecraftData(bot.version);
+
+      if ((action === 'store' || action === 'withdraw') && items.length === 0) {
+        return this.createErrorResult(`${action === 'store' ? '存入' : '取出'}操作需要指定物品数组`, 'INVALID_PARAMS');
+      }
+      const unknownItems = items.filter(item => !mcData.itemsByName[item.name]).map(item => item.name);
+      if (unknownItems.length > 0) {
+        return this.createErrorResult(`未知物品: ${unknownItems.join(', ')}`, 'INVALID_PARAMS');
+      }
+
+      const containerType = params.container_type?.replace(/^minecraft:/, '') ?? 'any';
+      const blockNames = ContainerUtils.resolveContainerBlocks(containerType, mcData);
+      const storageBlocks = ContainerUtils.resolveContainerBlocks('any', mcData);
+      if (blockNames.length === 0 || blockNames.some(name => !storageBlocks.includes(name))) {
+        return this.createErrorResult(
+          `不支持的容器类型: ${containerType}（熔炉类请使用 use_furnace，酿造台请使用 use_brewing_stand）`,
+          'INVALID_CONTAINER_TYPE'
+        );
+      }
+
+      const block = await this.findContainer(bot, params, containerType, blockNames, mcData, items[0]?.name, signal);
+      await ContainerUtils.moveToContainer(bot, block, block.name, signal);
+      const container = await ContainerUtils.openContainer(bot, block.name, block);
+      const partner = ContainerUtils.getDoubleChestPartner(bot, block);
+
+      const results: string[] = [];
+      let successCount = 0;
+      let errorCount = 0;
+      try {
+        if (action === 'store' || action === 'withdraw') {
+          for (const item of items) {
+            const success = action === 'store'
+              ? await this.storeItem(bot, container, block, item, mcData, results)
+              : await this.withdrawItem(container, item, mcData, results);
+            if (success) successCount++;
+            else errorCount++;
+          }
+        } else if (action === 'sort') {
+          results.push(await this.sortContainer(bot, container, signal));
+          successCount++;
+        }
+
+        const contents = this.getSlotContents(container);
+        this.rememberContainer(bot, block, partner, contents);
+
+        const size: number = container.inventoryStart;
+        const data = {
+          operationResults: results,
+          container: {
+            type: block.name,
+            location: { x: block.position.x, y: block.position.y, z: block.position.z },
+            doubleChestPartner: partner ? { x: partner.position.x, y: partner.position.y, z: partner.position.z } : null,
+            size,
+            freeSlots: size - contents.length,
+          },
+          contents,
+        };
+        if (action === 'view') {
+          return this.createSuccessResult(this.describe(block, size, contents), data);
+        }
+        if (successCount === 0) {
+          return this.createErrorResult(`所有操作失败: ${results.join('; ')}`, 'ALL_OPERATIONS_FAILED', data);
+        }
+        return this.createSuccessResult(errorCount > 0 ? `部分成功: ${results.join('; ')}` : results.join('; '), data);
+      } finally {
+        container.close();
+      }
+    } catch (err) {
+      if (AbortUtils.isAbortError(err)) {
+        return this.createErrorResult('容器交互已被取消', 'CANCELLED');
+      }
+      return this.createExceptionResult(err, '容器交互失败', 'CONTAINER_FAILED');
+    }
+  }
+
+  /**
+   * 查找容器，附近没有或指定位置未加载时先前往世界记忆中的位置
+   */
+  private async findContainer(
+    bot: Bot,
+    params: UseContainerParams,
+    containerType: string,
+    blockNames: string[],
+    mcData: any,
+    item?: string,
+    signal?: AbortSignal
+  ): Promise<Block> {
+    if (params.x !== undefined && params.y !== undefined && params.z !== undefined) {
+      if (!bot.blockAt(new Vec3(params.x, params.y, params.z))) {
+        await ContainerUtils.approachRemembered(bot, blockNames, { position: { x: params.x, y: params.y, z: params.z }, signal });
+      }
+      return ContainerUtils.findContainer(bot, containerType, mcData, params.x, params.y, params.z);
+    }
+
+    try {
+      return ContainerUtils.findContainer(bot, containerType, mcData);
+    } catch (err) {
+      // 末影箱内容与位置无关，不按物品筛选记忆中的容器
+      const rememberedItem = containerType === 'ender_chest' ? undefined : item;
+      if (!await ContainerUtils.approachRemembered(bot, blockNames, { item: rememberedItem, signal })) throw err;
+      return ContainerUtils.findContainer(bot, containerType, mcData);
+    }
+  }
+
+  private async storeItem(bot: Bot, container: any, block: Block, item: ItemWithCount, mcData: any, results: string[]): Promise<boolean> {
+    let depositCount = 0;
+    try {
+      if (block.name.endsWith('shulker_box') && item.name.endsWith('shulker_box')) {
+        results.push('潜影盒不能放入潜影盒');
+        return false;
+      }
+      const itemMeta = mcData.itemsByName[item.name];
+      const available = bot.inventory.items()
+        .filter(invItem => invItem.type === itemMeta.id)
+        .reduce((sum, invItem) => sum + invItem.count, 0);
+      if (available === 0) {
+        results.push(`背包没有 ${item.name}`);
+        return false;
+      }
+
+      depositCount = Math.min(item.count, available);
+      await container.deposit(itemMeta.id, null, depositCount);
+      results.push(`已存入 ${item.name} ${depositCount} 个`);
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      results.push(`存储 ${item.name} 失败: ${errorMessage} (尝试存入 ${depositCount} 个)`);
+      return false;
+    }
+  }
+
+  private async withdrawItem(container: any, item: ItemWithCount, mcData: any, results: string[]): Promise<boolean> {
+    let withdrawCount = 0;
+    try {
+      const itemMeta = mcData.itemsByName[item.name];
+      const available = (container.containerItems() as Item[])
+        .filter(containerItem => containerItem.type === itemMeta.id)
+        .reduce((sum, containerItem) => sum + containerItem.count, 0);
+      if (available === 0) {
+        results.push(`容器中没有 ${item.name}`);
+        return false;
+      }
+
+      withdrawCount = Math.min(item.count, available);
+      await container.withdraw(itemMeta.id, null, withdrawCount);
+      results.push(`已取出 ${item.name} ${withdrawCount} 个`);
+      if (withdrawCount < item.count) {
+        results.push(`⚠️ ${item.name} 库存不足，还差 ${item.count - withdrawCount} 个`);
+      }
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      results.push(`取出 ${item.name} 失败: ${errorMessage} (尝试取出 ${withdrawCount} 个)`);
+      return false;
+    }
+  }
+
+  /**
+   * 整理容器：先合并未满的相同物品，再按名称（同名时数量多的在前）排列到前面的槽位
+   */
+  private async sortContainer(bot: Bot, container: any, signal?: AbortSignal): Promise<string> {
+    const size: number = container.inventoryStart;
+    const slots: Array<Item | null> = container.slots;
+    const compare = (a: Item, b: Item) => a.name.localeCompare(b.name) || b.count - a.count;
+
+    const merges = await InventoryUtils.mergeStacks(bot, container, 0, size, signal);
+
+    let moves = 0;
+    for (let k = 0; k < size; k++) {
+      let best = -1;
+      for (let j = k; j < size; j++) {
+        const item = slots[j];
+        if (item && (best < 0 || compare(item, slots[best]!) < 0)) best = j;
+      }
+      if (best < 0) break;
+      if (best !== k) {
+        AbortUtils.throwIfAborted(signal);
+        await bot.moveSlotItem(best, k);
+        moves++;
+      }
+    }
+
+    return merges === 0 && moves === 0 ? '容器已经是整理好的状态' : `整理完成：合并 ${merges} 次，移动 ${moves} 次`;
+  }
+
+  /**
+   * 获取容器每个槽位的内容（大箱子包含两半共 54 个槽位）
+   */
+  private getSlotContents(container: any): SlotContent[] {
+    const contents: SlotContent[] = [];
+    for (let slot = 0; slot < container.inventoryStart; slot++) {
+      const item: Item | null = container.slots[slot];
+      if (item) contents.push({ slot, name: item.name, count: item.count });
+    }
+    return contents;
+  }
+
+  /**
+   * 记录容器内容到世界记忆
+   * 大箱子两半共用一个库存，只在打开的一半记录内容，避免合成规划重复计算；末影箱内容属于玩家而非位置，不记录
+   */
+  private rememberContainer(bot: Bot, block: Block, partner: Block | null, contents: SlotContent[]): void {
+    if (block.name === 'ender_chest') return;
+    const memory = ((bot as any).client as MinecraftClient | undefined)?.getWorldMemory?.();
+    if (!memory) return;
+    const dimension = memory.dimensionOf(bot);
+    if (partner) memory.forget(partner.position, dimension);
+    memory.recordContainer(block.position, block.name, contents.map(({ name, count }) => ({ name, count })), dimension);
+  }
+
+  private describe(block: Block, size: number, contents: SlotContent[]): string {
+    const name = `${ContainerUtils.getContainerDisplayName(block.name)}${size === 54 ? '（大箱子）' : ''}`;
+    const location = `(${block.position.x}, ${block.position.y}, ${block.position.z})`;
+    if (contents.length === 0) return `${name} ${location} 是空的（${size} 个槽位）`;
+    const slots = contents.map(item => `${item.slot}: ${item.name} × ${item.count}`).join(', ');
+    return `${name} ${location} 已用 ${contents.length}/${size} 个槽位：${slots}`;
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: use_container）
+}
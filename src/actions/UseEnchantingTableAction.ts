@@ -0,0 +1,191 @@
+import { Bot, EnchantmentTable } from 'mineflayer';
+import { Item } from 'prismarine-item';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { ContainerUtils } from '../utils/ContainerUtils.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
+
+interface UseEnchantingTableParams extends BaseActionParams {
+  item: string;
+  option?: number;
+  x?: number;
+  y?: number;
+  z?: number;
+}
+
+/**
+ * 附魔台提供的附魔选项
+ */
+interface EnchantOffer {
+  option: number;
+  /** 需要的经验等级 */
+  levelRequirement: number;
+  /** 消耗的青金石数量（同时消耗相同数量的经验等级） */
+  lapisCost: number;
+  /** 预览的附魔（服务器只公开其中一个），未知时为 null */
+  enchantment: string | null;
+  enchantmentLevel: number | null;
+  available: boolean;
+}
+
+/** 等待附魔选项刷新的最长时间（毫秒） */
+const OFFERS_TIMEOUT_MS = 5000;
+
+/**
+ * UseEnchantingTableAction - 使用附魔台
+ * 不指定 option 时只放入物品预览三个附魔选项（等级要求、青金石消耗、预览附魔）；
+ * 指定 option 时检查经验等级和青金石后执行附魔并取回物品
+ */
+export class UseEnchantingTableAction extends BaseAction<UseEnchantingTableParams> {
+  name = 'useEnchantingTable';
+  description = '使用附魔台：预览物品的三个附魔选项（等级要求、青金石消耗、预览附魔），或选择其中一个执行附魔';
+  schema = z.object({
+    item: z.string().describe('要附魔的物品名称，如 diamond_sword、book (字符串)'),
+    option: z.number().int().min(0).max(2).optional().describe('选择的附魔选项 0-2 (整数，可选，不指定时只预览选项)'),
+    x: z.number().int().optional().describe('附魔台X坐标 (整数，可选，默认最近的附魔台)'),
+    y: z.number().int().optional().describe('附魔台Y坐标 (整数，可选)'),
+    z: z.number().int().optional().describe('附魔台Z坐标 (整数，可选)'),
+  });
+
+  async execute(bot: Bot, params: UseEnchantingTableParams, context?: ActionContext): Promise<ActionResult> {
+    try {
+      const itemName = params.item.replace(/^minecraft:/, '');
+      const creative = bot.game.gameMode === 'creative';
+
+      // 打开附魔台前先检查物品、青金石和经验等级
+      const target = bot.inventory.items().find(item => item.name === itemName && this.enchantmentsOf(item).length === 0);
+      if (!target) {
+        const enchanted = bot.inventory.items().some(item => item.name === itemName);
+        return enchanted
+          ? this.createErrorResult(`背包中的 ${itemName} 都已附魔`, 'ALREADY_ENCHANTED')
+          : this.createErrorResult(`背包中没有 ${itemName}`, 'ITEM_NOT_FOUND');
+      }
+      if (params.option !== undefined && !creative) {
+        const lapisNeeded = params.option + 1;
+        const lapis = this.countItem(bot, 'lapis_lazuli');
+        if (lapis < lapisNeeded) {
+          return this.createErrorResult(`选项 ${params.option} 需要 ${lapisNeeded} 个青金石，背包中只有 ${lapis} 个`, 'INSUFFICIENT_LAPIS');
+        }
+        if (bot.experience.level < lapisNeeded) {
+          return this.createErrorResult(`选项 ${params.option} 至少需要 ${lapisNeeded} 级经验，当前 ${bot.experience.level} 级`, 'INSUFFICIENT_XP');
+        }
+      }
+
+      const position = params.x !== undefined && params.y !== undefined && params.z !== undefined
+        ? { x: params.x, y: params.y, z: params.z }
+        : undefined;
+      const block = await ContainerUtils.approachWorkstation(bot, ['enchanting_table'], position, context?.signal);
+      AbortUtils.throwIfAborted(context?.signal);
+      const table = await bot.openEnchantmentTable(block);
+
+      try {
+        AbortUtils.throwIfAborted(context?.signal);
+        const slotItem = table.items().find(item => item.name === itemName && this.enchantmentsOf(item).length === 0);
+        if (!slotItem) {
+          return this.createErrorResult(`背包中没有 ${itemName}`, 'ITEM_NOT_FOUND');
+        }
+        await table.putTargetItem(slotItem);
+
+        const offers = await this.readOffers(bot, table, context?.signal);
+        const tableInfo = { x: block.position.x, y: block.position.y, z: block.position.z };
+        if (!offers.some(offer => offer.available)) {
+          await table.takeTargetItem();
+          return this.createErrorResult(`${itemName} 无法附魔`, 'NOT_ENCHANTABLE', { table: tableInfo, offers });
+        }
+
+        if (params.option === undefined) {
+          await table.takeTargetItem();
+          return this.createSuccessResult(`${itemName} 的附魔选项: ${offers.map(offer => this.formatOffer(offer)).join('；')}`, {
+            table: tableInfo,
+            offers,
+            experienceLevel: bot.experience.level,
+            lapis: this.countItem(bot, 'lapis_lazuli'),
+          });
+        }
+
+        const offer = offers[params.option];
+        if (!offer.available) {
+          await table.takeTargetItem();
+          return this.createErrorResult(`选项 ${params.option} 不可用`, 'OPTION_UNAVAILABLE', { table: tableInfo, offers });
+        }
+        if (!creative && bot.experience.level < offer.levelRequirement) {
+          await table.takeTargetItem();
+          return this.createErrorResult(
+            `选项 ${params.option} 需要 ${offer.levelRequirement} 级经验，当前 ${bot.experience.level} 级`,
+            'INSUFFICIENT_XP',
+            { table: tableInfo, offers }
+          );
+        }
+
+        AbortUtils.throwIfAborted(context?.signal);
+        if (!creative) {
+          const lapis = table.items().find(item => item.name === 'lapis_lazuli');
+          if (lapis) await table.putLapis(lapis);
+        }
+        await table.enchant(params.option);
+        const result = await table.takeTargetItem();
+        if (table.slots[1]) {
+          await bot.putAway(1);
+        }
+
+        const enchantments = this.enchantmentsOf(result);
+        return this.createSuccessResult(
+          `附魔成功: ${itemName} ${enchantments.map(e => `${e.name} ${e.level}`).join(', ')}`,
+          {
+            table: tableInfo,
+            item: itemName,
+            option: params.option,
+            enchantments,
+            experienceLevel: bot.experience.level,
+          }
+        );
+      } finally {
+        table.close();
+      }
+    } catch (error) {
+      if (AbortUtils.isAbortError(error)) {
+        return this.createErrorResult('使用附魔台已被取消', 'CANCELLED');
+      }
+      return this.createExceptionResult(error, '使用附魔台失败', 'ENCHANT_FAILED');
+    }
+  }
+
+  /**
+   * 等待服务器发送附魔选项（三个选项的等级都已设置）
+   */
+  private async readOffers(bot: Bot, table: EnchantmentTable, signal?: AbortSignal): Promise<EnchantOffer[]> {
+    const deadline = Date.now() + OFFERS_TIMEOUT_MS;
+    while (table.enchantments.some(offer => offer.level < 0) && Date.now() < deadline) {
+      await AbortUtils.sleep(100, signal);
+    }
+
+    const enchantments: any = bot.registry.enchantments;
+    return table.enchantments.map((offer, index) => {
+      const known = offer.expected.enchant >= 0 && offer.expected.level > 0;
+      return {
+        option: index,
+        levelRequirement: Math.max(0, offer.level),
+        lapisCost: index + 1,
+        enchantment: known ? enchantments?.[offer.expected.enchant]?.name ?? `enchantment_${offer.expected.enchant}` : null,
+        enchantmentLevel: known ? offer.expected.level : null,
+        available: offer.level > 0,
+      };
+    });
+  }
+
+  private formatOffer(offer: EnchantOffer): string {
+    if (!offer.available) return `选项 ${offer.option}: 不可用`;
+    const preview = offer.enchantment ? `${offer.enchantment} ${offer.enchantmentLevel}` : '未知附魔';
+    return `选项 ${offer.option}: ${preview}（需要 ${offer.levelRequirement} 级，消耗 ${offer.lapisCost} 级和 ${offer.lapisCost} 个青金石）`;
+  }
+
+  private enchantmentsOf(item: Item): Array<{ name: string; level: number }> {
+    return (item.enchants ?? []).map(enchant => ({ name: enchant.name, level: enchant.lvl }));
+  }
+
+  private countItem(bot: Bot, name: string): number {
+    return bot.inventory.items().filter(item => item.name === name).reduce((sum, item) => sum + item.count, 0);
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: use_enchanting_table）
+}
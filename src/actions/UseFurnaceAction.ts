@@ -1,8 +1,10 @@
 import { Bot, Furnace } from 'mineflayer';
 import minecraftData from 'minecraft-data';
-import { BaseAction, BaseActionParams, ActionResult } from '../minecraft/ActionInterface.js';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
 import { z } from 'zod';
+import { Vec3 } from 'vec3';
 import { ContainerUtils, ContainerInfo } from '../utils/ContainerUtils.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
 
 // 熔炉操作类型枚举
 export enum FurnaceOperation {
@@ -463,14 +465,18 @@ export class UseFurnaceAction extends BaseAction<UseFurnaceParams> {
   private async performMultiContainerTake(
     bot: Bot,
     containerType: string,
-    mcData: any
+    mcData: any,
+    signal?: AbortSignal
   ): Promise<MultiContainerResult> {
     const containers: ContainerInfo[] = [];
     let totalSuccessCount = 0;
     let totalErrorCount = 0;
 
     // 查找多个容器
-    const containerBlocks = ContainerUtils.findMultipleContainers(bot, containerType, mcData);
+    let containerBlocks = ContainerUtils.findMultipleContainers(bot, containerType, mcData);
+    if (containerBlocks.length === 0 && await ContainerUtils.approachRemembered(bot, [containerType], { signal })) {
+      containerBlocks = ContainerUtils.findMultipleContainers(bot, containerType, mcData);
+    }
 
     if (containerBlocks.length === 0) {
       const containerName = ContainerUtils.getContainerDisplayName(containerType);
@@ -493,7 +499,7 @@ export class UseFurnaceAction extends BaseAction<UseFurnaceParams> {
 
       try {
         // 移动到容器附近
-        await ContainerUtils.moveToContainer(bot, containerBlock, containerType);
+        await ContainerUtils.moveToContainer(bot, containerBlock, containerType, signal);
 
         // 打开容器
         const container = await ContainerUtils.openContainer(bot, containerType, containerBlock);
@@ -521,6 +527,7 @@ export class UseFurnaceAction extends BaseAction<UseFurnaceParams> {
         containers.push(containerInfo);
 
       } catch (error) {
+        if (AbortUtils.isAbortError(error)) throw error;
         const errorMessage = error instanceof Error ? error.message : String(error);
         const containerName = ContainerUtils.getContainerDisplayName(containerType);
         containerInfo.operations.push(`❌ 访问${containerName}失败: ${errorMessage}`);
@@ -674,7 +681,8 @@ export class UseFurnaceAction extends BaseAction<UseFurnaceParams> {
     }
   }
 
-  async execute(bot: Bot, params: UseFurnaceParams): Promise<ActionResult> {
+  async execute(bot: Bot, params: UseFurnaceParams, context?: ActionContext): Promise<ActionResult> {
+    const signal = context?.signal;
     try {
 
       const action = params.action?.toLowerCase() ?? FurnaceOperation.VIEW;
@@ -698,9 +706,20 @@ export class UseFurnaceAction extends BaseAction<UseFurnaceParams> {
         throw new Error('take操作需要指定具体的熔炉位置，不支持多容器自动查找');
       }
 
-      // 单容器操作
+      // 单容器操作（附近没有或指定位置未加载时，先前往世界记忆中的位置）
+      const hasPosition = params.x !== undefined && params.y !== undefined && params.z !== undefined;
+      const containerBlockId = mcData.blocksByName[containerType]?.id;
+      const loaded = hasPosition
+        ? Boolean(bot.blockAt(new Vec3(params.x!, params.y!, params.z!)))
+        : containerBlockId === undefined || Boolean(bot.findBlock({ matching: containerBlockId, maxDistance: 32 }));
+      if (!loaded) {
+        await ContainerUtils.approachRemembered(bot, [containerType], {
+          position: hasPosition ? { x: params.x!, y: params.y!, z: params.z! } : undefined,
+          signal
+        });
+      }
       const containerBlock = ContainerUtils.findContainer(bot, containerType, mcData, params.x, params.y, params.z);
-      await ContainerUtils.moveToContainer(bot, containerBlock, containerType);
+      await ContainerUtils.moveToContainer(bot, containerBlock, containerType, signal);
 
       // 打开容器
       const container = await ContainerUtils.openContainer(bot, containerType, containerBlock);
@@ -721,6 +740,9 @@ export class UseFurnaceAction extends BaseAction<UseFurnaceParams> {
         container.close();
       }
     } catch (err) {
+      if (AbortUtils.isAbortError(err)) {
+        return this.createErrorResult('使用熔炉已被取消', 'CANCELLED');
+      }
       const containerName = ContainerUtils.getContainerDisplayName(params.container_type || 'furnace');
       return this.createExceptionResult(err, `${containerName}交互失败`, 'CONTAINER_FAILED');
     }
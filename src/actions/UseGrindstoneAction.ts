@@ -0,0 +1,107 @@
+import { Bot } from 'mineflayer';
+import { Item } from 'prismarine-item';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { ContainerUtils } from '../utils/ContainerUtils.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
+
+interface UseGrindstoneParams extends BaseActionParams {
+  item: string;
+  x?: number;
+  y?: number;
+  z?: number;
+}
+
+/** 砂轮不会移除的诅咒附魔 */
+const CURSES = ['binding_curse', 'vanishing_curse'];
+/** 砂轮窗口的槽位：两个输入槽和输出槽 */
+const INPUT_SLOT = 0;
+const OUTPUT_SLOT = 2;
+
+/**
+ * UseGrindstoneAction - 使用砂轮
+ * 移除物品上除诅咒以外的所有附魔（返还部分经验），附魔书会变回普通书
+ */
+export class UseGrindstoneAction extends BaseAction<UseGrindstoneParams> {
+  name = 'useGrindstone';
+  description = '使用砂轮：移除物品上除诅咒以外的所有附魔（返还部分经验），附魔书会变回普通书';
+  schema = z.object({
+    item: z.string().describe('要去除附魔的物品名称，如 iron_sword、enchanted_book (字符串)'),
+    x: z.number().int().optional().describe('砂轮X坐标 (整数，可选，默认最近的砂轮)'),
+    y: z.number().int().optional().describe('砂轮Y坐标 (整数，可选)'),
+    z: z.number().int().optional().describe('砂轮Z坐标 (整数，可选)'),
+  });
+
+  async execute(bot: Bot, params: UseGrindstoneParams, context?: ActionContext): Promise<ActionResult> {
+    try {
+      const itemName = params.item.replace(/^minecraft:/, '');
+
+      // 打开砂轮前先检查物品是否有可移除的附魔
+      const candidates = bot.inventory.items().filter(item => item.name === itemName);
+      if (candidates.length === 0) {
+        return this.createErrorResult(`背包中没有 ${itemName}`, 'ITEM_NOT_FOUND');
+      }
+      const target = candidates.find(item => this.removableEnchantments(item).length > 0);
+      if (!target) {
+        return this.createErrorResult(`背包中的 ${itemName} 没有可以移除的附魔（诅咒无法移除）`, 'NO_ENCHANTMENTS');
+      }
+      const removed = this.removableEnchantments(target);
+
+      const position = params.x !== undefined && params.y !== undefined && params.z !== undefined
+        ? { x: params.x, y: params.y, z: params.z }
+        : undefined;
+      const block = await ContainerUtils.approachWorkstation(bot, ['grindstone'], position, context?.signal);
+      AbortUtils.throwIfAborted(context?.signal);
+      const pointsBefore = bot.experience.points;
+      const window = await bot.openBlock(block);
+
+      let result: Item | null;
+      try {
+        AbortUtils.throwIfAborted(context?.signal);
+        // 打开窗口后物品的槽位号会变化，按附魔重新查找
+        const slotItem = window.items().find(item => item.name === itemName
+          && this.sameEnchantments(this.removableEnchantments(item), removed));
+        if (!slotItem) {
+          return this.createErrorResult(`背包中没有 ${itemName}`, 'ITEM_NOT_FOUND');
+        }
+        await bot.moveSlotItem(slotItem.slot, INPUT_SLOT);
+
+        // 取消时输入槽的物品会在关闭窗口时退回背包
+        result = await ContainerUtils.waitForSlot(window, OUTPUT_SLOT, undefined, context?.signal);
+        if (!result) {
+          await bot.putAway(INPUT_SLOT);
+          return this.createErrorResult(`砂轮没有产出结果，${itemName} 已取回`, 'GRINDSTONE_FAILED');
+        }
+        await bot.putAway(OUTPUT_SLOT);
+      } finally {
+        bot.closeWindow(window);
+      }
+
+      const remaining = (result.enchants ?? []).map(enchant => ({ name: enchant.name, level: enchant.lvl }));
+      return this.createSuccessResult(`已移除 ${itemName} 的附魔: ${removed.map(e => `${e.name} ${e.level}`).join(', ')}`, {
+        grindstone: { x: block.position.x, y: block.position.y, z: block.position.z },
+        item: result.name,
+        removed,
+        remaining,
+        experienceGained: Math.max(0, bot.experience.points - pointsBefore),
+      });
+    } catch (error) {
+      if (AbortUtils.isAbortError(error)) {
+        return this.createErrorResult('使用砂轮已被取消', 'CANCELLED');
+      }
+      return this.createExceptionResult(error, '使用砂轮失败', 'GRINDSTONE_FAILED');
+    }
+  }
+
+  private removableEnchantments(item: Item): Array<{ name: string; level: number }> {
+    return (item.enchants ?? [])
+      .filter(enchant => !CURSES.includes(enchant.name))
+      .map(enchant => ({ name: enchant.name, level: enchant.lvl }));
+  }
+
+  private sameEnchantments(a: Array<{ name: string; level: number }>, b: Array<{ name: string; level: number }>): boolean {
+    return a.length === b.length && a.every(enchant => b.some(other => other.name === enchant.name && other.level === enchant.level));
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: use_grindstone）
+}
@@ -0,0 +1,203 @@
+import { Bot } from 'mineflayer';
+import { Block } from 'prismarine-block';
+import { Entity } from 'prismarine-entity';
+import { Vec3 } from 'vec3';
+import { BaseAction, BaseActionParams, ActionResult, ActionContext } from '../minecraft/ActionInterface.js';
+import { z } from 'zod';
+import { AbortUtils } from '../utils/AbortUtils.js';
+import { VehicleUtils, VehicleType } from '../utils/VehicleUtils.js';
+
+type VehicleMode = 'place' | 'mount' | 'steer' | 'dismount' | 'pick_up';
+
+interface VehicleParams extends BaseActionParams {
+  mode: VehicleMode;
+  /** 载具类型，place 时默认 boat，其他操作默认任意类型 */
+  type?: VehicleType;
+  /** place：放置位置；mount / pick_up：在该位置附近查找载具；steer：驾驶目标 */
+  x?: number;
+  y?: number;
+  z?: number;
+  /** 查找水面、铁轨或载具的半径，默认 16 */
+  radius?: number;
+  /** place 后是否立即乘上，默认 true */
+  mount?: boolean;
+  /** steer 到达后是否下车，默认 false */
+  dismount?: boolean;
+  /** steer 的超时时间（秒），默认 120 */
+  timeout?: number;
+}
+
+/**
+ * VehicleAction - 载具操作
+ * place：在水面放船或在铁轨上放矿车；mount：乘上船、矿车或已驯服并装鞍的马、猪、炽足兽；
+ * steer：驾驶当前载具前往目标坐标；dismount：下车；pick_up：打掉船或矿车并收回到背包
+ */
+export class VehicleAction extends BaseAction<VehicleParams> {
+  name = 'vehicle';
+  description = '载具操作：1.place在水面放船或在铁轨上放矿车（默认放置后乘上）；2.mount乘上附近的船、矿车或已驯服并装鞍的马/猪/炽足兽；3.steer驾驶当前载具沿水面、铁轨或陆地前往目标坐标；4.dismount下车；5.pick_up打掉船或矿车并收回';
+  schema = z.object({
+    mode: z.enum(['place', 'mount', 'steer', 'dismount', 'pick_up']).describe('操作类型 (place | mount | steer | dismount | pick_up)'),
+    type: z.enum(['boat', 'minecart', 'horse', 'pig', 'strider']).optional().describe('载具类型 (boat | minecart | horse | pig | strider，可选)，place 只支持 boat | minecart 且默认 boat，其他操作默认最近的任意载具'),
+    x: z.number().optional().describe('X坐标 (数字，可选)，place 时为水面或铁轨位置，steer 时为目标位置（必填）'),
+    y: z.number().optional().describe('Y坐标 (数字，可选)'),
+    z: z.number().optional().describe('Z坐标 (数字，可选)，steer 时必填'),
+    radius: z.number().int().min(1).max(64).optional().describe('查找水面、铁轨或载具的半径 (整数，可选，默认 16)'),
+    mount: z.boolean().optional().describe('place 后是否立即乘上 (布尔值，可选，默认 true)'),
+    dismount: z.boolean().optional().describe('steer 到达后是否下车 (布尔值，可选，默认 false)'),
+    timeout: z.number().int().positive().optional().describe('steer 的超时时间 (秒，可选，默认 120)'),
+  });
+
+  async execute(bot: Bot, params: VehicleParams, context?: ActionContext): Promise<ActionResult> {
+    const signal = context?.signal;
+    const radius = params.radius ?? 16;
+    const point = params.x !== undefined && params.y !== undefined && params.z !== undefined
+      ? new Vec3(params.x, params.y, params.z)
+      : undefined;
+    try {
+      switch (params.mode) {
+        case 'place':
+          return await this.place(bot, params, point, radius, signal);
+        case 'mount':
+          return await this.mount(bot, params.type, point, radius, signal);
+        case 'steer':
+          return await this.steer(bot, params, signal);
+        case 'dismount':
+          return await this.dismount(bot, signal);
+        case 'pick_up':
+          return await this.pickUp(bot, params.type, point, radius, signal);
+        default:
+          return this.createErrorResult(`不支持的操作类型: ${params.mode}`, 'INVALID_PARAMS');
+      }
+    } catch (err) {
+      if (AbortUtils.isAbortError(err)) {
+        return this.createErrorResult('载具操作已被取消', 'CANCELLED', { vehicle: bot.entity.vehicle?.name ?? null });
+      }
+      return this.createExceptionResult(err, '载具操作失败', 'VEHICLE_FAILED');
+    }
+  }
+
+  private async place(bot: Bot, params: VehicleParams, point: Vec3 | undefined, radius: number, signal?: AbortSignal): Promise<ActionResult> {
+    const type = params.type ?? 'boat';
+    if (type !== 'boat' && type !== 'minecart') {
+      return this.createErrorResult(`只能放置船或矿车，${type} 请使用 mount`, 'INVALID_PARAMS');
+    }
+    if (!VehicleUtils.findVehicleItem(bot, type)) {
+      return this.createErrorResult(`背包中没有${type === 'boat' ? '船' : '矿车'}`, 'MISSING_ITEM');
+    }
+
+    let block: Block | null;
+    if (point) {
+      block = bot.blockAt(point.floored());
+      const valid = type === 'boat' ? block?.name === 'water' : !!block && VehicleUtils.isRail(block);
+      if (!valid) {
+        return this.createErrorResult(`(${point.x}, ${point.y}, ${point.z}) 不是${type === 'boat' ? '水面' : '铁轨'}`, 'INVALID_POSITION');
+      }
+    } else {
+      block = type === 'boat' ? VehicleUtils.findWaterSurface(bot, radius) : VehicleUtils.findRail(bot, radius);
+      if (!block) {
+        return this.createErrorResult(`附近 ${radius} 格内没有${type === 'boat' ? '水面' : '铁轨'}`, 'SITE_NOT_FOUND');
+      }
+    }
+
+    const vehicle = await VehicleUtils.placeVehicle(bot, type, block!, signal);
+    const { x, y, z } = block!.position;
+    if (params.mount === false) {
+      return this.createSuccessResult(`已在 (${x}, ${y}, ${z}) 放置 ${vehicle.name}`, { vehicle: this.mapVehicle(vehicle) });
+    }
+    await VehicleUtils.mount(bot, vehicle, signal);
+    return this.createSuccessResult(`已在 (${x}, ${y}, ${z}) 放置并乘上 ${vehicle.name}`, { vehicle: this.mapVehicle(vehicle) });
+  }
+
+  private async mount(bot: Bot, type: VehicleType | undefined, point: Vec3 | undefined, radius: number, signal?: AbortSignal): Promise<ActionResult> {
+    const vehicle = VehicleUtils.findVehicle(bot, { type, maxDistance: radius, point });
+    if (!vehicle) {
+      return this.createErrorResult(`附近 ${radius} 格内没有${type ? ` ${type}` : '可以乘坐的载具'}`, 'VEHICLE_NOT_FOUND');
+    }
+    const problem = VehicleUtils.checkRideable(bot, vehicle);
+    if (problem) {
+      return this.createErrorResult(problem, 'NOT_RIDEABLE', { vehicle: this.mapVehicle(vehicle) });
+    }
+
+    await VehicleUtils.mount(bot, vehicle, signal);
+    return this.createSuccessResult(`已乘上 ${vehicle.name}`, { vehicle: this.mapVehicle(vehicle) });
+  }
+
+  private async steer(bot: Bot, params: VehicleParams, signal?: AbortSignal): Promise<ActionResult> {
+    if (params.x === undefined || params.z === undefined) {
+      return this.createErrorResult('steer 操作需要指定 x、z 坐标', 'INVALID_PARAMS');
+    }
+    const vehicle = bot.entity.vehicle;
+    if (!vehicle) {
+      return this.createErrorResult('当前没有乘坐载具，请先使用 mount 或 place', 'NOT_MOUNTED');
+    }
+
+    const target = new Vec3(params.x, params.y ?? vehicle.position.y, params.z);
+    this.logger.info(`驾驶 ${vehicle.name} 前往 (${target.x}, ${target.y}, ${target.z})`);
+    const result = await VehicleUtils.steerTo(bot, target, {
+      timeoutMs: (params.timeout ?? 120) * 1000,
+      signal,
+    });
+    if (params.dismount && result.reached) {
+      await VehicleUtils.dismount(bot, signal);
+    }
+
+    const data = { vehicle: vehicle.name, ...result, dismounted: !bot.entity.vehicle };
+    if (!result.reached) {
+      return this.createErrorResult(`驾驶 ${vehicle.name} 未到达目标，距离 ${result.distance} 格: ${result.reason}`, 'STEER_STOPPED', data);
+    }
+    return this.createSuccessResult(`已驾驶 ${vehicle.name} 到达 (${result.position.x}, ${result.position.y}, ${result.position.z})`, data);
+  }
+
+  private async dismount(bot: Bot, signal?: AbortSignal): Promise<ActionResult> {
+    const vehicle = bot.entity.vehicle;
+    if (!vehicle) {
+      return this.createSuccessResult('当前没有乘坐载具');
+    }
+    await VehicleUtils.dismount(bot, signal);
+    const { x, y, z } = bot.entity.position;
+    return this.createSuccessResult(`已离开 ${vehicle.name}`, {
+      vehicle: this.mapVehicle(vehicle),
+      position: { x: Number(x.toFixed(1)), y: Number(y.toFixed(1)), z: Number(z.toFixed(1)) },
+    });
+  }
+
+  private async pickUp(bot: Bot, type: VehicleType | undefined, point: Vec3 | undefined, radius: number, signal?: AbortSignal): Promise<ActionResult> {
+    if (type && type !== 'boat' && type !== 'minecart') {
+      return this.createErrorResult(`只能收回船或矿车，不能收回 ${type}`, 'INVALID_PARAMS');
+    }
+
+    // 优先收回正在乘坐的船或矿车
+    const riding = bot.entity.vehicle;
+    const isRetrievable = (entity: Entity) => {
+      const vehicleType = VehicleUtils.getVehicleType(entity);
+      return (vehicleType === 'boat' || vehicleType === 'minecart') && (!type || vehicleType === type);
+    };
+    const vehicle = riding && isRetrievable(riding)
+      ? riding
+      : (type
+        ? VehicleUtils.findVehicle(bot, { type, maxDistance: radius, point })
+        : VehicleUtils.findVehicle(bot, { type: 'boat', maxDistance: radius, point })
+          ?? VehicleUtils.findVehicle(bot, { type: 'minecart', maxDistance: radius, point }));
+    if (!vehicle) {
+      return this.createErrorResult(`附近 ${radius} 格内没有可以收回的${type === 'minecart' ? '矿车' : type === 'boat' ? '船' : '船或矿车'}`, 'VEHICLE_NOT_FOUND');
+    }
+
+    const collected = await VehicleUtils.pickUp(bot, vehicle, signal);
+    if (!collected) {
+      return this.createErrorResult(`未能收回 ${vehicle.name}`, 'PICKUP_FAILED', { vehicle: this.mapVehicle(vehicle) });
+    }
+    return this.createSuccessResult(`已收回 ${vehicle.name}`, { vehicle: this.mapVehicle(vehicle) });
+  }
+
+  private mapVehicle(entity: Entity): { id: number; name: string | undefined; type: VehicleType | null; position: { x: number; y: number; z: number } } {
+    const { x, y, z } = entity.position;
+    return {
+      id: entity.id,
+      name: entity.name,
+      type: VehicleUtils.getVehicleType(entity),
+      position: { x: Number(x.toFixed(1)), y: Number(y.toFixed(1)), z: Number(z.toFixed(1)) },
+    };
+  }
+
+  // MCP 工具由基类根据 schema 自动暴露（tool: vehicle）
+}
@@ -0,0 +1,78 @@
+import { Bot } from 'mineflayer';
+import { BaseCommand, CommandResult } from './BaseCommand.js';
+import { MoveAction } from '../actions/MoveAction.js';
+import { MinecraftClient } from '../minecraft/MinecraftClient.js';
+import { MinecraftUtils } from '../utils/MinecraftUtils.js';
+
+/**
+ * 路径点命令
+ * 在游戏中设置、查看、删除路径点，或让bot前往路径点
+ */
+export class WaypointCommand extends BaseCommand {
+  name = 'waypoint';
+  description = '管理命名路径点';
+  usage = '!waypoint set <名称> [x y z] - 设置路径点（默认使用你的当前位置）\n!waypoint list - 列出当前维度的路径点\n!waypoint delete <名称> - 删除路径点\n!waypoint goto <名称> - 让bot前往路径点';
+
+  async execute(bot: Bot, username: string, args: string[]): Promise<CommandResult> {
+    try {
+      const store = ((bot as any).client as MinecraftClient | undefined)?.getWaypointStore?.();
+      if (!store) {
+        return this.error('路径点存储不可用');
+      }
+
+      const [subcommand, name, ...rest] = args;
+      const dimension = MinecraftUtils.getDimension(bot);
+
+      switch (subcommand) {
+        case 'set': {
+          if (!name) return this.error('用法: !waypoint set <名称> [x y z]');
+
+          let position: { x: number; y: number; z: number } | undefined;
+          if (rest.length >= 3) {
+            const [x, y, z] = rest.slice(0, 3).map(Number);
+            if ([x, y, z].some(n => Number.isNaN(n))) return this.error('坐标必须是数字');
+            position = { x, y, z };
+          } else {
+            position = bot.players[username]?.entity?.position;
+            if (!position) return this.error(`未找到玩家 ${username} 的位置，请指定坐标`);
+          }
+
+          const waypoint = store.set(name, position, dimension);
+          const { x, y, z } = waypoint.position;
+          return this.success(`已设置路径点 ${waypoint.name}: (${x}, ${y}, ${z})`);
+        }
+
+        case 'list': {
+          const waypoints = store.list(dimension);
+          if (waypoints.length === 0) return this.success(`当前维度 (${dimension}) 没有路径点`);
+          const lines = waypoints.map(w => `${w.name}: (${w.position.x}, ${w.position.y}, ${w.position.z})`);
+          return this.success(`路径点 [${dimension}]:\n${lines.join('\n')}`, waypoints);
+        }
+
+        case 'delete': {
+          if (!name) return this.error('用法: !waypoint delete <名称>');
+          return store.delete(name, dimension)
+            ? this.success(`已删除路径点 ${name}`)
+            : this.error(`路径点 ${name} 不存在`);
+        }
+
+        case 'goto': {
+          if (!name) return this.error('用法: !waypoint goto <名称>');
+          const result = await new MoveAction().execute(bot, { type: 'waypoint', waypoint: name });
+          return result.success
+            ? this.success(`已到达路径点 ${name}`)
+            : this.error(result.message || '移动失败');
+        }
+
+        default:
+          return this.error(`未知的子命令: ${subcommand ?? '(空)'}\n${this.usage}`);
+      }
+    } catch (error) {
+      this.logger.error(`路径点命令执行异常: ${error instanceof Error ? error.message : String(error)}`);
+      return this.error('路径点命令执行失败，请稍后重试');
+    }
+  }
+}
+
+// 导出命令实例
+export const waypointCommand = new WaypointCommand();
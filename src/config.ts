@@ -31,6 +31,51 @@ export interface WebSocketConfig {
   host?: string;
 }
 
+export interface WorldMemoryConfig {
+  // 是否启用世界记忆（扫描并持久化观察到的容器、工作方块、床、传送门和矿石）
+  enabled?: boolean;
+  // 记忆文件目录，每个服务器一个 JSON 文件
+  dir?: string;
+  // 周期扫描间隔（毫秒）
+  scanIntervalMs?: number;
+  // 扫描半径
+  scanRadius?: number;
+}
+
+export interface WaypointsConfig {
+  // 路径点文件目录，每个服务器一个 JSON 文件
+  dir?: string;
+}
+
+export interface SchematicsConfig {
+  // 蓝图文件目录（build_schematic 只能读取该目录中的文件）
+  dir?: string;
+}
+
+export interface InventoryConfig {
+  // 杂物列表（manage_inventory 的 drop_junk / store_junk 默认处理这些物品）
+  junkItems?: string[];
+}
+
+export interface ReflexesConfig {
+  // 是否启用自动反射（总开关，默认关闭）
+  enabled?: boolean;
+  // 饥饿值低于阈值时自动进食
+  autoEat?: boolean;
+  hungerThreshold?: number;
+  // 被敌对生物攻击时的反应：fight 反击 | flee 逃跑 | none 不处理
+  onAttacked?: 'fight' | 'flee' | 'none';
+  // 生命值低于该值时逃跑而不是反击
+  fleeHealth?: number;
+  // 氧气低于阈值时游向陆地
+  escapeWater?: boolean;
+  oxygenThreshold?: number;
+  // 着火或站在岩浆中时自动灭火
+  extinguish?: boolean;
+  // 同一种反射两次触发的最短间隔（毫秒）
+  cooldownMs?: number;
+}
+
 export interface ClientConfig {
   minecraft: MinecraftConfig;
   disabledEvents?: string[];
@@ -42,6 +87,16 @@ export interface ClientConfig {
   debugCommands?: DebugCommandsConfig;
   // 玩家黑名单和消息黑名单配置
   chatFilters?: ChatFiltersConfig;
+  // 世界记忆配置
+  memory?: WorldMemoryConfig;
+  // 路径点配置
+  waypoints?: WaypointsConfig;
+  // 蓝图配置
+  schematics?: SchematicsConfig;
+  // 物品栏管理配置
+  inventory?: InventoryConfig;
+  // 自动反射配置
+  reflexes?: ReflexesConfig;
   // WebSocket日志服务器配置
   websocket?: WebSocketConfig;
   // Optional MCP-specific block; kept here to simplify typing in main
@@ -49,6 +104,11 @@ export interface ClientConfig {
     name?: string;
     version?: string;
     tools?: { enabled?: string[]; disabled?: string[] };
+    // 传输方式：stdio（默认）或 http（Streamable HTTP + SSE 兼容）
+    transport?: 'stdio' | 'http';
+    http?: { host?: string; port?: number; path?: string };
+    // 异步任务：已结束任务的保留时间（毫秒）和最多保留数量
+    jobs?: { retentionMs?: number; maxJobs?: number };
   };
 }
 
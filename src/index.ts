@@ -8,13 +8,24 @@
 export type { ClientConfig, MinecraftConfig } from "./config.js";
 export { Logger } from "./utils/Logger.js";
 export { ActionExecutor } from "./minecraft/ActionExecutor.js";
-export type { ActionInfo } from "./minecraft/ActionExecutor.js";
+export type { ActionInfo, QueueStatus, RunningActionInfo, QueuedActionInfo } from "./minecraft/ActionExecutor.js";
+export { JobManager } from "./minecraft/JobManager.js";
+export type { ActionJob, JobStatus, JobManagerOptions } from "./minecraft/JobManager.js";
+export { WorldMemory } from "./minecraft/WorldMemory.js";
+export type { MemoryCategory, MemoryLocation, MemoryQuery, KnownContainer, ContainerItem, KnownVillager, TradeOfferSummary, VillagerQuery } from "./minecraft/WorldMemory.js";
+export { WaypointStore } from "./minecraft/WaypointStore.js";
+export type { Waypoint } from "./minecraft/WaypointStore.js";
+export { ScriptRunner } from "./minecraft/ScriptRunner.js";
+export type { ScriptProgram, ScriptStep, ScriptCondition, ScriptRunResult, ScriptTraceEntry } from "./minecraft/ScriptRunner.js";
 export * from "./minecraft/GameEvent.js";
 
 // 动作系统
 export type {
   GameAction,
   ActionResult,
+  ActionContext,
+  ActionProgress,
+  ActionConcurrency,
   BaseActionParams,
   ActionRegistry,
 } from "./minecraft/ActionInterface";
@@ -5,6 +5,7 @@
  * 用法：
  *   maicraft <configPath>
  *   maicraft --init-config
+ *   maicraft --transport http --http-port 20916
  *   # 或
  *   pnpm run dev -- <configPath>
  *
@@ -22,6 +23,7 @@ import { MaicraftMcpServer } from './mcp/MaicraftMcpServer.js';
 import { ClientConfig } from './config.js';
 import { MinecraftClient } from './minecraft/MinecraftClient.js';
 import { ActionExecutor } from './minecraft/ActionExecutor.js';
+import { ReflexManager } from './minecraft/ReflexManager.js';
 import { GameEvent } from './minecraft/GameEvent.js';
 // ViewerManager 动态导入，避免不必要的依赖加载
 // 动作由 ActionExecutor 自动发现与注册，无需在此显式导入
@@ -77,6 +79,9 @@ interface CliArgs {
   toolsEnabled?: string[];
   toolsDisabled?: string[];
   eventsDisabled?: string[];
+  transport?: 'stdio' | 'http';
+  httpHost?: string;
+  httpPort?: number;
 }
 
 function parseArgs(argv: string[]): CliArgs {
@@ -99,6 +104,9 @@ function parseArgs(argv: string[]): CliArgs {
     if (t === '--tools-enabled' && next) { args.toolsEnabled = next.split(',').map(s=>s.trim()).filter(Boolean); i++; continue; }
     if (t === '--tools-disabled' && next) { args.toolsDisabled = next.split(',').map(s=>s.trim()).filter(Boolean); i++; continue; }
     if (t === '--events-disabled' && next) { args.eventsDisabled = next.split(',').map(s=>s.trim()).filter(Boolean); i++; continue; }
+    if (t === '--transport' && next) { if (['stdio','http'].includes(next)) args.transport = next as any; i++; continue; }
+    if (t === '--http-host' && next) { args.httpHost = next; i++; continue; }
+    if (t === '--http-port' && next) { const p = Number(next); if (!Number.isNaN(p)) args.httpPort = p; i++; continue; }
   }
   // 兼容第一个位置参数作为 config 路径
   if (!args.configPath && tokens[0] && !tokens[0].startsWith('-')) {
@@ -180,10 +188,17 @@ async function main() {
   if (args.logLevel) {
     config.logging = { ...(config.logging || {}), level: args.logLevel } as any;
   }
-  if (args.mcpName || args.mcpVersion || args.toolsEnabled || args.toolsDisabled) {
+  if (args.mcpName || args.mcpVersion || args.toolsEnabled || args.toolsDisabled || args.transport || args.httpHost || typeof args.httpPort === 'number') {
     config.mcp = config.mcp || {};
     if (args.mcpName) config.mcp.name = args.mcpName;
     if (args.mcpVersion) config.mcp.version = args.mcpVersion;
+    if (args.transport) config.mcp.transport = args.transport;
+    if (args.httpHost || typeof args.httpPort === 'number') {
+      const http = config.mcp.http || {};
+      if (args.httpHost) http.host = args.httpHost;
+      if (typeof args.httpPort === 'number') http.port = args.httpPort;
+      config.mcp.http = http;
+    }
     if (args.toolsEnabled || args.toolsDisabled) {
       const tools = config.mcp.tools || {};
       if (args.toolsEnabled) tools.enabled = args.toolsEnabled;
@@ -218,6 +233,10 @@ async function main() {
     blocksCantBreak: config.blocksCantBreak,
     debugCommands: config.debugCommands,
     chatFilters: config.chatFilters,
+    memory: config.memory,
+    waypoints: config.waypoints,
+    schematics: config.schematics,
+    inventory: config.inventory,
   });
   const actionExecutor = new ActionExecutor();
 
@@ -255,6 +274,10 @@ async function main() {
     }
   });
 
+  // 自动反射（饥饿、被攻击、溺水、着火时自动处理）
+  const reflexManager = new ReflexManager(minecraftClient, actionExecutor, config.reflexes);
+  reflexManager.start();
+
   // 连接生命周期
   minecraftClient.on('connected', () => {
     logger.info('Minecraft 客户端已连接');
@@ -263,7 +286,7 @@ async function main() {
     logger.warn('Minecraft 客户端连接断开');
   });
 
-  // 启动 MCP server (stdio)
+  // 启动 MCP server (stdio / http)
   let mcpServer: MaicraftMcpServer | null = null;
   try {
     mcpServer = new MaicraftMcpServer({
@@ -273,6 +296,9 @@ async function main() {
         name: config.mcp?.name || 'Maicraft MCP',
         version: config.mcp?.version || '0.1.0',
         tools: config.mcp?.tools,
+        transport: config.mcp?.transport,
+        http: config.mcp?.http,
+        jobs: config.mcp?.jobs,
       },
     });
   } catch (e: unknown) {
@@ -282,10 +308,19 @@ async function main() {
   // 退出时停止客户端和WebSocket服务器
   process.on('SIGINT', async () => {
     logger.info('收到 SIGINT，正在停止客户端...');
+    reflexManager.stop();
     try {
       await minecraftClient.disconnect();
     } catch {}
 
+    if (mcpServer) {
+      try {
+        await mcpServer.stop();
+      } catch (error) {
+        logger.warn('停止 MCP Server 时出错:', error);
+      }
+    }
+
     if (webSocketServer) {
       try {
         await webSocketServer.stop();
@@ -314,7 +349,7 @@ async function main() {
     if (mcpServer) {
       logger.info('正在启动 MCP Server...');
       try {
-        await mcpServer.startOnStdio();
+        await mcpServer.start();
         logger.info('MCP Server 已启动');
       } catch (e: unknown) {
         logger.error('启动 MCP 失败:', e);
@@ -1,12 +1,33 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { isInitializeRequest, SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { Bot } from "mineflayer";
+import { createServer as createHttpServer, IncomingMessage, Server as HttpServer, ServerResponse } from "http";
 import { randomUUID } from "crypto";
 import { Logger } from "../utils/Logger.js";
 import { MinecraftClient } from "../minecraft/MinecraftClient.js";
 import { ActionExecutor } from "../minecraft/ActionExecutor.js";
+import type { ActionContext, ActionResult, McpToolSpec } from "../minecraft/ActionInterface.js";
+import { JobManager, JobManagerOptions, ActionJob } from "../minecraft/JobManager.js";
+import { ScriptRunner } from "../minecraft/ScriptRunner.js";
+import type { GameEvent } from "../minecraft/GameEvent.js";
 // 动作与工具的自动发现通过 ActionExecutor 完成
 
+export type McpTransportType = 'stdio' | 'http';
+
+export interface McpHttpConfig {
+  /** 监听地址，默认 127.0.0.1 */
+  host?: string;
+  /** 监听端口，默认 20916 */
+  port?: number;
+  /** Streamable HTTP 端点路径，默认 /mcp */
+  path?: string;
+}
+
 export interface McpConfig {
   name: string;
   version: string;
@@ -14,6 +35,11 @@ export interface McpConfig {
     enabled?: string[];
     disabled?: string[];
   };
+  /** 传输方式，默认 stdio */
+  transport?: McpTransportType;
+  http?: McpHttpConfig;
+  /** 异步任务配置 */
+  jobs?: JobManagerOptions;
 }
 
 export interface McpServerDeps {
@@ -22,27 +48,141 @@ export interface McpServerDeps {
   config: McpConfig;
 }
 
+/**
+ * 已准备好的工具定义，每个 MCP 会话的 McpServer 都会注册同一份定义
+ */
+interface PreparedTool {
+  toolName: string;
+  description: string;
+  schema?: McpToolSpec['schema'];
+  handler: (input: any, extra?: any) => Promise<any>;
+}
+
+/** 自定义动作执行函数 */
+type ActionRunner = (bot: Bot, context?: ActionContext) => Promise<ActionResult>;
+
+/** MCP 请求附带的上下文（工具处理函数的第二个参数） */
+interface ToolRequestExtra {
+  sessionId?: string;
+  _meta?: { progressToken?: string | number };
+  /** 客户端发送 notifications/cancelled 时触发 */
+  signal?: AbortSignal;
+  sendNotification?: (notification: any) => Promise<void>;
+}
+
+/**
+ * 一个已连接的 MCP 会话（stdio 只有一个，HTTP 每个客户端一个）
+ */
+interface McpSession {
+  server: McpServer;
+  transport: Transport;
+}
+
+/**
+ * 游戏状态资源定义，读取时复用对应的查询动作
+ */
+interface GameStateResource {
+  uri: string;
+  name: string;
+  description: string;
+  actionName: string;
+  params: Record<string, unknown>;
+  /** 从动作结果中提取资源内容，缺省返回整个 data */
+  select?: (data: any) => unknown;
+}
+
+const GAME_STATE_RESOURCES: GameStateResource[] = [
+  {
+    uri: 'minecraft://player/status',
+    name: 'player_status',
+    description: 'Bot自身的状态信息，包括位置、生命值、经验、饱食度、装备栏等',
+    actionName: 'queryPlayerStatus',
+    params: { includeInventory: false },
+  },
+  {
+    uri: 'minecraft://player/inventory',
+    name: 'player_inventory',
+    description: 'Bot的物品栏信息',
+    actionName: 'queryPlayerStatus',
+    params: { includeInventory: true },
+    select: (data) => data?.inventory,
+  },
+  {
+    uri: 'minecraft://world/time-weather',
+    name: 'world_time_weather',
+    description: '游戏时间、天气、维度等世界信息',
+    actionName: 'queryGameState',
+    params: {},
+  },
+  {
+    uri: 'minecraft://events/recent',
+    name: 'recent_events',
+    description: '最近发生的游戏事件',
+    actionName: 'queryRecentEvents',
+    params: { limit: 50 },
+  },
+];
+
+/** 游戏事件类型 → 受影响的资源 */
+const EVENT_RESOURCE_MAP: Record<string, string[]> = {
+  health: ['minecraft://player/status'],
+  breath: ['minecraft://player/status'],
+  death: ['minecraft://player/status'],
+  spawn: ['minecraft://player/status', 'minecraft://world/time-weather'],
+  forcedMove: ['minecraft://player/status'],
+  playerCollect: ['minecraft://player/inventory'],
+  itemDrop: ['minecraft://player/inventory'],
+  itemCaught: ['minecraft://player/inventory'],
+  inventoryFull: ['minecraft://player/inventory'],
+  reflex: ['minecraft://player/status'],
+  rain: ['minecraft://world/time-weather'],
+  weatherUpdate: ['minecraft://world/time-weather'],
+};
+
+/** 异步任务资源，job_id 为 get_job_status 使用的任务ID */
+const JOB_RESOURCE_TEMPLATE = 'minecraft://jobs/{job_id}';
+
+// 同一资源的更新通知合并发送的时间窗口
+const RESOURCE_UPDATE_DEBOUNCE_MS = 250;
+
 export class MaicraftMcpServer {
-  private readonly server: McpServer;
   private readonly logger = new Logger("MCP");
   private readonly deps: McpServerDeps;
   // Testing-only registry of tool handlers
-  private readonly __handlers: Map<string, (input: any) => Promise<any>> = new Map();
+  private readonly __handlers: Map<string, (input: any, extra?: any) => Promise<any>> = new Map();
+  private readonly preparedTools: PreparedTool[] = [];
   private actionToolsRegistered = false;
+  // 当前所有已连接的会话，key 为会话 ID（stdio 固定为 "stdio"）
+  private readonly sessions: Map<string, McpSession> = new Map();
+  private httpServer: HttpServer | null = null;
+  // 每个 McpServer 订阅的资源 URI
+  private readonly resourceSubscriptions: WeakMap<McpServer, Set<string>> = new WeakMap();
+  private readonly pendingResourceUpdates: Set<string> = new Set();
+  private resourceUpdateTimer: NodeJS.Timeout | null = null;
+  private detachBotListeners: (() => void) | null = null;
+  private readonly jobManager: JobManager;
 
   constructor(deps: McpServerDeps) {
     this.deps = deps;
-    this.server = new McpServer({
-      name: deps.config.name || "maicraft-mcp",
-      version: deps.config.version || "0.1.0",
-    });
+    this.jobManager = new JobManager(deps.config.jobs);
 
     this.registerQueryTools();
-    // 立即尝试注册动作工具（测试环境下无 discover 也会注册 fallback）
+    this.registerExecutionTools();
+    // 立即尝试准备动作工具（测试环境下无 discover 也会注册 fallback）
     this.registerActionTools();
+    this.setupResourceUpdateSources();
   }
 
-
+  /**
+   * 根据配置的传输方式启动
+   */
+  async start(): Promise<void> {
+    if (this.deps.config.transport === 'http') {
+      await this.startOnHttp();
+      return;
+    }
+    await this.startOnStdio();
+  }
 
   async startOnStdio(): Promise<void> {
     // 在启动时若未注册成功，重试一次（通常 discover 完成后可获取到 schema 工具）
@@ -50,8 +190,10 @@ export class MaicraftMcpServer {
       this.registerActionTools();
     }
     
+    const server = this.createServer();
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await server.connect(transport);
+    this.sessions.set('stdio', { server, transport });
     this.logger.info("MCP server connected over stdio");
     
     // 保持连接存活
@@ -61,26 +203,541 @@ export class MaicraftMcpServer {
     });
   }
 
+  /**
+   * 以 HTTP 方式启动：
+   * - Streamable HTTP：`POST/GET/DELETE {path}`，通过 `mcp-session-id` 头区分会话
+   * - SSE 兼容：`GET /sse` 建立事件流，`POST /messages?sessionId=...` 发送消息
+   *
+   * 每个客户端会话拥有独立的 McpServer 实例，但共享同一个 Minecraft 连接和动作执行器，
+   * 因此多个 agent 进程可以同时接入同一个正在运行的 bot。
+   */
+  async startOnHttp(): Promise<void> {
+    if (!this.actionToolsRegistered) {
+      this.registerActionTools();
+    }
+    if (this.httpServer) {
+      this.logger.warn('MCP HTTP 服务器已在运行');
+      return;
+    }
+
+    const host = this.deps.config.http?.host || '127.0.0.1';
+    const port = this.deps.config.http?.port || 20916;
+    const mcpPath = this.deps.config.http?.path || '/mcp';
+
+    const httpServer = createHttpServer((req, res) => {
+      this.handleHttpRequest(req, res, mcpPath).catch((err) => {
+        // 请求体不是合法 JSON（readJsonBody 中 JSON.parse 抛出）
+        if (err instanceof SyntaxError) {
+          this.logger.warn(`MCP HTTP 请求体解析失败: ${err.message}`);
+          if (!res.headersSent) {
+            this.writeJsonRpcError(res, 400, -32700, 'Parse error: Invalid JSON');
+          }
+          return;
+        }
+        this.logger.error('处理 MCP HTTP 请求失败:', err);
+        if (!res.headersSent) {
+          this.writeJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(port, host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+    this.httpServer = httpServer;
+    this.logger.info(`MCP server listening on http://${host}:${port}${mcpPath} (SSE: /sse)`);
+  }
+
+  /**
+   * 关闭所有会话和 HTTP 服务器
+   */
+  async stop(): Promise<void> {
+    if (this.resourceUpdateTimer) {
+      clearTimeout(this.resourceUpdateTimer);
+      this.resourceUpdateTimer = null;
+    }
+    this.detachBotListeners?.();
+    this.detachBotListeners = null;
+
+    for (const [sessionId, session] of this.sessions) {
+      try {
+        await session.transport.close();
+      } catch (err) {
+        this.logger.debug(`关闭会话 ${sessionId} 时出错:`, err);
+      }
+    }
+    this.sessions.clear();
+
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = null;
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+      this.logger.info('MCP HTTP 服务器已停止');
+    }
+  }
+
+  /**
+   * 获取当前已连接的会话数量
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  private async handleHttpRequest(req: IncomingMessage, res: ServerResponse, mcpPath: string): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname === mcpPath) {
+      await this.handleStreamableHttpRequest(req, res);
+      return;
+    }
+    if (url.pathname === '/sse' && req.method === 'GET') {
+      await this.handleSseConnect(res);
+      return;
+    }
+    if (url.pathname === '/messages' && req.method === 'POST') {
+      const sessionId = url.searchParams.get('sessionId') ?? '';
+      const session = this.sessions.get(sessionId);
+      if (!session || !(session.transport instanceof SSEServerTransport)) {
+        this.writeJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      await session.transport.handlePostMessage(req, res, await this.readJsonBody(req));
+      return;
+    }
+
+    res.writeHead(404).end();
+  }
+
+  private async handleStreamableHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const body = req.method === 'POST' ? await this.readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        this.writeJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    // 没有会话 ID 时只接受 initialize 请求，用于创建新会话
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      this.writeJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const server = this.createServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        this.sessions.set(newSessionId, { server, transport });
+        this.logger.info(`MCP 会话已建立 (streamable http): ${newSessionId}，当前会话数: ${this.sessions.size}`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && this.sessions.delete(transport.sessionId)) {
+        this.logger.info(`MCP 会话已关闭: ${transport.sessionId}，当前会话数: ${this.sessions.size}`);
+      }
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async handleSseConnect(res: ServerResponse): Promise<void> {
+    const server = this.createServer();
+    const transport = new SSEServerTransport('/messages', res);
+    this.sessions.set(transport.sessionId, { server, transport });
+    res.on('close', () => {
+      if (this.sessions.delete(transport.sessionId)) {
+        this.logger.info(`MCP 会话已关闭: ${transport.sessionId}，当前会话数: ${this.sessions.size}`);
+      }
+    });
+    await server.connect(transport);
+    this.logger.info(`MCP 会话已建立 (sse): ${transport.sessionId}，当前会话数: ${this.sessions.size}`);
+  }
+
+  private readJsonBody(req: IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        const raw = Buffer.concat(chunks).toString('utf8');
+        if (!raw) {
+          resolve(undefined);
+          return;
+        }
+        try {
+          resolve(JSON.parse(raw));
+        } catch (err) {
+          reject(err);
+        }
+      });
+      req.on('error', reject);
+    });
+  }
+
+  private writeJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+  }
+
+  /**
+   * 创建一个新的 McpServer 并注册所有已准备好的工具
+   */
+  private createServer(): McpServer {
+    const server = new McpServer({
+      name: this.deps.config.name || "maicraft-mcp",
+      version: this.deps.config.version || "0.1.0",
+    });
+
+    this.registerResources(server);
+
+    for (const { toolName, description, schema, handler } of this.preparedTools) {
+      const isZod = schema && typeof schema === 'object' && typeof (schema as any).safeParse === 'function';
+      const isShape = schema && typeof schema === 'object' && !isZod;
+
+      if (isZod) {
+        const shape = (schema as any)?._def?.shape?.();
+        if (shape && typeof shape === 'object') {
+          server.tool(toolName, description, shape as any, handler as any);
+        } else {
+          server.tool(toolName, description, handler as any);
+        }
+      } else if (isShape) {
+        server.tool(toolName, description, schema as any, handler as any);
+      } else {
+        server.tool(toolName, description, handler as any);
+      }
+    }
+
+    return server;
+  }
+
+  /**
+   * 注册游戏状态资源，并处理资源订阅请求
+   */
+  private registerResources(server: McpServer): void {
+    for (const resource of GAME_STATE_RESOURCES) {
+      server.resource(
+        resource.name,
+        resource.uri,
+        { description: resource.description, mimeType: 'application/json' },
+        async (uri) => ({
+          contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(await this.readResource(resource)) }],
+        })
+      );
+    }
+
+    // 异步任务：订阅后任务进度更新和结束时会收到 resources/updated 通知
+    server.resource(
+      'job',
+      new ResourceTemplate(JOB_RESOURCE_TEMPLATE, {
+        list: async () => ({
+          resources: this.jobManager.list('running').map(job => ({
+            uri: this.jobResourceUri(job.id),
+            name: job.id,
+            description: `异步任务 ${job.actionName}`,
+            mimeType: 'application/json',
+          })),
+        }),
+      }),
+      { description: '异步任务的状态、进度和结果，内容与 get_job_status 一致', mimeType: 'application/json' },
+      async (uri, variables) => {
+        const job = this.jobManager.get(String(variables.job_id ?? ''));
+        const data = job
+          ? this.describeJob(job, true)
+          : { ok: false, error_code: 'job_not_found', error_message: `未找到任务: ${variables.job_id}` };
+        return { contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(data) }] };
+      }
+    );
+
+    const subscriptions = new Set<string>();
+    this.resourceSubscriptions.set(server, subscriptions);
+    server.server.registerCapabilities({ resources: { subscribe: true } });
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      subscriptions.add(request.params.uri);
+      this.logger.debug(`订阅资源: ${request.params.uri}`);
+      return {};
+    });
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.delete(request.params.uri);
+      this.logger.debug(`取消订阅资源: ${request.params.uri}`);
+      return {};
+    });
+  }
+
+  private async readResource(resource: GameStateResource): Promise<unknown> {
+    const bot = this.deps.minecraftClient.getBot();
+    if (!bot) {
+      return { ok: false, error_code: 'service_unavailable', error_message: 'Minecraft bot is not ready' };
+    }
+    const result = await this.deps.actionExecutor.execute(resource.actionName, bot, resource.params as any);
+    if (!result.success) {
+      return { ok: false, error_code: result.error ?? 'execution_error', error_message: result.message };
+    }
+    return resource.select ? resource.select(result.data) : result.data;
+  }
+
+  /**
+   * 监听游戏事件和 mineflayer 状态变化，驱动资源更新通知
+   */
+  private setupResourceUpdateSources(): void {
+    const client = this.deps.minecraftClient;
+    if (typeof (client as any)?.on !== 'function') return;
+
+    client.on('gameEvent', (event: GameEvent) => {
+      this.notifyResourcesUpdated(['minecraft://events/recent', ...(EVENT_RESOURCE_MAP[event.type] ?? [])]);
+    });
+    client.on('connected', () => {
+      const bot = client.getBot();
+      if (bot) this.attachBotListeners(bot);
+    });
+
+    const bot = client.getBot?.();
+    if (bot) this.attachBotListeners(bot);
+  }
+
+  private attachBotListeners(bot: Bot): void {
+    this.detachBotListeners?.();
+
+    let lastIsDay = bot.time?.isDay;
+    const onHealth = () => this.notifyResourcesUpdated(['minecraft://player/status']);
+    const onSlotUpdate = () => this.notifyResourcesUpdated(['minecraft://player/inventory', 'minecraft://player/status']);
+    const onWeather = () => this.notifyResourcesUpdated(['minecraft://world/time-weather']);
+    // time 事件每秒触发，只在昼夜切换时通知
+    const onTime = () => {
+      if (bot.time.isDay !== lastIsDay) {
+        lastIsDay = bot.time.isDay;
+        onWeather();
+      }
+    };
+
+    bot.on('health', onHealth);
+    bot.on('experience', onHealth);
+    bot.inventory.on('updateSlot', onSlotUpdate);
+    bot.on('rain', onWeather);
+    bot.on('time', onTime);
+
+    this.detachBotListeners = () => {
+      bot.off('health', onHealth);
+      bot.off('experience', onHealth);
+      bot.inventory.off('updateSlot', onSlotUpdate);
+      bot.off('rain', onWeather);
+      bot.off('time', onTime);
+    };
+  }
+
+  /**
+   * 向订阅了指定资源的会话发送 resources/updated 通知（短时间内多次变化会合并）
+   */
+  private notifyResourcesUpdated(uris: string[]): void {
+    for (const uri of uris) this.pendingResourceUpdates.add(uri);
+    if (this.resourceUpdateTimer) return;
+
+    this.resourceUpdateTimer = setTimeout(() => {
+      this.resourceUpdateTimer = null;
+      const updated = [...this.pendingResourceUpdates];
+      this.pendingResourceUpdates.clear();
+
+      for (const { server } of this.sessions.values()) {
+        const subscriptions = this.resourceSubscriptions.get(server);
+        if (!subscriptions || subscriptions.size === 0) continue;
+        for (const uri of updated) {
+          if (!subscriptions.has(uri)) continue;
+          server.server.sendResourceUpdated({ uri }).catch((err) => {
+            this.logger.debug(`发送资源更新通知失败 ${uri}:`, err);
+          });
+        }
+      }
+    }, RESOURCE_UPDATE_DEBOUNCE_MS);
+  }
+
   private registerQueryTools(): void {
     // query_state 和 query_events 已移除，使用对应的查询动作替代
     // queryPlayerStatus, queryGameState, queryRecentEvents, querySurroundings
   }
 
   /**
-   * 注册Minecraft动作作为MCP工具
-   * @returns 
+   * 注册异步任务、取消和队列状态工具
    */
-  private registerActionTools(): void {
-    if (this.actionToolsRegistered) return;
+  private registerExecutionTools(): void {
+    const executionTools: PreparedTool[] = [
+      {
+        toolName: 'get_job_status',
+        description: '查询异步任务的状态、进度和结果（任务由动作工具以 async=true 调用时创建）',
+        schema: {
+          job_id: z.string().describe('任务ID'),
+        },
+        handler: async (input: any) => {
+          const requestId = randomUUID();
+          const start = Date.now();
+          const job = this.jobManager.get(String(input?.job_id ?? ''));
+          if (!job) {
+            return this.errorResult('job_not_found', `未找到任务: ${input?.job_id}`, requestId, start);
+          }
+          return this.okResult(this.describeJob(job, true), requestId, start);
+        },
+      },
+      {
+        toolName: 'list_jobs',
+        description: '列出异步任务（按创建时间倒序），可按状态过滤',
+        schema: {
+          status: z.enum(['running', 'succeeded', 'failed', 'cancelled']).optional().describe('任务状态过滤 (running | succeeded | failed | cancelled，可选)'),
+        },
+        handler: async (input: any) => {
+          const requestId = randomUUID();
+          const start = Date.now();
+          const jobs = this.jobManager.list(input?.status);
+          return this.okResult({ total: jobs.length, jobs: jobs.map(job => this.describeJob(job, false)) }, requestId, start);
+        },
+      },
+      {
+        toolName: 'cancel_action',
+        description: '取消正在执行或排队中的动作，中断寻路、挖掘、攻击并关闭打开的容器窗口。可指定任务ID或动作名称，不指定时取消所有动作',
+        schema: {
+          job_id: z.string().optional().describe('要取消的异步任务ID (字符串，可选)'),
+          action: z.string().optional().describe('要取消的动作名称或工具名称，如 mine_block (字符串，可选)'),
+        },
+        handler: async (input: any) => {
+          const requestId = randomUUID();
+          const start = Date.now();
+          if (input?.job_id) {
+            if (!this.jobManager.cancel(String(input.job_id))) {
+              return this.errorResult('job_not_found', `未找到运行中的任务: ${input.job_id}`, requestId, start);
+            }
+            return this.okResult({ cancelled_job: input.job_id }, requestId, start);
+          }
+
+          const actionName = input?.action ? this.resolveActionName(String(input.action)) : undefined;
+          const cancelled = this.deps.actionExecutor.cancelRunning(actionName);
+          this.logger.info(`已取消 ${cancelled.length} 个动作`);
+          return this.okResult({
+            cancelled_actions: cancelled.map(info => ({
+              id: info.id,
+              action: info.name,
+              state: 'startedAt' in info ? 'running' : 'queued',
+            })),
+          }, requestId, start);
+        },
+      },
+      {
+        toolName: 'run_script',
+        description: [
+          '在服务端按顺序执行一组动作，减少逐步调用的往返。返回每个步骤的执行记录 (trace) 和最终变量。',
+          '脚本格式 (JSON 对象或 JSON/YAML 字符串): { vars?: {...}, steps: [...] }，步骤类型：',
+          '{ action: "move", params: {...}, save_as?: "名称", retry?: 次数, retry_delay_ms?: 毫秒, on_failure?: "stop" | "continue" | [步骤] }；',
+          '{ if: 条件, then: [步骤], else?: [步骤] }；{ repeat: 次数, steps: [步骤] }；{ while: 条件, steps: [步骤], max_iterations?: 次数 }；',
+          '{ wait: 毫秒 }；{ set: { 变量: 值 } }。',
+          '参数中的 "${路径}" 会替换为变量，如 "${chest.data.position.x}"；动作结果保存为 { success, message, data, error }，最近一次结果为 last，循环序号为 loop.index。',
+          '条件: { path: "mine.data.minedCount", op: "eq|ne|gt|gte|lt|lte|exists|truthy|falsy|contains", value? }，可用 { all: [...] } / { any: [...] } / { not: 条件 } 组合。',
+        ].join(''),
+        schema: {
+          script: z.union([z.string(), z.record(z.any())]).describe('脚本 (对象，或 JSON/YAML 字符串)'),
+          async: z.boolean().optional().describe('是否以异步任务模式执行 (布尔值，可选，默认 false)'),
+        },
+        handler: async (input: any, extra?: ToolRequestExtra) => {
+          let program;
+          try {
+            program = ScriptRunner.parse(input?.script);
+          } catch (err) {
+            return this.errorResult('invalid_script', err instanceof Error ? err.message : String(err), randomUUID(), Date.now());
+          }
+
+          const runner = new ScriptRunner(this.deps.actionExecutor, {
+            resolveAction: (name) => this.resolveScriptAction(name),
+          });
+          const run: ActionRunner = async (bot, context) => {
+            const result = await runner.run(bot, program, context);
+            return {
+              success: result.success,
+              message: result.message,
+              error: result.error,
+              data: { trace: result.trace, vars: result.vars },
+            };
+          };
+          const params = { steps: program.steps.length };
+          return input?.async === true
+            ? this.startActionJob('runScript', params, extra, run)
+            : this.wrapAction('runScript', params, extra, run);
+        },
+      },
+      {
+        toolName: 'get_action_queue',
+        description: '查询动作队列状态：正在执行的动作（含并发类别和优先级）以及排队等待的动作',
+        schema: {},
+        handler: async () => {
+          const requestId = randomUUID();
+          const start = Date.now();
+          const status = this.deps.actionExecutor.getQueueStatus();
+          const now = Date.now();
+          return this.okResult({
+            running: status.running.map(info => ({
+              id: info.id,
+              action: info.name,
+              concurrency: info.concurrency,
+              priority: info.priority,
+              elapsed_ms: now - info.startedAt,
+            })),
+            queued: status.queued.map(info => ({
+              id: info.id,
+              action: info.name,
+              priority: info.priority,
+              waiting_ms: now - info.queuedAt,
+            })),
+          }, requestId, start);
+        },
+      },
+    ];
+
+    for (const tool of executionTools) {
+      if (!this.isToolAllowed(tool.toolName)) continue;
+      this.__handlers.set(tool.toolName, tool.handler);
+      this.preparedTools.push(tool);
+    }
+  }
+
+  /**
+   * 将工具名称（如 mine_block）解析为动作名称，未匹配时原样返回
+   */
+  private resolveActionName(name: string): string {
+    const spec = this.deps.actionExecutor.getDiscoveredMcpTools?.().find(spec => spec.toolName === name);
+    return spec?.actionName ?? name;
+  }
+
+  /**
+   * 解析脚本中的动作名（工具名或动作名），仅允许调用已暴露的工具
+   */
+  private resolveScriptAction(name: string): string | undefined {
+    const spec = this.deps.actionExecutor.getDiscoveredMcpTools?.()
+      .find(spec => spec.toolName === name || spec.actionName === name);
+    if (!spec || !this.isToolAllowed(spec.toolName)) return undefined;
+    return spec.actionName ?? name;
+  }
 
-    // 获取配置的白名单和黑名单
+  /**
+   * 工具过滤：黑名单优先，未配置白名单时默认允许
+   */
+  private isToolAllowed(name: string): boolean {
     const enabled = this.deps.config.tools?.enabled;
     const disabled = new Set(this.deps.config.tools?.disabled || []);
-    const allow = (name: string) => {
-      if (disabled.has(name)) return false; // 黑名单优先
-      if (!enabled || enabled.length === 0) return true; // 未配置白名单时，默认允许
-      return enabled.includes(name); // 同时存在时，两者并存：既要在白名单，又不能在黑名单
-    };
+    if (disabled.has(name)) return false; // 黑名单优先
+    if (!enabled || enabled.length === 0) return true; // 未配置白名单时，默认允许
+    return enabled.includes(name); // 同时存在时，两者并存：既要在白名单，又不能在黑名单
+  }
+
+  /**
+   * 准备Minecraft动作对应的MCP工具，实际注册在每个会话创建 McpServer 时完成
+   * @returns 
+   */
+  private registerActionTools(): void {
+    if (this.actionToolsRegistered) return;
 
     // 获取自动发现的MCP工具
     const specs = this.deps.actionExecutor.getDiscoveredMcpTools?.() ?? [];
@@ -90,45 +747,33 @@ export class MaicraftMcpServer {
       
       for (const spec of specs) {
         // 如果工具被禁用，则跳过
-         if (!allow(spec.toolName)) {
+         if (!this.isToolAllowed(spec.toolName)) {
           this.logger.debug(`跳过被禁用的工具: ${spec.toolName}`);
           continue;
         }
         
         // 注册工具处理函数
-        const handler = async (input: any) => {
-          const requestId = randomUUID();
-          const start = Date.now();
-          
+        const handler = async (input: any, extra?: ToolRequestExtra) => {
+          // async 为任务模式开关，不传给动作本身
+          const { async: runAsJob, ...actionInput } = (input ?? {}) as Record<string, unknown>;
+
           const params = typeof spec.mapInputToParams === 'function'
-            ? spec.mapInputToParams(input, {})
-            : (input ?? {});
+            ? spec.mapInputToParams(actionInput, {})
+            : actionInput;
           
           const actionName = spec.actionName || undefined;
           const finalActionName = actionName ?? (input?.actionName as string) ?? spec.toolName;
           
-          return this.wrapAction(finalActionName, params as any);
+          if (runAsJob === true) {
+            return this.startActionJob(finalActionName, params as any, extra);
+          }
+          return this.wrapAction(finalActionName, params as any, extra);
         };
         
-        // 处理 schema
-        const {schema, toolName, description} = spec;
+        const {toolName, description} = spec;
+        const schema = this.withAsyncParam(spec.schema);
         this.__handlers.set(toolName, handler);
-        
-        const isZod = schema && typeof schema === 'object' && typeof schema.safeParse === 'function';
-        const isShape = schema && typeof schema === 'object' && !isZod;
-        
-        if (isZod) {
-          const shape = (schema as any)?._def?.shape?.();
-          if (shape && typeof shape === 'object') {
-            this.server.tool(toolName, description, shape as any, handler as any);
-          } else {
-            this.server.tool(toolName, description, handler as any);
-          }
-        } else if (isShape) {
-          this.server.tool(toolName, description, schema as any, handler as any);
-        } else {
-          this.server.tool(toolName, description, handler as any);
-        }
+        this.preparedTools.push({ toolName, description, schema, handler });
         
         this.logger.debug(`已注册工具: ${toolName}`);
       }
@@ -138,13 +783,69 @@ export class MaicraftMcpServer {
     }
   }
 
+  /**
+   * 为动作工具的参数 schema 追加 async 参数
+   */
+  private withAsyncParam(schema: McpToolSpec['schema']): McpToolSpec['schema'] {
+    const asyncParam = z.boolean().optional().describe('是否以异步任务模式执行 (布尔值，可选，默认 false)。为 true 时立即返回 job_id，可通过 get_job_status 查询进度和结果');
+    if (!schema || typeof schema !== 'object') return schema;
+    if (typeof (schema as any).safeParse === 'function') {
+      const shape = (schema as any)?._def?.shape?.();
+      return shape && typeof shape === 'object' ? { ...shape, async: asyncParam } : schema;
+    }
+    return { ...(schema as Record<string, z.ZodTypeAny>), async: asyncParam };
+  }
+
+  /**
+   * 根据请求上下文创建动作执行上下文：转发客户端的取消信号，客户端提供 progressToken 时转发进度通知
+   */
+  private createActionContext(extra?: ToolRequestExtra): ActionContext | undefined {
+    if (!extra) return undefined;
+    const progressToken = extra._meta?.progressToken;
+    return {
+      signal: extra.signal,
+      reportProgress: (progress) => {
+        if (progressToken === undefined || typeof extra.sendNotification !== 'function') return;
+        extra.sendNotification({
+          method: 'notifications/progress',
+          params: { progressToken, ...progress },
+        }).catch((err) => this.logger.debug('发送进度通知失败:', err));
+      },
+    };
+  }
+
+  /**
+   * 以任务模式执行动作，立即返回 job_id
+   */
+  private startActionJob(name: string, params: Record<string, unknown>, extra?: ToolRequestExtra, run?: ActionRunner) {
+    const requestId = randomUUID();
+    const start = Date.now();
+    const bot = this.deps.minecraftClient.getBot();
+    if (!bot) {
+      this.logToolInvocation(name, requestId, params, false, "service_unavailable", Date.now() - start);
+      return this.errorResult("service_unavailable", "Minecraft bot is not ready", requestId, start);
+    }
+
+    // 原请求已经响应，进度无法再关联到它的 progressToken，改为通过任务资源的更新通知推送
+    const job = this.jobManager.start(
+      name,
+      params,
+      (context) => run ? run(bot, context) : this.deps.actionExecutor.queueAction(name, bot, params as any, undefined, 600_000, context),
+      (updated) => this.notifyResourcesUpdated([this.jobResourceUri(updated.id)])
+    );
+    this.logToolInvocation(name, requestId, params, true, undefined, Date.now() - start);
+    return this.okResult({ job_id: job.id, action: name, status: job.status, resource_uri: this.jobResourceUri(job.id) }, requestId, start);
+  }
+
   /**
    * 包装Minecraft动作并返回MCP结果
    * @param name 动作名称
    * @param params 动作参数
+   * @param extra MCP 请求上下文
+   * @param run 自定义执行函数（可选），缺省通过动作队列执行
    * @returns 
    */
-  private async wrapAction(name: string, params: Record<string, unknown>) {
+  private async wrapAction(name: string, params: Record<string, unknown>, extra?: ToolRequestExtra, run?: ActionRunner) {
     const requestId = randomUUID();
     const start = Date.now();
     try {
@@ -153,13 +854,12 @@ export class MaicraftMcpServer {
         this.logToolInvocation(name, requestId, params, false, "service_unavailable", Date.now() - start);
         return this.errorResult("service_unavailable", "Minecraft bot is not ready", requestId, start);
       }
-      const result = await this.deps.actionExecutor.execute(name, bot, params as any, 600_000);
-      const mappedError = !result.success && result.error === 'TIMEOUT' ? 'execution_timeout' : (result.success ? undefined : result.error ?? 'execution_error');
+      const context = this.createActionContext(extra);
+      const result = run
+        ? await run(bot, context)
+        : await this.deps.actionExecutor.queueAction(name, bot, params as any, undefined, 600_000, context);
       const content = {
-        ok: Boolean(result.success),
-        data: result.success ? (result.data ?? { message: result.message }) : undefined,
-        error_code: result.success ? undefined : mappedError,
-        error_message: result.success ? undefined : result.message,
+        ...this.mapActionResult(result),
         request_id: requestId,
         elapsed_ms: Date.now() - start,
       };
@@ -172,6 +872,43 @@ export class MaicraftMcpServer {
     }
   }
 
+  /**
+   * 将动作结果映射为工具返回的 ok/data/error 字段
+   */
+  private mapActionResult(result: ActionResult) {
+    const errorCodeMap: Record<string, string> = { TIMEOUT: 'execution_timeout', CANCELLED: 'cancelled', PREEMPTED: 'preempted' };
+    const mappedError = result.success ? undefined : (errorCodeMap[result.error ?? ''] ?? result.error ?? 'execution_error');
+    return {
+      ok: Boolean(result.success),
+      data: result.success ? (result.data ?? { message: result.message }) : result.data,
+      error_code: result.success ? undefined : mappedError,
+      error_message: result.success ? undefined : result.message,
+    };
+  }
+
+  private jobResourceUri(jobId: string): string {
+    return JOB_RESOURCE_TEMPLATE.replace('{job_id}', jobId);
+  }
+
+  private describeJob(job: ActionJob, includeResult: boolean) {
+    return {
+      job_id: job.id,
+      action: job.actionName,
+      status: job.status,
+      progress: job.progress,
+      created_at: job.createdAt,
+      finished_at: job.finishedAt,
+      elapsed_ms: (job.finishedAt ?? Date.now()) - job.createdAt,
+      params: includeResult ? this.summarizeParams(job.params) : undefined,
+      result: includeResult && job.result ? this.mapActionResult(job.result) : undefined,
+    };
+  }
+
+  private okResult(data: unknown, requestId: string, start: number) {
+    const json = { ok: true, data, request_id: requestId, elapsed_ms: Date.now() - start };
+    return { content: [{ type: "text", text: JSON.stringify(json) }], structuredContent: json };
+  }
+
   private errorResult(code: string, message: string, requestId: string, start: number) {
     const json = { ok: false, error_code: code, error_message: message, request_id: requestId, elapsed_ms: Date.now() - start };
     return { content: [{ type: "text", text: JSON.stringify(json) }], structuredContent: json };
@@ -1,6 +1,7 @@
 import { Bot } from 'mineflayer';
-import { ActionRegistry, GameAction, BaseActionParams, ActionResult, McpToolSpec, BaseAction } from './ActionInterface.js';
+import { ActionRegistry, GameAction, BaseActionParams, ActionResult, McpToolSpec, BaseAction, ActionContext, ActionConcurrency } from './ActionInterface.js';
 import { Logger } from '../utils/Logger.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath, pathToFileURL } from 'url';
@@ -15,14 +16,51 @@ export interface ActionInfo {
 interface QueuedAction {
   id: string;
   name: string;
+  bot: Bot;
   params: BaseActionParams;
   priority: number;
   timeout?: number;
+  context?: ActionContext;
   timestamp: number;
   resolve: (result: ActionResult) => void;
   reject: (error: Error) => void;
 }
 
+// 正在执行的动作
+export interface RunningActionInfo {
+  id: string;
+  name: string;
+  params: BaseActionParams;
+  concurrency: ActionConcurrency;
+  priority: number;
+  startedAt: number;
+}
+
+// 排队等待的动作
+export interface QueuedActionInfo {
+  id: string;
+  name: string;
+  priority: number;
+  queuedAt: number;
+}
+
+// 队列状态
+export interface QueueStatus {
+  length: number;
+  isProcessing: boolean;
+  running: RunningActionInfo[];
+  queued: QueuedActionInfo[];
+}
+
+interface RunningAction extends RunningActionInfo {
+  controller: AbortController;
+  /** 动作的 execute() 真正结束（无论成功与否）时完成 */
+  settled: Promise<void>;
+}
+
+// 取消后等待动作响应取消信号的最长时间，超过后先向调用方返回，队列仍会等到动作真正结束
+const ABORT_GRACE_MS = 5000;
+
 /**
  * 动作执行器
  * 负责管理和执行所有高级动作
@@ -31,11 +69,12 @@ export class ActionExecutor implements ActionRegistry {
   private actions: Map<string, GameAction> = new Map();
   private defaultTimeout = 600000; // 10分钟默认超时
   private actionQueue: QueuedAction[] = [];
-  private isProcessingQueue = false;
-  private maxConcurrentActions = 1; // 当前限制为串行执行
+  // 当前正在执行的 exclusive 动作，同一时间只有一个
+  private activeExclusive: QueuedAction | null = null;
   private isCancelled = false;
   private logger = new Logger('ActionExecutor');
   private discoveredMcpTools: McpToolSpec[] = [];
+  private runningActions: Map<string, RunningAction> = new Map();
 
   /**
    * 注册动作
@@ -196,14 +235,27 @@ export class ActionExecutor implements ActionRegistry {
   }
 
   /**
-   * 将动作添加到队列
+   * 获取动作的并发类别，未声明时 query 开头的动作为 parallel
+   */
+  getConcurrency(name: string): ActionConcurrency {
+    const action = this.actions.get(name);
+    if (action?.concurrency) return action.concurrency;
+    return name.toLowerCase().startsWith('query') ? 'parallel' : 'exclusive';
+  }
+
+  /**
+   * 将动作添加到队列（所有工具调用的入口）
+   * parallel 动作直接执行；exclusive 动作按优先级排队，依次执行。
+   * 更高优先级的动作入队时会抢占正在执行的 exclusive 动作。
+   * @param priority 优先级，缺省使用动作声明的默认优先级
    */
   async queueAction(
     name: string, 
     bot: Bot, 
     params: BaseActionParams, 
-    priority: number = 0,
-    timeout?: number
+    priority?: number,
+    timeout?: number,
+    context?: ActionContext
   ): Promise<ActionResult> {
     if (this.isCancelled) {
       return Promise.resolve({
@@ -212,67 +264,114 @@ export class ActionExecutor implements ActionRegistry {
         error: 'CANCELLED'
       });
     }
+
+    const action = this.actions.get(name);
+    const finalPriority = priority ?? action?.priority ?? 0;
+    if (!action || this.getConcurrency(name) === 'parallel') {
+      return this.executeAction(name, bot, params, timeout, context, finalPriority);
+    }
+    if (context?.signal?.aborted) {
+      return this.createCancelledResult(name);
+    }
+
     return new Promise<ActionResult>((resolve, reject) => {
       const queuedAction: QueuedAction = {
         id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         name,
+        bot,
         params,
-        priority,
+        priority: finalPriority,
         timeout,
+        context,
         timestamp: Date.now(),
         resolve,
         reject
       };
 
+      // 排队期间被调用方取消，直接出队
+      context?.signal?.addEventListener('abort', () => {
+        if (this.removeFromQueue(queuedAction.id)) {
+          resolve(this.createCancelledResult(name));
+        }
+      }, { once: true });
+
       // 按优先级插入队列
-      const insertIndex = this.actionQueue.findIndex(item => item.priority < priority);
+      const insertIndex = this.actionQueue.findIndex(item => item.priority < finalPriority);
       if (insertIndex === -1) {
         this.actionQueue.push(queuedAction);
       } else {
         this.actionQueue.splice(insertIndex, 0, queuedAction);
       }
 
+      // 抢占优先级更低的正在执行动作
+      const active = this.activeExclusive;
+      if (active && finalPriority > active.priority) {
+        this.logger.info(`动作 ${name} (优先级 ${finalPriority}) 抢占正在执行的 ${active.name} (优先级 ${active.priority})`);
+        this.cancel(active.id, 'PREEMPTED');
+      }
+
       // 开始处理队列
-      this.processQueue(bot);
+      this.processQueue();
     });
   }
 
   /**
-   * 处理动作队列
+   * 处理动作队列：当前没有 exclusive 动作执行时取出下一个
    */
-  private async processQueue(bot: Bot): Promise<void> {
-    if (this.isProcessingQueue || this.actionQueue.length === 0) {
+  private processQueue(): void {
+    if (this.activeExclusive || this.actionQueue.length === 0) {
       return;
     }
 
-    this.isProcessingQueue = true;
-
-    while (this.actionQueue.length > 0) {
-      if (this.isCancelled) {
-        // 拒绝余下任务
-        while (this.actionQueue.length > 0) {
-          const pending = this.actionQueue.shift()!;
-          pending.reject(new Error('队列已被取消'));
+    const queuedAction = this.actionQueue.shift()!;
+    this.activeExclusive = queuedAction;
+
+    this.executeAction(queuedAction.name, queuedAction.bot, queuedAction.params, queuedAction.timeout, queuedAction.context, queuedAction.priority, queuedAction.id)
+      .then(result => queuedAction.resolve(result))
+      .catch(error => queuedAction.reject(error instanceof Error ? error : new Error(String(error))))
+      .finally(async () => {
+        // 取消后调用方可能已经拿到结果，但动作本身仍在运行时继续占用 exclusive 槽位
+        await this.runningActions.get(queuedAction.id)?.settled;
+        this.activeExclusive = null;
+        if (this.isCancelled) {
+          this.clearQueue();
+          return;
         }
-        break;
-      }
-      const queuedAction = this.actionQueue.shift()!;
-      
-      try {
-        const result = await this.executeAction(queuedAction.name, bot, queuedAction.params, queuedAction.timeout);
-        queuedAction.resolve(result);
-      } catch (error) {
-        queuedAction.reject(error instanceof Error ? error : new Error(String(error)));
-      }
-    }
+        this.processQueue();
+      });
+  }
 
-    this.isProcessingQueue = false;
+  /**
+   * 从队列中移除动作
+   * @returns 是否找到并移除
+   */
+  private removeFromQueue(id: string): boolean {
+    const index = this.actionQueue.findIndex(item => item.id === id);
+    if (index === -1) return false;
+    this.actionQueue.splice(index, 1);
+    return true;
+  }
+
+  private createCancelledResult(name: string): ActionResult {
+    return {
+      success: false,
+      message: `动作 ${name} 已被取消`,
+      error: 'CANCELLED'
+    };
   }
 
   /**
    * 执行单个动作（内部方法）
    */
-  private async executeAction(name: string, bot: Bot, params: BaseActionParams, timeout?: number): Promise<ActionResult> {
+  private async executeAction(
+    name: string,
+    bot: Bot,
+    params: BaseActionParams,
+    timeout?: number,
+    context?: ActionContext,
+    priority: number = 0,
+    id?: string
+  ): Promise<ActionResult> {
     const action = this.actions.get(name);
     
     if (!action) {
@@ -300,13 +399,7 @@ export class ActionExecutor implements ActionRegistry {
         this.logger.info(`执行高级动作: ${name}`, JSON.stringify(params));
       }
       const timeoutMs = timeout || this.defaultTimeout;
-      
-      const result = await Promise.race([
-        action.execute(bot, params),
-        new Promise<ActionResult>((_, reject) => 
-          setTimeout(() => reject(new Error(`动作 ${name} 执行超时 (${timeoutMs}ms)`)), timeoutMs)
-        )
-      ]);
+      const result = await this.runWithAbort(action, bot, params, timeoutMs, context, priority, id);
       
       if(!name.toLocaleLowerCase().startsWith('query')){
         // 临时屏蔽query开头的动作的日志，以免maicraft agent调用本项目时，webui刷屏
@@ -316,6 +409,22 @@ export class ActionExecutor implements ActionRegistry {
     } catch (error) {
       this.logger.error(`执行动作 ${name} 时发生错误:`, error);
       
+      // 检查是否是取消错误
+      if (AbortUtils.isAbortError(error) && (error as any).reason === 'PREEMPTED') {
+        return {
+          success: false,
+          message: `动作 ${name} 被更高优先级的动作抢占`,
+          error: 'PREEMPTED'
+        };
+      }
+      if (AbortUtils.isAbortError(error)) {
+        return {
+          success: false,
+          message: error instanceof Error ? error.message : String(error),
+          error: 'CANCELLED'
+        };
+      }
+
       // 检查是否是超时错误
       if (error instanceof Error && error.message.includes('超时')) {
         return {
@@ -334,22 +443,145 @@ export class ActionExecutor implements ActionRegistry {
   }
 
   /**
-   * 执行动作（带超时机制）
+   * 带取消信号执行动作：超时、调用方取消或 cancel() 时触发 signal。
+   * exclusive 动作被取消时会停止 bot 当前活动；取消后等待动作响应信号结束再返回（最多 ABORT_GRACE_MS），
+   * 动作记录保留到 execute() 真正结束，避免下一个动作与它同时控制 bot
    */
-  async execute(name: string, bot: Bot, params: BaseActionParams, timeout?: number): Promise<ActionResult> {
-    return this.executeAction(name, bot, params, timeout);
+  private async runWithAbort(
+    action: GameAction,
+    bot: Bot,
+    params: BaseActionParams,
+    timeoutMs: number,
+    context: ActionContext | undefined,
+    priority: number,
+    id?: string
+  ): Promise<ActionResult> {
+    // 调用方的取消信号（如 MCP notifications/cancelled）
+    if (context?.signal?.aborted) {
+      throw AbortUtils.createAbortError(context.signal.reason);
+    }
+
+    const controller = new AbortController();
+    const concurrency = this.getConcurrency(action.name);
+    const execution = action.execute(bot, params, {
+      reportProgress: (progress) => context?.reportProgress(progress),
+      signal: controller.signal
+    });
+    const settled = execution.then(() => {}, () => {});
+    const running: RunningAction = {
+      id: id ?? `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: action.name,
+      params,
+      concurrency,
+      priority,
+      startedAt: Date.now(),
+      controller,
+      settled
+    };
+    this.runningActions.set(running.id, running);
+    settled.then(() => this.runningActions.delete(running.id));
+
+    const onCallerAbort = () => controller.abort(context?.signal?.reason ?? 'CANCELLED');
+    context?.signal?.addEventListener('abort', onCallerAbort, { once: true });
+    const timer = setTimeout(() => controller.abort('TIMEOUT'), timeoutMs);
+
+    // 取消后等待动作结束，超过宽限时间仍未结束时不再等待
+    const aborted = new Promise<void>((resolve) => {
+      controller.signal.addEventListener('abort', () => {
+        // parallel 动作（查询）不控制 bot，不能打断正在执行的 exclusive 动作
+        if (concurrency === 'exclusive') {
+          AbortUtils.stopBotActivity(bot);
+        }
+        const grace = setTimeout(() => {
+          this.logger.warn(`动作 ${action.name} 在取消 ${ABORT_GRACE_MS}ms 后仍未结束，请检查动作是否响应 context.signal`);
+          resolve();
+        }, ABORT_GRACE_MS);
+        settled.then(() => {
+          clearTimeout(grace);
+          resolve();
+        });
+      }, { once: true });
+    });
+
+    try {
+      const result = await Promise.race([execution, aborted]);
+      if (!controller.signal.aborted) return result as ActionResult;
+    } catch (error) {
+      if (!controller.signal.aborted) throw error;
+    } finally {
+      clearTimeout(timer);
+      context?.signal?.removeEventListener('abort', onCallerAbort);
+    }
+
+    // 被取消的动作无论自身返回什么，都按取消原因报告
+    if (controller.signal.reason === 'TIMEOUT') {
+      throw new Error(`动作 ${action.name} 执行超时 (${timeoutMs}ms)`);
+    }
+    throw AbortUtils.createAbortError(controller.signal.reason);
+  }
+
+  /**
+   * 获取正在执行的动作
+   */
+  getRunningActions(): RunningActionInfo[] {
+    return Array.from(this.runningActions.values()).map(({ controller, ...info }) => info);
+  }
+
+  /**
+   * 取消正在执行的动作
+   * @param id 动作执行ID
+   * @returns 是否找到并取消
+   */
+  cancel(id: string, reason: string = 'CANCELLED'): boolean {
+    const running = this.runningActions.get(id);
+    if (!running) return false;
+    this.logger.info(`取消动作: ${running.name} (${id})`);
+    running.controller.abort(reason);
+    return true;
+  }
+
+  /**
+   * 取消所有正在执行和排队中的动作（可按动作名过滤），不影响之后的请求
+   * @returns 被取消的动作
+   */
+  cancelRunning(name?: string): Array<RunningActionInfo | QueuedActionInfo> {
+    const queued = this.actionQueue.filter(item => !name || item.name === name);
+    for (const item of queued) {
+      this.removeFromQueue(item.id);
+      item.resolve(this.createCancelledResult(item.name));
+    }
+
+    const running = this.getRunningActions().filter(info => !name || info.name === name);
+    for (const info of running) {
+      this.cancel(info.id);
+    }
+    return [...running, ...queued.map(item => this.toQueuedInfo(item))];
+  }
+
+  /**
+   * 直接执行动作（带超时机制），不经过队列。
+   * 工具调用应使用 queueAction，避免多个动作同时控制 bot。
+   */
+  async execute(name: string, bot: Bot, params: BaseActionParams, timeout?: number, context?: ActionContext): Promise<ActionResult> {
+    return this.executeAction(name, bot, params, timeout, context);
   }
 
   /**
    * 获取队列状态
    */
-  getQueueStatus(): { length: number; isProcessing: boolean } {
+  getQueueStatus(): QueueStatus {
     return {
       length: this.actionQueue.length,
-      isProcessing: this.isProcessingQueue
+      isProcessing: this.activeExclusive !== null,
+      running: this.getRunningActions(),
+      queued: this.actionQueue.map(item => this.toQueuedInfo(item))
     };
   }
 
+  private toQueuedInfo(item: QueuedAction): QueuedActionInfo {
+    return { id: item.id, name: item.name, priority: item.priority, queuedAt: item.timestamp };
+  }
+
   /**
    * 清空动作队列
    */
@@ -362,12 +594,12 @@ export class ActionExecutor implements ActionRegistry {
   }
 
   /**
-   * 取消所有动作（包含队列与未来请求）。
-   * 正在执行的动作无法强制中断，但将尽快返回。
+   * 取消所有动作（包含队列、正在执行的动作与未来请求）。
    */
   cancelAll(): void {
     this.isCancelled = true;
     this.clearQueue();
+    this.cancelRunning();
   }
 
   /**
@@ -19,13 +19,50 @@ export interface ActionResult {
   error?: string;
 }
 
+/**
+ * 动作执行进度
+ */
+export interface ActionProgress {
+  /** 当前进度（例如已挖掘的方块数、已移动的距离） */
+  progress: number;
+  /** 总量（可选，未知时省略） */
+  total?: number;
+  /** 进度描述 */
+  message?: string;
+}
+
+/**
+ * 动作执行上下文，由调用方（如 MCP 服务器）按需提供
+ */
+export interface ActionContext {
+  /** 报告执行进度 */
+  reportProgress(progress: ActionProgress): void;
+  /**
+   * 取消信号，动作被取消、抢占或超时时触发。
+   * 动作必须响应它：在循环和等待中调用 AbortUtils.throwIfAborted / AbortUtils.sleep，并传给 MovementUtils.moveTo 等工具函数。
+   * 执行器会等到 execute() 真正结束才开始下一个 exclusive 动作，不响应取消的动作会阻塞队列
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * 动作并发类别
+ * - parallel: 只读动作（如查询），可与其他动作同时执行
+ * - exclusive: 会控制 bot 的动作（移动、背包、战斗等），同一时间只能执行一个
+ */
+export type ActionConcurrency = 'parallel' | 'exclusive';
+
 /**
  * 游戏动作接口
  */
 export interface GameAction<T extends BaseActionParams = BaseActionParams> {
   name: string;
   description: string;
-  execute(bot: Bot, params: T): Promise<ActionResult>;
+  /** 并发类别，缺省时 query 开头的动作为 parallel，其余为 exclusive */
+  concurrency?: ActionConcurrency;
+  /** 默认队列优先级，缺省为 0；更高优先级的动作会抢占正在执行的 exclusive 动作 */
+  priority?: number;
+  execute(bot: Bot, params: T, context?: ActionContext): Promise<ActionResult>;
   validateParams(params: T): boolean;
   getParamsSchema(): Record<string, string>;
 }
@@ -35,7 +72,7 @@ export interface GameAction<T extends BaseActionParams = BaseActionParams> {
  */
 export interface ActionRegistry {
   register(action: GameAction): void;
-  execute(name: string, bot: Bot, params: BaseActionParams, timeout?: number): Promise<ActionResult>;
+  execute(name: string, bot: Bot, params: BaseActionParams, timeout?: number, context?: ActionContext): Promise<ActionResult>;
   getRegisteredActions(): string[];
   getActionInfo(name: string): { description: string; params: Record<string, string> } | null;
   getAllActionsInfo(): Record<string, { description: string; params: Record<string, string> }>;
@@ -69,6 +106,10 @@ export interface McpToolSpec {
 export abstract class BaseAction<T extends BaseActionParams = BaseActionParams> implements GameAction<T> {
   abstract name: string;
   abstract description: string;
+  /** 并发类别（可选） */
+  concurrency?: ActionConcurrency;
+  /** 默认队列优先级（可选） */
+  priority?: number;
   private _logger?: Logger;
 
   /**
@@ -89,7 +130,7 @@ export abstract class BaseAction<T extends BaseActionParams = BaseActionParams>
   /**
    * 执行动作
    */
-  abstract execute(bot: Bot, params: T): Promise<ActionResult>;
+  abstract execute(bot: Bot, params: T, context?: ActionContext): Promise<ActionResult>;
 
   /**
    * 验证参数
@@ -132,11 +173,12 @@ export abstract class BaseAction<T extends BaseActionParams = BaseActionParams>
   /**
    * 创建失败结果
    */
-  protected createErrorResult(message: string, error: string): ActionResult {
+  protected createErrorResult(message: string, error: string, data?: any): ActionResult {
     return {
       success: false,
       message,
-      error
+      error,
+      data
     };
   }
 
@@ -209,9 +251,11 @@ export function defineAction<T extends BaseActionParams>(opts: {
   name: string;
   description: string;
   schema?: z.ZodTypeAny;
-  execute: (bot: Bot, params: T) => Promise<ActionResult>;
+  concurrency?: ActionConcurrency;
+  priority?: number;
+  execute: (bot: Bot, params: T, context?: ActionContext) => Promise<ActionResult>;
 }): GameAction<T> & { getMcpTools(): McpToolSpec[] } {
-  const { name, description, schema, execute } = opts;
+  const { name, description, schema, concurrency, priority, execute } = opts;
   const toSnake = (s: string) => s
     .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
     .replace(/\s+/g, '_')
@@ -220,8 +264,10 @@ export function defineAction<T extends BaseActionParams>(opts: {
   return {
     name,
     description,
-    async execute(bot: Bot, params: T) {
-      return execute(bot, params);
+    concurrency,
+    priority,
+    async execute(bot: Bot, params: T, context?: ActionContext) {
+      return execute(bot, params, context);
     },
     validateParams(params: T): boolean {
       if (!schema) return true;
@@ -1,4 +1,4 @@
-import { GameEvent, GameEventType } from './GameEvent.js';
+import { GameEvent, GameEventListener, GameEventType } from './GameEvent.js';
 import { Logger } from '../utils/Logger.js';
 import { Bot } from 'mineflayer';
 import { DebugCommandHandler } from '../utils/DebugCommandHandler.js';
@@ -20,6 +20,7 @@ export class EventManager {
   private debugCommandHandler: DebugCommandHandler | null = null;
   private chatFilterManager: ChatFilterManager | null = null;
   private eventHandlers: BaseEventHandler[] = [];
+  private listeners: Set<GameEventListener> = new Set();
 
   constructor(maxEvents: number = 1000, debugCommandsConfig?: DebugCommandsConfig, chatFiltersConfig?: ChatFiltersConfig) {
     this.maxEvents = maxEvents;
@@ -51,6 +52,29 @@ export class EventManager {
     }
     
     this.logger.debug(`添加事件: ${event.type} (总计: ${this.events.length})`);
+
+    // 通知订阅者，单个订阅者出错不影响其他订阅者
+    for (const listener of this.listeners) {
+      try {
+        const ret = listener(event);
+        if (ret && typeof (ret as Promise<void>).catch === 'function') {
+          (ret as Promise<void>).catch((error) => this.logger.error('事件订阅者处理失败:', error));
+        }
+      } catch (error) {
+        this.logger.error('事件订阅者处理失败:', error);
+      }
+    }
+  }
+
+  /**
+   * 订阅新添加的事件
+   * @returns 取消订阅函数
+   */
+  onEvent(listener: GameEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
   /**
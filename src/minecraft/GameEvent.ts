@@ -160,6 +160,38 @@ export interface ItemDropEvent extends BaseGameEvent {
   };
 }
 
+export interface ItemCaughtEvent extends BaseGameEvent {
+  type: 'itemCaught';
+  data: {
+    item: ItemInfo & {
+      enchantments?: Array<{ name: string; level: number }>; // 附魔（钓到附魔书或附魔装备时）
+    }; // 钓到的物品
+    position?: Position; // 钓鱼时机器人所在位置
+  };
+}
+
+export interface InventoryFullEvent extends BaseGameEvent {
+  type: 'inventoryFull';
+  data: {
+    totalSlots: number; // 主物品栏槽位总数
+    consolidatableSlots: number; // 合并未满的相同物品后可空出的槽位数
+    junk: Array<{ name: string; count: number; slots: number }>; // 背包中的杂物
+    position?: Position; // 物品栏满时机器人所在位置
+  };
+}
+
+export interface ReflexEvent extends BaseGameEvent {
+  type: 'reflex';
+  data: {
+    reflex: 'eat' | 'fight' | 'flee' | 'swim' | 'extinguish'; // 触发的反射
+    reason: string; // 触发原因
+    success: boolean; // 是否成功
+    message: string; // 处理结果
+    target?: EntityInfo; // 反击或逃离的目标
+    durationMs: number; // 处理耗时
+  };
+}
+
 export interface ForcedMoveEvent extends BaseGameEvent {
   type: 'forcedMove';
   data: {
@@ -198,6 +230,9 @@ export type GameEvent =
   | EntityDeathEvent
   | PlayerCollectEvent
   | ItemDropEvent
+  | ItemCaughtEvent
+  | InventoryFullEvent
+  | ReflexEvent
   | ForcedMoveEvent
   | EndEvent
   | ErrorEvent;
@@ -218,6 +253,9 @@ export enum GameEventType {
   ENTITY_DEATH = 'entityDead',
   PLAYER_COLLECT = 'playerCollect',
   ITEM_DROP = 'itemDrop',
+  ITEM_CAUGHT = 'itemCaught',
+  INVENTORY_FULL = 'inventoryFull',
+  REFLEX = 'reflex',
   FORCED_MOVE = 'forcedMove',
   END = 'end',
   ERROR = 'error'
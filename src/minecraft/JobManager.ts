@@ -0,0 +1,162 @@
+import { randomUUID } from 'crypto';
+import { ActionContext, ActionProgress, ActionResult, BaseActionParams } from './ActionInterface.js';
+import { Logger } from '../utils/Logger.js';
+
+export type JobStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * 异步执行的动作任务
+ */
+export interface ActionJob {
+  id: string;
+  actionName: string;
+  params: BaseActionParams;
+  status: JobStatus;
+  /** 最近一次上报的进度 */
+  progress?: ActionProgress;
+  /** 执行结果（任务结束后才有） */
+  result?: ActionResult;
+  createdAt: number;
+  finishedAt?: number;
+}
+
+export interface JobManagerOptions {
+  /** 已结束任务的保留时间（毫秒），默认 10 分钟 */
+  retentionMs?: number;
+  /** 最多保留的任务数量，超出时优先清理最早结束的任务，默认 100 */
+  maxJobs?: number;
+}
+
+/**
+ * 任务管理器
+ * 负责长耗时动作的异步执行、进度记录和结果保留
+ */
+export class JobManager {
+  private jobs: Map<string, ActionJob> = new Map();
+  private controllers: Map<string, AbortController> = new Map();
+  private retentionMs: number;
+  private maxJobs: number;
+  private logger = new Logger('JobManager');
+
+  constructor(options: JobManagerOptions = {}) {
+    this.retentionMs = options.retentionMs ?? 600000;
+    this.maxJobs = options.maxJobs ?? 100;
+  }
+
+  /**
+   * 启动一个任务，立即返回任务信息
+   * @param run 实际执行函数，通过 context 上报进度
+   * @param onUpdate 任务更新回调（可选），在进度更新和任务结束后调用
+   */
+  start(
+    actionName: string,
+    params: BaseActionParams,
+    run: (context: ActionContext) => Promise<ActionResult>,
+    onUpdate?: (job: ActionJob) => void
+  ): ActionJob {
+    this.cleanup();
+
+    const job: ActionJob = {
+      id: `job_${randomUUID()}`,
+      actionName,
+      params,
+      status: 'running',
+      createdAt: Date.now(),
+    };
+    this.jobs.set(job.id, job);
+
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+
+    const context: ActionContext = {
+      reportProgress: (progress) => {
+        job.progress = progress;
+        onUpdate?.(job);
+      },
+      signal: controller.signal,
+    };
+
+    run(context)
+      .then((result) => {
+        job.result = result;
+        job.status = result.success ? 'succeeded' : (result.error === 'CANCELLED' ? 'cancelled' : 'failed');
+      })
+      .catch((error) => {
+        job.result = {
+          success: false,
+          message: error instanceof Error ? error.message : String(error),
+          error: 'EXECUTION_ERROR'
+        };
+        job.status = 'failed';
+      })
+      .finally(() => {
+        this.controllers.delete(job.id);
+        job.finishedAt = Date.now();
+        this.logger.info(`任务 ${job.id} (${actionName}) 已结束: ${job.status}`);
+        onUpdate?.(job);
+      });
+
+    this.logger.info(`已创建任务 ${job.id}: ${actionName}`);
+    return job;
+  }
+
+  /**
+   * 取消运行中的任务
+   * @returns 是否找到并取消
+   */
+  cancel(id: string): boolean {
+    const controller = this.controllers.get(id);
+    if (!controller) return false;
+    this.logger.info(`取消任务 ${id}`);
+    controller.abort('CANCELLED');
+    return true;
+  }
+
+  /**
+   * 获取任务
+   */
+  get(id: string): ActionJob | undefined {
+    this.cleanup();
+    return this.jobs.get(id);
+  }
+
+  /**
+   * 列出任务（按创建时间倒序）
+   */
+  list(status?: JobStatus): ActionJob[] {
+    this.cleanup();
+    const jobs = Array.from(this.jobs.values());
+    return (status ? jobs.filter(job => job.status === status) : jobs)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * 清理过期任务，运行中的任务不会被清理
+   */
+  cleanup(): number {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const [id, job] of this.jobs) {
+      if (job.finishedAt !== undefined && now - job.finishedAt > this.retentionMs) {
+        this.jobs.delete(id);
+        removed++;
+      }
+    }
+
+    if (this.jobs.size > this.maxJobs) {
+      const finished = Array.from(this.jobs.values())
+        .filter(job => job.finishedAt !== undefined)
+        .sort((a, b) => a.finishedAt! - b.finishedAt!);
+      while (this.jobs.size > this.maxJobs && finished.length > 0) {
+        this.jobs.delete(finished.shift()!.id);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      this.logger.debug(`清理了 ${removed} 个过期任务`);
+    }
+    return removed;
+  }
+}
@@ -4,12 +4,17 @@ import { createRequire } from 'module';
 import { Logger, LoggingConfig } from '../utils/Logger.js';
 import { GameEvent, GameEventType, PlayerInfo, Position } from './GameEvent.js';
 import { EventManager } from './EventManager.js';
+import { WorldMemory } from './WorldMemory.js';
+import { WaypointStore } from './WaypointStore.js';
+import { DEFAULT_JUNK_ITEMS } from '../utils/InventoryUtils.js';
+import { MinecraftUtils } from '../utils/MinecraftUtils.js';
 import { plugin as pvpPlugin } from 'mineflayer-pvp';
 import { pathfinder as pathfinderPlugin, Movements } from 'mineflayer-pathfinder-mai';
 import { plugin as toolPlugin } from 'mineflayer-tool';
 import { plugin as collectblockPlugin } from 'mineflayer-collectblock-colalab';
 import armorManager from "mineflayer-armor-manager";
-import type { DebugCommandsConfig, ChatFiltersConfig } from '../config.js';
+import path from 'path';
+import type { DebugCommandsConfig, ChatFiltersConfig, WorldMemoryConfig, WaypointsConfig, SchematicsConfig, InventoryConfig } from '../config.js';
 
 export interface MinecraftClientOptions {
   host: string;
@@ -32,6 +37,14 @@ export interface MinecraftClientOptions {
   debugCommands?: DebugCommandsConfig;
   // 聊天过滤配置
   chatFilters?: ChatFiltersConfig;
+  // 世界记忆配置
+  memory?: WorldMemoryConfig;
+  // 路径点配置
+  waypoints?: WaypointsConfig;
+  // 蓝图配置
+  schematics?: SchematicsConfig;
+  // 物品栏管理配置
+  inventory?: InventoryConfig;
 }
 
 export interface MinecraftClientEvents {
@@ -69,6 +82,8 @@ export class MinecraftClient extends EventEmitter {
   private logger: Logger;
   private isConnected = false;
   private eventManager: EventManager; // 事件管理器
+  private worldMemory: WorldMemory; // 世界记忆（按服务器持久化）
+  private waypointStore: WaypointStore; // 命名路径点（按服务器持久化）
   // 重连相关属性
   private reconnectTimer: NodeJS.Timeout | null = null;
   private reconnectAttempts = 0;
@@ -90,6 +105,19 @@ export class MinecraftClient extends EventEmitter {
     };
     this.logger = Logger.fromConfig('MinecraftClient', options.logging || {});
     this.eventManager = new EventManager(1000, options.debugCommands, options.chatFilters); // 初始化事件管理器，最多存储1000个事件
+    this.eventManager.onEvent((event) => {
+      this.emit('gameEvent', event);
+    });
+
+    const memoryConfig = options.memory ?? {};
+    const serverId = `${options.host}_${options.port}`.replace(/[^a-zA-Z0-9._-]/g, '_');
+    this.worldMemory = new WorldMemory({
+      enabled: memoryConfig.enabled,
+      filePath: path.resolve(memoryConfig.dir ?? 'data/memory', `${serverId}.json`),
+      scanIntervalMs: memoryConfig.scanIntervalMs,
+      scanRadius: memoryConfig.scanRadius,
+    });
+    this.waypointStore = new WaypointStore(path.resolve(options.waypoints?.dir ?? 'data/waypoints', `${serverId}.json`));
   }
 
   /**
@@ -225,6 +253,16 @@ export class MinecraftClient extends EventEmitter {
           this.bot!.collectBlock.movements = defaultMove;
 
           this.bot!.armorManager.equipAll(); // 装备所有护甲
+          this.worldMemory.attach(this.bot!); // 开始记录观察到的方块
+
+          // 重生点重置时更新 home 路径点（重生锚等重生点可以在其他维度）
+          this.bot!.on('spawnReset', () => {
+            const spawnPoint = this.bot?.spawnPoint;
+            if (spawnPoint) {
+              this.waypointStore.set('home', spawnPoint, MinecraftUtils.getDimension(this.bot!), '重生点');
+              this.logger.info(`重生点已重置，home 路径点更新为 (${spawnPoint.x}, ${spawnPoint.y}, ${spawnPoint.z})`);
+            }
+          });
 
           resolve();
         });
@@ -259,6 +297,8 @@ export class MinecraftClient extends EventEmitter {
       // 先设置断开标志，防止重连
       this.isConnected = false;
       
+      this.worldMemory.detach();
+
       // 优雅断开连接
       this.bot.quit('客户端断开连接');
       
@@ -413,6 +453,34 @@ export class MinecraftClient extends EventEmitter {
     return this.eventManager;
   }
 
+  /**
+   * 获取世界记忆
+   */
+  getWorldMemory(): WorldMemory {
+    return this.worldMemory;
+  }
+
+  /**
+   * 获取路径点存储
+   */
+  getWaypointStore(): WaypointStore {
+    return this.waypointStore;
+  }
+
+  /**
+   * 获取蓝图文件目录
+   */
+  getSchematicsDir(): string {
+    return path.resolve(this.options.schematics?.dir ?? 'schematics');
+  }
+
+  /**
+   * 获取杂物列表（未配置时使用默认列表）
+   */
+  getJunkItems(): string[] {
+    return this.options.inventory?.junkItems ?? DEFAULT_JUNK_ITEMS;
+  }
+
   /**
    * 获取聊天过滤管理器
    */
@@ -442,6 +510,7 @@ export class MinecraftClient extends EventEmitter {
 
     this.bot.on('end', () => {
       this.isConnected = false;
+      this.worldMemory.detach();
       this.logger.info('Minecraft 连接已结束');
       this.emit('end');
 
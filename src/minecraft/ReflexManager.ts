@@ -0,0 +1,304 @@
+import { Bot } from 'mineflayer';
+import { Entity } from 'prismarine-entity';
+import { Item } from 'prismarine-item';
+import { Vec3 } from 'vec3';
+import { Logger } from '../utils/Logger.js';
+import { MinecraftUtils } from '../utils/MinecraftUtils.js';
+import { recommendFood, getFoodInfo } from '../utils/FoodUtils.js';
+import type { ReflexesConfig } from '../config.js';
+import type { ActionExecutor } from './ActionExecutor.js';
+import type { MinecraftClient } from './MinecraftClient.js';
+import { GameEventType, ReflexEvent } from './GameEvent.js';
+
+type ReflexType = ReflexEvent['data']['reflex'];
+
+/**
+ * 反射触发的动作使用的优先级。agent 调用的工具使用动作声明的默认优先级：普通动作 0，kill_mob / defend 50，swim_to_land 100。
+ * 反射高于 agent 的普通动作和战斗动作（agent 战斗时不触发反击，逃跑则会打断战斗），低于 swim_to_land
+ */
+const REFLEX_PRIORITY = 90;
+/** 溺水与 agent 主动调用 swim_to_land 同样紧急，使用 swim_to_land 的默认优先级 */
+const SWIM_PRIORITY = 100;
+/** 进食不紧急，以普通优先级排队，等 agent 的当前动作完成后再吃 */
+const EAT_PRIORITY = 0;
+/** agent 正在执行这些战斗动作时不触发反击 */
+const COMBAT_ACTIONS = ['killMob', 'defend'];
+/** 反射触发的动作的超时时间 */
+const REFLEX_ACTION_TIMEOUT_MS = 60000;
+/** 判定攻击者的搜索距离 */
+const ATTACKER_DISTANCE = 8;
+/** 逃跑距离 */
+const FLEE_DISTANCE = 16;
+/** 没有水桶时寻找水源的距离 */
+const WATER_SEARCH_DISTANCE = 16;
+/** 自动进食时不吃的有害食物 */
+const HARMFUL_FOODS = ['rotten_flesh', 'spider_eye', 'poisonous_potato', 'pufferfish', 'suspicious_stew', 'chorus_fruit'];
+
+/**
+ * 自动反射
+ * 直接订阅 bot 的 health / breath / entityHurt 事件（不受 disabledEvents 影响），自动处理生存危机：
+ * 饥饿时进食、被攻击时反击或逃跑、溺水时游向陆地、着火时灭火。所有处理都通过动作队列执行，每次处理都会作为 reflex 事件上报
+ */
+export class ReflexManager {
+  private logger = new Logger('ReflexManager');
+  private options: Required<ReflexesConfig>;
+  private active: Set<ReflexType> = new Set();
+  private lastRun: Map<ReflexType, number> = new Map();
+  private started = false;
+  private detach: (() => void) | null = null;
+  private onConnected = () => this.attach();
+
+  constructor(
+    private client: MinecraftClient,
+    private actionExecutor: ActionExecutor,
+    options: ReflexesConfig = {}
+  ) {
+    this.options = {
+      enabled: options.enabled ?? false,
+      autoEat: options.autoEat ?? true,
+      hungerThreshold: options.hungerThreshold ?? 14,
+      onAttacked: options.onAttacked ?? 'fight',
+      fleeHealth: options.fleeHealth ?? 8,
+      escapeWater: options.escapeWater ?? true,
+      oxygenThreshold: options.oxygenThreshold ?? 8,
+      extinguish: options.extinguish ?? true,
+      cooldownMs: options.cooldownMs ?? 5000,
+    };
+  }
+
+  /**
+   * 开始订阅事件（未启用时不做任何事）
+   */
+  start(): void {
+    if (!this.options.enabled || this.started) return;
+    this.started = true;
+    // 重连后是新的 bot 实例，需要重新订阅
+    this.client.on('connected', this.onConnected);
+    this.attach();
+    this.logger.info('自动反射已启用');
+  }
+
+  /**
+   * 停止订阅事件
+   */
+  stop(): void {
+    this.client.removeListener('connected', this.onConnected);
+    this.detach?.();
+    this.detach = null;
+    this.started = false;
+  }
+
+  /**
+   * 订阅当前 bot 的事件
+   */
+  private attach(): void {
+    this.detach?.();
+    this.detach = null;
+    const bot = this.client.getBot();
+    if (!bot) return;
+
+    const onHealth = () => this.handleHealth(bot);
+    const onBreath = () => this.handleBreath(bot);
+    const onEntityHurt = (entity: Entity) => this.handleHurt(bot, entity);
+    bot.on('health', onHealth);
+    bot.on('breath', onBreath);
+    bot.on('entityHurt', onEntityHurt);
+    this.detach = () => {
+      bot.removeListener('health', onHealth);
+      bot.removeListener('breath', onBreath);
+      bot.removeListener('entityHurt', onEntityHurt);
+    };
+  }
+
+  private handleHealth(bot: Bot): void {
+    if (!this.isAlive(bot)) return;
+    if (this.isBurning(bot)) {
+      this.trigger('extinguish', this.isInLava(bot) ? '站在岩浆中' : '身上着火', () => this.extinguish(bot));
+    }
+    if (this.options.autoEat && bot.food < this.options.hungerThreshold && this.getEdibleFoods(bot).length > 0) {
+      this.trigger('eat', `饥饿值 ${bot.food} 低于 ${this.options.hungerThreshold}`, () => this.eat(bot));
+    }
+  }
+
+  private handleBreath(bot: Bot): void {
+    if (!this.isAlive(bot)) return;
+    if (this.options.escapeWater && bot.oxygenLevel < this.options.oxygenThreshold) {
+      this.trigger('swim', `氧气 ${bot.oxygenLevel} 低于 ${this.options.oxygenThreshold}`, () => this.runAction('swimToLand', {}, SWIM_PRIORITY));
+    }
+  }
+
+  private handleHurt(bot: Bot, entity: Entity): void {
+    if (!this.isAlive(bot) || entity.id !== bot.entity.id) return;
+    if (this.isBurning(bot)) return; // 着火由 health 事件处理
+    const attacker = this.findAttacker(bot);
+    if (!attacker || this.options.onAttacked === 'none') return;
+    const flee = this.options.onAttacked === 'flee' || bot.health <= this.options.fleeHealth;
+    const reason = `被 ${attacker.name} 攻击，生命值 ${bot.health.toFixed(1)}`;
+    if (flee) {
+      this.trigger('flee', reason, () => this.flee(bot, attacker), attacker);
+    } else if (!this.isInCombat()) {
+      // agent 已经在战斗时不以更高优先级抢占它的 kill_mob / defend
+      this.trigger('fight', reason, () => this.runAction('killMob', { mob: attacker.name!, timeout: 30 }), attacker);
+    }
+  }
+
+  /**
+   * 执行一次反射：同一种反射不会并发执行，并且受冷却时间限制；完成后上报 reflex 事件
+   */
+  private trigger(
+    reflex: ReflexType,
+    reason: string,
+    run: () => Promise<{ success: boolean; message: string }>,
+    target?: Entity
+  ): void {
+    if (this.active.has(reflex)) return;
+    if (Date.now() - (this.lastRun.get(reflex) ?? 0) < this.options.cooldownMs) return;
+    if ((reflex === 'fight' || reflex === 'flee') && (this.active.has('fight') || this.active.has('flee'))) return;
+
+    this.active.add(reflex);
+    this.lastRun.set(reflex, Date.now());
+    const startedAt = Date.now();
+    this.logger.info(`触发反射 ${reflex}: ${reason}`);
+
+    run()
+      .catch(error => ({ success: false, message: error instanceof Error ? error.message : String(error) }))
+      .then(result => {
+        this.report(reflex, reason, result, target, Date.now() - startedAt);
+      })
+      .finally(() => {
+        this.active.delete(reflex);
+        this.lastRun.set(reflex, Date.now());
+      });
+  }
+
+  private report(reflex: ReflexType, reason: string, result: { success: boolean; message: string }, target: Entity | undefined, durationMs: number): void {
+    const eventManager = this.client.getEventManager();
+    if (eventManager.isEventDisabled(GameEventType.REFLEX)) return;
+    const bot = this.client.getBot();
+    eventManager.addEvent({
+      type: 'reflex',
+      gameTick: bot?.time.age ?? 0,
+      timestamp: Date.now(),
+      data: {
+        reflex,
+        reason,
+        success: result.success,
+        message: result.message,
+        target: target ? MinecraftUtils.mapEntity(target) : undefined,
+        durationMs,
+      },
+    });
+  }
+
+  /**
+   * 通过动作队列执行动作，默认使用反射优先级（会抢占优先级更低的正在执行动作）
+   */
+  private async runAction(
+    name: string,
+    params: Record<string, unknown>,
+    priority: number = REFLEX_PRIORITY
+  ): Promise<{ success: boolean; message: string }> {
+    const bot = this.client.getBot();
+    if (!bot) return { success: false, message: '机器人未连接' };
+    const result = await this.actionExecutor.queueAction(name, bot, params, priority, REFLEX_ACTION_TIMEOUT_MS);
+    return { success: result.success, message: result.message };
+  }
+
+  /**
+   * 选择背包中的食物，通过 use_item 排队进食
+   */
+  private async eat(bot: Bot): Promise<{ success: boolean; message: string }> {
+    if (bot.game.gameMode === 'creative') {
+      return { success: false, message: '当前无法进食' };
+    }
+    const foods = this.getEdibleFoods(bot);
+    if (foods.length === 0) {
+      return { success: false, message: '背包中没有可以吃的食物' };
+    }
+    const recommended = recommendFood(bot, bot.food, bot.foodSaturation);
+    const food = foods.find(item => item.name === recommended?.name)
+      ?? foods.sort((a, b) => getFoodInfo(bot, b.name)!.effectiveQuality - getFoodInfo(bot, a.name)!.effectiveQuality)[0];
+
+    const foodBefore = bot.food;
+    const result = await this.runAction('useItem', { itemName: food.name, useType: 'consume' }, EAT_PRIORITY);
+    return result.success
+      ? { success: true, message: `吃了 ${food.name}，饥饿值 ${foodBefore} → ${bot.food}` }
+      : result;
+  }
+
+  private getEdibleFoods(bot: Bot): Item[] {
+    return bot.inventory.items().filter(item => !HARMFUL_FOODS.includes(item.name) && getFoodInfo(bot, item.name));
+  }
+
+  /**
+   * 逃离攻击者：沿远离攻击者的方向移动
+   */
+  private async flee(bot: Bot, attacker: Entity): Promise<{ success: boolean; message: string }> {
+    const away = bot.entity.position.minus(attacker.position);
+    away.y = 0;
+    const direction = away.norm() > 0 ? away.normalize() : new Vec3(1, 0, 0);
+    const target = bot.entity.position.plus(direction.scaled(FLEE_DISTANCE)).floored();
+    return this.runAction('move', {
+      type: 'coordinate',
+      x: target.x,
+      y: target.y,
+      z: target.z,
+      distance: 2,
+      maxDistance: FLEE_DISTANCE * 2,
+      goalType: 'goalNearXZ',
+    });
+  }
+
+  /**
+   * 灭火：有水桶时在脚下放水再收回，否则前往附近的水源
+   */
+  private async extinguish(bot: Bot): Promise<{ success: boolean; message: string }> {
+    if (bot.inventory.items().some(item => item.name === 'water_bucket')) {
+      const result = await this.runAction('useBucket', { mode: 'extinguish' });
+      if (result.success) return result;
+    }
+
+    const water = bot.findBlock({ matching: bot.registry.blocksByName.water.id, maxDistance: WATER_SEARCH_DISTANCE });
+    if (!water) {
+      return { success: false, message: '无法用水桶灭火，附近也没有水源' };
+    }
+    return this.runAction('move', {
+      type: 'coordinate',
+      x: water.position.x,
+      y: water.position.y,
+      z: water.position.z,
+      distance: 1,
+      maxDistance: WATER_SEARCH_DISTANCE * 2,
+    });
+  }
+
+  /**
+   * agent 是否正在执行或排队等待战斗动作
+   */
+  private isInCombat(): boolean {
+    const { running, queued } = this.actionExecutor.getQueueStatus();
+    return [...running, ...queued].some(info => COMBAT_ACTIONS.includes(info.name));
+  }
+
+  /**
+   * 攻击者：附近最近的敌对生物
+   */
+  private findAttacker(bot: Bot): Entity | null {
+    return bot.nearestEntity(entity =>
+      entity.type === 'hostile' && !!entity.name && entity.position.distanceTo(bot.entity.position) <= ATTACKER_DISTANCE
+    );
+  }
+
+  private isAlive(bot: Bot): boolean {
+    return Boolean(bot.entity) && bot.health > 0;
+  }
+
+  private isBurning(bot: Bot): boolean {
+    if (!this.options.extinguish) return false;
+    return MinecraftUtils.isOnFire(bot) || this.isInLava(bot);
+  }
+
+  private isInLava(bot: Bot): boolean {
+    return bot.blockAt(bot.entity.position)?.name === 'lava';
+  }
+}
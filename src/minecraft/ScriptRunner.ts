@@ -0,0 +1,373 @@
+import { Bot } from 'mineflayer';
+import { z } from 'zod';
+import { load as yamlLoad } from 'js-yaml';
+import { ActionContext, ActionResult, BaseActionParams } from './ActionInterface.js';
+import { ActionExecutor } from './ActionExecutor.js';
+import { AbortUtils } from '../utils/AbortUtils.js';
+import { Logger } from '../utils/Logger.js';
+
+/**
+ * 脚本条件
+ * - 比较：{ path: "mine.data.minedCount", op: "gte", value: 3 }
+ * - 组合：{ all: [...] } / { any: [...] } / { not: {...} }
+ */
+export type ScriptCondition =
+  | { path: string; op?: 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'exists' | 'truthy' | 'falsy' | 'contains'; value?: unknown }
+  | { all: ScriptCondition[] }
+  | { any: ScriptCondition[] }
+  | { not: ScriptCondition };
+
+/**
+ * 脚本步骤
+ */
+export type ScriptStep =
+  | {
+      /** 动作名称或工具名称，如 move / mine_block */
+      action: string;
+      /** 动作参数，字符串中可使用 ${变量路径} 引用变量 */
+      params?: Record<string, unknown>;
+      /** 将结果保存到变量 */
+      save_as?: string;
+      /** 失败后重试次数，默认 0 */
+      retry?: number;
+      /** 重试间隔（毫秒），默认 1000 */
+      retry_delay_ms?: number;
+      /** 失败处理：stop（默认，终止脚本）| continue（继续下一步）| 步骤列表（执行后继续） */
+      on_failure?: 'stop' | 'continue' | ScriptStep[];
+    }
+  | { if: ScriptCondition; then: ScriptStep[]; else?: ScriptStep[] }
+  | { repeat: number; steps: ScriptStep[] }
+  | { while: ScriptCondition; steps: ScriptStep[]; max_iterations?: number }
+  | { wait: number }
+  | { set: Record<string, unknown> };
+
+/**
+ * 脚本程序
+ */
+export interface ScriptProgram {
+  /** 初始变量 */
+  vars?: Record<string, unknown>;
+  steps: ScriptStep[];
+}
+
+/**
+ * 单个步骤的执行记录
+ */
+export interface ScriptTraceEntry {
+  /** 步骤路径，如 "2.then.1" */
+  step: string;
+  type: 'action' | 'if' | 'loop' | 'wait' | 'set';
+  action?: string;
+  params?: BaseActionParams;
+  success: boolean;
+  message?: string;
+  error?: string;
+  data?: unknown;
+  attempts?: number;
+  elapsed_ms: number;
+}
+
+export interface ScriptRunResult {
+  success: boolean;
+  message: string;
+  /** 失败步骤的错误码 */
+  error?: string;
+  trace: ScriptTraceEntry[];
+  vars: Record<string, unknown>;
+}
+
+export interface ScriptRunnerOptions {
+  /** 将脚本中的动作名（动作名或工具名）解析为已注册且允许调用的动作名，不可用时返回 undefined */
+  resolveAction?: (name: string) => string | undefined;
+  /** 最多执行的步骤数，防止死循环，默认 500 */
+  maxSteps?: number;
+  /** 单个动作超时（毫秒），默认 600000 */
+  actionTimeoutMs?: number;
+}
+
+const MAX_WAIT_MS = 60000;
+const DEFAULT_MAX_ITERATIONS = 100;
+/** 不能用作变量名的键，避免改写变量作用域的原型 */
+const RESERVED_VAR_NAMES = new Set(['__proto__', 'prototype', 'constructor']);
+
+const varNameSchema = z.string().refine(name => !RESERVED_VAR_NAMES.has(name), name => ({ message: `${name} 不能用作变量名` }));
+const varsSchema = z.record(varNameSchema, z.unknown());
+
+const conditionSchema: z.ZodType<ScriptCondition> = z.lazy(() => z.union([
+  z.object({ all: z.array(conditionSchema) }).strict(),
+  z.object({ any: z.array(conditionSchema) }).strict(),
+  z.object({ not: conditionSchema }).strict(),
+  z.object({
+    path: z.string(),
+    op: z.enum(['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'exists', 'truthy', 'falsy', 'contains']).optional(),
+    value: z.unknown().optional(),
+  }).strict(),
+]));
+
+const stepSchema: z.ZodType<ScriptStep> = z.lazy(() => z.union([
+  z.object({
+    action: z.string(),
+    params: z.record(z.unknown()).optional(),
+    save_as: varNameSchema.optional(),
+    retry: z.number().int().min(0).max(10).optional(),
+    retry_delay_ms: z.number().int().min(0).max(MAX_WAIT_MS).optional(),
+    on_failure: z.union([z.enum(['stop', 'continue']), z.array(stepSchema)]).optional(),
+  }).strict(),
+  z.object({ if: conditionSchema, then: z.array(stepSchema), else: z.array(stepSchema).optional() }).strict(),
+  z.object({ repeat: z.number().int().min(0).max(1000), steps: z.array(stepSchema) }).strict(),
+  z.object({ while: conditionSchema, steps: z.array(stepSchema), max_iterations: z.number().int().positive().max(1000).optional() }).strict(),
+  z.object({ wait: z.number().int().min(0).max(MAX_WAIT_MS) }).strict(),
+  z.object({ set: varsSchema }).strict(),
+]));
+
+const programSchema = z.object({
+  vars: varsSchema.optional(),
+  steps: z.array(stepSchema).min(1),
+}).strict();
+
+/** 脚本因步骤失败而终止 */
+class ScriptStopError extends Error {
+  constructor(message: string, public readonly code: string) {
+    super(message);
+    this.name = 'ScriptStopError';
+  }
+}
+
+/**
+ * 脚本执行器
+ * 在服务端按顺序执行一组动作调用，支持变量、条件、循环和失败重试/分支，返回逐步执行记录
+ */
+export class ScriptRunner {
+  private logger = new Logger('ScriptRunner');
+  private maxSteps: number;
+  private actionTimeoutMs: number;
+
+  constructor(private actionExecutor: ActionExecutor, private options: ScriptRunnerOptions = {}) {
+    this.maxSteps = options.maxSteps ?? 500;
+    this.actionTimeoutMs = options.actionTimeoutMs ?? 600000;
+  }
+
+  /**
+   * 解析脚本：支持对象或 JSON/YAML 字符串
+   * @throws 脚本格式错误时抛出异常
+   */
+  static parse(input: unknown): ScriptProgram {
+    const raw = typeof input === 'string' ? yamlLoad(input) : input;
+    // 允许直接传入步骤数组
+    const program = Array.isArray(raw) ? { steps: raw } : raw;
+    const result = programSchema.safeParse(program);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new Error(`脚本格式错误: ${issue.path.join('.') || '(root)'} ${issue.message}`);
+    }
+    return result.data as ScriptProgram;
+  }
+
+  /**
+   * 执行脚本
+   */
+  async run(bot: Bot, program: ScriptProgram, context?: ActionContext): Promise<ScriptRunResult> {
+    const state = {
+      // 无原型的作用域：脚本中的变量名不会命中 Object.prototype 上的属性
+      vars: Object.create(null) as Record<string, unknown>,
+      trace: [] as ScriptTraceEntry[],
+      executed: 0,
+    };
+
+    try {
+      this.assignVars(state.vars, program.vars ?? {});
+      await this.runSteps(bot, program.steps, '', state, context);
+      return {
+        success: true,
+        message: `脚本执行完成，共执行 ${state.executed} 个步骤`,
+        trace: state.trace,
+        vars: state.vars,
+      };
+    } catch (error) {
+      const code = error instanceof ScriptStopError ? error.code
+        : AbortUtils.isAbortError(error) ? 'CANCELLED'
+        : 'SCRIPT_ERROR';
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`脚本终止: ${message}`);
+      return { success: false, message, error: code, trace: state.trace, vars: state.vars };
+    }
+  }
+
+  private async runSteps(
+    bot: Bot,
+    steps: ScriptStep[],
+    prefix: string,
+    state: { vars: Record<string, unknown>; trace: ScriptTraceEntry[]; executed: number },
+    context?: ActionContext
+  ): Promise<void> {
+    for (let i = 0; i < steps.length; i++) {
+      AbortUtils.throwIfAborted(context?.signal);
+      if (++state.executed > this.maxSteps) {
+        throw new ScriptStopError(`超过最大执行步骤数 ${this.maxSteps}`, 'MAX_STEPS_EXCEEDED');
+      }
+
+      const step = steps[i];
+      const stepId = prefix ? `${prefix}.${i + 1}` : String(i + 1);
+      const start = Date.now();
+      context?.reportProgress({ progress: state.executed, message: `执行步骤 ${stepId}` });
+
+      if ('action' in step) {
+        await this.runActionStep(bot, step, stepId, state, context);
+      } else if ('if' in step) {
+        const matched = this.evaluate(step.if, state.vars);
+        state.trace.push({ step: stepId, type: 'if', success: true, data: { matched }, elapsed_ms: Date.now() - start });
+        const branch = matched ? step.then : step.else;
+        if (branch) await this.runSteps(bot, branch, `${stepId}.${matched ? 'then' : 'else'}`, state, context);
+      } else if ('repeat' in step) {
+        for (let n = 0; n < step.repeat; n++) {
+          state.vars.loop = { index: n, count: step.repeat };
+          await this.runSteps(bot, step.steps, `${stepId}[${n}]`, state, context);
+        }
+        state.trace.push({ step: stepId, type: 'loop', success: true, data: { iterations: step.repeat }, elapsed_ms: Date.now() - start });
+      } else if ('while' in step) {
+        const maxIterations = step.max_iterations ?? DEFAULT_MAX_ITERATIONS;
+        let n = 0;
+        while (this.evaluate(step.while, state.vars)) {
+          if (n >= maxIterations) {
+            throw new ScriptStopError(`步骤 ${stepId} 循环超过最大次数 ${maxIterations}`, 'MAX_ITERATIONS_EXCEEDED');
+          }
+          state.vars.loop = { index: n };
+          await this.runSteps(bot, step.steps, `${stepId}[${n}]`, state, context);
+          n++;
+        }
+        state.trace.push({ step: stepId, type: 'loop', success: true, data: { iterations: n }, elapsed_ms: Date.now() - start });
+      } else if ('wait' in step) {
+        await AbortUtils.sleep(step.wait, context?.signal);
+        state.trace.push({ step: stepId, type: 'wait', success: true, elapsed_ms: Date.now() - start });
+      } else if ('set' in step) {
+        const values = this.interpolate(step.set, state.vars) as Record<string, unknown>;
+        this.assignVars(state.vars, values);
+        state.trace.push({ step: stepId, type: 'set', success: true, data: values, elapsed_ms: Date.now() - start });
+      }
+    }
+  }
+
+  private async runActionStep(
+    bot: Bot,
+    step: Extract<ScriptStep, { action: string }>,
+    stepId: string,
+    state: { vars: Record<string, unknown>; trace: ScriptTraceEntry[]; executed: number },
+    context?: ActionContext
+  ): Promise<void> {
+    const start = Date.now();
+    const actionName = this.options.resolveAction ? this.options.resolveAction(step.action) : step.action;
+    if (!actionName) {
+      throw new ScriptStopError(`步骤 ${stepId}: 动作 ${step.action} 不存在或不可用`, 'ACTION_NOT_FOUND');
+    }
+
+    const params = this.interpolate(step.params ?? {}, state.vars) as BaseActionParams;
+    const maxAttempts = (step.retry ?? 0) + 1;
+    let result: ActionResult = { success: false, message: '未执行' };
+    let attempts = 0;
+
+    while (attempts < maxAttempts) {
+      if (attempts > 0) {
+        await AbortUtils.sleep(step.retry_delay_ms ?? 1000, context?.signal);
+      }
+      attempts++;
+      result = await this.actionExecutor.queueAction(actionName, bot, params, undefined, this.actionTimeoutMs, {
+        reportProgress: () => {},
+        signal: context?.signal,
+      });
+      if (result.success || result.error === 'CANCELLED') break;
+    }
+
+    const saved = { success: result.success, message: result.message, data: result.data, error: result.error };
+    state.vars.last = saved;
+    if (step.save_as) this.assignVars(state.vars, { [step.save_as]: saved });
+    state.trace.push({
+      step: stepId,
+      type: 'action',
+      action: actionName,
+      params,
+      success: result.success,
+      message: result.message,
+      error: result.error,
+      data: result.data,
+      attempts,
+      elapsed_ms: Date.now() - start,
+    });
+
+    if (result.success) return;
+    if (result.error === 'CANCELLED') {
+      throw AbortUtils.createAbortError(context?.signal?.reason);
+    }
+
+    const onFailure = step.on_failure ?? 'stop';
+    if (onFailure === 'continue') return;
+    if (Array.isArray(onFailure)) {
+      await this.runSteps(bot, onFailure, `${stepId}.on_failure`, state, context);
+      return;
+    }
+    throw new ScriptStopError(`步骤 ${stepId} (${actionName}) 失败: ${result.message}`, result.error ?? 'STEP_FAILED');
+  }
+
+  /**
+   * 写入变量，拒绝保留名称（未经 parse 校验直接传入的脚本也不会改写作用域的原型）
+   */
+  private assignVars(vars: Record<string, unknown>, values: Record<string, unknown>): void {
+    for (const [name, value] of Object.entries(values)) {
+      if (RESERVED_VAR_NAMES.has(name)) {
+        throw new ScriptStopError(`${name} 不能用作变量名`, 'SCRIPT_ERROR');
+      }
+      vars[name] = value;
+    }
+  }
+
+  /**
+   * 替换值中的 ${变量路径}。整个字符串为单个引用时保留原始类型
+   */
+  private interpolate(value: unknown, vars: Record<string, unknown>): unknown {
+    if (typeof value === 'string') {
+      const whole = value.match(/^\$\{([^}]+)\}$/);
+      if (whole) return this.resolvePath(vars, whole[1].trim());
+      return value.replace(/\$\{([^}]+)\}/g, (_, path: string) => {
+        const resolved = this.resolvePath(vars, path.trim());
+        return resolved === undefined ? '' : typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+      });
+    }
+    if (Array.isArray(value)) return value.map(item => this.interpolate(item, vars));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.interpolate(item, vars)]));
+    }
+    return value;
+  }
+
+  private resolvePath(vars: Record<string, unknown>, path: string): unknown {
+    return path.split('.').reduce<unknown>((current, key) => {
+      if (current === null || current === undefined) return undefined;
+      // 只读取自身属性，${x.constructor} 之类的路径不会取到原型上的成员
+      if (!Object.prototype.hasOwnProperty.call(current, key)) return undefined;
+      return (current as Record<string, unknown>)[key];
+    }, vars);
+  }
+
+  private evaluate(condition: ScriptCondition, vars: Record<string, unknown>): boolean {
+    if ('all' in condition) return condition.all.every(c => this.evaluate(c, vars));
+    if ('any' in condition) return condition.any.some(c => this.evaluate(c, vars));
+    if ('not' in condition) return !this.evaluate(condition.not, vars);
+
+    const actual = this.resolvePath(vars, condition.path);
+    const expected = this.interpolate(condition.value, vars);
+    switch (condition.op ?? 'truthy') {
+      case 'eq': return actual === expected;
+      case 'ne': return actual !== expected;
+      case 'gt': return Number(actual) > Number(expected);
+      case 'gte': return Number(actual) >= Number(expected);
+      case 'lt': return Number(actual) < Number(expected);
+      case 'lte': return Number(actual) <= Number(expected);
+      case 'exists': return actual !== undefined && actual !== null;
+      case 'truthy': return Boolean(actual);
+      case 'falsy': return !actual;
+      case 'contains':
+        if (typeof actual === 'string') return actual.includes(String(expected));
+        if (Array.isArray(actual)) return actual.includes(expected);
+        return false;
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import path from 'path';
+import { Logger } from '../utils/Logger.js';
+
+/**
+ * 路径点
+ */
+export interface Waypoint {
+  name: string;
+  position: { x: number; y: number; z: number };
+  dimension: string;
+  description?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * 路径点存储
+ * 按维度保存命名坐标，持久化到每个服务器一个 JSON 文件
+ */
+export class WaypointStore {
+  private logger = new Logger('WaypointStore');
+  /** dimension -> name -> waypoint */
+  private waypoints: Map<string, Map<string, Waypoint>> = new Map();
+
+  constructor(private filePath?: string) {
+    this.load();
+  }
+
+  /**
+   * 设置路径点（同名时覆盖）
+   */
+  set(name: string, position: { x: number; y: number; z: number }, dimension: string, description?: string): Waypoint {
+    const key = name.trim();
+    if (!key) {
+      throw new Error('路径点名称不能为空');
+    }
+
+    const byName = this.waypoints.get(dimension) ?? new Map<string, Waypoint>();
+    const existing = byName.get(key);
+    const now = Date.now();
+    const waypoint: Waypoint = {
+      name: key,
+      position: { x: Math.floor(position.x), y: Math.floor(position.y), z: Math.floor(position.z) },
+      dimension,
+      description: description ?? existing?.description,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    byName.set(key, waypoint);
+    this.waypoints.set(dimension, byName);
+    this.save();
+    return waypoint;
+  }
+
+  get(name: string, dimension: string): Waypoint | undefined {
+    return this.waypoints.get(dimension)?.get(name.trim());
+  }
+
+  /**
+   * 在所有维度中查找同名路径点
+   */
+  findAll(name: string): Waypoint[] {
+    const key = name.trim();
+    return Array.from(this.waypoints.values())
+      .map(byName => byName.get(key))
+      .filter((waypoint): waypoint is Waypoint => waypoint !== undefined);
+  }
+
+  /**
+   * 列出路径点，不指定维度时返回所有维度
+   */
+  list(dimension?: string): Waypoint[] {
+    const groups = dimension ? [this.waypoints.get(dimension)] : Array.from(this.waypoints.values());
+    return groups
+      .flatMap(byName => byName ? Array.from(byName.values()) : [])
+      .sort((a, b) => a.dimension.localeCompare(b.dimension) || a.name.localeCompare(b.name));
+  }
+
+  delete(name: string, dimension: string): boolean {
+    const removed = this.waypoints.get(dimension)?.delete(name.trim()) ?? false;
+    if (removed) this.save();
+    return removed;
+  }
+
+  private save(): void {
+    if (!this.filePath) return;
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify({ version: 1, waypoints: this.list() }, null, 2), 'utf8');
+    } catch (error) {
+      this.logger.warn(`保存路径点失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      for (const waypoint of (data?.waypoints ?? []) as Waypoint[]) {
+        if (!waypoint?.name || !waypoint.position || !waypoint.dimension) continue;
+        const byName = this.waypoints.get(waypoint.dimension) ?? new Map<string, Waypoint>();
+        byName.set(waypoint.name, waypoint);
+        this.waypoints.set(waypoint.dimension, byName);
+      }
+    } catch (error) {
+      this.logger.warn(`加载路径点失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
@@ -0,0 +1,649 @@
+import { Bot } from 'mineflayer';
+import { Block } from 'prismarine-block';
+import fs from 'fs';
+import path from 'path';
+import { Logger } from '../utils/Logger.js';
+import { MinecraftUtils } from '../utils/MinecraftUtils.js';
+
+/**
+ * 记忆位置类别
+ */
+export type MemoryCategory = 'container' | 'crafting_station' | 'bed' | 'portal' | 'ore';
+
+/**
+ * 容器中的物品
+ */
+export interface ContainerItem {
+  name: string;
+  count: number;
+}
+
+/**
+ * 记忆中的位置
+ */
+export interface MemoryLocation {
+  category: MemoryCategory;
+  /** 方块类型，如 chest、furnace、diamond_ore */
+  blockName: string;
+  position: { x: number; y: number; z: number };
+  dimension: string;
+  firstSeen: number;
+  lastSeen: number;
+  /** 容器最近一次打开时看到的内容 */
+  contents?: ContainerItem[];
+  contentsUpdatedAt?: number;
+}
+
+/**
+ * 已知内容的容器（供合成规划估算可用材料）
+ */
+export interface KnownContainer {
+  position: { x: number; y: number; z: number };
+  blockName: string;
+  dimension?: string;
+  items: ContainerItem[];
+  /** 最近一次查看的时间 */
+  updatedAt: number;
+}
+
+/**
+ * 记忆查询条件
+ */
+export interface MemoryQuery {
+  category?: MemoryCategory;
+  blockName?: string;
+  /** 只返回内容中含有该物品的容器 */
+  item?: string;
+  dimension?: string;
+  /** 参照位置，用于计算距离和排序 */
+  near?: { x: number; y: number; z: number };
+  maxDistance?: number;
+  limit?: number;
+}
+
+/**
+ * 村民交易项摘要
+ */
+export interface TradeOfferSummary {
+  /** 交易在村民交易列表中的序号 */
+  index: number;
+  inputs: ContainerItem[];
+  output: ContainerItem & { enchantments?: Array<{ name: string; level: number }> };
+  uses: number;
+  maxUses: number;
+  /** 剩余可交易次数 */
+  stock: number;
+  disabled: boolean;
+  xp?: number;
+}
+
+/**
+ * 记忆中的村民及其交易
+ */
+export interface KnownVillager {
+  /** 实体 UUID（重新登录后实体 ID 会变化，UUID 不变） */
+  uuid?: string;
+  entityId: number;
+  /** 职业，如 librarian、farmer；流浪商人为 wandering_trader */
+  profession: string;
+  level?: number;
+  position: { x: number; y: number; z: number };
+  dimension: string;
+  trades: TradeOfferSummary[];
+  lastSeen: number;
+}
+
+/**
+ * 传送门的一端
+ */
+export interface PortalEnd {
+  position: { x: number; y: number; z: number };
+  dimension: string;
+}
+
+/**
+ * 一对相连的传送门（穿过 from 到达 to）
+ */
+export interface PortalLink {
+  from: PortalEnd;
+  to: PortalEnd;
+  createdAt: number;
+  lastUsed: number;
+}
+
+/**
+ * 村民查询条件
+ */
+export interface VillagerQuery {
+  profession?: string;
+  /** 只返回交易中产出或需要该物品的村民 */
+  item?: string;
+  dimension?: string;
+  near?: { x: number; y: number; z: number };
+  maxDistance?: number;
+  limit?: number;
+}
+
+export interface WorldMemoryOptions {
+  /** 是否启用（关闭后不会扫描和持久化，但仍可在内存中记录），默认 true */
+  enabled?: boolean;
+  /** 持久化文件路径，不设置时只保存在内存中 */
+  filePath?: string;
+  /** 周期扫描间隔（毫秒），默认 10000 */
+  scanIntervalMs?: number;
+  /** 扫描半径，默认 32 */
+  scanRadius?: number;
+}
+
+/** 需要记录的方块及其类别 */
+const CONTAINER_BLOCKS = ['chest', 'trapped_chest', 'barrel'];
+const CRAFTING_STATION_BLOCKS = [
+  'crafting_table', 'furnace', 'blast_furnace', 'smoker', 'anvil', 'chipped_anvil', 'damaged_anvil',
+  'enchanting_table', 'brewing_stand', 'smithing_table', 'grindstone', 'stonecutter', 'loom', 'cartography_table'
+];
+const PORTAL_BLOCKS = ['nether_portal', 'end_portal', 'end_gateway'];
+const ORE_BLOCKS = [
+  'diamond_ore', 'deepslate_diamond_ore', 'emerald_ore', 'deepslate_emerald_ore', 'ancient_debris',
+  'gold_ore', 'deepslate_gold_ore', 'nether_gold_ore', 'iron_ore', 'deepslate_iron_ore',
+  'redstone_ore', 'deepslate_redstone_ore', 'lapis_ore', 'deepslate_lapis_ore', 'copper_ore', 'deepslate_copper_ore'
+];
+
+/** 同类矿石/传送门在此距离内视为同一处（矿脉、传送门框） */
+const CLUSTER_DISTANCE = 4;
+/** 单次扫描最多处理的方块数 */
+const MAX_SCAN_RESULTS = 256;
+const SAVE_DEBOUNCE_MS = 5000;
+/** 探索记录的有效期：生物会移动、方块会被改变，过期后同一目标可以再次探索这些区块 */
+const VISITED_CHUNK_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 世界记忆
+ * 记录 bot 观察到的容器（含最近内容）、工作方块、床、传送门和矿石位置、村民的职业和交易列表、探索过的区块，以及穿越过的传送门对应关系，
+ * 按服务器持久化到本地 JSON 文件，下次启动时继续使用
+ */
+export class WorldMemory {
+  private logger = new Logger('WorldMemory');
+  private locations: Map<string, MemoryLocation> = new Map();
+  private villagers: Map<string, KnownVillager> = new Map();
+  /** 探索过的区块，键为 探索目标|维度:chunkX,chunkZ，值为探索时间 */
+  private visitedChunks: Map<string, number> = new Map();
+  private portalLinks: PortalLink[] = [];
+  private options: Required<Omit<WorldMemoryOptions, 'filePath'>> & { filePath?: string };
+  private bot: Bot | null = null;
+  private scanTimer: NodeJS.Timeout | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
+  private onBlockUpdate: ((oldBlock: Block | null, newBlock: Block) => void) | null = null;
+
+  constructor(options: WorldMemoryOptions = {}) {
+    this.options = {
+      enabled: options.enabled ?? true,
+      filePath: options.filePath,
+      scanIntervalMs: options.scanIntervalMs ?? 10000,
+      scanRadius: options.scanRadius ?? 32,
+    };
+    this.load();
+  }
+
+  /**
+   * 根据方块名称判断记忆类别，不需要记录时返回 null
+   */
+  static categorize(blockName: string): MemoryCategory | null {
+    if (CONTAINER_BLOCKS.includes(blockName) || blockName.endsWith('shulker_box')) return 'container';
+    if (CRAFTING_STATION_BLOCKS.includes(blockName)) return 'crafting_station';
+    if (blockName.endsWith('_bed')) return 'bed';
+    if (PORTAL_BLOCKS.includes(blockName)) return 'portal';
+    if (ORE_BLOCKS.includes(blockName)) return 'ore';
+    return null;
+  }
+
+  private static key(position: { x: number; y: number; z: number }, dimension: string): string {
+    return `${dimension}:${position.x},${position.y},${position.z}`;
+  }
+
+  private static villagerKey(villager: { uuid?: string; entityId: number }): string {
+    return villager.uuid ?? `entity:${villager.entityId}`;
+  }
+
+  /**
+   * 开始观察：周期扫描 bot 周围的方块，并在方块被破坏时删除记录
+   */
+  attach(bot: Bot): void {
+    this.detach();
+    this.bot = bot;
+    if (!this.options.enabled) return;
+
+    this.onBlockUpdate = (oldBlock, newBlock) => {
+      if (!oldBlock || oldBlock.name === newBlock.name) return;
+      const dimension = this.dimensionOf(bot);
+      if (WorldMemory.categorize(oldBlock.name) && this.locations.has(WorldMemory.key(newBlock.position, dimension))) {
+        this.forget(newBlock.position, dimension);
+      }
+      if (WorldMemory.categorize(newBlock.name)) {
+        this.recordBlock(newBlock.name, newBlock.position, dimension);
+      }
+    };
+    bot.on('blockUpdate', this.onBlockUpdate);
+
+    this.scanTimer = setInterval(() => this.scan(), this.options.scanIntervalMs);
+  }
+
+  /**
+   * 停止观察并立即保存
+   */
+  detach(): void {
+    if (this.scanTimer) {
+      clearInterval(this.scanTimer);
+      this.scanTimer = null;
+    }
+    if (this.bot && this.onBlockUpdate) {
+      this.bot.removeListener('blockUpdate', this.onBlockUpdate);
+    }
+    this.onBlockUpdate = null;
+    this.bot = null;
+    this.flush();
+  }
+
+  /**
+   * 扫描 bot 周围需要记录的方块
+   */
+  scan(): number {
+    const bot = this.bot;
+    if (!bot?.entity) return 0;
+
+    const names = [...CONTAINER_BLOCKS, ...CRAFTING_STATION_BLOCKS, ...PORTAL_BLOCKS, ...ORE_BLOCKS];
+    const ids = new Set<number>();
+    for (const name of names) {
+      const block = bot.registry.blocksByName[name];
+      if (block) ids.add(block.id);
+    }
+    for (const block of bot.registry.blocksArray) {
+      if (block.name.endsWith('_bed') || block.name.endsWith('shulker_box')) ids.add(block.id);
+    }
+
+    try {
+      const positions = bot.findBlocks({ matching: Array.from(ids), maxDistance: this.options.scanRadius, count: MAX_SCAN_RESULTS });
+      const dimension = this.dimensionOf(bot);
+      let recorded = 0;
+      for (const position of positions) {
+        const block = bot.blockAt(position);
+        if (block && this.recordBlock(block.name, position, dimension)) recorded++;
+      }
+      return recorded;
+    } catch (error) {
+      this.logger.debug(`扫描方块失败: ${error instanceof Error ? error.message : String(error)}`);
+      return 0;
+    }
+  }
+
+  /**
+   * 记录观察到的方块
+   * @returns 是否新增或更新了记录
+   */
+  recordBlock(blockName: string, position: { x: number; y: number; z: number }, dimension: string): boolean {
+    const category = WorldMemory.categorize(blockName);
+    if (!category) return false;
+
+    const key = WorldMemory.key(position, dimension);
+    const now = Date.now();
+    const existing = this.locations.get(key);
+    if (existing) {
+      existing.lastSeen = now;
+      existing.blockName = blockName;
+      return false;
+    }
+
+    // 矿脉和传送门只记录一处
+    if (category === 'ore' || category === 'portal') {
+      const nearby = this.query({ blockName, dimension, near: position, maxDistance: CLUSTER_DISTANCE, limit: 1 });
+      if (nearby.length > 0) {
+        const cluster = this.locations.get(WorldMemory.key(nearby[0].position, dimension));
+        if (cluster) cluster.lastSeen = now;
+        return false;
+      }
+    }
+
+    this.locations.set(key, {
+      category,
+      blockName,
+      position: { x: position.x, y: position.y, z: position.z },
+      dimension,
+      firstSeen: now,
+      lastSeen: now,
+    });
+    this.scheduleSave();
+    return true;
+  }
+
+  /**
+   * 记录容器内容（相同物品会合并数量）
+   */
+  recordContainer(position: { x: number; y: number; z: number }, blockName: string, items: ContainerItem[], dimension: string): void {
+    const merged = new Map<string, number>();
+    for (const item of items) {
+      merged.set(item.name, (merged.get(item.name) ?? 0) + item.count);
+    }
+
+    const key = WorldMemory.key(position, dimension);
+    const now = Date.now();
+    const location = this.locations.get(key) ?? {
+      category: WorldMemory.categorize(blockName) ?? 'container',
+      blockName,
+      position: { x: position.x, y: position.y, z: position.z },
+      dimension,
+      firstSeen: now,
+      lastSeen: now,
+    };
+    location.lastSeen = now;
+    location.contents = Array.from(merged, ([name, count]) => ({ name, count }));
+    location.contentsUpdatedAt = now;
+    this.locations.set(key, location);
+    this.scheduleSave();
+  }
+
+  /**
+   * 删除位置记录
+   */
+  forget(position: { x: number; y: number; z: number }, dimension: string): boolean {
+    const removed = this.locations.delete(WorldMemory.key(position, dimension));
+    if (removed) this.scheduleSave();
+    return removed;
+  }
+
+  /**
+   * 删除所有满足条件的记录
+   * @returns 删除数量
+   */
+  forgetWhere(query: MemoryQuery): number {
+    const matched = this.query({ ...query, limit: undefined });
+    for (const location of matched) {
+      this.locations.delete(WorldMemory.key(location.position, location.dimension));
+    }
+    if (matched.length > 0) this.scheduleSave();
+    return matched.length;
+  }
+
+  /**
+   * 查询记录，指定 near 时按距离升序排列
+   */
+  query(query: MemoryQuery = {}): Array<MemoryLocation & { distance?: number }> {
+    const near = query.near;
+    let results: Array<MemoryLocation & { distance?: number }> = [];
+
+    for (const location of this.locations.values()) {
+      if (query.category && location.category !== query.category) continue;
+      if (query.blockName && location.blockName !== query.blockName) continue;
+      if (query.dimension && location.dimension !== query.dimension) continue;
+      if (query.item && !location.contents?.some(item => item.name === query.item && item.count > 0)) continue;
+
+      if (near) {
+        const dx = location.position.x - near.x;
+        const dy = location.position.y - near.y;
+        const dz = location.position.z - near.z;
+        const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+        if (query.maxDistance !== undefined && distance > query.maxDistance) continue;
+        results.push({ ...location, distance: Number(distance.toFixed(2)) });
+      } else {
+        results.push(location);
+      }
+    }
+
+    if (near) {
+      results.sort((a, b) => a.distance! - b.distance!);
+    } else {
+      results.sort((a, b) => b.lastSeen - a.lastSeen);
+    }
+    if (query.limit !== undefined) {
+      results = results.slice(0, query.limit);
+    }
+    return results;
+  }
+
+  /**
+   * 记录村民及其最近一次看到的交易列表
+   */
+  recordVillager(villager: Omit<KnownVillager, 'lastSeen'>): void {
+    this.villagers.set(WorldMemory.villagerKey(villager), {
+      ...villager,
+      position: { x: Math.floor(villager.position.x), y: Math.floor(villager.position.y), z: Math.floor(villager.position.z) },
+      lastSeen: Date.now(),
+    });
+    this.scheduleSave();
+  }
+
+  /**
+   * 删除村民记录
+   */
+  forgetVillager(villager: { uuid?: string; entityId: number }): boolean {
+    const removed = this.villagers.delete(WorldMemory.villagerKey(villager));
+    if (removed) this.scheduleSave();
+    return removed;
+  }
+
+  /**
+   * 查询记住的村民，指定 near 时按距离升序排列
+   */
+  queryVillagers(query: VillagerQuery = {}): Array<KnownVillager & { distance?: number }> {
+    const near = query.near;
+    let results: Array<KnownVillager & { distance?: number }> = [];
+
+    for (const villager of this.villagers.values()) {
+      if (query.profession && villager.profession !== query.profession) continue;
+      if (query.dimension && villager.dimension !== query.dimension) continue;
+      if (query.item && !villager.trades.some(trade => trade.output.name === query.item
+        || trade.inputs.some(input => input.name === query.item))) continue;
+
+      if (near) {
+        const dx = villager.position.x - near.x;
+        const dy = villager.position.y - near.y;
+        const dz = villager.position.z - near.z;
+        const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+        if (query.maxDistance !== undefined && distance > query.maxDistance) continue;
+        results.push({ ...villager, distance: Number(distance.toFixed(2)) });
+      } else {
+        results.push(villager);
+      }
+    }
+
+    if (near) {
+      results.sort((a, b) => a.distance! - b.distance!);
+    } else {
+      results.sort((a, b) => b.lastSeen - a.lastSeen);
+    }
+    if (query.limit !== undefined) {
+      results = results.slice(0, query.limit);
+    }
+    return results;
+  }
+
+  /**
+   * 标记区块已为某个探索目标探索过
+   * @param target 探索目标（如 structure:village），不同目标的探索记录互不影响
+   * @returns 是否是新探索（或记录已过期）的区块
+   */
+  markChunkVisited(chunkX: number, chunkZ: number, dimension: string, target: string): boolean {
+    const key = WorldMemory.chunkKey(chunkX, chunkZ, dimension, target);
+    const isNew = !this.isChunkVisited(chunkX, chunkZ, dimension, target);
+    this.visitedChunks.set(key, Date.now());
+    this.scheduleSave();
+    return isNew;
+  }
+
+  /**
+   * 区块是否已为某个探索目标探索过（过期的记录视为未探索）
+   */
+  isChunkVisited(chunkX: number, chunkZ: number, dimension: string, target: string, now: number = Date.now()): boolean {
+    const visitedAt = this.visitedChunks.get(WorldMemory.chunkKey(chunkX, chunkZ, dimension, target));
+    return visitedAt !== undefined && now - visitedAt < VISITED_CHUNK_TTL_MS;
+  }
+
+  /**
+   * 未过期的探索记录数量
+   */
+  visitedChunkCount(dimension?: string): number {
+    const now = Date.now();
+    let count = 0;
+    for (const [key, visitedAt] of this.visitedChunks) {
+      if (now - visitedAt >= VISITED_CHUNK_TTL_MS) continue;
+      if (!dimension || key.includes(`|${dimension}:`)) count++;
+    }
+    return count;
+  }
+
+  /**
+   * 删除过期的探索记录
+   */
+  private pruneVisitedChunks(): void {
+    const now = Date.now();
+    for (const [key, visitedAt] of this.visitedChunks) {
+      if (now - visitedAt >= VISITED_CHUNK_TTL_MS) this.visitedChunks.delete(key);
+    }
+  }
+
+  private static chunkKey(chunkX: number, chunkZ: number, dimension: string, target: string): string {
+    return `${target}|${dimension}:${chunkX},${chunkZ}`;
+  }
+
+  /**
+   * 记录一对相连的传送门，任一端已有记录时覆盖旧记录（重建传送门后对应关系可能改变）
+   */
+  recordPortalLink(from: PortalEnd, to: PortalEnd): PortalLink {
+    const now = Date.now();
+    const floor = (end: PortalEnd): PortalEnd => ({
+      position: { x: Math.floor(end.position.x), y: Math.floor(end.position.y), z: Math.floor(end.position.z) },
+      dimension: end.dimension,
+    });
+    const existing = this.findPortalLink(from.position, from.dimension);
+    const touches = (link: PortalLink, end: PortalEnd) =>
+      this.isNearPortalEnd(link.from, end.position, end.dimension) || this.isNearPortalEnd(link.to, end.position, end.dimension);
+    this.portalLinks = this.portalLinks.filter(link => !touches(link, from) && !touches(link, to));
+    const link: PortalLink = { from: floor(from), to: floor(to), createdAt: existing?.createdAt ?? now, lastUsed: now };
+    this.portalLinks.push(link);
+    this.scheduleSave();
+    return link;
+  }
+
+  /**
+   * 查找某个传送门所在的连接（两端都会匹配，返回的 from 总是给定的一端）
+   */
+  findPortalLink(position: { x: number; y: number; z: number }, dimension: string): PortalLink | null {
+    for (const link of this.portalLinks) {
+      if (this.isNearPortalEnd(link.from, position, dimension)) return link;
+      if (this.isNearPortalEnd(link.to, position, dimension)) {
+        return { from: link.to, to: link.from, createdAt: link.createdAt, lastUsed: link.lastUsed };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 获取所有传送门连接，可按维度过滤（任一端在该维度即返回）
+   */
+  getPortalLinks(dimension?: string): PortalLink[] {
+    return this.portalLinks.filter(link => !dimension || link.from.dimension === dimension || link.to.dimension === dimension);
+  }
+
+  private isNearPortalEnd(end: PortalEnd, position: { x: number; y: number; z: number }, dimension: string): boolean {
+    if (end.dimension !== dimension) return false;
+    const dx = end.position.x - position.x;
+    const dy = end.position.y - position.y;
+    const dz = end.position.z - position.z;
+    return Math.sqrt(dx * dx + dy * dy + dz * dz) <= CLUSTER_DISTANCE;
+  }
+
+  /**
+   * 获取已知内容的容器
+   */
+  getContainers(dimension?: string): KnownContainer[] {
+    return this.query({ category: 'container', dimension })
+      .filter(location => location.contents)
+      .map(location => ({
+        position: location.position,
+        blockName: location.blockName,
+        dimension: location.dimension,
+        items: location.contents!,
+        updatedAt: location.contentsUpdatedAt ?? location.lastSeen,
+      }));
+  }
+
+  /**
+   * 查找离 bot 最近的记录（当前维度）
+   */
+  findNearest(bot: Bot, query: Omit<MemoryQuery, 'near' | 'dimension' | 'limit'>): (MemoryLocation & { distance?: number }) | null {
+    const position = bot.entity.position;
+    return this.query({
+      ...query,
+      dimension: this.dimensionOf(bot),
+      near: { x: position.x, y: position.y, z: position.z },
+      limit: 1,
+    })[0] ?? null;
+  }
+
+  /**
+   * 获取当前维度的 bot 维度名称
+   */
+  dimensionOf(bot: Bot): string {
+    return MinecraftUtils.getDimension(bot);
+  }
+
+  get size(): number {
+    return this.locations.size;
+  }
+
+  /**
+   * 立即保存到文件
+   */
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.options.enabled || !this.options.filePath) return;
+    this.pruneVisitedChunks();
+
+    try {
+      fs.mkdirSync(path.dirname(this.options.filePath), { recursive: true });
+      const data = {
+        version: 1,
+        savedAt: Date.now(),
+        locations: Array.from(this.locations.values()),
+        villagers: Array.from(this.villagers.values()),
+        visitedChunks: Array.from(this.visitedChunks, ([key, visitedAt]) => ({ key, visitedAt })),
+        portalLinks: this.portalLinks,
+      };
+      fs.writeFileSync(this.options.filePath, JSON.stringify(data), 'utf8');
+    } catch (error) {
+      this.logger.warn(`保存世界记忆失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!this.options.enabled || !this.options.filePath || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.flush(), SAVE_DEBOUNCE_MS);
+  }
+
+  private load(): void {
+    if (!this.options.enabled || !this.options.filePath || !fs.existsSync(this.options.filePath)) return;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.options.filePath, 'utf8'));
+      for (const location of (data?.locations ?? []) as MemoryLocation[]) {
+        if (!location?.position || !location.dimension) continue;
+        this.locations.set(WorldMemory.key(location.position, location.dimension), location);
+      }
+      for (const villager of (data?.villagers ?? []) as KnownVillager[]) {
+        if (!villager?.position || !Array.isArray(villager.trades)) continue;
+        this.villagers.set(WorldMemory.villagerKey(villager), villager);
+      }
+      for (const chunk of (data?.visitedChunks ?? []) as Array<{ key: string; visitedAt: number }>) {
+        if (typeof chunk?.key !== 'string' || typeof chunk.visitedAt !== 'number') continue;
+        if (Date.now() - chunk.visitedAt < VISITED_CHUNK_TTL_MS) this.visitedChunks.set(chunk.key, chunk.visitedAt);
+      }
+      for (const link of (data?.portalLinks ?? []) as PortalLink[]) {
+        if (link?.from?.position && link.to?.position) this.portalLinks.push(link);
+      }
+      this.logger.info(`已加载 ${this.locations.size} 条世界记忆、${this.villagers.size} 个村民: ${this.options.filePath}`);
+    } catch (error) {
+      this.logger.warn(`加载世界记忆失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
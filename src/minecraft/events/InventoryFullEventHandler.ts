@@ -0,0 +1,59 @@
+import { BaseEventHandler } from './BaseEventHandler.js';
+import { GameEventType } from '../GameEvent.js';
+import { Logger } from '../../utils/Logger.js';
+import { InventoryUtils, DEFAULT_JUNK_ITEMS } from '../../utils/InventoryUtils.js';
+import type { MinecraftClient } from '../MinecraftClient.js';
+
+/**
+ * 物品栏已满事件处理器
+ * 主物品栏的空槽位用完时触发一次，空出槽位后重新计数
+ */
+export class InventoryFullEventHandler extends BaseEventHandler {
+  private logger: Logger;
+  private full = false;
+
+  constructor(
+    bot: any,
+    isEventDisabled: (eventType: GameEventType) => boolean,
+    addEvent: (event: any) => void,
+    getCurrentGameTick: () => number,
+    getCurrentTimestamp: () => number
+  ) {
+    super(bot, isEventDisabled, addEvent, getCurrentGameTick, getCurrentTimestamp);
+    this.logger = new Logger('InventoryFullEventHandler');
+  }
+
+  register(): void {
+    this.bot.inventory.on('updateSlot', (slot: number) => {
+      if (slot < this.bot.inventory.inventoryStart || slot >= this.bot.inventory.inventoryEnd) return;
+
+      const full = this.bot.inventory.emptySlotCount() === 0;
+      if (full === this.full) return;
+      this.full = full;
+      if (!full || this.isEventDisabled(GameEventType.INVENTORY_FULL)) return;
+
+      const client = (this.bot as any).client as MinecraftClient | undefined;
+      const status = InventoryUtils.getSlotStatus(this.bot, client?.getJunkItems?.() ?? DEFAULT_JUNK_ITEMS);
+      const position = this.bot.entity?.position;
+
+      this.addEvent(this.createEvent('inventoryFull', {
+        data: {
+          totalSlots: status.totalSlots,
+          consolidatableSlots: status.consolidatableSlots,
+          junk: status.junk,
+          position: position ? {
+            x: Number(position.x.toFixed(2)),
+            y: Number(position.y.toFixed(2)),
+            z: Number(position.z.toFixed(2))
+          } : undefined
+        }
+      }));
+
+      this.logger.info(`物品栏已满，杂物占用 ${status.junkSlots} 格，合并后可空出 ${status.consolidatableSlots} 格`);
+    });
+  }
+
+  getEventType(): GameEventType {
+    return GameEventType.INVENTORY_FULL;
+  }
+}
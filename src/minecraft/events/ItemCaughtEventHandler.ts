@@ -0,0 +1,54 @@
+import { BaseEventHandler } from './BaseEventHandler.js';
+import { GameEventType } from '../GameEvent.js';
+import { Logger } from '../../utils/Logger.js';
+
+/**
+ * 钓到物品事件处理器
+ * 处理 fish 动作在每次收杆获得物品后触发的 itemCaught 事件（非 mineflayer 原生事件）
+ */
+export class ItemCaughtEventHandler extends BaseEventHandler {
+  private logger: Logger;
+
+  constructor(
+    bot: any,
+    isEventDisabled: (eventType: GameEventType) => boolean,
+    addEvent: (event: any) => void,
+    getCurrentGameTick: () => number,
+    getCurrentTimestamp: () => number
+  ) {
+    super(bot, isEventDisabled, addEvent, getCurrentGameTick, getCurrentTimestamp);
+    this.logger = new Logger('ItemCaughtEventHandler');
+  }
+
+  register(): void {
+    // itemCaught 不在 mineflayer 的 BotEvents 中，由 FishAction 通过 bot.emit 触发
+    (this.bot as any).on('itemCaught', (item: any) => {
+      if (!this.isEventDisabled(GameEventType.ITEM_CAUGHT)) {
+        const position = this.bot!.entity?.position;
+
+        this.addEvent(this.createEvent('itemCaught', {
+          data: {
+            item: {
+              id: item.id,
+              name: item.name,
+              displayName: item.displayName,
+              count: item.count,
+              enchantments: item.enchantments?.length ? item.enchantments : undefined
+            },
+            position: position ? {
+              x: Number(position.x.toFixed(2)),
+              y: Number(position.y.toFixed(2)),
+              z: Number(position.z.toFixed(2))
+            } : undefined
+          }
+        }));
+
+        this.logger.info(`钓到了物品: ${item.name} x${item.count}`);
+      }
+    });
+  }
+
+  getEventType(): GameEventType {
+    return GameEventType.ITEM_CAUGHT;
+  }
+}
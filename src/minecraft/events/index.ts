@@ -13,6 +13,8 @@ import { EntityHurtEventHandler } from './EntityHurtEventHandler.js';
 import { EntityDeathEventHandler } from './EntityDeathEventHandler.js';
 import { PlayerCollectEventHandler } from './PlayerCollectEventHandler.js';
 import { ItemDropEventHandler } from './ItemDropEventHandler.js';
+import { ItemCaughtEventHandler } from './ItemCaughtEventHandler.js';
+import { InventoryFullEventHandler } from './InventoryFullEventHandler.js';
 import { ForcedMoveEventHandler } from './ForcedMoveEventHandler.js';
 import { EndEventHandler } from './EndEventHandler.js';
 import { ErrorEventHandler } from './ErrorEventHandler.js';
@@ -44,6 +46,9 @@ export function getAllEventHandlers(): (new (
     EntityDeathEventHandler,
     PlayerCollectEventHandler,
     ItemDropEventHandler,
+    ItemCaughtEventHandler,
+  InventoryFullEventHandler,
+    InventoryFullEventHandler,
     ForcedMoveEventHandler,
     EndEventHandler,
     ErrorEventHandler
@@ -66,6 +71,8 @@ export {
   EntityDeathEventHandler,
   PlayerCollectEventHandler,
   ItemDropEventHandler,
+  ItemCaughtEventHandler,
+  InventoryFullEventHandler,
   ForcedMoveEventHandler,
   EndEventHandler,
   ErrorEventHandler
@@ -1,7 +1,19 @@
 declare module 'prismarine-schematic' {
+  import type { Vec3 } from 'vec3';
+  import type { Block } from 'prismarine-block';
+
   export class Schematic {
+    constructor(version: string, size: Vec3, offset: Vec3, palette: number[], blocks: number[])
+    readonly version: string
+    readonly size: Vec3
+    readonly offset: Vec3
+    palette: number[]
+    blocks: number[]
+    start(): Vec3
+    end(): Vec3
+    getBlockStateId(pos: Vec3): number
+    getBlock(pos: Vec3): Block
     static read(data: Buffer | Uint8Array, version: string): Promise<Schematic>
     paste(world: any, position: any): Promise<void>
   }
 }
-
@@ -0,0 +1,84 @@
+import { Bot } from 'mineflayer';
+import { Logger } from './Logger.js';
+
+/**
+ * 动作取消工具类
+ * 提供取消信号检查和中断后恢复 bot 状态的功能
+ */
+export class AbortUtils {
+  private static logger = new Logger('AbortUtils');
+
+  /**
+   * 创建取消错误
+   * @param reason 取消原因
+   */
+  static createAbortError(reason?: unknown): Error {
+    const error = new Error(typeof reason === 'string' ? `动作已被取消: ${reason}` : '动作已被取消');
+    error.name = 'AbortError';
+    return Object.assign(error, { reason });
+  }
+
+  /**
+   * 判断错误是否由取消引起
+   */
+  static isAbortError(error: unknown): boolean {
+    return error instanceof Error && error.name === 'AbortError';
+  }
+
+  /**
+   * 如果信号已取消则抛出取消错误，供动作在循环中检查
+   */
+  static throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw this.createAbortError(signal.reason);
+    }
+  }
+
+  /**
+   * 可被取消的等待
+   * @param ms 等待时间（毫秒）
+   * @param signal 取消信号（可选）
+   */
+  static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(this.createAbortError(signal.reason));
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(this.createAbortError(signal!.reason));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * 停止 bot 当前的所有活动，使其回到空闲状态
+   * 包括寻路目标、方块收集、pvp/远程攻击、挖掘、移动控制和打开的容器窗口
+   */
+  static stopBotActivity(bot: Bot): void {
+    const steps: Array<[string, () => void]> = [
+      ['pathfinder', () => bot.pathfinder?.stop()],
+      ['pathfinder goal', () => bot.pathfinder?.setGoal(null)],
+      ['collectBlock', () => { bot.collectBlock?.cancelTask().catch(() => {}); }],
+      ['pvp', () => { (bot as any).pvp?.stop(); }],
+      ['hawkEye', () => { (bot as any).hawkEye?.stop(); }],
+      ['digging', () => { if (bot.targetDigBlock) bot.stopDigging(); }],
+      ['controlStates', () => bot.clearControlStates()],
+      ['window', () => { if (bot.currentWindow) bot.closeWindow(bot.currentWindow); }],
+    ];
+
+    for (const [name, step] of steps) {
+      try {
+        step();
+      } catch (error) {
+        this.logger.debug(`停止 ${name} 失败: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+}
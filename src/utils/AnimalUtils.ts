@@ -0,0 +1,153 @@
+import { Bot } from 'mineflayer';
+import { Entity } from 'prismarine-entity';
+import { MinecraftUtils } from './MinecraftUtils.js';
+
+/** 小花（蜜蜂的繁殖物品） */
+const SMALL_FLOWERS = [
+  'dandelion', 'poppy', 'blue_orchid', 'allium', 'azure_bluet', 'red_tulip', 'orange_tulip', 'white_tulip',
+  'pink_tulip', 'oxeye_daisy', 'cornflower', 'lily_of_the_valley', 'torchflower', 'wither_rose',
+];
+/** 种子（鸡和鹦鹉） */
+const SEEDS = ['wheat_seeds', 'melon_seeds', 'pumpkin_seeds', 'beetroot_seeds', 'torchflower_seeds', 'pitcher_pod'];
+/** 生肉和熟肉（狼） */
+const MEATS = [
+  'beef', 'cooked_beef', 'porkchop', 'cooked_porkchop', 'chicken', 'cooked_chicken',
+  'mutton', 'cooked_mutton', 'rabbit', 'cooked_rabbit', 'rotten_flesh',
+];
+
+/**
+ * 各种动物的繁殖物品
+ */
+export const BREEDING_FOOD: Record<string, string[]> = {
+  cow: ['wheat'],
+  mooshroom: ['wheat'],
+  sheep: ['wheat'],
+  goat: ['wheat'],
+  pig: ['carrot', 'potato', 'beetroot'],
+  chicken: SEEDS,
+  rabbit: ['dandelion', 'carrot', 'golden_carrot'],
+  horse: ['golden_carrot', 'golden_apple', 'enchanted_golden_apple'],
+  donkey: ['golden_carrot', 'golden_apple', 'enchanted_golden_apple'],
+  llama: ['hay_block'],
+  trader_llama: ['hay_block'],
+  wolf: MEATS,
+  cat: ['cod', 'salmon'],
+  ocelot: ['cod', 'salmon'],
+  fox: ['sweet_berries', 'glow_berries'],
+  panda: ['bamboo'],
+  bee: SMALL_FLOWERS,
+  turtle: ['seagrass'],
+  strider: ['warped_fungus'],
+  hoglin: ['crimson_fungus'],
+  axolotl: ['tropical_fish_bucket'],
+  frog: ['slime_ball'],
+  camel: ['cactus'],
+  sniffer: ['torchflower_seeds'],
+  armadillo: ['spider_eye'],
+};
+
+/**
+ * 喂食驯服的动物及驯服物品
+ */
+export const TAMING_FOOD: Record<string, string[]> = {
+  wolf: ['bone'],
+  cat: ['cod', 'salmon'],
+  parrot: SEEDS,
+};
+
+/** 通过反复骑乘驯服的动物 */
+export const RIDE_TAMED_ANIMALS = ['horse', 'donkey', 'mule', 'llama', 'trader_llama'];
+
+/** 需要先驯服才能繁殖的动物 */
+const TAMED_TO_BREED = ['wolf', 'cat', 'horse', 'donkey', 'llama', 'trader_llama'];
+/** 可驯服动物（狼、猫、鹦鹉）的标志位：已驯服 */
+const TAMABLE_FLAG_TAMED = 0x04;
+/** 马类动物的标志位：已驯服 */
+const HORSE_FLAG_TAMED = 0x02;
+/** 繁殖后的冷却时间（5 分钟） */
+export const BREEDING_COOLDOWN_MS = 5 * 60 * 1000;
+
+/** 按实体 UUID 记录最近一次成功喂食繁殖的时间（服务端不向客户端同步繁殖冷却），冷却结束后清除 */
+const lastBred = new Map<string, number>();
+
+/**
+ * 动物工具类
+ * 提供幼年/驯服状态判断、繁殖物品查找和繁殖冷却记录
+ */
+export class AnimalUtils {
+  static isBaby(bot: Bot, entity: Entity): boolean {
+    return MinecraftUtils.getEntityMetadata(bot, entity, 'baby', 16) === true;
+  }
+
+  /**
+   * 是否已被驯服（狼、猫、鹦鹉和马类动物），其他动物返回 false
+   */
+  static isTamed(bot: Bot, entity: Entity): boolean {
+    const flags = MinecraftUtils.getEntityMetadata(bot, entity, 'flags', 17);
+    if (typeof flags !== 'number') return false;
+    if (entity.name && entity.name in TAMING_FOOD) return (flags & TAMABLE_FLAG_TAMED) !== 0;
+    if (entity.name && RIDE_TAMED_ANIMALS.includes(entity.name)) return (flags & HORSE_FLAG_TAMED) !== 0;
+    return false;
+  }
+
+  /**
+   * 主人的 UUID（狼、猫、鹦鹉）
+   */
+  static getOwner(bot: Bot, entity: Entity): string | null {
+    const owner = MinecraftUtils.getEntityMetadata(bot, entity, 'owneruuid', 18);
+    return typeof owner === 'string' ? owner : null;
+  }
+
+  /**
+   * 拴绳的另一端（玩家或栅栏上的拴绳结），mineflayer 把拴绳的持有者记录在 vehicle 上
+   */
+  static getLeashHolder(entity: Entity): Entity | null {
+    const holder = entity.vehicle;
+    return holder && (holder.type === 'player' || holder.name === 'leash_knot') ? holder : null;
+  }
+
+  static requiresTamingToBreed(species: string): boolean {
+    return TAMED_TO_BREED.includes(species);
+  }
+
+  /**
+   * 背包中可用于繁殖该动物的物品名称
+   */
+  static findBreedingFood(bot: Bot, species: string): string | null {
+    const foods = BREEDING_FOOD[species] ?? [];
+    return foods.find(food => bot.inventory.items().some(item => item.name === food)) ?? null;
+  }
+
+  /**
+   * 繁殖冷却剩余时间（毫秒），只记录由本 bot 喂食的动物
+   */
+  static getBreedingCooldown(entity: Entity): number {
+    const key = this.entityKey(entity);
+    const bredAt = lastBred.get(key);
+    if (bredAt === undefined) return 0;
+    const remaining = bredAt + BREEDING_COOLDOWN_MS - Date.now();
+    if (remaining <= 0) {
+      lastBred.delete(key);
+      return 0;
+    }
+    return remaining;
+  }
+
+  static markBred(entity: Entity): void {
+    this.pruneBred();
+    lastBred.set(this.entityKey(entity), Date.now());
+  }
+
+  /**
+   * 清除冷却已结束的记录，避免长时间运行后记录无限增长
+   */
+  private static pruneBred(now: number = Date.now()): void {
+    for (const [key, bredAt] of lastBred) {
+      if (bredAt + BREEDING_COOLDOWN_MS <= now) lastBred.delete(key);
+    }
+  }
+
+  private static entityKey(entity: Entity): string {
+    return entity.uuid ?? String(entity.id);
+  }
+}
@@ -0,0 +1,267 @@
+import { Bot } from 'mineflayer';
+import { Block } from 'prismarine-block';
+import { Item } from 'prismarine-item';
+import nbt from 'prismarine-nbt';
+import type { Window } from 'prismarine-windows';
+import { AbortUtils } from './AbortUtils.js';
+
+/** 酿造台窗口槽位：三个药水瓶槽、材料槽和燃料槽 */
+export const BOTTLE_SLOTS = [0, 1, 2];
+export const INGREDIENT_SLOT = 3;
+export const FUEL_SLOT = 4;
+
+/** 药水瓶物品 */
+export const POTION_ITEMS = ['potion', 'splash_potion', 'lingering_potion'];
+
+/**
+ * 1.20.5+ 物品组件中的药水编号对应的名称（注册表顺序）
+ */
+const POTION_REGISTRY = [
+  'water', 'mundane', 'thick', 'awkward', 'night_vision', 'long_night_vision', 'invisibility', 'long_invisibility',
+  'leaping', 'long_leaping', 'strong_leaping', 'fire_resistance', 'long_fire_resistance', 'swiftness', 'long_swiftness',
+  'strong_swiftness', 'slowness', 'long_slowness', 'strong_slowness', 'turtle_master', 'long_turtle_master',
+  'strong_turtle_master', 'water_breathing', 'long_water_breathing', 'healing', 'strong_healing', 'harming',
+  'strong_harming', 'poison', 'long_poison', 'strong_poison', 'regeneration', 'long_regeneration', 'strong_regeneration',
+  'strength', 'long_strength', 'strong_strength', 'weakness', 'long_weakness', 'luck', 'slow_falling', 'long_slow_falling',
+  'wind_charged', 'weaving', 'oozing', 'infested'
+];
+
+/**
+ * 基础药水的酿造方式：从哪种药水加入哪种材料
+ */
+const BASE_RECIPES: Record<string, { from: string; ingredient: string }> = {
+  awkward: { from: 'water', ingredient: 'nether_wart' },
+  mundane: { from: 'water', ingredient: 'redstone' },
+  thick: { from: 'water', ingredient: 'glowstone_dust' },
+  healing: { from: 'awkward', ingredient: 'glistering_melon_slice' },
+  swiftness: { from: 'awkward', ingredient: 'sugar' },
+  strength: { from: 'awkward', ingredient: 'blaze_powder' },
+  regeneration: { from: 'awkward', ingredient: 'ghast_tear' },
+  fire_resistance: { from: 'awkward', ingredient: 'magma_cream' },
+  night_vision: { from: 'awkward', ingredient: 'golden_carrot' },
+  water_breathing: { from: 'awkward', ingredient: 'pufferfish' },
+  leaping: { from: 'awkward', ingredient: 'rabbit_foot' },
+  slow_falling: { from: 'awkward', ingredient: 'phantom_membrane' },
+  poison: { from: 'awkward', ingredient: 'spider_eye' },
+  turtle_master: { from: 'awkward', ingredient: 'turtle_helmet' },
+  invisibility: { from: 'night_vision', ingredient: 'fermented_spider_eye' },
+  harming: { from: 'poison', ingredient: 'fermented_spider_eye' },
+  slowness: { from: 'swiftness', ingredient: 'fermented_spider_eye' },
+  weakness: { from: 'water', ingredient: 'fermented_spider_eye' },
+};
+
+/** 可延长时间（红石）的药水 */
+const EXTENDABLE = [
+  'swiftness', 'strength', 'regeneration', 'fire_resistance', 'night_vision', 'water_breathing', 'leaping',
+  'slow_falling', 'poison', 'turtle_master', 'invisibility', 'slowness', 'weakness'
+];
+/** 可增强等级（荧石粉）的药水 */
+const STRENGTHENABLE = ['healing', 'swiftness', 'strength', 'regeneration', 'leaping', 'poison', 'turtle_master', 'harming', 'slowness'];
+
+/**
+ * 酿造步骤
+ */
+export interface BrewStep {
+  ingredient: string;
+  /** 本步骤完成后的药水类型 */
+  potion: string;
+  /** 本步骤完成后的药水物品 */
+  item: string;
+}
+
+/**
+ * 酿造计划
+ */
+export interface BrewPlan {
+  /** 目标药水类型，如 strong_healing */
+  potion: string;
+  /** 目标药水物品：potion | splash_potion | lingering_potion */
+  item: string;
+  /** 从水瓶开始的完整步骤 */
+  steps: BrewStep[];
+}
+
+/**
+ * 打开的酿造台，fuel 和 brewTime 随服务器的窗口属性更新
+ */
+export interface BrewingStand {
+  window: Window;
+  /** 剩余燃料次数（每份烈焰粉 20 次） */
+  fuel: number;
+  /** 剩余酿造时间（tick），0 表示未在酿造 */
+  brewTime: number;
+}
+
+/**
+ * 酿造工具类
+ * 提供药水类型识别、目标药水的酿造步骤解析和酿造台窗口操作
+ */
+export class BrewingUtils {
+
+  /**
+   * 读取药水物品的药水类型（如 water、awkward、strong_healing），无法识别时返回 null
+   */
+  static getPotionType(item: Item | null | undefined): string | null {
+    if (!item || !POTION_ITEMS.includes(item.name)) return null;
+
+    // 1.20.5+ 使用物品组件
+    const component = (item as any).componentMap?.get?.('potion_contents');
+    if (component) {
+      const potionId = component.data?.potionId ?? component.potionId;
+      if (potionId === undefined || potionId === null) return 'water';
+      return POTION_REGISTRY[potionId] ?? `potion_${potionId}`;
+    }
+
+    if (!item.nbt) return null;
+    try {
+      const simplified: any = nbt.simplify(item.nbt as any);
+      const potion: string | undefined = simplified?.Potion;
+      return potion ? potion.replace(/^minecraft:/, '') : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 解析目标药水名称并生成酿造步骤
+   * 支持 potion_of_healing、strong_healing、splash_potion_of_swiftness、long_night_vision 等写法
+   * @returns 无法识别或无法酿造时返回 null
+   */
+  static plan(target: string): BrewPlan | null {
+    let name = target.trim().toLowerCase().replace(/^minecraft:/, '').replace(/\s+/g, '_');
+    let item = 'potion';
+    if (name.startsWith('splash_')) {
+      item = 'splash_potion';
+      name = name.slice('splash_'.length);
+    } else if (name.startsWith('lingering_')) {
+      item = 'lingering_potion';
+      name = name.slice('lingering_'.length);
+    }
+    name = name.replace(/^potion_of_/, '').replace(/^potion_/, '').replace(/_potion$/, '');
+
+    let modifier: 'long' | 'strong' | null = null;
+    if (name.startsWith('long_')) {
+      modifier = 'long';
+      name = name.slice('long_'.length);
+    } else if (name.startsWith('strong_')) {
+      modifier = 'strong';
+      name = name.slice('strong_'.length);
+    }
+
+    if (!BASE_RECIPES[name]) return null;
+    if (modifier === 'long' && !EXTENDABLE.includes(name)) return null;
+    if (modifier === 'strong' && !STRENGTHENABLE.includes(name)) return null;
+
+    // 从目标药水沿 from 回溯到水瓶
+    const chain: BrewStep[] = [];
+    for (let potion = name; potion !== 'water';) {
+      const recipe = BASE_RECIPES[potion];
+      chain.unshift({ ingredient: recipe.ingredient, potion, item: 'potion' });
+      potion = recipe.from;
+    }
+    if (modifier === 'long') {
+      chain.push({ ingredient: 'redstone', potion: `long_${name}`, item: 'potion' });
+    } else if (modifier === 'strong') {
+      chain.push({ ingredient: 'glowstone_dust', potion: `strong_${name}`, item: 'potion' });
+    }
+
+    const potion = chain[chain.length - 1].potion;
+    if (item !== 'potion') {
+      chain.push({ ingredient: 'gunpowder', potion, item: 'splash_potion' });
+    }
+    if (item === 'lingering_potion') {
+      chain.push({ ingredient: 'dragon_breath', potion, item: 'lingering_potion' });
+    }
+
+    return { potion, item, steps: chain };
+  }
+
+  /**
+   * 打开酿造台并跟踪燃料和酿造进度
+   */
+  static async open(bot: Bot, block: Block): Promise<BrewingStand> {
+    const window = await bot.openBlock(block);
+    const stand: BrewingStand = { window, fuel: 0, brewTime: 0 };
+
+    const onProperty = (packet: any) => {
+      if (packet.windowId !== window.id) return;
+      if (packet.property === 0) stand.brewTime = packet.value;
+      else if (packet.property === 1) stand.fuel = packet.value;
+    };
+    const onClose = (closed: Window) => {
+      if (closed !== window) return;
+      bot._client.removeListener('craft_progress_bar', onProperty);
+      bot.removeListener('windowClose', onClose);
+    };
+    bot._client.on('craft_progress_bar', onProperty);
+    bot.on('windowClose', onClose);
+    return stand;
+  }
+
+  /**
+   * 从背包向酿造台槽位放入物品（按 NBT 匹配，以区分不同药水）
+   */
+  static async put(bot: Bot, stand: BrewingStand, item: Item, slot: number, count: number): Promise<void> {
+    await bot.transfer({
+      window: stand.window,
+      itemType: item.type,
+      metadata: item.metadata,
+      count,
+      nbt: item.nbt,
+      sourceStart: stand.window.inventoryStart,
+      sourceEnd: stand.window.inventoryEnd,
+      destStart: slot,
+      destEnd: slot + 1,
+    } as any);
+  }
+
+  /**
+   * 取出酿造台槽位中的物品
+   */
+  static async take(bot: Bot, stand: BrewingStand, slot: number): Promise<Item | null> {
+    const item: Item | null = stand.window.slots[slot] ?? null;
+    if (item) await bot.putAway(slot);
+    return item;
+  }
+
+  /**
+   * 等待材料槽中的材料被消耗（一次酿造约 20 秒）
+   * @returns 是否在超时前完成
+   */
+  static async waitForBrew(stand: BrewingStand, timeoutMs: number, signal?: AbortSignal): Promise<boolean> {
+    const before = stand.window.slots[INGREDIENT_SLOT]?.count ?? 0;
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      await AbortUtils.sleep(500, signal);
+      const current = stand.window.slots[INGREDIENT_SLOT]?.count ?? 0;
+      if (current < before) return true;
+    }
+    return false;
+  }
+
+  /**
+   * 描述酿造台各槽位内容
+   */
+  static describeSlots(stand: BrewingStand): {
+    bottles: Array<{ slot: number; name: string; potion: string | null } | null>;
+    ingredient: { name: string; count: number } | null;
+    fuel: { name: string; count: number } | null;
+    fuelCharges: number;
+    brewTime: number;
+  } {
+    const slotItem = (slot: number) => {
+      const item: Item | null = stand.window.slots[slot] ?? null;
+      return item ? { name: item.name, count: item.count } : null;
+    };
+    return {
+      bottles: BOTTLE_SLOTS.map(slot => {
+        const item: Item | null = stand.window.slots[slot] ?? null;
+        return item ? { slot, name: item.name, potion: this.getPotionType(item) } : null;
+      }),
+      ingredient: slotItem(INGREDIENT_SLOT),
+      fuel: slotItem(FUEL_SLOT),
+      fuelCharges: stand.fuel,
+      brewTime: stand.brewTime,
+    };
+  }
+}
@@ -0,0 +1,197 @@
+import { Bot } from 'mineflayer';
+import { Block } from 'prismarine-block';
+import { Vec3 } from 'vec3';
+import { MovementUtils, GoalType } from './MovementUtils.js';
+import { PlaceBlockUtils } from './PlaceBlockUtils.js';
+import { AbortUtils } from './AbortUtils.js';
+import { Logger } from './Logger.js';
+
+/**
+ * 可以用桶装取的方块
+ */
+export type BucketFluid = 'water' | 'lava' | 'powder_snow';
+
+/**
+ * 装满后的桶
+ */
+export const FILLED_BUCKETS: Record<BucketFluid, string> = {
+  water: 'water_bucket',
+  lava: 'lava_bucket',
+  powder_snow: 'powder_snow_bucket',
+};
+
+/** 使用桶后等待方块更新的时间 */
+const BUCKET_WAIT_MS = 300;
+/** 放水后等待岩浆凝固的时间 */
+const SOLIDIFY_WAIT_MS = 600;
+/** 凝固岩浆时默认的放水位置：岩浆上方和四周 */
+const LAVA_NEIGHBORS = [new Vec3(0, 1, 0), new Vec3(1, 0, 0), new Vec3(-1, 0, 0), new Vec3(0, 0, 1), new Vec3(0, 0, -1)];
+/** 手臂可及的距离 */
+const REACH = 4;
+
+/**
+ * 桶工具类
+ * 提供装取流体源、按 PlaceBlockUtils 的参照面选择放置流体、收回流体、把岩浆凝固成黑曜石和用水桶灭火
+ */
+export class BucketUtils {
+  private static logger = new Logger('BucketUtils');
+
+  static countItem(bot: Bot, name: string): number {
+    return bot.inventory.items().filter(item => item.name === name).reduce((sum, item) => sum + item.count, 0);
+  }
+
+  /**
+   * 查找最近的流体源方块（水和岩浆只匹配源方块）
+   */
+  static findSource(bot: Bot, fluid: BucketFluid, maxDistance: number, point?: Vec3): Block | null {
+    const id = bot.registry.blocksByName[fluid]?.id;
+    if (id === undefined) return null;
+    return bot.findBlock({
+      matching: (block: Block) => block.type === id && (fluid === 'powder_snow' || block.metadata === 0),
+      maxDistance,
+      point,
+    });
+  }
+
+  /**
+   * 用空桶装取方块位置的流体
+   */
+  static async fill(bot: Bot, block: Block, signal?: AbortSignal): Promise<void> {
+    const fluid = block.name as BucketFluid;
+    const filled = FILLED_BUCKETS[fluid];
+    if (!filled) throw new Error(`${block.name} 不能用桶装取`);
+    const before = this.countItem(bot, filled);
+
+    await this.moveWithinReach(bot, block.position, signal);
+    await this.useHeld(bot, 'bucket', block.position.offset(0.5, 0.5, 0.5));
+    await AbortUtils.sleep(BUCKET_WAIT_MS, signal);
+    if (this.countItem(bot, filled) <= before) {
+      throw new Error(`从 (${block.position.x}, ${block.position.y}, ${block.position.z}) 装取 ${block.name} 失败`);
+    }
+  }
+
+  /**
+   * 在指定位置放置流体：选择旁边一个实心方块朝向目标的那一面，对准后使用桶
+   */
+  static async placeFluid(bot: Bot, position: Vec3, fluid: 'water' | 'lava', signal?: AbortSignal): Promise<void> {
+    if (fluid === 'water' && bot.game.dimension.replace(/^minecraft:/, '') === 'the_nether') {
+      throw new Error('下界无法放水');
+    }
+    const target = bot.blockAt(position);
+    if (!target) throw new Error(`位置 (${position.x}, ${position.y}, ${position.z}) 未加载`);
+    if (target.boundingBox === 'block') {
+      throw new Error(`目标位置已有方块: ${target.name}`);
+    }
+
+    const reference = PlaceBlockUtils.findReference(bot, position, undefined, block => block.boundingBox === 'block');
+    if (!reference) {
+      throw new Error(`(${position.x}, ${position.y}, ${position.z}) 旁边没有可以作为参照的实心方块`);
+    }
+    const { referenceBlock, faceVector } = reference;
+
+    await this.moveWithinReach(bot, position, signal);
+    await this.useHeld(bot, FILLED_BUCKETS[fluid], referenceBlock.position.offset(
+      0.5 + faceVector.x * 0.5,
+      0.5 + faceVector.y * 0.5,
+      0.5 + faceVector.z * 0.5
+    ));
+    await AbortUtils.sleep(BUCKET_WAIT_MS, signal);
+    if (bot.blockAt(position)?.name !== fluid) {
+      throw new Error(`未能在 (${position.x}, ${position.y}, ${position.z}) 放置 ${fluid}`);
+    }
+  }
+
+  /**
+   * 收回指定位置的流体源
+   * @returns 是否收回成功
+   */
+  static async pickUp(bot: Bot, position: Vec3, fluid: 'water' | 'lava', signal?: AbortSignal): Promise<boolean> {
+    const block = bot.blockAt(position);
+    if (block?.name !== fluid || block.metadata !== 0) return false;
+    if (this.countItem(bot, 'bucket') === 0) return false;
+    try {
+      await this.fill(bot, block, signal);
+      return true;
+    } catch (err) {
+      if (AbortUtils.isAbortError(err)) throw err;
+      this.logger.warn(err instanceof Error ? err.message : String(err));
+      return false;
+    }
+  }
+
+  /**
+   * 在岩浆源旁的空位放水使其凝固成黑曜石，随后收回水
+   * @param waterPositions 可以放水的位置，按顺序尝试，默认岩浆上方和四周
+   * @returns 是否收回了水
+   */
+  static async solidifyLava(bot: Bot, lava: Vec3, signal?: AbortSignal, waterPositions?: Vec3[]): Promise<boolean> {
+    const candidates = waterPositions ?? LAVA_NEIGHBORS.map(offset => lava.plus(offset));
+    let lastError = '旁边没有可以放水的空位';
+    for (const position of candidates) {
+      if (bot.blockAt(position)?.name !== 'air') continue;
+      try {
+        await this.placeFluid(bot, position, 'water', signal);
+      } catch (err) {
+        if (AbortUtils.isAbortError(err)) throw err;
+        lastError = err instanceof Error ? err.message : String(err);
+        continue;
+      }
+      await AbortUtils.sleep(SOLIDIFY_WAIT_MS, signal);
+      const recovered = await this.pickUp(bot, position, 'water', signal);
+      if (bot.blockAt(lava)?.name !== 'obsidian') {
+        throw new Error(`(${lava.x}, ${lava.y}, ${lava.z}) 的岩浆没有凝固成黑曜石`);
+      }
+      return recovered;
+    }
+    throw new Error(`(${lava.x}, ${lava.y}, ${lava.z}) ${lastError}`);
+  }
+
+  /**
+   * 用水桶在脚下放水灭火，随后收回
+   */
+  static async extinguishSelf(bot: Bot, signal?: AbortSignal): Promise<{ success: boolean; message: string }> {
+    if (this.countItem(bot, 'water_bucket') === 0) {
+      return { success: false, message: '背包中没有水桶' };
+    }
+    const feet = bot.entity.position.floored();
+    const below = bot.blockAt(feet.offset(0, -1, 0));
+    if (!below || below.boundingBox !== 'block') {
+      return { success: false, message: '脚下没有可以放水的方块' };
+    }
+
+    await this.useHeld(bot, 'water_bucket', below.position.offset(0.5, 1, 0.5));
+    await AbortUtils.sleep(500, signal);
+    // 收回水，避免留下水源
+    const recovered = await this.pickUp(bot, feet, 'water', signal);
+    return { success: true, message: recovered ? '使用水桶灭火' : '使用水桶灭火，但未能收回水' };
+  }
+
+  /**
+   * 装备物品并朝指定点使用
+   */
+  static async useHeld(bot: Bot, itemName: string, lookAt: Vec3): Promise<void> {
+    const item = bot.inventory.items().find(invItem => invItem.name === itemName);
+    if (!item) throw new Error(`背包中没有 ${itemName}`);
+    await bot.equip(item, 'hand');
+    await bot.lookAt(lookAt, true);
+    bot.activateItem();
+  }
+
+  private static async moveWithinReach(bot: Bot, position: Vec3, signal?: AbortSignal): Promise<void> {
+    if (bot.entity.position.offset(0, bot.entity.height * 0.9, 0).distanceTo(position.offset(0.5, 0.5, 0.5)) <= REACH) return;
+    const result = await MovementUtils.moveTo(bot, {
+      type: 'coordinate',
+      x: position.x,
+      y: position.y,
+      z: position.z,
+      distance: 3,
+      maxDistance: 100,
+      useRelativeCoords: false,
+      goalType: GoalType.GoalNear,
+      signal
+    });
+    if (!result.success) {
+      this.logger.warn(`移动到 (${position.x}, ${position.y}, ${position.z}) 附近失败: ${result.error}`);
+    }
+  }
+}
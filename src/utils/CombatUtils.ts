@@ -0,0 +1,147 @@
+import { Bot } from 'mineflayer';
+import { Entity } from 'prismarine-entity';
+import { Vec3 } from 'vec3';
+import { MinecraftUtils } from './MinecraftUtils.js';
+
+/**
+ * 威胁评估结果
+ */
+export interface ThreatInfo {
+  entity: Entity;
+  name: string;
+  distance: number;
+  /** 威胁分数，越高越优先处理 */
+  score: number;
+  /** 苦力怕正在引爆 */
+  fusing: boolean;
+  /** 远程生物能直接看到机器人 */
+  hasLineOfSight: boolean;
+  /** 远程攻击生物 */
+  ranged: boolean;
+}
+
+/**
+ * 战斗工具类
+ * 提供敌对生物的威胁评估、视线检测和苦力怕引爆状态读取
+ */
+export class CombatUtils {
+  /**
+   * 各类生物的基础威胁权重（未列出的敌对生物使用默认值）
+   */
+  private static readonly THREAT_WEIGHTS: Record<string, number> = {
+    creeper: 8,
+    warden: 10,
+    evoker: 9,
+    vindicator: 7,
+    ravager: 7,
+    witch: 6,
+    blaze: 6,
+    skeleton: 6,
+    stray: 6,
+    wither_skeleton: 7,
+    pillager: 6,
+    piglin_brute: 7,
+    hoglin: 6,
+    zoglin: 6,
+    ghast: 5,
+    phantom: 5,
+    vex: 5,
+    guardian: 5,
+    elder_guardian: 7,
+    cave_spider: 5,
+    zombie: 4,
+    husk: 4,
+    drowned: 4,
+    zombie_villager: 4,
+    spider: 4,
+    magma_cube: 3,
+    slime: 3,
+    silverfish: 2,
+    endermite: 2,
+    enderman: 2,
+  };
+
+  private static readonly DEFAULT_THREAT_WEIGHT = 3;
+
+  /**
+   * 远程攻击的生物：能看到机器人时威胁更高
+   */
+  private static readonly RANGED_MOBS = new Set([
+    'skeleton', 'stray', 'pillager', 'witch', 'blaze', 'ghast', 'drowned', 'guardian', 'elder_guardian', 'evoker'
+  ]);
+
+  /**
+   * 评估半径内所有敌对生物的威胁，按分数从高到低排序
+   * 分数 = 类型权重 + 距离加成（越近越高），引爆中的苦力怕和有视线的远程生物额外加分
+   */
+  static assessThreats(bot: Bot, radius: number): ThreatInfo[] {
+    const origin = bot.entity.position;
+    const threats: ThreatInfo[] = [];
+
+    for (const entity of Object.values(bot.entities)) {
+      if (entity === bot.entity || entity.type !== 'hostile' || !entity.name || !entity.isValid) continue;
+      const distance = entity.position.distanceTo(origin);
+      if (distance > radius) continue;
+
+      const name = entity.name;
+      const ranged = this.RANGED_MOBS.has(name);
+      const fusing = name === 'creeper' && this.isCreeperFusing(bot, entity);
+      const hasLineOfSight = ranged && this.hasLineOfSight(bot, entity);
+
+      let score = (this.THREAT_WEIGHTS[name] ?? this.DEFAULT_THREAT_WEIGHT) + 10 * (1 - distance / radius);
+      if (fusing) score += 20;
+      if (ranged) score += hasLineOfSight ? 4 : -3;
+
+      threats.push({ entity, name, distance, score, fusing, hasLineOfSight, ranged });
+    }
+
+    return threats.sort((a, b) => b.score - a.score || a.distance - b.distance);
+  }
+
+  /**
+   * 苦力怕是否正在引爆（swell_dir 为 1 或被打火石点燃）
+   */
+  static isCreeperFusing(bot: Bot, entity: Entity): boolean {
+    const swellDir = MinecraftUtils.getEntityMetadata(bot, entity, 'swell_dir', 16);
+    const ignited = MinecraftUtils.getEntityMetadata(bot, entity, 'is_ignited', 18);
+    return swellDir === 1 || ignited === true;
+  }
+
+  /**
+   * 读取实体当前生命值（元数据中没有时返回 null）
+   */
+  static getEntityHealth(bot: Bot, entity: Entity): number | null {
+    const health = MinecraftUtils.getEntityMetadata(bot, entity, 'health', 9);
+    return typeof health === 'number' ? health : null;
+  }
+
+  /**
+   * 检查实体的眼睛与机器人的眼睛之间是否没有方块阻挡
+   */
+  static hasLineOfSight(bot: Bot, entity: Entity): boolean {
+    const from = entity.position.offset(0, (entity.height ?? 1.8) * 0.85, 0);
+    const to = bot.entity.position.offset(0, bot.entity.height * 0.85, 0);
+    const delta = to.minus(from);
+    const range = delta.norm();
+    if (range === 0) return true;
+    const hit = (bot.world as any).raycast(from, delta.scaled(1 / range), range,
+      (block: any) => block.boundingBox === 'block');
+    return !hit;
+  }
+
+  /**
+   * 计算远离一组威胁的位置（威胁中心的反方向）
+   */
+  static getRetreatPosition(bot: Bot, threats: Entity[], distance: number): Vec3 {
+    const origin = bot.entity.position;
+    let away = new Vec3(0, 0, 0);
+    for (const entity of threats) {
+      const offset = origin.minus(entity.position);
+      offset.y = 0;
+      const length = offset.norm();
+      if (length > 0) away = away.plus(offset.scaled(1 / length));
+    }
+    const direction = away.norm() > 0 ? away.normalize() : new Vec3(1, 0, 0);
+    return origin.plus(direction.scaled(distance)).floored();
+  }
+}
@@ -1,6 +1,26 @@
 import { Bot } from 'mineflayer';
+import { Block } from 'prismarine-block';
+import { Item } from 'prismarine-item';
 import { Vec3 } from 'vec3';
 import { MovementUtils, GoalType } from './MovementUtils.js';
+import { AbortUtils } from './AbortUtils.js';
+import type { MinecraftClient } from '../minecraft/MinecraftClient.js';
+
+/** 前往记忆中位置时的最大移动距离 */
+const REMEMBERED_MAX_DISTANCE = 256;
+
+/**
+ * 可存取物品的容器方块（潜影盒的所有颜色由 shulker_box 统一表示）
+ */
+export const STORAGE_CONTAINERS = ['chest', 'trapped_chest', 'barrel', 'ender_chest', 'shulker_box', 'hopper', 'dispenser', 'dropper'];
+
+/** 箱子朝向顺时针旋转后的方向偏移，用于查找大箱子的另一半 */
+const CLOCKWISE_OFFSETS: { [facing: string]: { x: number; z: number } } = {
+  north: { x: 1, z: 0 },
+  east: { x: 0, z: 1 },
+  south: { x: -1, z: 0 },
+  west: { x: 0, z: -1 }
+};
 
 export interface ContainerInfo {
   location: {
@@ -19,15 +39,30 @@ export interface ContainerInfo {
 }
 
 export class ContainerUtils {
+  /**
+   * 将容器类型解析为方块名称列表
+   * shulker_box 包含所有颜色的潜影盒，any 包含所有可存取物品的容器
+   */
+  static resolveContainerBlocks(containerType: string, mcData: any): string[] {
+    const types = containerType === 'any' ? STORAGE_CONTAINERS : [containerType];
+    return types.flatMap(type => type === 'shulker_box'
+      ? Object.keys(mcData.blocksByName).filter(name => name.endsWith('shulker_box'))
+      : [type]
+    ).filter(name => mcData.blocksByName[name]);
+  }
+
   /**
    * 查找容器（指定坐标或最近的）
+   * @param containerType 方块名称，或 shulker_box（任意颜色）、any（任意可存取物品的容器）
    */
   static findContainer(bot: Bot, containerType: string, mcData: any, x?: number, y?: number, z?: number): any {
-    const expectedBlockId = mcData.blocksByName[containerType]?.id;
+    const blockNames = this.resolveContainerBlocks(containerType, mcData);
+    const expectedBlockIds = blockNames.map(name => mcData.blocksByName[name].id);
 
-    if (!expectedBlockId) {
+    if (expectedBlockIds.length === 0) {
       throw new Error(`未知的方块名称: ${containerType}`);
     }
+    const containerName = this.getContainerDisplayName(containerType);
 
     if (x !== undefined && y !== undefined && z !== undefined) {
       // 查找指定坐标的容器
@@ -36,21 +71,37 @@ export class ContainerUtils {
       if (!containerBlock) {
         throw new Error(`指定坐标 (${x}, ${y}, ${z}) 处没有方块`);
       }
-      if (containerBlock.type !== expectedBlockId) {
+      if (!expectedBlockIds.includes(containerBlock.type)) {
         const actualBlockName = mcData.blocks[containerBlock.type]?.name || `未知方块(${containerBlock.type})`;
-        throw new Error(`指定坐标 (${x}, ${y}, ${z}) 处是 ${actualBlockName}，不是 ${containerType}`);
+        throw new Error(`指定坐标 (${x}, ${y}, ${z}) 处是 ${actualBlockName}，不是${containerName}`);
       }
       return containerBlock;
     } else {
       // 找到最近的容器
-      const containerBlock = bot.findBlock({ matching: expectedBlockId, maxDistance: 32 });
+      const containerBlock = bot.findBlock({ matching: expectedBlockIds, maxDistance: 32 });
       if (!containerBlock) {
-        throw new Error(`附近没有 ${containerType}`);
+        throw new Error(`附近没有${containerName}`);
       }
       return containerBlock;
     }
   }
 
+  /**
+   * 查找大箱子的另一半，单箱子或非箱子返回 null
+   */
+  static getDoubleChestPartner(bot: Bot, block: Block): Block | null {
+    if (block.name !== 'chest' && block.name !== 'trapped_chest') return null;
+    const properties = block.getProperties() as { type?: string; facing?: string };
+    if (!properties.type || properties.type === 'single' || !properties.facing) return null;
+
+    // left 半边的另一半在朝向的顺时针方向，right 半边在逆时针方向
+    const offset = CLOCKWISE_OFFSETS[properties.facing];
+    if (!offset) return null;
+    const sign = properties.type === 'left' ? 1 : -1;
+    const partner = bot.blockAt(block.position.offset(offset.x * sign, 0, offset.z * sign));
+    return partner && partner.name === block.name ? partner : null;
+  }
+
   /**
    * 查找多个容器（按距离排序）
    */
@@ -97,7 +148,7 @@ export class ContainerUtils {
   /**
    * 移动到容器附近
    */
-  static async moveToContainer(bot: Bot, containerBlock: any, containerType: string): Promise<void> {
+  static async moveToContainer(bot: Bot, containerBlock: any, containerType: string, signal?: AbortSignal): Promise<void> {
     // 使用统一的移动工具类移动到容器位置，使用 GoalGetToBlock 目标类型
     const moveResult = await MovementUtils.moveTo(
       bot,
@@ -109,7 +160,8 @@ export class ContainerUtils {
         distance: 3, // 到达距离（稍微远一点，以便更好地看到容器）
         maxDistance: 32, // 最大移动距离
         useRelativeCoords: false, // 不使用相对坐标
-        goalType: GoalType.GoalGetToBlock // 使用获取方块目标类型
+        goalType: GoalType.GoalGetToBlock, // 使用获取方块目标类型
+        signal
       }
     );
 
@@ -119,6 +171,107 @@ export class ContainerUtils {
     }
   }
 
+  /**
+   * 附近找不到方块时，前往世界记忆中最近的同类方块
+   * 到达后方块已不存在时会从记忆中删除
+   * @param blockNames 方块名称列表
+   * @param options.position 指定坐标（方块所在区块未加载时前往该坐标）
+   * @param options.item 优先选择记忆中存有该物品的容器
+   * @param options.signal 取消信号
+   * @returns 是否已到达仍然存在的目标方块附近
+   */
+  static async approachRemembered(
+    bot: Bot,
+    blockNames: string[],
+    options: { position?: { x: number; y: number; z: number }; item?: string; signal?: AbortSignal } = {}
+  ): Promise<boolean> {
+    const memory = ((bot as any).client as MinecraftClient | undefined)?.getWorldMemory?.();
+    if (!memory || !bot.entity) return false;
+
+    let target = options.position;
+    if (!target) {
+      const candidates = blockNames
+        .flatMap(blockName => [
+          ...(options.item ? [memory.findNearest(bot, { blockName, item: options.item })] : []),
+          memory.findNearest(bot, { blockName })
+        ])
+        .filter((location): location is NonNullable<typeof location> => location !== null);
+      // 存有所需物品的容器优先，其次按距离
+      const withItem = candidates.filter(location => options.item && location.contents?.some(item => item.name === options.item));
+      const pool = withItem.length > 0 ? withItem : candidates;
+      target = pool.sort((a, b) => (a.distance ?? 0) - (b.distance ?? 0))[0]?.position;
+    }
+    if (!target) return false;
+
+    const moveResult = await MovementUtils.moveTo(bot, {
+      type: 'coordinate',
+      x: target.x,
+      y: target.y,
+      z: target.z,
+      distance: 3,
+      maxDistance: REMEMBERED_MAX_DISTANCE,
+      useRelativeCoords: false,
+      goalType: GoalType.GoalGetToBlock,
+      signal: options.signal
+    });
+    if (!moveResult.success) return false;
+
+    const block = bot.blockAt(new Vec3(target.x, target.y, target.z));
+    if (block && !blockNames.includes(block.name)) {
+      memory.forget(target, memory.dimensionOf(bot));
+      return false;
+    }
+    return Boolean(block);
+  }
+
+  /**
+   * 查找工作方块（附魔台、铁砧、砂轮等）并走到旁边
+   * 附近没有或指定位置未加载时，先前往世界记忆中的位置
+   * @param blockNames 可接受的方块名称（如 anvil、chipped_anvil、damaged_anvil）
+   * @param signal 取消信号，取消时抛出取消错误
+   */
+  static async approachWorkstation(
+    bot: Bot,
+    blockNames: string[],
+    position?: { x: number; y: number; z: number },
+    signal?: AbortSignal
+  ): Promise<Block> {
+    const displayName = this.getContainerDisplayName(blockNames[0]);
+    const ids = blockNames
+      .map(name => bot.registry.blocksByName[name]?.id)
+      .filter((id): id is number => id !== undefined);
+    const locate = (): Block | null => position
+      ? bot.blockAt(new Vec3(position.x, position.y, position.z))
+      : bot.findBlock({ matching: ids, maxDistance: 32 });
+
+    let block = locate();
+    if (!block || (position && !blockNames.includes(block.name))) {
+      await this.approachRemembered(bot, blockNames, { position, signal });
+      block = locate();
+    }
+    if (!block) {
+      throw new Error(position ? `指定坐标 (${position.x}, ${position.y}, ${position.z}) 处没有方块` : `附近没有${displayName}`);
+    }
+    if (!blockNames.includes(block.name)) {
+      throw new Error(`指定坐标 (${block.position.x}, ${block.position.y}, ${block.position.z}) 处是 ${block.name}，不是${displayName}`);
+    }
+
+    await this.moveToContainer(bot, block, block.name, signal);
+    return block;
+  }
+
+  /**
+   * 等待窗口槽位出现物品（服务器计算结果槽有延迟）
+   * @returns 槽位中的物品，超时返回 null
+   */
+  static async waitForSlot(window: { slots: Array<Item | null> }, slot: number, timeoutMs: number = 3000, signal?: AbortSignal): Promise<Item | null> {
+    const deadline = Date.now() + timeoutMs;
+    while (!window.slots[slot] && Date.now() < deadline) {
+      await AbortUtils.sleep(100, signal);
+    }
+    return window.slots[slot] ?? null;
+  }
+
   /**
    * 打开容器
    */
@@ -150,8 +303,20 @@ export class ContainerUtils {
       'blast_furnace': '高炉',
       'smoker': '烟熏炉',
       'dispenser': '发射器',
-      'dropper': '投掷器'
+      'dropper': '投掷器',
+      'barrel': '木桶',
+      'ender_chest': '末影箱',
+      'shulker_box': '潜影盒',
+      'hopper': '漏斗',
+      'any': '容器',
+      'enchanting_table': '附魔台',
+      'anvil': '铁砧',
+      'grindstone': '砂轮',
+      'brewing_stand': '酿造台'
     };
+    if (!nameMap[containerType] && containerType.endsWith('_shulker_box')) {
+      return nameMap['shulker_box'];
+    }
     return nameMap[containerType] || containerType;
   }
 
@@ -169,12 +334,16 @@ export class ContainerUtils {
       'trapped_chest': 27,
       'dispenser': 9,
       'dropper': 9,
+      'barrel': 27,
+      'ender_chest': 27,
+      'shulker_box': 27,
+      'hopper': 5,
       'furnace': 3,
       'blast_furnace': 3,
       'smoker': 3
     };
 
-    const limit = slotLimits[containerType];
+    const limit = slotLimits[containerType.endsWith('shulker_box') ? 'shulker_box' : containerType];
     return limit ? slot < limit : true;
   }
 
@@ -219,7 +388,7 @@ export class ContainerUtils {
       return containerItems.map((item: any, index: number) => ({
         name: item.name || `未知物品(${item.type})`,
         count: item.count,
-        slot: item.slot || index // 使用物品的槽位号
+        slot: item.slot ?? index // 使用物品的槽位号
       }));
     }
   }
@@ -0,0 +1,299 @@
+import { Bot } from 'mineflayer';
+import type { Recipe } from 'prismarine-recipe';
+import { KnownContainer } from '../minecraft/WorldMemory.js';
+
+/**
+ * 合成步骤
+ */
+export interface CraftStep {
+  /** 合成的物品 */
+  item: string;
+  /** 合成次数（每次产出 result 个） */
+  crafts: number;
+  /** 本步骤产出数量 */
+  produced: number;
+  /** 消耗的材料 */
+  ingredients: Array<{ name: string; count: number }>;
+  /** 是否需要工作台 */
+  requiresTable: boolean;
+}
+
+/**
+ * 从已知容器取出的材料
+ */
+export interface ContainerWithdrawal {
+  name: string;
+  count: number;
+  position: { x: number; y: number; z: number };
+}
+
+/**
+ * 合成计划
+ */
+export interface CraftPlan {
+  item: string;
+  count: number;
+  /** 按执行顺序排列的合成步骤（材料在前，成品在后） */
+  steps: CraftStep[];
+  /** 直接使用的背包物品 */
+  fromInventory: Array<{ name: string; count: number }>;
+  /** 需要从已知容器取出的物品 */
+  fromContainers: ContainerWithdrawal[];
+  /** 缺少的原材料（无法合成且背包和容器中都没有） */
+  missing: Array<{ name: string; count: number }>;
+  /** 材料是否齐全 */
+  complete: boolean;
+}
+
+export interface CraftPlanOptions {
+  /** 已知容器（为空时只考虑背包） */
+  containers?: KnownContainer[];
+  /** 附近是否已有工作台 */
+  hasCraftingTable?: boolean;
+  /** 单个物品最多尝试的配方数量，默认 8 */
+  maxRecipesPerItem?: number;
+}
+
+/** 规划过程中的可变状态 */
+interface PlanState {
+  inventory: Map<string, number>;
+  /** 中间合成多出的产物 */
+  surplus: Map<string, number>;
+  containers: Array<{ position: { x: number; y: number; z: number }; items: Map<string, number> }>;
+  steps: CraftStep[];
+  fromInventory: Map<string, number>;
+  fromContainers: ContainerWithdrawal[];
+  missing: Map<string, number>;
+}
+
+const MAX_DEPTH = 12;
+
+/**
+ * 合成规划工具类
+ * 基于 bot.registry 的配方递归展开合成树，扣除背包和已知容器中的物品，计算中间合成步骤和缺少的原材料
+ */
+export class CraftingPlanner {
+
+  /**
+   * 生成合成计划
+   * @param bot mineflayer 机器人实例
+   * @param itemName 目标物品名称
+   * @param count 目标数量
+   */
+  static plan(bot: Bot, itemName: string, count: number, options: CraftPlanOptions = {}): CraftPlan {
+    const mcData: any = bot.registry;
+    const inventory = new Map<string, number>();
+    for (const item of bot.inventory.items()) {
+      inventory.set(item.name, (inventory.get(item.name) ?? 0) + item.count);
+    }
+
+    const createState = (): PlanState => ({
+      inventory: new Map(inventory),
+      surplus: new Map(),
+      containers: (options.containers ?? []).map(container => ({
+        position: container.position,
+        items: new Map(container.items.map(item => [item.name, item.count])),
+      })),
+      steps: [],
+      fromInventory: new Map(),
+      fromContainers: [],
+      missing: new Map(),
+    });
+
+    const getRecipes = (name: string): Recipe[] => {
+      const item = mcData.itemsByName?.[name];
+      if (!item) return [];
+      return (bot.recipesAll(item.id, null, true) ?? []).slice(0, options.maxRecipesPerItem ?? 8);
+    };
+    const nameOf = (id: number): string => mcData.items?.[id]?.name ?? `unknown_${id}`;
+
+    let state = createState();
+    this.require(itemName, count, state, getRecipes, nameOf, new Set(), 0, true);
+
+    // 需要工作台但附近和库存中都没有时，重新规划并先合成工作台（craft_item 会自动放置背包中的工作台）
+    if (state.steps.some(step => step.requiresTable) && !options.hasCraftingTable && !this.hasAvailable(createState(), 'crafting_table')) {
+      state = createState();
+      this.require('crafting_table', 1, state, getRecipes, nameOf, new Set(), 0, true);
+      this.require(itemName, count, state, getRecipes, nameOf, new Set(), 0, true);
+    }
+
+    return this.toPlan(itemName, count, state);
+  }
+
+  /**
+   * 满足对某物品的需求：先用背包，再用已知容器，最后尝试合成
+   * @param isTarget 目标物品本身总是合成，不直接取用库存
+   */
+  private static require(
+    name: string,
+    quantity: number,
+    state: PlanState,
+    getRecipes: (name: string) => Recipe[],
+    nameOf: (id: number) => string,
+    visiting: Set<string>,
+    depth: number,
+    isTarget = false
+  ): void {
+    let remaining = quantity;
+    if (!isTarget) {
+      remaining = this.takeFromStock(name, remaining, state);
+      if (remaining <= 0) return;
+    }
+
+    const recipes = visiting.has(name) || depth > MAX_DEPTH ? [] : getRecipes(name);
+    if (recipes.length === 0) {
+      state.missing.set(name, (state.missing.get(name) ?? 0) + remaining);
+      return;
+    }
+
+    // 依次在状态副本上试算各配方，优先选择材料齐全的；都不齐全时选择缺口最小的。
+    // 可逆配方（如 钻石块 → 钻石）只在材料齐全时使用，否则缺口会被报告为另一种形态的物品
+    let best: { state: PlanState; missing: number } | null = null;
+    for (const recipe of recipes) {
+      const reversible = this.isReversible(recipe, getRecipes, nameOf);
+      const trial = this.cloneState(state);
+      this.applyRecipe(name, remaining, recipe, trial, getRecipes, nameOf, visiting, depth);
+      const missing = this.countMissing(trial) - this.countMissing(state);
+      if (missing === 0) {
+        best = { state: trial, missing };
+        break;
+      }
+      if (reversible && !isTarget) continue;
+      if (!best || missing < best.missing) {
+        best = { state: trial, missing };
+      }
+    }
+
+    if (!best) {
+      state.missing.set(name, (state.missing.get(name) ?? 0) + remaining);
+      return;
+    }
+    Object.assign(state, best.state);
+  }
+
+  /**
+   * 判断配方是否可逆：某个材料本身可以由该配方的产物合成
+   */
+  private static isReversible(recipe: Recipe, getRecipes: (name: string) => Recipe[], nameOf: (id: number) => string): boolean {
+    const productId = recipe.result.id;
+    return recipe.delta.some(delta => delta.count < 0 && delta.id >= 0
+      && getRecipes(nameOf(delta.id)).some(r => r.delta.some(d => d.count < 0 && d.id === productId)));
+  }
+
+  private static countMissing(state: PlanState): number {
+    return Array.from(state.missing.values()).reduce((sum, n) => sum + n, 0);
+  }
+
+  private static applyRecipe(
+    name: string,
+    quantity: number,
+    recipe: Recipe,
+    state: PlanState,
+    getRecipes: (name: string) => Recipe[],
+    nameOf: (id: number) => string,
+    visiting: Set<string>,
+    depth: number
+  ): void {
+    const perCraft = Math.max(1, recipe.result.count);
+    const crafts = Math.ceil(quantity / perCraft);
+
+    // 合并同种材料
+    const ingredients = new Map<string, number>();
+    for (const delta of recipe.delta) {
+      if (delta.count >= 0 || delta.id < 0) continue;
+      const ingredient = nameOf(delta.id);
+      ingredients.set(ingredient, (ingredients.get(ingredient) ?? 0) + (-delta.count) * crafts);
+    }
+
+    const nextVisiting = new Set(visiting).add(name);
+    for (const [ingredient, needed] of ingredients) {
+      this.require(ingredient, needed, state, getRecipes, nameOf, nextVisiting, depth + 1);
+    }
+
+    const produced = crafts * perCraft;
+    state.steps.push({
+      item: name,
+      crafts,
+      produced,
+      ingredients: Array.from(ingredients, ([ingredientName, count]) => ({ name: ingredientName, count })),
+      requiresTable: recipe.requiresTable,
+    });
+
+    // 多余的产物留作后续材料
+    if (produced > quantity) {
+      state.surplus.set(name, (state.surplus.get(name) ?? 0) + produced - quantity);
+    }
+  }
+
+  /**
+   * 依次从合成剩余、背包和已知容器中扣除物品
+   * @returns 仍需满足的数量
+   */
+  private static takeFromStock(name: string, quantity: number, state: PlanState): number {
+    let remaining = quantity;
+
+    const surplus = state.surplus.get(name) ?? 0;
+    const fromSurplus = Math.min(surplus, remaining);
+    if (fromSurplus > 0) {
+      state.surplus.set(name, surplus - fromSurplus);
+      remaining -= fromSurplus;
+    }
+
+    const inInventory = state.inventory.get(name) ?? 0;
+    const fromInventory = Math.min(inInventory, remaining);
+    if (fromInventory > 0) {
+      state.inventory.set(name, inInventory - fromInventory);
+      state.fromInventory.set(name, (state.fromInventory.get(name) ?? 0) + fromInventory);
+      remaining -= fromInventory;
+    }
+
+    for (const container of state.containers) {
+      if (remaining <= 0) break;
+      const available = container.items.get(name) ?? 0;
+      const taken = Math.min(available, remaining);
+      if (taken <= 0) continue;
+      container.items.set(name, available - taken);
+      const existing = state.fromContainers.find(entry => entry.name === name
+        && entry.position.x === container.position.x
+        && entry.position.y === container.position.y
+        && entry.position.z === container.position.z);
+      if (existing) {
+        existing.count += taken;
+      } else {
+        state.fromContainers.push({ name, count: taken, position: container.position });
+      }
+      remaining -= taken;
+    }
+
+    return remaining;
+  }
+
+  private static hasAvailable(state: PlanState, name: string): boolean {
+    return (state.inventory.get(name) ?? 0) > 0 || state.containers.some(container => (container.items.get(name) ?? 0) > 0);
+  }
+
+  private static cloneState(state: PlanState): PlanState {
+    return {
+      inventory: new Map(state.inventory),
+      surplus: new Map(state.surplus),
+      containers: state.containers.map(container => ({ position: container.position, items: new Map(container.items) })),
+      steps: [...state.steps],
+      fromInventory: new Map(state.fromInventory),
+      fromContainers: state.fromContainers.map(entry => ({ ...entry })),
+      missing: new Map(state.missing),
+    };
+  }
+
+  private static toPlan(item: string, count: number, state: PlanState): CraftPlan {
+    const missing = Array.from(state.missing, ([name, n]) => ({ name, count: n }));
+    return {
+      item,
+      count,
+      steps: state.steps,
+      fromInventory: Array.from(state.fromInventory, ([name, n]) => ({ name, count: n })),
+      fromContainers: state.fromContainers,
+      missing,
+      complete: missing.length === 0,
+    };
+  }
+}
@@ -0,0 +1,112 @@
+import { Bot } from 'mineflayer';
+import { Item } from 'prismarine-item';
+import { AbortUtils } from './AbortUtils.js';
+
+/**
+ * 默认的杂物列表（未配置 inventory.junkItems 时使用）
+ */
+export const DEFAULT_JUNK_ITEMS = [
+  'cobblestone', 'cobbled_deepslate', 'dirt', 'gravel', 'sand', 'andesite', 'diorite', 'granite', 'tuff',
+  'netherrack', 'rotten_flesh', 'poisonous_potato', 'spider_eye', 'string', 'bone', 'wheat_seeds', 'flint'
+];
+
+/**
+ * 物品栏占用情况
+ */
+export interface InventorySlotStatus {
+  /** 主物品栏（快捷栏 + 背包）的槽位总数 */
+  totalSlots: number;
+  freeSlots: number;
+  usedSlots: number;
+  /** 合并未满的相同物品后可以空出的槽位数 */
+  consolidatableSlots: number;
+  /** 杂物及其占用的槽位 */
+  junk: Array<{ name: string; count: number; slots: number }>;
+  /** 丢弃或存放全部杂物后可以空出的槽位数 */
+  junkSlots: number;
+}
+
+/**
+ * 物品栏工具类
+ * 提供槽位统计、剩余容量预测和相同物品合并
+ */
+export class InventoryUtils {
+
+  /**
+   * 判断两个物品能否堆叠在一起
+   */
+  static canStack(a: Item, b: Item): boolean {
+    return a.type === b.type && a.metadata === b.metadata && a.stackSize > 1
+      && JSON.stringify(a.nbt ?? null) === JSON.stringify(b.nbt ?? null);
+  }
+
+  /**
+   * 统计主物品栏的槽位占用、可合并槽位和杂物
+   */
+  static getSlotStatus(bot: Bot, junkItems: string[]): InventorySlotStatus {
+    const items = bot.inventory.items();
+    const totalSlots = bot.inventory.inventoryEnd - bot.inventory.inventoryStart;
+    const freeSlots = bot.inventory.emptySlotCount();
+
+    // 按可堆叠分组，计算合并后需要的槽位
+    const groups: Item[][] = [];
+    for (const item of items) {
+      const group = groups.find(existing => this.canStack(existing[0], item));
+      if (group) group.push(item);
+      else groups.push([item]);
+    }
+    const consolidatableSlots = groups.reduce((sum, group) => {
+      const total = group.reduce((count, item) => count + item.count, 0);
+      return sum + group.length - Math.ceil(total / group[0].stackSize);
+    }, 0);
+
+    const junk = junkItems
+      .map(name => {
+        const stacks = items.filter(item => item.name === name);
+        return { name, count: stacks.reduce((sum, item) => sum + item.count, 0), slots: stacks.length };
+      })
+      .filter(entry => entry.count > 0);
+
+    return {
+      totalSlots,
+      freeSlots,
+      usedSlots: totalSlots - freeSlots,
+      consolidatableSlots,
+      junk,
+      junkSlots: junk.reduce((sum, entry) => sum + entry.slots, 0),
+    };
+  }
+
+  /**
+   * 预测还能拾取多少个指定物品（未满的同类堆叠剩余空间 + 空槽位）
+   * @returns 未知物品返回 null
+   */
+  static getCapacity(bot: Bot, itemName: string): number | null {
+    const itemMeta = bot.registry.itemsByName[itemName];
+    if (!itemMeta) return null;
+    const partialSpace = bot.inventory.items()
+      .filter(item => item.type === itemMeta.id && !item.nbt)
+      .reduce((sum, item) => sum + Math.max(0, item.stackSize - item.count), 0);
+    return partialSpace + bot.inventory.emptySlotCount() * itemMeta.stackSize;
+  }
+
+  /**
+   * 合并窗口中指定槽位范围内未满的相同物品
+   * @returns 合并操作次数
+   */
+  static async mergeStacks(bot: Bot, window: { slots: Array<Item | null> }, start: number, end: number, signal?: AbortSignal): Promise<number> {
+    let merges = 0;
+    for (let i = start; i < end; i++) {
+      for (let j = i + 1; j < end; j++) {
+        const target = window.slots[i];
+        if (!target || target.count >= target.stackSize) break;
+        const source = window.slots[j];
+        if (!source || !this.canStack(target, source)) continue;
+        AbortUtils.throwIfAborted(signal);
+        await bot.moveSlotItem(j, i);
+        merges++;
+      }
+    }
+    return merges;
+  }
+}
@@ -0,0 +1,85 @@
+import { Bot } from 'mineflayer';
+import { Vec3 } from 'vec3';
+import { Block } from 'prismarine-block';
+import { MovementUtils, GoalType } from './MovementUtils.js';
+import { Logger } from './Logger.js';
+
+/**
+ * 挖掘方块工具类
+ * 提供 mine_block 使用的流体判断和直接挖掘，供需要清理方块的动作复用
+ */
+export class MineBlockUtils {
+  private static logger = new Logger('MineBlockUtils');
+
+  /**
+   * Minecraft原版流体方块列表（硬编码）
+   */
+  private static readonly FLUID_BLOCKS = new Set([
+    'water',
+    'flowing_water',
+    'lava',
+    'flowing_lava'
+  ]);
+
+  /** 不需要挖掘的空气方块 */
+  private static readonly AIR_BLOCKS = new Set(['air', 'cave_air', 'void_air']);
+
+  static isFluidBlock(block: Block): boolean {
+    if (!block) return false;
+    return this.FLUID_BLOCKS.has(block.name);
+  }
+
+  /**
+   * 直接挖掘方块，绕过安全检查
+   */
+  static async digBlock(bot: Bot, block: any, digOnly: boolean): Promise<void> {
+    // 装备合适的工具，使用与collectBlock插件相同的配置
+    const equipToolOptions = {
+      requireHarvest: true,
+      getFromChest: false,
+      maxTools: 2,
+    };
+
+    await bot.tool.equipForBlock(block, equipToolOptions);
+
+    // 在digOnly模式下，不检查工具是否合适，直接挖掘
+    // 在非digOnly模式下，检查是否有合适的工具
+    if (!digOnly && !block.canHarvest(bot.heldItem ? bot.heldItem.type : bot.heldItem)) {
+      throw new Error(`没有合适的工具来挖掘 ${block.name}！`);
+    }
+
+    // 直接挖掘
+    await bot.dig(block);
+  }
+
+  /**
+   * 移动到指定位置附近并挖掉方块（只挖不收集），空气和流体直接跳过
+   * @param signal 取消信号，传给寻路
+   * @returns 该位置是否已经没有需要挖掉的方块
+   */
+  static async digAt(bot: Bot, position: Vec3, signal?: AbortSignal): Promise<boolean> {
+    const block = bot.blockAt(position);
+    if (!block || this.AIR_BLOCKS.has(block.name)) return true;
+    if (this.isFluidBlock(block)) return false;
+
+    if (bot.entity.position.offset(0, bot.entity.height * 0.9, 0).distanceTo(position.offset(0.5, 0.5, 0.5)) > 4) {
+      const result = await MovementUtils.moveTo(bot, {
+        type: 'coordinate',
+        x: position.x,
+        y: position.y,
+        z: position.z,
+        distance: 3,
+        maxDistance: 100,
+        useRelativeCoords: false,
+        goalType: GoalType.GoalNear,
+        signal
+      });
+      if (!result.success) {
+        this.logger.warn(`移动到 (${position.x}, ${position.y}, ${position.z}) 附近失败: ${result.error}`);
+      }
+    }
+    if (!bot.canDigBlock(block)) return false;
+    await this.digBlock(bot, block, true);
+    return true;
+  }
+}
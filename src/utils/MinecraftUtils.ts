@@ -64,6 +64,45 @@ export class MinecraftUtils {
     }
   }
 
+  /**
+   * 获取当前维度名称（去掉 minecraft: 前缀，如 overworld、the_nether、the_end）
+   */
+  static getDimension(bot: Bot): string {
+    return String(bot.game?.dimension ?? 'overworld').replace(/^minecraft:/, '');
+  }
+
+  /**
+   * bot 是否着火（实体标志位第 0 位）
+   */
+  static isOnFire(bot: Bot): boolean {
+    const flags = (bot.entity?.metadata as any)?.[0];
+    return typeof flags === 'number' && (flags & 0x01) !== 0;
+  }
+
+  /**
+   * 按当前版本的元数据键名读取实体元数据，数据缺失时使用 1.20 的下标
+   */
+  static getEntityMetadata(bot: Bot, entity: Entity, key: string, fallbackIndex: number): unknown {
+    const keys: string[] | undefined = (bot.registry.entitiesByName[entity.name ?? ''] as any)?.metadataKeys;
+    const index = keys ? keys.indexOf(key) : fallbackIndex;
+    if (index < 0) return undefined;
+    return (entity.metadata as unknown[])?.[index];
+  }
+
+  /**
+   * 换算主世界和下界之间的对应坐标（水平坐标按 8:1 换算，高度不变），其他维度原样返回
+   */
+  static convertPortalCoordinates(
+    position: { x: number; y: number; z: number },
+    fromDimension: string,
+    toDimension: string
+  ): { x: number; y: number; z: number } {
+    let scale = 1;
+    if (fromDimension === 'overworld' && toDimension === 'the_nether') scale = 1 / 8;
+    if (fromDimension === 'the_nether' && toDimension === 'overworld') scale = 8;
+    return { x: Math.floor(position.x * scale), y: Math.floor(position.y), z: Math.floor(position.z * scale) };
+  }
+
   /**
    * 检查是否能看到天空
    */
@@ -2,6 +2,8 @@ import { Bot } from 'mineflayer';
 import { Vec3 } from 'vec3';
 import pathfinder from 'mineflayer-pathfinder-mai';
 import { Logger } from './Logger.js';
+import { AbortUtils } from './AbortUtils.js';
+import { VehicleUtils } from './VehicleUtils.js';
 
 /**
  * 移动目标类型枚举 - 基于 mineflayer-pathfinder-mai 的目标类型
@@ -54,6 +56,12 @@ export interface MovementParams {
   maxDistance?: number;
   /** 移动目标类型，默认根据移动类型自动选择 */
   goalType?: GoalType;
+  /** 沿途有长距离水面且背包中有船时是否乘船横渡，默认 false */
+  useBoat?: boolean;
+  /** 移动进度回调（可选），寻路期间约每秒调用一次 */
+  onProgress?: (remainingDistance: number, initialDistance: number) => void;
+  /** 取消信号（可选），触发时停止寻路并抛出取消错误，而不是返回失败结果 */
+  signal?: AbortSignal;
   /** GoalPlaceBlock 的额外参数 */
   placeBlockOptions?: {
     /** 参照方块位置 */
@@ -389,6 +397,7 @@ export class MovementUtils {
     bot: Bot,
     params: MovementParams
   ): Promise<MovementResult> {
+    AbortUtils.throwIfAborted(params.signal);
     try {
       // 检查 pathfinder 插件
       if (!this.checkPathfinderAvailable(bot)) {
@@ -538,12 +547,28 @@ export class MovementUtils {
         };
       }
 
+      if (params.useBoat) {
+        await this.crossWaterByBoat(bot, targetPosition, params.signal);
+      }
+
       // 根据目标类型创建相应的目标
       const goalType = this.determineGoalType(params);
       const goal = this.createGoal(goalType, targetPosition, distance, params, bot);
 
+      // 寻路期间定时上报剩余距离
+      const progressTimer = params.onProgress
+        ? setInterval(() => {
+            params.onProgress!(bot.entity.position.distanceTo(targetPosition), currentDistance);
+          }, 1000)
+        : null;
+      // 取消时停止寻路，goto 随之失败
+      const onAbort = () => bot.pathfinder.stop();
+      params.signal?.addEventListener('abort', onAbort, { once: true });
+
       try {
+        AbortUtils.throwIfAborted(params.signal);
         await bot.pathfinder.goto(goal);
+        AbortUtils.throwIfAborted(params.signal);
 
         // 验证是否成功到达
         const finalDistance = bot.entity.position.distanceTo(targetPosition);
@@ -605,8 +630,14 @@ export class MovementUtils {
         }
       } catch (error) {
         throw error;
+      } finally {
+        if (progressTimer) clearInterval(progressTimer);
+        params.signal?.removeEventListener('abort', onAbort);
       }
     } catch (error) {
+      if (params.signal?.aborted) {
+        throw AbortUtils.isAbortError(error) ? error : AbortUtils.createAbortError(params.signal.reason);
+      }
       this.logger.error(`移动失败: ${error instanceof Error ? error.message : String(error)}`);
       const botPos = bot.entity.position;
       return {
@@ -633,6 +664,24 @@ export class MovementUtils {
     }
   }
 
+  /**
+   * 前往目标途中有足够长的水面时乘船横渡，之后的路程继续寻路
+   */
+  private static async crossWaterByBoat(bot: Bot, targetPosition: Vec3, signal?: AbortSignal): Promise<void> {
+    const crossing = VehicleUtils.planBoatCrossing(bot, targetPosition);
+    if (!crossing) return;
+    this.logger.info(`前方有 ${crossing.length} 格水面，乘船横渡`);
+    try {
+      const result = await VehicleUtils.crossByBoat(bot, crossing, signal);
+      if (!result.reached) {
+        this.logger.warn(`乘船未到达对岸: ${result.reason}`);
+      }
+    } catch (error) {
+      if (AbortUtils.isAbortError(error)) throw error;
+      this.logger.warn(`乘船横渡失败，改为直接寻路: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   /**
    * 移动到方块附近（用于挖掘、交互等）
    */
@@ -694,7 +743,8 @@ export class MovementUtils {
     z: number,
     distance: number = 1,
     maxDistance: number = 200,
-    useRelativeCoords: boolean = false
+    useRelativeCoords: boolean = false,
+    signal?: AbortSignal
   ): Promise<MovementResult> {
     return this.moveTo(bot, {
       type: 'coordinate',
@@ -703,7 +753,8 @@ export class MovementUtils {
       z,
       distance,
       maxDistance,
-      useRelativeCoords
+      useRelativeCoords,
+      signal
     });
   }
 }
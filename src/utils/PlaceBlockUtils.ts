@@ -1,7 +1,9 @@
 import { Bot } from 'mineflayer';
 import { Vec3 } from 'vec3';
+import { Block } from 'prismarine-block';
 import { MovementUtils, GoalType } from './MovementUtils.js';
 import { Logger } from './Logger.js';
+import { AbortUtils } from './AbortUtils.js';
 import { BaseActionParams } from '../minecraft/ActionInterface.js';
 
 /**
@@ -14,6 +16,25 @@ export interface PlaceBlockParams extends BaseActionParams {
   block: string;
   face?: string;
   useRelativeCoords?: boolean;
+  /** 放置朝向要求（可选），需要还原方块状态时由调用方提供 */
+  orientation?: PlacementOrientation;
+  /** 取消信号（可选），传给寻路 */
+  signal?: AbortSignal;
+}
+
+/**
+ * 放置朝向要求
+ * 方块的 facing、axis、half 等状态由点击的面、点击位置和 bot 的视线方向决定
+ */
+export interface PlacementOrientation {
+  /** 允许的放置面（从参照方块指向目标位置的方向），按优先顺序排列，为空时任意面都可以 */
+  faces: Vec3[];
+  /** 放置前需要看向的方向（mineflayer 的 yaw/pitch，弧度），不限制时为 undefined */
+  look?: { yaw: number; pitch: number };
+  /** 点击参照方块侧面的上半部分还是下半部分 */
+  half?: 'top' | 'bottom';
+  /** 点击位置相对参照方块的坐标，覆盖默认的面中心 */
+  delta?: Vec3;
 }
 
 /**
@@ -114,7 +135,7 @@ export class PlaceBlockUtils {
 
       if (isBotOccupyingTarget) {
         // 尝试移动到周围位置以让出目标位置
-        const relocationResult = await this.tryRelocateBot(bot, position);
+        const relocationResult = await this.tryRelocateBot(bot, position, params.signal);
         if (!relocationResult.success) {
           return this.createErrorResult(`bot占据目标位置，尝试移动失败: ${relocationResult.error}`, 'BOT_OCCUPYING_POSITION');
         }
@@ -133,52 +154,13 @@ export class PlaceBlockUtils {
         }
       }
 
-      // 查找参照方块和放置方向
-      const faceVectors = [
-        new Vec3(0, 1, 0),   // +y
-        new Vec3(0, -1, 0),  // -y
-        new Vec3(1, 0, 0),   // +x
-        new Vec3(-1, 0, 0),  // -x
-        new Vec3(0, 0, 1),   // +z
-        new Vec3(0, 0, -1),  // -z
-      ];
-
-      let referenceBlock: any = null;
-      let faceVector: Vec3 | null = null;
-
-      // 如果指定了face参数，优先使用指定的方向
-      if (params.face) {
-        const faceMap: { [key: string]: Vec3 } = {
-          '+y': new Vec3(0, 1, 0),
-          '-y': new Vec3(0, -1, 0),
-          '+x': new Vec3(1, 0, 0),
-          '-x': new Vec3(-1, 0, 0),
-          '+z': new Vec3(0, 0, 1),
-          '-z': new Vec3(0, 0, -1),
-        };
-
-        const specifiedFace = faceMap[params.face];
-        if (specifiedFace) {
-          const block = bot.blockAt(position.minus(specifiedFace));
-          if (block && block.name !== 'air') {
-            referenceBlock = block;
-            faceVector = specifiedFace;
-          }
-        }
-      }
-
-      // 如果没有找到参照方块，尝试所有方向
-      if (!referenceBlock) {
-        for (const vector of faceVectors) {
-          const block = bot.blockAt(position.minus(vector));
-          if (block && block.name !== 'air') {
-            referenceBlock = block;
-            faceVector = vector;
-            this.logger.debug(`找到参照方块: ${block.name} 在位置 ${block.position}`);
-            break;
-          }
-        }
-      }
+      // 查找参照方块和放置方向，有朝向要求时只使用允许的面
+      const orientation = params.orientation;
+      const reference = orientation?.faces.length
+        ? this.findOrientedReference(bot, position, orientation.faces)
+        : this.findReference(bot, position, params.face);
+      const referenceBlock = reference?.referenceBlock;
+      const faceVector = reference?.faceVector;
 
       if (!referenceBlock || !faceVector) {
         return this.createErrorResult(`无法找到有效的参照方块来放置 ${params.block}。无法放置悬浮方块，请移动到可以放置 ${params.block} 的位置`, 'NO_REFERENCE_BLOCK');
@@ -213,6 +195,7 @@ export class PlaceBlockUtils {
             maxDistance: 100, // 最大移动距离
             useRelativeCoords: false, // 不使用相对坐标
             goalType: GoalType.GoalPlaceBlock,
+            signal: params.signal,
             placeBlockOptions: {
               referencePosition: referenceBlock.position,
               faceVector: faceVector,
@@ -234,7 +217,15 @@ export class PlaceBlockUtils {
         await bot.equip(item, 'hand');
 
         // 放置方块
-        await bot.placeBlock(referenceBlock, faceVector);
+        if (orientation?.look) {
+          // 先转向再放置，放置时不再看向参照面，避免覆盖决定朝向的视线方向
+          await bot.look(orientation.look.yaw, orientation.look.pitch);
+          await (bot as any)._placeBlockWithOptions(referenceBlock, faceVector, { half: orientation.half, delta: orientation.delta, forceLook: 'ignore' });
+        } else if (orientation?.half || orientation?.delta) {
+          await (bot as any)._placeBlockWithOptions(referenceBlock, faceVector, { half: orientation.half, delta: orientation.delta, forceLook: true });
+        } else {
+          await bot.placeBlock(referenceBlock, faceVector);
+        }
 
         // 只要没有抛出错误，就认为放置成功
         return this.createSuccessResult(`成功放置 ${params.block}`, {
@@ -254,6 +245,59 @@ export class PlaceBlockUtils {
     }
   }
 
+  /**
+   * 为目标位置选择参照方块和放置面：优先使用指定的面（+x、-y 等），否则依次尝试六个方向
+   * @param isReference 判断方块能否作为参照，默认非空气方块都可以
+   * @returns faceVector 是从参照方块指向目标位置的方向，找不到时返回 null
+   */
+  static findReference(
+    bot: Bot,
+    position: Vec3,
+    face?: string,
+    isReference: (block: Block) => boolean = block => block.name !== 'air'
+  ): { referenceBlock: Block; faceVector: Vec3 } | null {
+    const faceMap: { [key: string]: Vec3 } = {
+      '+y': new Vec3(0, 1, 0),
+      '-y': new Vec3(0, -1, 0),
+      '+x': new Vec3(1, 0, 0),
+      '-x': new Vec3(-1, 0, 0),
+      '+z': new Vec3(0, 0, 1),
+      '-z': new Vec3(0, 0, -1),
+    };
+
+    // 如果指定了face参数，优先使用指定的方向
+    const specifiedFace = face ? faceMap[face] : undefined;
+    if (specifiedFace) {
+      const block = bot.blockAt(position.minus(specifiedFace));
+      if (block && isReference(block)) {
+        return { referenceBlock: block, faceVector: specifiedFace };
+      }
+    }
+
+    // 如果没有找到参照方块，尝试所有方向
+    for (const vector of Object.values(faceMap)) {
+      const block = bot.blockAt(position.minus(vector));
+      if (block && isReference(block)) {
+        this.logger.debug(`找到参照方块: ${block.name} 在位置 ${block.position}`);
+        return { referenceBlock: block, faceVector: vector };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 按优先顺序在允许的面中查找实心的参照方块
+   */
+  private static findOrientedReference(bot: Bot, position: Vec3, faces: Vec3[]): { referenceBlock: Block; faceVector: Vec3 } | null {
+    for (const faceVector of faces) {
+      const block = bot.blockAt(position.minus(faceVector));
+      if (block && block.boundingBox === 'block') {
+        return { referenceBlock: block, faceVector };
+      }
+    }
+    return null;
+  }
+
   /**
    * 创建错误结果
    */
@@ -310,7 +354,7 @@ export class PlaceBlockUtils {
   /**
    * 尝试移动bot到周围位置以让出目标位置
    */
-  private static async tryRelocateBot(bot: Bot, targetPosition: Vec3): Promise<{ success: boolean; error?: string }> {
+  private static async tryRelocateBot(bot: Bot, targetPosition: Vec3, signal?: AbortSignal): Promise<{ success: boolean; error?: string }> {
     const logger = new Logger('PlaceBlockUtils');
 
     // 定义周围的位置偏移（前后左右各1格）
@@ -349,7 +393,8 @@ export class PlaceBlockUtils {
             z: newPosition.z,
             distance: 0.1, // 非常接近目标位置
             maxDistance: 10, // 限制移动距离
-            goalType: GoalType.GoalNearXZ
+            goalType: GoalType.GoalNearXZ,
+            signal
           });
 
           if (moveResult.success) {
@@ -360,6 +405,7 @@ export class PlaceBlockUtils {
           }
         }
       } catch (error) {
+        if (AbortUtils.isAbortError(error)) throw error;
         logger.warn(`移动到 (${newPosition.x}, ${newPosition.y}, ${newPosition.z}) 时发生异常: ${error}`);
       }
     }
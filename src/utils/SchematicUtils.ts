@@ -0,0 +1,311 @@
+import fs from 'fs';
+import path from 'path';
+import { Vec3 } from 'vec3';
+import nbt from 'prismarine-nbt';
+import PrismarineBlock from 'prismarine-block';
+import { Schematic } from 'prismarine-schematic';
+import { PlacementOrientation } from './PlaceBlockUtils.js';
+
+/**
+ * 蓝图中的一个方块
+ */
+export interface SchematicBlock {
+  /** 相对蓝图原点的偏移 */
+  offset: Vec3;
+  /** 方块名称 */
+  name: string;
+  /** 方块状态属性（朝向、半砖位置等） */
+  properties: Record<string, string | number | boolean>;
+  /** 放置时需要的物品名称，无法放置的方块（水、火等）为 null */
+  item: string | null;
+}
+
+/** 支持的蓝图文件扩展名 */
+export const SCHEMATIC_EXTENSIONS = ['.schem', '.schematic', '.nbt'];
+
+/** 不需要放置的方块 */
+const SKIPPED_BLOCKS = new Set([
+  'air', 'cave_air', 'void_air', 'structure_void', 'moving_piston', 'piston_head', 'bubble_column', 'fire', 'soul_fire', 'nether_portal', 'end_portal', 'end_gateway'
+]);
+
+/** 方块名称与物品名称不一致的情况 */
+const BLOCK_ITEM_OVERRIDES: Record<string, string> = {
+  wall_torch: 'torch',
+  soul_wall_torch: 'soul_torch',
+  redstone_wall_torch: 'redstone_torch',
+  redstone_wire: 'redstone',
+  tripwire: 'string',
+  potatoes: 'potato',
+  carrots: 'carrot',
+  beetroots: 'beetroot_seeds',
+  wheat: 'wheat_seeds',
+  cocoa: 'cocoa_beans',
+  sweet_berry_bush: 'sweet_berries',
+  melon_stem: 'melon_seeds',
+  pumpkin_stem: 'pumpkin_seeds',
+  bamboo_sapling: 'bamboo',
+  water: 'water_bucket',
+  lava: 'lava_bucket',
+};
+
+/** 方块状态中由放置方式决定、需要与蓝图一致的属性 */
+const ORIENTATION_PROPERTIES = ['facing', 'axis', 'half', 'hinge', 'face', 'rotation'];
+
+/** 属性值对应的方向（从参照方块指向目标位置） */
+const DIRECTIONS: Record<string, Vec3> = {
+  north: new Vec3(0, 0, -1),
+  south: new Vec3(0, 0, 1),
+  east: new Vec3(1, 0, 0),
+  west: new Vec3(-1, 0, 0),
+  up: new Vec3(0, 1, 0),
+  down: new Vec3(0, -1, 0),
+};
+
+const UP = DIRECTIONS.up;
+const DOWN = DIRECTIONS.down;
+const SIDES = [DIRECTIONS.north, DIRECTIONS.south, DIRECTIONS.east, DIRECTIONS.west];
+
+/** facing 等于点击面方向的附着方块（墙上的火把、告示牌、梯子、末地烛等） */
+const ATTACHED_BLOCK = /(^|_)wall_(torch|sign|banner|head|skull|fan|hanging_sign)$|^ladder$|^tripwire_hook$|^end_rod$|^lightning_rod$|amethyst_(bud|cluster)$/;
+/** 只能放在方块顶面的立式方块（点击侧面会变成墙上的版本） */
+const STANDING_BLOCK = /(^|_)(torch|sign|banner|head|skull)$/;
+/** facing 等于玩家视线方向的方块，其余带 facing 的方块朝向玩家 */
+const FACING_AWAY_BLOCK = /_stairs$|_door$|_fence_gate$|_bed$|^observer$/;
+
+/**
+ * 蓝图工具类
+ * 读取 .schem / .schematic（prismarine-schematic）和 .nbt（结构方块）文件，展开为方块列表
+ */
+export class SchematicUtils {
+
+  /**
+   * 解析蓝图文件路径，只允许读取蓝图目录内的文件
+   */
+  static resolvePath(dir: string, file: string): string {
+    const root = path.resolve(dir);
+    const resolved = path.resolve(root, file);
+    if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+      throw new Error(`蓝图文件必须位于蓝图目录 ${root} 中`);
+    }
+    if (!SCHEMATIC_EXTENSIONS.includes(path.extname(resolved).toLowerCase())) {
+      throw new Error(`不支持的蓝图格式: ${path.extname(resolved) || '(无扩展名)'}，支持 ${SCHEMATIC_EXTENSIONS.join(', ')}`);
+    }
+    if (!fs.existsSync(resolved)) {
+      throw new Error(`蓝图文件不存在: ${file}`);
+    }
+    return resolved;
+  }
+
+  /**
+   * 列出蓝图目录中的文件
+   */
+  static listFiles(dir: string): string[] {
+    const root = path.resolve(dir);
+    if (!fs.existsSync(root)) return [];
+    return fs.readdirSync(root).filter(file => SCHEMATIC_EXTENSIONS.includes(path.extname(file).toLowerCase())).sort();
+  }
+
+  /**
+   * 读取蓝图文件
+   * @param version 游戏版本（bot.version）
+   */
+  static async load(filePath: string, version: string): Promise<Schematic> {
+    const buffer = fs.readFileSync(filePath);
+    if (path.extname(filePath).toLowerCase() === '.nbt') {
+      return this.readStructure(buffer, version);
+    }
+    return Schematic.read(buffer, version);
+  }
+
+  /**
+   * 读取结构方块导出的 .nbt 文件并转换为 Schematic
+   */
+  private static async readStructure(buffer: Buffer, version: string): Promise<Schematic> {
+    const { parsed } = await nbt.parse(buffer);
+    const data = nbt.simplify(parsed);
+    const [sizeX, sizeY, sizeZ] = data.size as number[];
+    const entries: Array<{ Name: string; Properties?: Record<string, string> }> = data.palette ?? data.palettes?.[0] ?? [];
+    if (!sizeX || !sizeY || !sizeZ || entries.length === 0) {
+      throw new Error('无效的结构文件：缺少 size 或 palette');
+    }
+
+    const Block = PrismarineBlock(version);
+    const palette = entries.map(entry => {
+      const name = entry.Name.replace(/^minecraft:/, '');
+      try {
+        return Block.fromProperties(name, entry.Properties ?? {}, 0).stateId ?? 0;
+      } catch {
+        return 0;
+      }
+    });
+
+    // 未列出的位置为空气
+    let airIndex = palette.indexOf(0);
+    if (airIndex === -1) {
+      airIndex = palette.length;
+      palette.push(0);
+    }
+    const blocks: number[] = new Array(sizeX * sizeY * sizeZ).fill(airIndex);
+    for (const block of data.blocks as Array<{ pos: number[]; state: number }>) {
+      const [x, y, z] = block.pos;
+      blocks[(y * sizeZ + z) * sizeX + x] = block.state;
+    }
+
+    return new Schematic(version, new Vec3(sizeX, sizeY, sizeZ), new Vec3(0, 0, 0), palette, blocks);
+  }
+
+  /**
+   * 展开蓝图中需要放置的方块，按层（y）从下到上排列
+   * 门、床、高草等两格方块只保留下半部分/床尾，由放置时自动生成另一半；流体只保留源方块
+   */
+  static listBlocks(schematic: Schematic, registry: any): SchematicBlock[] {
+    const result: SchematicBlock[] = [];
+    const start = schematic.start();
+    const { x: sizeX, y: sizeY, z: sizeZ } = schematic.size;
+
+    for (let y = 0; y < sizeY; y++) {
+      for (let z = 0; z < sizeZ; z++) {
+        for (let x = 0; x < sizeX; x++) {
+          const block = schematic.getBlock(start.offset(x, y, z));
+          if (!block || SKIPPED_BLOCKS.has(block.name)) continue;
+
+          const properties = block.getProperties();
+          if (properties.half === 'upper' || properties.part === 'head') continue;
+          // 流动的水和岩浆由源方块自然生成，只放置源方块
+          if ((block.name === 'water' || block.name === 'lava') && Number(properties.level ?? 0) !== 0) continue;
+
+          result.push({
+            offset: new Vec3(x, y, z),
+            name: block.name,
+            properties,
+            item: this.itemForBlock(registry, block.name),
+          });
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 获取放置方块需要的物品
+   */
+  static itemForBlock(registry: any, blockName: string): string | null {
+    const override = BLOCK_ITEM_OVERRIDES[blockName];
+    if (override) return registry.itemsByName[override] ? override : null;
+    if (registry.itemsByName[blockName]) return blockName;
+
+    // 墙上的告示牌、旗帜、头颅等
+    const standing = blockName.replace('_wall_', '_');
+    if (standing !== blockName && registry.itemsByName[standing]) return standing;
+    return null;
+  }
+
+  /**
+   * 统计材料清单（双层台阶需要两个）
+   */
+  static billOfMaterials(blocks: SchematicBlock[]): Map<string, number> {
+    const bill = new Map<string, number>();
+    for (const block of blocks) {
+      if (!block.item) continue;
+      const count = this.isDoubleSlab(block) ? 2 : 1;
+      bill.set(block.item, (bill.get(block.item) ?? 0) + count);
+    }
+    return bill;
+  }
+
+  /**
+   * 世界中的方块是否已经与蓝图一致：名称相同，且朝向、上下半等放置时决定的属性相同
+   * 含水、充能、开关等会随环境变化的属性不参与比较
+   */
+  static matches(current: { name: string; getProperties(): Record<string, any> } | null, block: Pick<SchematicBlock, 'name' | 'properties'>): boolean {
+    if (!current || current.name !== block.name) return false;
+    const actual = current.getProperties();
+    const keys = block.name.endsWith('_slab') ? [...ORIENTATION_PROPERTIES, 'type'] : ORIENTATION_PROPERTIES;
+    return keys.every(key => block.properties[key] === undefined || String(actual[key]) === String(block.properties[key]));
+  }
+
+  static isDoubleSlab(block: Pick<SchematicBlock, 'name' | 'properties'>): boolean {
+    return block.name.endsWith('_slab') && block.properties.type === 'double';
+  }
+
+  /**
+   * 根据蓝图中的方块状态推算放置方式：点击哪个面、点击上半还是下半、放置前看向哪里
+   * 按原版规则：附着方块朝向点击面，楼梯/门/栅栏门/床朝向视线方向，熔炉、箱子、活塞等朝向玩家
+   */
+  static placementFor(block: Pick<SchematicBlock, 'name' | 'properties'>): PlacementOrientation {
+    const { name, properties } = block;
+    const facing = typeof properties.facing === 'string' ? DIRECTIONS[properties.facing] : undefined;
+    const half = properties.half === 'top' || properties.type === 'top' ? 'top'
+      : properties.half === 'bottom' || properties.type === 'bottom' || this.isDoubleSlab(block) ? 'bottom'
+        : undefined;
+
+    // 原木、石英柱等：轴向等于点击面所在的轴
+    if (typeof properties.axis === 'string') {
+      const axis = properties.axis === 'x' ? DIRECTIONS.east : properties.axis === 'z' ? DIRECTIONS.south : UP;
+      return { faces: [axis, axis.scaled(-1)] };
+    }
+
+    // 按钮、拉杆、砂轮：face 决定附着在哪个面
+    if (typeof properties.face === 'string' && facing) {
+      if (properties.face === 'wall') return { faces: [facing] };
+      return { faces: [properties.face === 'floor' ? UP : DOWN], look: this.lookToward(facing) };
+    }
+
+    if (facing && ATTACHED_BLOCK.test(name)) {
+      return { faces: [facing] };
+    }
+
+    // 活板门：贴在侧面时朝向点击面，放在顶面/底面时朝向玩家
+    if (facing && name.endsWith('_trapdoor')) {
+      return { faces: [facing, half === 'top' ? DOWN : UP], look: this.lookToward(facing.scaled(-1)), half };
+    }
+
+    // 漏斗：出口指向点击的方块
+    if (facing && name === 'hopper') {
+      return { faces: [facing.scaled(-1)] };
+    }
+
+    // 立式告示牌、旗帜、头颅：rotation 为 16 个方向之一
+    if (properties.rotation !== undefined) {
+      const rotation = Number(properties.rotation);
+      return { faces: [UP], look: { yaw: -rotation * Math.PI / 8, pitch: 0 } };
+    }
+
+    const faces = half === 'top' ? [DOWN, ...SIDES] : half === 'bottom' ? [UP, ...SIDES] : STANDING_BLOCK.test(name) ? [UP] : [];
+    if (!facing) return { faces, half };
+
+    // 门：点击位置决定铰链在左还是右
+    if (name.endsWith('_door') && typeof properties.hinge === 'string') {
+      return { faces: [UP], look: this.lookToward(facing), delta: this.doorHingeDelta(facing, properties.hinge) };
+    }
+
+    let look = facing.scaled(-1);
+    if (FACING_AWAY_BLOCK.test(name)) {
+      look = facing;
+    } else if (name.endsWith('anvil')) {
+      // 铁砧朝向视线方向顺时针转 90°
+      look = new Vec3(facing.z, 0, -facing.x);
+    }
+    return { faces, half, look: this.lookToward(look) };
+  }
+
+  /**
+   * 看向指定方向的 yaw/pitch（mineflayer 约定：yaw 0 为北，pitch 正值为向上）
+   */
+  private static lookToward(direction: Vec3): { yaw: number; pitch: number } {
+    return {
+      yaw: Math.atan2(-direction.x, -direction.z),
+      pitch: Math.sign(direction.y) * Math.PI / 2,
+    };
+  }
+
+  /**
+   * 门放在下方方块顶面时的点击位置：原版按点击点在门宽度方向上的哪一侧决定铰链
+   */
+  private static doorHingeDelta(facing: Vec3, hinge: string): Vec3 {
+    const side = hinge === 'right' ? 0.25 : 0.75;
+    // 朝北/朝东时右铰链在坐标较大的一侧
+    const flip = facing.z < 0 || facing.x > 0 ? 1 - side : side;
+    return facing.x !== 0 ? new Vec3(0.5, 1, flip) : new Vec3(flip, 1, 0.5);
+  }
+}
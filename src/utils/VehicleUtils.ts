@@ -0,0 +1,575 @@
+import { Bot } from 'mineflayer';
+import { Block } from 'prismarine-block';
+import { Entity } from 'prismarine-entity';
+import { Item } from 'prismarine-item';
+import { Vec3 } from 'vec3';
+import { MinecraftUtils } from './MinecraftUtils.js';
+import { GoalType, MovementUtils } from './MovementUtils.js';
+import { AbortUtils } from './AbortUtils.js';
+import { Logger } from './Logger.js';
+
+/**
+ * 载具类型
+ */
+export type VehicleType = 'boat' | 'minecart' | 'horse' | 'pig' | 'strider';
+
+/**
+ * 驾驶结果
+ */
+export interface SteerResult {
+  /** 是否到达目标附近 */
+  reached: boolean;
+  /** 结束时与目标的水平距离 */
+  distance: number;
+  /** 结束时载具的位置 */
+  position: { x: number; y: number; z: number };
+  /** 未到达时的原因 */
+  reason?: string;
+}
+
+/**
+ * 乘船横渡计划
+ */
+export interface BoatCrossing {
+  /** 上船处的水面方块 */
+  embark: Vec3;
+  /** 下船处的水面方块 */
+  disembark: Vec3;
+  /** 水面长度（格） */
+  length: number;
+}
+
+/** 可以装鞍骑乘的马类生物 */
+const HORSE_MOBS = ['horse', 'donkey', 'mule', 'camel', 'skeleton_horse', 'zombie_horse'];
+/** 控制猪和炽足兽需要手持的物品 */
+const STEERING_ITEMS: Partial<Record<VehicleType, string>> = {
+  pig: 'carrot_on_a_stick',
+  strider: 'warped_fungus_on_a_stick',
+};
+/** 客户端驾驶时每 tick 的水平移动距离（格） */
+const VEHICLE_SPEED: Record<VehicleType, number> = {
+  boat: 0.35,
+  minecart: 0.4,
+  horse: 0.45,
+  pig: 0.25,
+  strider: 0.15,
+};
+/** 马类生物的标志位：已驯服、已装鞍 */
+const HORSE_FLAG_TAMED = 0x02;
+const HORSE_FLAG_SADDLED = 0x04;
+/** 与载具交互的距离 */
+const REACH = 3;
+/** 乘船横渡的最短水面长度 */
+const MIN_CROSSING_LENGTH = 16;
+/** 规划横渡时沿直线检查的最远距离 */
+const CROSSING_SCAN_DISTANCE = 96;
+/** 连续多少 tick 无法前进视为受阻 */
+const STUCK_TICKS = 40;
+
+/**
+ * 载具工具类
+ * 提供放置、乘坐、驾驶、下车和收回船与矿车，以及为长距离水面规划乘船横渡。
+ * 矿车由服务端模拟，通过乘客输入推动；船和可骑乘生物由乘客客户端模拟，逐 tick 发送载具位置
+ */
+export class VehicleUtils {
+  private static logger = new Logger('VehicleUtils');
+
+  static getVehicleType(entity: Entity): VehicleType | null {
+    const name = entity.name ?? '';
+    if (name === 'boat' || name === 'chest_boat' || name.endsWith('_boat') || name.endsWith('_raft')) return 'boat';
+    if (name === 'minecart') return 'minecart';
+    if (HORSE_MOBS.includes(name)) return 'horse';
+    if (name === 'pig' || name === 'strider') return name;
+    return null;
+  }
+
+  /**
+   * 查找背包中的船或矿车物品
+   */
+  static findVehicleItem(bot: Bot, type: 'boat' | 'minecart'): Item | undefined {
+    return bot.inventory.items().find(item => this.isVehicleItem(item.name, type));
+  }
+
+  /**
+   * 检查能否乘坐并控制该载具
+   * @returns 不能乘坐的原因，可以乘坐时返回 null
+   */
+  static checkRideable(bot: Bot, entity: Entity): string | null {
+    const type = this.getVehicleType(entity);
+    if (!type) return `${entity.name} 不是可以乘坐的载具`;
+
+    const passengers = (entity.passengers ?? []).filter(passenger => passenger.id !== bot.entity.id);
+    if (passengers.length >= (type === 'boat' ? 2 : 1)) {
+      return `${entity.name} 上已经有乘客`;
+    }
+
+    if (type === 'horse') {
+      const flags = MinecraftUtils.getEntityMetadata(bot, entity, 'flags', 17);
+      const value = typeof flags === 'number' ? flags : 0;
+      // 骆驼不需要驯服
+      if (entity.name !== 'camel' && !(value & HORSE_FLAG_TAMED)) return `${entity.name} 还没有被驯服`;
+      if (!(value & HORSE_FLAG_SADDLED)) return `${entity.name} 没有装鞍，无法控制方向`;
+    }
+    if (type === 'pig' || type === 'strider') {
+      if (MinecraftUtils.getEntityMetadata(bot, entity, 'saddle', type === 'pig' ? 17 : 19) !== true) {
+        return `${entity.name} 没有装鞍`;
+      }
+      const item = STEERING_ITEMS[type]!;
+      if (!bot.inventory.items().some(invItem => invItem.name === item)) {
+        return `控制 ${entity.name} 需要背包中有 ${item}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 查找附近的载具，优先返回可以乘坐的
+   */
+  static findVehicle(bot: Bot, options: { type?: VehicleType; maxDistance: number; point?: Vec3 }): Entity | null {
+    const point = options.point ?? bot.entity.position;
+    const candidates = Object.values(bot.entities)
+      .filter(entity => {
+        const type = this.getVehicleType(entity);
+        return !!type && (!options.type || type === options.type) && entity.position.distanceTo(point) <= options.maxDistance;
+      })
+      .sort((a, b) => a.position.distanceTo(point) - b.position.distanceTo(point));
+    return candidates.find(entity => this.checkRideable(bot, entity) === null) ?? candidates[0] ?? null;
+  }
+
+  /**
+   * 查找水面方块（上方为空气的水）
+   */
+  static findWaterSurface(bot: Bot, maxDistance: number, point?: Vec3): Block | null {
+    const waterId = bot.registry.blocksByName.water?.id;
+    if (waterId === undefined) return null;
+    return bot.findBlock({
+      matching: (block: Block) => block.type === waterId,
+      useExtraInfo: (block: Block) => bot.blockAt(block.position.offset(0, 1, 0))?.name === 'air',
+      maxDistance,
+      point,
+    });
+  }
+
+  /**
+   * 查找铁轨方块
+   */
+  static findRail(bot: Bot, maxDistance: number, point?: Vec3): Block | null {
+    return bot.findBlock({
+      matching: (block: Block) => this.isRail(block),
+      maxDistance,
+      point,
+    });
+  }
+
+  static isRail(block: Block): boolean {
+    return block.name === 'rail' || block.name.endsWith('_rail');
+  }
+
+  /**
+   * 在水面放船或在铁轨上放矿车
+   * @param block 水面方块或铁轨方块
+   * @returns 放置出来的载具实体
+   */
+  static async placeVehicle(bot: Bot, type: 'boat' | 'minecart', block: Block, signal?: AbortSignal): Promise<Entity> {
+    const item = this.findVehicleItem(bot, type);
+    if (!item) throw new Error(`背包中没有${type === 'boat' ? '船' : '矿车'}`);
+    if (type === 'boat' && block.name !== 'water') throw new Error(`(${block.position.x}, ${block.position.y}, ${block.position.z}) 不是水面`);
+    if (type === 'minecart' && !this.isRail(block)) throw new Error(`(${block.position.x}, ${block.position.y}, ${block.position.z}) 不是铁轨`);
+
+    if (!await this.approach(bot, block.position, REACH, signal)) {
+      throw new Error(`无法靠近 (${block.position.x}, ${block.position.y}, ${block.position.z})`);
+    }
+    const known = new Set(Object.keys(bot.entities));
+    await bot.equip(item, 'hand');
+    if (type === 'boat') {
+      // 船通过物品使用时的视线（包含流体）放置在水面上
+      await bot.lookAt(block.position.offset(0.5, 0.9, 0.5), true);
+      bot.activateItem();
+    } else {
+      await bot.activateBlock(block);
+    }
+
+    const deadline = Date.now() + 2000;
+    while (Date.now() < deadline) {
+      await AbortUtils.sleep(100, signal);
+      const placed = Object.values(bot.entities).find(entity => !known.has(String(entity.id))
+        && this.getVehicleType(entity) === type
+        && entity.position.distanceTo(block.position.offset(0.5, 0.5, 0.5)) <= 2);
+      if (placed) return placed;
+    }
+    throw new Error(`未能在 (${block.position.x}, ${block.position.y}, ${block.position.z}) 放置${type === 'boat' ? '船' : '矿车'}`);
+  }
+
+  /**
+   * 乘上载具，猪和炽足兽会先装备控制物品
+   */
+  static async mount(bot: Bot, entity: Entity, signal?: AbortSignal): Promise<void> {
+    if (bot.entity.vehicle?.id === entity.id) return;
+    const problem = this.checkRideable(bot, entity);
+    if (problem) throw new Error(problem);
+    if (bot.entity.vehicle) await this.dismount(bot, signal);
+
+    if (!await this.approach(bot, entity.position, REACH, signal)) {
+      throw new Error(`无法靠近 ${entity.name}`);
+    }
+    await this.equipSteeringItem(bot, entity);
+    bot.mount(entity);
+    if (!await this.waitForVehicle(bot, true, signal) || bot.entity.vehicle?.id !== entity.id) {
+      throw new Error(`未能乘上 ${entity.name}`);
+    }
+  }
+
+  static async dismount(bot: Bot, signal?: AbortSignal): Promise<void> {
+    if (!bot.entity.vehicle) return;
+    bot.dismount();
+    if (!await this.waitForVehicle(bot, false, signal)) {
+      throw new Error('未能离开载具');
+    }
+  }
+
+  /**
+   * 驾驶当前乘坐的载具前往目标（只比较水平距离）
+   */
+  static async steerTo(
+    bot: Bot,
+    target: Vec3,
+    options: { arriveDistance?: number; timeoutMs?: number; signal?: AbortSignal } = {}
+  ): Promise<SteerResult> {
+    const vehicle = bot.entity.vehicle;
+    if (!vehicle) throw new Error('当前没有乘坐载具');
+    const type = this.getVehicleType(vehicle);
+    if (!type) throw new Error(`${vehicle.name} 无法驾驶`);
+
+    const arriveDistance = options.arriveDistance ?? 2;
+    const deadline = Date.now() + (options.timeoutMs ?? 120000);
+    await this.equipSteeringItem(bot, vehicle);
+    return type === 'minecart'
+      ? this.rideMinecart(bot, vehicle, target, arriveDistance, deadline, options.signal)
+      : this.drive(bot, vehicle, type, target, arriveDistance, deadline, options.signal);
+  }
+
+  /**
+   * 打掉船或矿车并拾取掉落的物品
+   * @returns 是否收回到背包
+   */
+  static async pickUp(bot: Bot, entity: Entity, signal?: AbortSignal): Promise<boolean> {
+    const type = this.getVehicleType(entity);
+    if (type !== 'boat' && type !== 'minecart') throw new Error(`${entity.name} 不能收回`);
+    if (bot.entity.vehicle?.id === entity.id) await this.dismount(bot, signal);
+
+    const countItems = () => bot.inventory.items()
+      .filter(item => this.isVehicleItem(item.name, type))
+      .reduce((sum, item) => sum + item.count, 0);
+    const before = countItems();
+    const position = entity.position.clone();
+
+    // 每次攻击都会累积伤害，连续攻击直到载具被打掉
+    for (let attempt = 0; attempt < 20 && bot.entities[entity.id]; attempt++) {
+      AbortUtils.throwIfAborted(signal);
+      if (entity.position.distanceTo(bot.entity.position) > REACH && !await this.approach(bot, entity.position, REACH - 1, signal)) {
+        return false;
+      }
+      bot.attack(entity);
+      await AbortUtils.sleep(200, signal);
+    }
+    if (bot.entities[entity.id]) return false;
+
+    const deadline = Date.now() + 5000;
+    while (Date.now() < deadline && countItems() <= before) {
+      const drop = bot.nearestEntity(e => e.name === 'item' && e.position.distanceTo(position) <= 4);
+      if (drop && drop.position.distanceTo(bot.entity.position) > 1 && !await this.approach(bot, drop.position, 0, signal)) {
+        break;
+      }
+      await AbortUtils.sleep(250, signal);
+    }
+    return countItems() > before;
+  }
+
+  /**
+   * 沿直线检查前往目标途中是否有足够长的水面，有船时返回横渡计划
+   */
+  static planBoatCrossing(bot: Bot, target: Vec3): BoatCrossing | null {
+    if (!this.findVehicleItem(bot, 'boat')) return null;
+    const start = bot.entity.position;
+    const dx = target.x - start.x;
+    const dz = target.z - start.z;
+    const length = Math.hypot(dx, dz);
+    const steps = Math.floor(Math.min(length, CROSSING_SCAN_DISTANCE));
+
+    let runStart: Vec3 | null = null;
+    let runEnd: Vec3 | null = null;
+    let runLength = 0;
+    for (let i = 1; i <= steps; i++) {
+      const surface = this.columnSurface(bot, new Vec3(start.x + dx / length * i, start.y, start.z + dz / length * i));
+      // 未加载的区块
+      if (surface === undefined) break;
+      if (surface) {
+        runStart = runStart ?? surface;
+        runEnd = surface;
+        runLength++;
+        continue;
+      }
+      if (runLength >= MIN_CROSSING_LENGTH) break;
+      runStart = runEnd = null;
+      runLength = 0;
+    }
+
+    if (!runStart || !runEnd || runLength < MIN_CROSSING_LENGTH) return null;
+    return { embark: runStart, disembark: runEnd, length: runLength };
+  }
+
+  /**
+   * 按横渡计划放船、驾驶到对岸、下船并收回船
+   */
+  static async crossByBoat(bot: Bot, crossing: BoatCrossing, signal?: AbortSignal): Promise<SteerResult> {
+    const water = bot.blockAt(crossing.embark);
+    if (!water || water.name !== 'water') throw new Error('上船处不是水面');
+
+    const boat = await this.placeVehicle(bot, 'boat', water, signal);
+    await this.mount(bot, boat, signal);
+    let result: SteerResult;
+    try {
+      result = await this.steerTo(bot, crossing.disembark.offset(0.5, 0, 0.5), {
+        arriveDistance: 1.5,
+        timeoutMs: crossing.length / VEHICLE_SPEED.boat * 50 * 2 + 10000,
+        signal,
+      });
+    } finally {
+      // 取消或驾驶出错时也要下船；下船失败只记录，避免掩盖原来的错误
+      try {
+        await this.dismount(bot);
+      } catch (err) {
+        this.logger.warn(`下船失败: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    if (!await this.pickUp(bot, boat, signal)) {
+      this.logger.warn('横渡后未能收回船');
+    }
+    return result;
+  }
+
+  /**
+   * 矿车由服务端模拟：朝目标方向给出前进输入，直到到达、停下或超时
+   */
+  private static async rideMinecart(
+    bot: Bot,
+    vehicle: Entity,
+    target: Vec3,
+    arriveDistance: number,
+    deadline: number,
+    signal?: AbortSignal
+  ): Promise<SteerResult> {
+    let lastPosition = vehicle.position.clone();
+    let stillSince = Date.now();
+    while (Date.now() < deadline) {
+      AbortUtils.throwIfAborted(signal);
+      if (bot.entity.vehicle?.id !== vehicle.id) return this.steerResult(vehicle, target, false, '已离开矿车');
+      if (this.horizontalDistance(vehicle.position, target) <= arriveDistance) return this.steerResult(vehicle, target, true);
+
+      await bot.lookAt(new Vec3(target.x, vehicle.position.y + 1, target.z), true);
+      bot.moveVehicle(0, 1);
+      await AbortUtils.sleep(250, signal);
+
+      if (vehicle.position.distanceTo(lastPosition) > 0.1) {
+        lastPosition = vehicle.position.clone();
+        stillSince = Date.now();
+      } else if (Date.now() - stillSince > 3000) {
+        return this.steerResult(vehicle, target, false, '矿车已停下（铁轨尽头或动力铁轨未激活）');
+      }
+    }
+    return this.steerResult(vehicle, target, false, '驾驶超时');
+  }
+
+  /**
+   * 船和可骑乘生物由乘客客户端模拟：每 tick 沿可通行的方向前进并发送载具位置
+   */
+  private static async drive(
+    bot: Bot,
+    vehicle: Entity,
+    type: VehicleType,
+    target: Vec3,
+    arriveDistance: number,
+    deadline: number,
+    signal?: AbortSignal
+  ): Promise<SteerResult> {
+    const speed = VEHICLE_SPEED[type];
+    let stuckTicks = 0;
+    try {
+      while (Date.now() < deadline) {
+        await this.nextTick(bot, signal);
+        if (bot.entity.vehicle?.id !== vehicle.id) return this.steerResult(vehicle, target, false, `已离开 ${vehicle.name}`);
+
+        const position = vehicle.position;
+        const distance = this.horizontalDistance(position, target);
+        if (distance <= arriveDistance) return this.steerResult(vehicle, target, true);
+
+        // 正前方受阻时依次尝试左右偏转
+        const heading = Math.atan2(-(target.x - position.x), -(target.z - position.z));
+        const step = Math.min(speed, distance);
+        let moved = false;
+        for (const turn of [0, Math.PI / 4, -Math.PI / 4, Math.PI / 2, -Math.PI / 2]) {
+          const yaw = heading + turn;
+          const next = position.offset(-Math.sin(yaw) * step, 0, -Math.cos(yaw) * step);
+          const y = this.nextHeight(bot, type, next, position.y);
+          if (y === null) continue;
+          this.sendVehicleMove(bot, vehicle, type, new Vec3(next.x, y, next.z), yaw);
+          moved = true;
+          break;
+        }
+
+        stuckTicks = moved ? 0 : stuckTicks + 1;
+        if (stuckTicks >= STUCK_TICKS) {
+          return this.steerResult(vehicle, target, false, type === 'boat' ? '前方没有可以通行的水面' : '前方受阻');
+        }
+      }
+      return this.steerResult(vehicle, target, false, '驾驶超时');
+    } finally {
+      if (type === 'boat') {
+        bot._client.write('steer_boat', { leftPaddle: false, rightPaddle: false });
+      }
+    }
+  }
+
+  /**
+   * 等待下一个物理 tick，取消时立即抛出
+   */
+  private static nextTick(bot: Bot, signal?: AbortSignal): Promise<void> {
+    AbortUtils.throwIfAborted(signal);
+    return new Promise<void>((resolve, reject) => {
+      const onTick = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        bot.removeListener('physicsTick', onTick);
+        reject(AbortUtils.createAbortError(signal?.reason));
+      };
+      bot.once('physicsTick', onTick);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * 计算载具移动到下一个水平位置后的高度，不可通行时返回 null
+   */
+  private static nextHeight(bot: Bot, type: VehicleType, next: Vec3, currentY: number): number | null {
+    const isEmpty = (block: Block | null) => !!block && block.boundingBox === 'empty' && block.name !== 'lava';
+
+    if (type === 'boat') {
+      // 船浮在水面上，只在上方为空气的水面移动
+      for (const dy of [0, -1]) {
+        const water = bot.blockAt(new Vec3(next.x, Math.floor(currentY) + dy, next.z));
+        if (water?.name === 'water' && bot.blockAt(water.position.offset(0, 1, 0))?.name === 'air') {
+          return water.position.y + 0.9;
+        }
+      }
+      return null;
+    }
+
+    // 陆地坐骑：马可以跳上一格，其他坐骑只能走平地或下坡
+    const feetY = Math.floor(currentY + 0.01);
+    for (const dy of type === 'horse' ? [0, 1, -1, -2, -3] : [0, -1, -2, -3]) {
+      const feet = new Vec3(next.x, feetY + dy, next.z);
+      const ground = bot.blockAt(feet.offset(0, -1, 0));
+      const standable = ground?.boundingBox === 'block' || (type === 'strider' && ground?.name === 'lava');
+      if (!standable) continue;
+      if (!isEmpty(bot.blockAt(feet)) || !isEmpty(bot.blockAt(feet.offset(0, 1, 0)))) continue;
+      // 下坡时前方同一高度也需要可以通过
+      if (dy < 0 && !isEmpty(bot.blockAt(new Vec3(next.x, feetY, next.z)))) continue;
+      return feet.y;
+    }
+    return null;
+  }
+
+  private static sendVehicleMove(bot: Bot, vehicle: Entity, type: VehicleType, position: Vec3, yaw: number): void {
+    vehicle.position = position;
+    vehicle.yaw = yaw;
+    bot.entity.position = position.clone();
+    bot.entity.yaw = yaw;
+    bot._client.write('vehicle_move', {
+      x: position.x,
+      y: position.y,
+      z: position.z,
+      // 协议使用角度制，0 为南方
+      yaw: (Math.PI - yaw) * 180 / Math.PI,
+      pitch: 0,
+    });
+    if (type === 'boat') {
+      bot._client.write('steer_boat', { leftPaddle: true, rightPaddle: true });
+    }
+  }
+
+  /**
+   * 检查一列方块的地表：水面返回水方块位置，陆地返回 null，未加载返回 undefined
+   */
+  private static columnSurface(bot: Bot, point: Vec3): Vec3 | null | undefined {
+    const baseY = Math.floor(point.y);
+    for (let y = baseY + 1; y >= baseY - 4; y--) {
+      const block = bot.blockAt(new Vec3(point.x, y, point.z));
+      if (!block) return undefined;
+      if (block.name === 'water') {
+        return bot.blockAt(block.position.offset(0, 1, 0))?.name === 'air' ? block.position : null;
+      }
+      if (block.boundingBox === 'block') return null;
+    }
+    return null;
+  }
+
+  private static async equipSteeringItem(bot: Bot, entity: Entity): Promise<void> {
+    const type = this.getVehicleType(entity);
+    const itemName = type ? STEERING_ITEMS[type] : undefined;
+    if (!itemName || bot.heldItem?.name === itemName) return;
+    const item = bot.inventory.items().find(invItem => invItem.name === itemName);
+    if (item) await bot.equip(item, 'hand');
+  }
+
+  private static async waitForVehicle(bot: Bot, mounted: boolean, signal?: AbortSignal): Promise<boolean> {
+    const deadline = Date.now() + 3000;
+    while (Date.now() < deadline) {
+      if (!!bot.entity.vehicle === mounted) return true;
+      await AbortUtils.sleep(100, signal);
+    }
+    return !!bot.entity.vehicle === mounted;
+  }
+
+  /**
+   * 移动到位置附近
+   * @returns 是否已在范围内
+   */
+  private static async approach(bot: Bot, position: Vec3, range: number, signal?: AbortSignal): Promise<boolean> {
+    if (bot.entity.position.distanceTo(position) <= Math.max(range, 1)) return true;
+    const result = await MovementUtils.moveTo(bot, {
+      type: 'coordinate',
+      x: position.x,
+      y: position.y,
+      z: position.z,
+      distance: range,
+      maxDistance: 100,
+      useRelativeCoords: false,
+      goalType: GoalType.GoalNear,
+      signal
+    });
+    if (!result.success) {
+      this.logger.warn(`移动到 (${position.x.toFixed(1)}, ${position.y.toFixed(1)}, ${position.z.toFixed(1)}) 附近失败: ${result.error}`);
+    }
+    return result.success;
+  }
+
+  private static isVehicleItem(name: string, type: 'boat' | 'minecart'): boolean {
+    return type === 'boat' ? name.endsWith('_boat') || name.endsWith('_raft') : name === 'minecart';
+  }
+
+  private static horizontalDistance(a: Vec3, b: Vec3): number {
+    return Math.hypot(a.x - b.x, a.z - b.z);
+  }
+
+  private static steerResult(vehicle: Entity, target: Vec3, reached: boolean, reason?: string): SteerResult {
+    const { x, y, z } = vehicle.position;
+    return {
+      reached,
+      distance: Number(this.horizontalDistance(vehicle.position, target).toFixed(1)),
+      position: { x: Number(x.toFixed(1)), y: Number(y.toFixed(1)), z: Number(z.toFixed(1)) },
+      reason,
+    };
+  }
+}
@@ -0,0 +1,159 @@
+import { Bot, Villager } from 'mineflayer';
+import { Entity } from 'prismarine-entity';
+import { Item } from 'prismarine-item';
+import { Vec3 } from 'vec3';
+import type { MinecraftClient } from '../minecraft/MinecraftClient.js';
+import type { TradeOfferSummary } from '../minecraft/WorldMemory.js';
+import { MovementUtils, GoalType } from './MovementUtils.js';
+
+/** 可以交易的实体 */
+const TRADER_ENTITIES = ['villager', 'wandering_trader'];
+
+/** villager_data 中职业编号对应的名称（1.14+ 注册表顺序） */
+const PROFESSIONS = [
+  'none', 'armorer', 'butcher', 'cartographer', 'cleric', 'farmer', 'fisherman', 'fletcher',
+  'leatherworker', 'librarian', 'mason', 'nitwit', 'shepherd', 'toolsmith', 'weaponsmith'
+];
+
+export interface VillagerTarget {
+  entityId?: number;
+  /** 目标位置，选择离该位置最近的村民 */
+  position?: { x: number; y: number; z: number };
+  profession?: string;
+  /** 搜索范围，默认 16 */
+  maxDistance?: number;
+}
+
+/**
+ * 村民交易工具类
+ * 提供村民查找、职业识别、交易列表摘要和交易记忆等功能
+ */
+export class VillagerUtils {
+
+  static isTrader(entity: Entity | null | undefined): entity is Entity {
+    return Boolean(entity?.name && TRADER_ENTITIES.includes(entity.name));
+  }
+
+  /**
+   * 从实体元数据中读取村民职业和等级
+   */
+  static getProfession(entity: Entity): { profession: string; level?: number } {
+    if (entity.name === 'wandering_trader') return { profession: 'wandering_trader' };
+
+    const data = (entity.metadata as any[]).find(value => value && typeof value === 'object' && 'villagerProfession' in value);
+    if (!data) return { profession: 'unknown' };
+    const id = Number(data.villagerProfession);
+    return {
+      profession: PROFESSIONS[id] ?? `profession_${id}`,
+      level: data.level !== undefined ? Number(data.level) : undefined,
+    };
+  }
+
+  /**
+   * 查找村民：指定实体 ID 时直接返回，否则返回离参照位置最近且职业匹配的村民
+   */
+  static findVillager(bot: Bot, target: VillagerTarget = {}): Entity | null {
+    if (target.entityId !== undefined) {
+      const entity = bot.entities[target.entityId];
+      return this.isTrader(entity) ? entity : null;
+    }
+
+    const reference = target.position
+      ? new Vec3(target.position.x, target.position.y, target.position.z)
+      : bot.entity.position;
+    const maxDistance = target.maxDistance ?? 16;
+
+    let best: Entity | null = null;
+    let bestDistance = Infinity;
+    for (const entity of Object.values(bot.entities)) {
+      if (!this.isTrader(entity)) continue;
+      if (target.profession && this.getProfession(entity).profession !== target.profession) continue;
+      const distance = entity.position.distanceTo(reference);
+      if (distance > maxDistance || distance >= bestDistance) continue;
+      best = entity;
+      bestDistance = distance;
+    }
+    return best;
+  }
+
+  /**
+   * 走到村民旁边并打开交易界面
+   * @param signal 取消信号，传给寻路
+   */
+  static async open(bot: Bot, entity: Entity, signal?: AbortSignal): Promise<Villager> {
+    if (bot.entity.position.distanceTo(entity.position) > 3) {
+      await MovementUtils.moveTo(bot, {
+        type: 'coordinate',
+        x: entity.position.x,
+        y: entity.position.y,
+        z: entity.position.z,
+        distance: 2,
+        maxDistance: 64,
+        useRelativeCoords: false,
+        goalType: GoalType.GoalNear,
+        signal
+      });
+    }
+    return await bot.openVillager(entity);
+  }
+
+  /**
+   * 生成交易列表摘要（价格为计入需求和声望后的实际价格）
+   */
+  static summarizeTrades(villager: Villager): TradeOfferSummary[] {
+    return (villager.trades ?? []).map((trade, index) => {
+      const inputs = [{ name: trade.inputItem1.name, count: trade.realPrice ?? trade.inputItem1.count }];
+      if (trade.hasItem2 && trade.inputItem2) {
+        inputs.push({ name: trade.inputItem2.name, count: trade.inputItem2.count });
+      }
+      const enchantments = this.enchantmentsOf(trade.outputItem);
+      return {
+        index,
+        inputs,
+        output: {
+          name: trade.outputItem.name,
+          count: trade.outputItem.count,
+          ...(enchantments.length > 0 ? { enchantments } : {}),
+        },
+        uses: trade.nbTradeUses,
+        maxUses: trade.maximumNbTradeUses,
+        stock: Math.max(0, trade.maximumNbTradeUses - trade.nbTradeUses),
+        disabled: trade.tradeDisabled,
+        xp: trade.xp,
+      };
+    });
+  }
+
+  /**
+   * 将村民的职业和交易列表记入世界记忆
+   */
+  static remember(bot: Bot, entity: Entity, trades: TradeOfferSummary[]): void {
+    const client = (bot as any).client as MinecraftClient | undefined;
+    const memory = client?.getWorldMemory?.();
+    if (!memory) return;
+
+    const { profession, level } = this.getProfession(entity);
+    memory.recordVillager({
+      uuid: entity.uuid,
+      entityId: entity.id,
+      profession,
+      level,
+      position: { x: entity.position.x, y: entity.position.y, z: entity.position.z },
+      dimension: memory.dimensionOf(bot),
+      trades,
+    });
+  }
+
+  static formatTrade(trade: TradeOfferSummary): string {
+    const inputs = trade.inputs.map(input => `${input.name} × ${input.count}`).join(' + ');
+    return `#${trade.index} ${inputs} → ${trade.output.name} × ${trade.output.count}（剩余 ${trade.stock}/${trade.maxUses}）`;
+  }
+
+  private static enchantmentsOf(item: Item): Array<{ name: string; level: number }> {
+    try {
+      return (item.enchants ?? []).map(enchant => ({ name: enchant.name, level: enchant.lvl }));
+    } catch {
+      return [];
+    }
+  }
+}
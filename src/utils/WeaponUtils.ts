@@ -1,5 +1,6 @@
 import { Bot } from 'mineflayer';
 import { Entity } from 'prismarine-entity';
+import { Item } from 'prismarine-item';
 
 /**
  * 武器工具类
@@ -61,6 +62,62 @@ export class WeaponUtils {
     'trident', // 三叉戟也可以近战
   ];
 
+  /**
+   * 材质等级（用于工具评分）
+   */
+  private static readonly MATERIAL_TIERS: Record<string, number> = {
+    wooden: 1,
+    golden: 1,
+    stone: 2,
+    iron: 3,
+    diamond: 4,
+    netherite: 5,
+  };
+
+  /**
+   * 近战武器的攻击伤害和攻击速度（Java 版 1.9+）
+   */
+  private static readonly MELEE_STATS: Record<string, { damage: number; speed: number }> = {
+    netherite_sword: { damage: 8, speed: 1.6 },
+    diamond_sword: { damage: 7, speed: 1.6 },
+    iron_sword: { damage: 6, speed: 1.6 },
+    stone_sword: { damage: 5, speed: 1.6 },
+    golden_sword: { damage: 4, speed: 1.6 },
+    wooden_sword: { damage: 4, speed: 1.6 },
+    netherite_axe: { damage: 10, speed: 1.0 },
+    diamond_axe: { damage: 9, speed: 1.0 },
+    iron_axe: { damage: 9, speed: 0.9 },
+    stone_axe: { damage: 9, speed: 0.8 },
+    golden_axe: { damage: 7, speed: 1.0 },
+    wooden_axe: { damage: 7, speed: 0.8 },
+    netherite_pickaxe: { damage: 6, speed: 1.2 },
+    diamond_pickaxe: { damage: 5, speed: 1.2 },
+    iron_pickaxe: { damage: 4, speed: 1.2 },
+    trident: { damage: 9, speed: 1.1 },
+  };
+
+  /**
+   * 护甲的防御点数（按材质和部位）与盔甲韧性
+   */
+  private static readonly ARMOR_DEFENSE: Record<string, { head: number; torso: number; legs: number; feet: number; toughness: number }> = {
+    leather: { head: 1, torso: 3, legs: 2, feet: 1, toughness: 0 },
+    golden: { head: 2, torso: 5, legs: 3, feet: 1, toughness: 0 },
+    chainmail: { head: 2, torso: 5, legs: 4, feet: 1, toughness: 0 },
+    iron: { head: 2, torso: 6, legs: 5, feet: 2, toughness: 0 },
+    diamond: { head: 3, torso: 8, legs: 6, feet: 3, toughness: 2 },
+    netherite: { head: 3, torso: 8, legs: 6, feet: 3, toughness: 3 },
+  };
+
+  /**
+   * 护甲名称后缀对应的装备槽位
+   */
+  private static readonly ARMOR_SLOTS: Record<string, 'head' | 'torso' | 'legs' | 'feet'> = {
+    helmet: 'head',
+    chestplate: 'torso',
+    leggings: 'legs',
+    boots: 'feet',
+  };
+
   /**
    * 检测生物是否为飞行生物
    */
@@ -95,19 +152,98 @@ export class WeaponUtils {
   }
 
   /**
-   * 获取背包中最佳的近战武器
+   * 获取背包中最佳的近战武器（按 scoreMeleeWeapon 评分）
    */
   static getBestMeleeWeapon(bot: Bot): any | null {
-    const inventory = bot.inventory.items();
-    
-    for (const weaponName of this.MELEE_WEAPONS) {
-      const weapon = inventory.find(item => item.name === weaponName);
-      if (weapon) {
-        return weapon;
+    const inventory = bot.inventory.items().filter(item => this.MELEE_WEAPONS.includes(item.name));
+    return this.pickBest(inventory, item => this.scoreMeleeWeapon(item));
+  }
+
+  /**
+   * 获取附魔等级
+   */
+  private static getEnchantLevel(item: Item, enchantName: string): number {
+    return (item.enchants ?? []).find(enchant => enchant.name === enchantName)?.lvl ?? 0;
+  }
+
+  /**
+   * 从物品列表中选出评分最高的物品（评分为 0 的不计）
+   */
+  private static pickBest(items: Item[], score: (item: Item) => number): Item | null {
+    let best: Item | null = null;
+    let bestScore = 0;
+    for (const item of items) {
+      const itemScore = score(item);
+      if (itemScore > bestScore) {
+        best = item;
+        bestScore = itemScore;
       }
     }
-    
-    return null;
+    return best;
+  }
+
+  /**
+   * 近战武器评分：每秒伤害（攻击伤害 × 攻击速度），计入锋利附魔；非武器返回 0
+   */
+  static scoreMeleeWeapon(item: Item): number {
+    const stats = this.MELEE_STATS[item.name];
+    if (!stats) return 0;
+    const sharpness = this.getEnchantLevel(item, 'sharpness');
+    const bonus = sharpness > 0 ? 0.5 * sharpness + 0.5 : 0;
+    return (stats.damage + bonus) * stats.speed;
+  }
+
+  /**
+   * 获取护甲对应的装备槽位，非护甲返回 null
+   */
+  static getArmorSlot(itemName: string): 'head' | 'torso' | 'legs' | 'feet' | null {
+    if (itemName === 'turtle_helmet') return 'head';
+    const suffix = itemName.split('_').pop() ?? '';
+    const material = itemName.slice(0, -(suffix.length + 1));
+    return this.ARMOR_DEFENSE[material] ? this.ARMOR_SLOTS[suffix] ?? null : null;
+  }
+
+  /**
+   * 护甲评分：防御点数 + 盔甲韧性，计入保护附魔；非护甲返回 0
+   */
+  static scoreArmor(item: Item): number {
+    const slot = this.getArmorSlot(item.name);
+    if (!slot) return 0;
+    const protection = this.getEnchantLevel(item, 'protection');
+    if (item.name === 'turtle_helmet') return 2 + protection * 0.5;
+    const stats = this.ARMOR_DEFENSE[item.name.slice(0, item.name.lastIndexOf('_'))];
+    return stats[slot] + stats.toughness + protection * 0.5;
+  }
+
+  /**
+   * 工具评分：材质等级，计入效率附魔；不是指定类型的工具返回 0
+   * @param toolType pickaxe | axe | shovel | hoe
+   */
+  static scoreTool(item: Item, toolType: string): number {
+    const [material, type] = item.name.split('_');
+    if (type !== toolType || !this.MATERIAL_TIERS[material]) return 0;
+    return this.MATERIAL_TIERS[material] + this.getEnchantLevel(item, 'efficiency') * 0.5;
+  }
+
+  /**
+   * 获取背包中每个部位评分最高的护甲
+   */
+  static getBestArmor(bot: Bot): Record<'head' | 'torso' | 'legs' | 'feet', Item | null> {
+    const items = bot.inventory.items();
+    const bestFor = (slot: string) => this.pickBest(items.filter(item => this.getArmorSlot(item.name) === slot), item => this.scoreArmor(item));
+    return {
+      head: bestFor('head'),
+      torso: bestFor('torso'),
+      legs: bestFor('legs'),
+      feet: bestFor('feet'),
+    };
+  }
+
+  /**
+   * 获取背包中评分最高的指定类型工具
+   */
+  static getBestTool(bot: Bot, toolType: string): Item | null {
+    return this.pickBest(bot.inventory.items(), item => this.scoreTool(item, toolType));
   }
 
   /**